@@ -1,3 +1,8 @@
+import path from "path";
+
+// Served statically at the root of the API, from src/ and dist/ alike
+export const PUBLIC_DIR = path.join(__dirname, "../../public");
+
 export const SECRETS = {
   mail: {
     email: process.env.MAIL_USERNAME,
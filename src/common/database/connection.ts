@@ -1,5 +1,6 @@
-import mongoose from "mongoose";
+import mongoose, { ClientSession } from "mongoose";
 import logger from "../middleware/logger";
+import { ServerException } from "../middleware/errors";
 
 mongoose.set("strictQuery", true);
 
@@ -33,6 +34,34 @@ function attachConnectionEventListeners() {
   );
 }
 
+let transactionSupport: Promise<boolean> | undefined;
+
+/**
+ * Start a session to run a transaction in. A standalone server rejects
+ * transactions, so the operation fails with a clear error there while the
+ * rest of the API keeps working.
+ */
+export async function startTransactionSession(): Promise<ClientSession> {
+  transactionSupport ??= mongoose.connection
+    .db!.admin()
+    .command({ hello: 1 })
+    .then((hello) => !!hello.setName || hello.msg === "isdbgrid");
+  // A failed check is retried on the next call
+  const supported = await transactionSupport.catch((error) => {
+    transactionSupport = undefined;
+    throw error;
+  });
+
+  if (!supported) {
+    throw new ServerException(
+      "This operation needs MongoDB to run as a replica set or sharded cluster",
+      503
+    );
+  }
+
+  return mongoose.startSession();
+}
+
 async function connectDB(url: string) {
   if (!url) throw new Error("Connection string required");
 
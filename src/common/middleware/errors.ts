@@ -4,10 +4,12 @@ import logger from "./logger";
 
 export class CustomError extends Error {
   public statusCode: number;
+  public details?: unknown; // extra context returned to the client
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, details?: unknown) {
     super(message);
     this.statusCode = statusCode;
+    this.details = details;
     this.name = this.constructor.name;
     Error.captureStackTrace(this, this.constructor);
   }
@@ -25,6 +27,12 @@ export class UnauthorizedException extends CustomError {
   }
 }
 
+export class ForbiddenException extends CustomError {
+  constructor(message = "Forbidden", statusCode = 403, details?: unknown) {
+    super(message, statusCode, details);
+  }
+}
+
 export class NotFoundException extends CustomError {
   constructor(message = "Not Found", statusCode = 404) {
     super(message, statusCode);
@@ -70,7 +78,10 @@ export function AppErrorHandler(
 
   if (err instanceof CustomError) {
     logger.warn(`CustomError: ${err.message}`);
-    return res.status(err.statusCode).json({ message: err.message });
+    return res.status(err.statusCode).json({
+      message: err.message,
+      ...(err.details !== undefined && { details: err.details }),
+    });
   }
 
   if (err instanceof Error) {
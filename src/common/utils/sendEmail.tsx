@@ -10,6 +10,8 @@ import { VerifyEmail } from "../../shared/emails/VerifyEmail";
 import { ResetPasswordEmail } from "../../shared/emails/ResetPasswordEmail";
 import { PhoneVerificationEmail } from "../../shared/emails/PhoneVerificationEmail";
 import InternshipStatusEmail from "../../shared/emails/InternshipStatusEmail";
+import QuizGradedEmail from "../../shared/emails/QuizGradedEmail";
+import ContentReleasedEmail from "../../shared/emails/ContentReleasedEmail";
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -21,7 +23,9 @@ interface EmailOptions {
     | "verify"
     | "reset-password"
     | "phone-verification"
-    | "internship-status";
+    | "internship-status"
+    | "quiz-graded"
+    | "content-released";
   data: any;
 }
 
@@ -63,6 +67,30 @@ export async function sendEmail({ to, type, data }: EmailOptions) {
         subject = `Your Internship Application Status: ${data.status}`;
         break;
         break;
+      case "quiz-graded":
+        html = await render(
+          <QuizGradedEmail
+            name={data.name}
+            quizTitle={data.quizTitle}
+            courseTitle={data.courseTitle}
+            score={data.score}
+            passed={data.passed}
+            resultsUrl={data.resultsUrl}
+          />
+        );
+        subject = `Your quiz has been graded: ${data.quizTitle}`;
+        break;
+      case "content-released":
+        html = await render(
+          <ContentReleasedEmail
+            name={data.name}
+            courseTitle={data.courseTitle}
+            titles={data.titles}
+            courseUrl={data.courseUrl}
+          />
+        );
+        subject = `New material is available in ${data.courseTitle}`;
+        break;
         default:
           throw new Error(`Unsupported email type: ${type}`);
         }
@@ -25,11 +25,13 @@ const upload = multer({ dest: "uploads/" });
 ---------------------------- */
 export const uploadToCloudinary = async (
   filePath: string,
-  folder = "hexonest"
+  folder = "hexonest",
+  resourceType: "image" | "raw" | "auto" = "image" // "auto" for documents and archives
 ) => {
   try {
     const result = await cloudinary.uploader.upload(filePath, {
       folder,
+      resource_type: resourceType,
     });
     fs.unlinkSync(filePath); // remove temp file
     return result.secure_url;
@@ -40,7 +42,27 @@ export const uploadToCloudinary = async (
 };
 
 /* ----------------------------
-   4. EXPRESS ROUTE HANDLER
+   4. UPLOADED FILE URLS
+---------------------------- */
+// Whether a URL points at a file uploaded to this app's Cloudinary cloud
+export const isUploadedFileUrl = (url: string): boolean => {
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  if (!cloudName) return false;
+
+  try {
+    const { protocol, hostname, pathname } = new URL(url);
+    return (
+      protocol === "https:" &&
+      hostname === "res.cloudinary.com" &&
+      pathname.startsWith(`/${cloudName}/`)
+    );
+  } catch {
+    return false;
+  }
+};
+
+/* ----------------------------
+   5. EXPRESS ROUTE HANDLER
 ---------------------------- */
 export const uploadImageHandler = [
   upload.single("image"),
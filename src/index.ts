@@ -15,8 +15,10 @@ import morgan from "morgan";
 import logger from "./common/middleware/logger";
 import { AppErrorHandler, NotFoundException } from "./common/middleware/errors";
 import connectDB from "./common/database/connection";
-import { SECRETS } from "./common/constant";
+import { PUBLIC_DIR, SECRETS } from "./common/constant";
 import deepSanitize from "./common/utils/sanitze";
+import { startCourseJobs } from "./module/course/jobs";
+import { setScormHeaders } from "./module/course/utils/scorm";
 
 const app = express();
 
@@ -24,7 +26,7 @@ const apiRouter = express.Router();
 
 app.set("view engine", "ejs");
 app.set("views", path.join(__dirname, "views"));
-app.use(express.static(path.join(__dirname, "../public")));
+app.use(express.static(PUBLIC_DIR, { setHeaders: setScormHeaders }));
 // Allow larger payloads
 // app.use(bodyParser.json({ limit: "100mb" }));
 // app.use(bodyParser.urlencoded({ limit: "100mb", extended: true }));
@@ -126,6 +128,7 @@ const start = async () => {
   try {
     if (!MONGO_URI) throw new Error("MONGO_URI is missing");
     await connectDB(MONGO_URI);
+    startCourseJobs();
     app.listen(port, () => {
       logger.info(`Server running on port ${port}...`);
     });
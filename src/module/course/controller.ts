@@ -1,7 +1,17 @@
 import { Request, Response } from "express";
 import catchAsync from "../../shared/request";
-import { Course, CourseEnrollment, CourseReview } from "./model";
+import {
+  Content,
+  Course,
+  CourseEnrollment,
+  CourseReview,
+  Module,
+  Quiz,
+  Resource,
+} from "./models";
 import { CourseService } from "./service";
+import { QuizScoreService } from "./services/quiz-score.service";
+import { GradebookService } from "./services/gradebook.service";
 import { paginate } from "../../common/utils/pagination";
 import {
   createCourseSchema,
@@ -82,7 +92,7 @@ export class CourseController {
     });
   });
 
-      /**
+  /**
    * GET /courses/:slugOrId - Get single course by slug or ID
    */
   static findOne = catchAsync(async (req: Request, res: Response) => {
@@ -251,7 +261,13 @@ export class CourseController {
     } else {
       // Hard delete
       await Course.findByIdAndDelete(id);
-      await CourseReview.deleteMany({ course: id });
+      await Promise.all([
+        CourseReview.deleteMany({ course: id }),
+        Module.deleteMany({ course: id }),
+        Content.deleteMany({ course: id }),
+        Quiz.deleteMany({ course: id }),
+        Resource.deleteMany({ course: id }),
+      ]);
 
       return res.json({
         status: true,
@@ -345,6 +361,24 @@ export class CourseController {
     const userId = (req as any).user.id;
     const validatedData = updateProgressSchema.parse(req.body);
 
+    const content = await Content.findOne({
+      _id: validatedData.contentId,
+      course: id,
+      isActive: true,
+    });
+    if (content?.type === "assignment") {
+      return res.status(400).json({
+        status: false,
+        message: "Assignments are completed once they are graded",
+      });
+    }
+    if (content?.type === "scorm") {
+      return res.status(400).json({
+        status: false,
+        message: "SCORM lessons are completed from the status they report",
+      });
+    }
+
     const enrollment = await CourseService.updateProgress(
       id,
       userId,
@@ -383,6 +417,7 @@ export class CourseController {
       data: {
         score: result.score,
         passed: result.passed,
+        attempt: result.attempt,
         enrollment: result.enrollment,
       },
     });
@@ -398,19 +433,40 @@ export class CourseController {
     const enrollment = await CourseEnrollment.findOne({
       user: userId,
       course: id,
-    }).populate("course", "title modules");
+    }).populate(
+      "course",
+      "title slug totalModules totalLessons totalQuizzes certificate gradingPolicy"
+    );
 
-    if (!enrollment) {
+    if (!enrollment || !enrollment.course) {
       return res.status(404).json({
         status: false,
         message: "Enrollment not found",
       });
     }
 
+    const { requiredQuizzesPassed, quizzes } =
+      await QuizScoreService.getCertificateQuizStatus(id, userId);
+    const { grades } = await GradebookService.getStudentGrades(
+      enrollment.course as any,
+      [userId],
+      { releasedOnly: true }
+    );
+    const grade = grades.get(userId)!;
+
     return res.json({
       status: true,
       message: "Progress retrieved successfully",
-      data: { enrollment },
+      data: {
+        enrollment,
+        quizScores: quizzes,
+        completionScore: grade.finalScore ?? 100,
+        grade: grade.letter,
+        certificateEligible:
+          !!(enrollment.course as any)?.certificate &&
+          enrollment.status === "completed" &&
+          requiredQuizzesPassed,
+      },
     });
   });
 
@@ -686,10 +742,12 @@ export class CourseController {
         });
       }
 
+      const modules = await CourseService.getCourseOutline(course.id, true);
+
       res.status(200).json({
         success: true,
         message: "Course retrieved successfully",
-        data: { course },
+        data: { course: { ...course.toObject(), modules } },
       });
     }
   );
@@ -773,6 +831,11 @@ export class CourseController {
         await CourseReview.deleteMany({
           course: { $in: validatedData.courseIds },
         });
+        await Promise.all(
+          [Module, Content, Quiz, Resource].map((model: any) =>
+            model.deleteMany({ course: { $in: validatedData.courseIds } })
+          )
+        );
 
         return res.json({
           status: true,
@@ -0,0 +1,169 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { AssignmentService } from "../services/assignment.service";
+import { PeerReviewService } from "../services/peer-review.service";
+import { CourseAccessService } from "../services/course-access.service";
+import {
+  gradeSubmissionSchema,
+  submissionQuerySchema,
+  submissionQueueSchema,
+  submitAssignmentSchema,
+} from "../validation/assignment";
+
+export class AssignmentController {
+  /**
+   * POST /courses/:id/assignments/:contentId/submissions - Submit files for
+   * an assignment (multipart, field "files")
+   */
+  static submit = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    try {
+      const validatedData = submitAssignmentSchema.parse(req.body ?? {});
+
+      const submission = await AssignmentService.submitAssignment(
+        id,
+        contentId,
+        (req as any).user.id,
+        files,
+        validatedData
+      );
+
+      return res.status(201).json({
+        status: true,
+        message: submission.isLate
+          ? "Assignment submitted after the due date"
+          : "Assignment submitted successfully",
+        data: submission,
+      });
+    } finally {
+      await AssignmentService.removeTempFiles(files);
+    }
+  });
+
+  /**
+   * GET /courses/:id/assignments/:contentId/submissions/me - Own submissions
+   */
+  static mySubmissions = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+
+    const submissions = await AssignmentService.getUserSubmissions(
+      id,
+      contentId,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Submissions retrieved successfully",
+      data: submissions,
+    });
+  });
+
+  /**
+   * GET /courses/:id/assignments/:contentId/submissions - Latest submission
+   * of each student (Owner/Admin). Filter with ?status=&user=
+   */
+  static findAll = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+    const validatedQuery = submissionQuerySchema.parse(req.query);
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "content:manage_all"
+    );
+    const content = await AssignmentService.getCourseAssignment(id, contentId);
+
+    const result = await AssignmentService.getSubmissions(
+      content,
+      validatedQuery
+    );
+
+    return res.json({
+      status: true,
+      message: "Submissions retrieved successfully",
+      ...result,
+    });
+  });
+
+  /**
+   * GET /grading/submissions - Assignment submissions waiting for a grade
+   * Filter with ?course=&content=
+   */
+  static queue = catchAsync(async (req: Request, res: Response) => {
+    const validatedQuery = submissionQueueSchema.parse(req.query);
+
+    const result = await AssignmentService.getQueue(
+      validatedQuery,
+      (req as any).user
+    );
+
+    return res.json({
+      status: true,
+      message: "Grading queue retrieved successfully",
+      ...result,
+    });
+  });
+
+  /**
+   * GET /grading/submissions/:submissionId - Get a submission to grade
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const { submissionId } = req.params;
+
+    const { submission, content } =
+      await AssignmentService.getGradableSubmission(
+        submissionId,
+        (req as any).user
+      );
+    await submission.populate("user", "name email avatar");
+    const peerReviews = content.peerReview?.enabled
+      ? await PeerReviewService.getSubmissionReviews(submission)
+      : [];
+
+    return res.json({
+      status: true,
+      message: "Submission retrieved successfully",
+      data: {
+        submission,
+        assignment: {
+          _id: content._id,
+          title: content.title,
+          assignmentInstructions: content.assignmentInstructions,
+          dueDate: content.dueDate,
+          gradingRubric: content.gradingRubric,
+          passingScore: content.passingScore,
+          peerReviewStatus: content.peerReviewStatus,
+        },
+        peerReviews,
+      },
+    });
+  });
+
+  /**
+   * PATCH /grading/submissions/:submissionId - Grade a submission
+   */
+  static grade = catchAsync(async (req: Request, res: Response) => {
+    const { submissionId } = req.params;
+    const validatedData = gradeSubmissionSchema.parse(req.body);
+    const user = (req as any).user;
+
+    const { submission, content } =
+      await AssignmentService.getGradableSubmission(submissionId, user);
+
+    const graded = await AssignmentService.gradeSubmission(
+      submission,
+      content,
+      validatedData,
+      user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Submission graded successfully",
+      data: graded,
+    });
+  });
+}
@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { BadgeService } from "../services/badge.service";
+import { verifyBadgeSchema } from "../validation/badge";
+
+// Credentials are served as bare JSON-LD so wallets and validators can
+// consume them directly
+const JSON_LD = "application/ld+json";
+
+export class BadgeController {
+  /**
+   * GET /badges/issuer - Issuer profile and public key (Public)
+   */
+  static issuer = catchAsync(async (req: Request, res: Response) => {
+    return res.type(JSON_LD).json(BadgeService.getIssuerProfile());
+  });
+
+  /**
+   * GET /badges/status/revocation - Revocation status list (Public)
+   */
+  static statusList = catchAsync(async (req: Request, res: Response) => {
+    const statusList = await BadgeService.getStatusListCredential();
+
+    res.set("Cache-Control", "public, max-age=300");
+    return res.type(JSON_LD).json(statusList);
+  });
+
+  /**
+   * GET /badges/:code - Open Badges 3.0 credential of a certificate (Public)
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const credential = await BadgeService.getCredential(req.params.code);
+
+    return res.type(JSON_LD).json(credential);
+  });
+
+  /**
+   * POST /badges/verify - Verify a credential's proof and revocation status
+   * (Public)
+   */
+  static verify = catchAsync(async (req: Request, res: Response) => {
+    const validatedData = verifyBadgeSchema.parse(req.body);
+
+    const result = await BadgeService.verifyCredential(
+      validatedData.credential
+    );
+
+    return res.json({
+      status: true,
+      message: result.verified
+        ? "Credential is valid"
+        : "Credential could not be verified",
+      data: result,
+    });
+  });
+
+  /**
+   * GET /courses/:id/badge - Own completion credential, to add to a wallet
+   */
+  static me = catchAsync(async (req: Request, res: Response) => {
+    const credential = await BadgeService.getUserCredential(
+      req.params.id,
+      (req as any).user.id
+    );
+
+    res.attachment(`${credential.name}.json`);
+    return res.type(JSON_LD).json(credential);
+  });
+}
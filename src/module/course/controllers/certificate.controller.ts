@@ -0,0 +1,82 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { CertificateService } from "../services/certificate.service";
+import { CourseAccessService } from "../services/course-access.service";
+import {
+  issueCertificateSchema,
+  revokeCertificateSchema,
+} from "../validation/certificate";
+
+export class CertificateController {
+  /**
+   * GET /certificates/:code/verify - Check a certificate's authenticity
+   * (Public)
+   */
+  static verify = catchAsync(async (req: Request, res: Response) => {
+    const certificate = await CertificateService.verify(req.params.code);
+
+    return res.json({
+      status: true,
+      message:
+        certificate.status === "valid"
+          ? "Certificate is valid"
+          : "Certificate has been revoked",
+      data: certificate,
+    });
+  });
+
+  /**
+   * POST /courses/:id/certificates - Issue a certificate to an enrolled
+   * student (Owner/Admin)
+   */
+  static issue = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const validatedData = issueCertificateSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "course:manage_all"
+    );
+
+    const certificate = await CertificateService.issueForUser(
+      course,
+      validatedData.userId,
+      (req as any).user.id
+    );
+
+    return res.status(201).json({
+      status: true,
+      message: "Certificate issued successfully",
+      data: certificate,
+    });
+  });
+
+  /**
+   * POST /courses/:id/certificates/:code/revoke - Revoke a certificate
+   * (Owner/Admin)
+   */
+  static revoke = catchAsync(async (req: Request, res: Response) => {
+    const { id, code } = req.params;
+    const validatedData = revokeCertificateSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "course:manage_all"
+    );
+
+    const certificate = await CertificateService.revokeCertificate(
+      course,
+      code,
+      validatedData.reason,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Certificate revoked successfully",
+      data: certificate,
+    });
+  });
+}
@@ -0,0 +1,250 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import catchAsync from "../../../shared/request";
+import { Course, CourseEnrollment } from "../models";
+import { ContentService } from "../services/content.service";
+import { ModuleService } from "../services/module.service";
+import { CourseAccessService } from "../services/course-access.service";
+import { AccessEvaluatorService } from "../services/access-evaluator.service";
+import { createContentSchema, moveContentSchema } from "../validation/content";
+
+export class ContentController {
+  /**
+   * GET /courses/:id/modules/:moduleId/contents - List module contents
+   * (drafts are only listed for users who can manage the course). Enrolled
+   * students also get whether each lesson is unlocked, and why not.
+   */
+  static findAll = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId } = req.params;
+
+    const course = mongoose.isValidObjectId(id)
+      ? await Course.findById(id)
+      : null;
+    if (!course) {
+      return res.status(404).json({
+        status: false,
+        message: "Course not found",
+      });
+    }
+
+    const canManage = CourseAccessService.canManageCourse(
+      course,
+      (req as any).user,
+      "content:manage_all"
+    );
+
+    if (course.status !== "published" && !canManage) {
+      return res.status(404).json({
+        status: false,
+        message: "Course not found",
+      });
+    }
+
+    const module = await ModuleService.getCourseModule(id, moduleId);
+    if (!module.isPublished && !canManage) {
+      return res.status(404).json({
+        status: false,
+        message: "Module not found",
+      });
+    }
+
+    const contents = await ContentService.getContents(moduleId, canManage);
+
+    const user = (req as any).user;
+    const enrollment =
+      !canManage &&
+      user &&
+      (await CourseEnrollment.exists({
+        user: user.id,
+        course: id,
+        status: { $ne: "dropped" },
+      }));
+    if (!enrollment) {
+      return res.json({
+        status: true,
+        message: "Contents retrieved successfully",
+        data: { contents },
+      });
+    }
+
+    const ctx = await AccessEvaluatorService.getContext(id, user.id);
+
+    return res.json({
+      status: true,
+      message: "Contents retrieved successfully",
+      data: {
+        contents: contents.map((content) => ({
+          ...content.toJSON(),
+          access: AccessEvaluatorService.evaluateContent(ctx, content),
+        })),
+      },
+    });
+  });
+
+  /**
+   * GET /courses/:id/modules/:moduleId/contents/:contentId - Get a lesson
+   * (preview lessons are public, others require enrollment and must be
+   * unlocked)
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId, contentId } = req.params;
+    const user = (req as any).user;
+
+    const course = mongoose.isValidObjectId(id)
+      ? await Course.findById(id)
+      : null;
+    if (!course) {
+      return res.status(404).json({
+        status: false,
+        message: "Course not found",
+      });
+    }
+
+    const content = await ContentService.getModuleContent(moduleId, contentId);
+    await content.populate("resources");
+
+    const canManage = CourseAccessService.canManageCourse(
+      course,
+      user,
+      "content:manage_all"
+    );
+
+    if (!canManage) {
+      if (course.status !== "published" || !content.isPublished) {
+        return res.status(404).json({
+          status: false,
+          message: "Content not found",
+        });
+      }
+
+      const enrollment =
+        user &&
+        (await CourseEnrollment.exists({
+          user: user.id,
+          course: id,
+          status: { $ne: "dropped" },
+        }));
+
+      if (!content.isPreview && !enrollment) {
+        return res.status(403).json({
+          status: false,
+          message: "Enroll in this course to access this content",
+        });
+      }
+
+      if (!content.isPreview) {
+        await AccessEvaluatorService.assertContentAccess(content, user.id);
+      }
+    }
+
+    return res.json({
+      status: true,
+      message: "Content retrieved successfully",
+      data: { content },
+    });
+  });
+
+  /**
+   * POST /courses/:id/modules/:moduleId/contents - Create content (Owner/Admin)
+   */
+  static create = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId } = req.params;
+    const validatedData = createContentSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "content:manage_all"
+    );
+    const module = await ModuleService.getCourseModule(id, moduleId);
+
+    const content = await ContentService.createContent(
+      course,
+      module,
+      validatedData
+    );
+
+    return res.status(201).json({
+      status: true,
+      message: "Content created successfully",
+      data: { content },
+    });
+  });
+
+  /**
+   * PUT /courses/:id/modules/:moduleId/contents/:contentId - Update content (Owner/Admin)
+   */
+  static update = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId, contentId } = req.params;
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "content:manage_all"
+    );
+    await ModuleService.getCourseModule(id, moduleId);
+
+    const content = await ContentService.updateContent(
+      course,
+      moduleId,
+      contentId,
+      req.body
+    );
+
+    return res.json({
+      status: true,
+      message: "Content updated successfully",
+      data: { content },
+    });
+  });
+
+  /**
+   * DELETE /courses/:id/modules/:moduleId/contents/:contentId - Delete content (Owner/Admin)
+   */
+  static delete = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId, contentId } = req.params;
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "content:manage_all"
+    );
+    await ModuleService.getCourseModule(id, moduleId);
+
+    await ContentService.deleteContent(course, moduleId, contentId);
+
+    return res.json({
+      status: true,
+      message: "Content deleted successfully",
+    });
+  });
+
+  /**
+   * PATCH /courses/:id/modules/:moduleId/contents/:contentId/move - Move content (Owner/Admin)
+   */
+  static move = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId, contentId } = req.params;
+    const validatedData = moveContentSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "content:manage_all"
+    );
+    await ModuleService.getCourseModule(id, moduleId);
+
+    const content = await ContentService.moveContent(
+      course,
+      moduleId,
+      contentId,
+      validatedData.targetModuleId,
+      validatedData.order
+    );
+
+    return res.json({
+      status: true,
+      message: "Content moved successfully",
+      data: { content },
+    });
+  });
+}
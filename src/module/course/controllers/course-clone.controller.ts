@@ -0,0 +1,79 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { CourseCloneService } from "../services/course-clone.service";
+import { CourseAccessService } from "../services/course-access.service";
+import {
+  courseTemplateQuerySchema,
+  courseTemplateSchema,
+  duplicateCourseSchema,
+} from "../validation/course";
+
+export class CourseCloneController {
+  /**
+   * POST /courses/:id/duplicate - Copy a course into a new draft
+   * (Owner/Admin, or anyone who can create courses for templates)
+   */
+  static duplicate = catchAsync(async (req: Request, res: Response) => {
+    const user = (req as any).user;
+    const validatedData = duplicateCourseSchema.parse(req.body ?? {});
+
+    const source = await CourseCloneService.getDuplicableCourse(
+      req.params.id,
+      user
+    );
+
+    const course = await CourseCloneService.duplicateCourse(
+      source,
+      user.id,
+      validatedData
+    );
+
+    return res.status(201).json({
+      status: true,
+      message: "Course duplicated successfully",
+      data: course,
+    });
+  });
+
+  /**
+   * PATCH /courses/:id/template - List or unlist a course in the template
+   * gallery (Admin)
+   */
+  static setTemplate = catchAsync(async (req: Request, res: Response) => {
+    const validatedData = courseTemplateSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      req.params.id,
+      (req as any).user,
+      "course:manage_all"
+    );
+
+    const updated = await CourseCloneService.setTemplate(
+      course,
+      validatedData.isTemplate
+    );
+
+    return res.json({
+      status: true,
+      message: updated.isTemplate
+        ? "Course added to the template gallery"
+        : "Course removed from the template gallery",
+      data: updated,
+    });
+  });
+
+  /**
+   * GET /course-templates - Template gallery
+   */
+  static templates = catchAsync(async (req: Request, res: Response) => {
+    const validatedQuery = courseTemplateQuerySchema.parse(req.query);
+
+    const result = await CourseCloneService.getTemplates(validatedQuery);
+
+    return res.json({
+      status: true,
+      message: "Course templates retrieved successfully",
+      ...result,
+    });
+  });
+}
@@ -0,0 +1,64 @@
+import fs from "fs";
+import { pipeline } from "stream/promises";
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { CourseTransferService } from "../services/course-transfer.service";
+import { CourseAccessService } from "../services/course-access.service";
+import { BadRequestException } from "../../../common/middleware/errors";
+import logger from "../../../common/middleware/logger";
+import { importCourseSchema } from "../validation/course";
+
+export class CourseTransferController {
+  /**
+   * GET /courses/:id/export - Download a course as a portable archive
+   * (Owner/Admin)
+   */
+  static export = catchAsync(async (req: Request, res: Response) => {
+    const course = await CourseAccessService.getManageableCourse(
+      req.params.id,
+      (req as any).user,
+      "course:manage_all"
+    );
+
+    const archive = await CourseTransferService.exportCourse(course);
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${course.slug}.zip"`
+    );
+
+    // Once streaming has started a failure can only cut the download short
+    await pipeline(archive, res).catch((error) =>
+      logger.error(`Course export of ${course.id} failed: ${error.message}`)
+    );
+  });
+
+  /**
+   * POST /courses/import - Create a draft course from a course archive or a
+   * SCORM 1.2 package (multipart field "file")
+   */
+  static import = catchAsync(async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw new BadRequestException("Upload a course archive or SCORM package");
+    }
+
+    try {
+      const validatedData = importCourseSchema.parse(req.body ?? {});
+
+      const course = await CourseTransferService.importCourse(
+        req.file.path,
+        validatedData,
+        (req as any).user.id
+      );
+
+      return res.status(201).json({
+        status: true,
+        message: "Course imported successfully",
+        data: course,
+      });
+    } finally {
+      await fs.promises.rm(req.file.path, { force: true });
+    }
+  });
+}
@@ -0,0 +1,72 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import slugify from "../../../common/utils/slugify";
+import { GradebookService } from "../services/gradebook.service";
+import { CourseAccessService } from "../services/course-access.service";
+import { gradebookQuerySchema } from "../validation/gradebook";
+
+export class GradebookController {
+  /**
+   * GET /courses/:id/gradebook - Grade matrix of enrolled students
+   * (Owner/Admin)
+   */
+  static findAll = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const validatedQuery = gradebookQuerySchema.parse(req.query);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "course:manage_all"
+    );
+
+    const result = await GradebookService.getGradebook(course, validatedQuery);
+
+    return res.json({
+      status: true,
+      message: "Gradebook retrieved successfully",
+      ...result,
+    });
+  });
+
+  /**
+   * GET /courses/:id/gradebook/export - Gradebook as CSV (Owner/Admin)
+   */
+  static export = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "course:manage_all"
+    );
+
+    const csv = await GradebookService.exportCsv(course);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${slugify(course.title) || "course"}-gradebook.csv"`
+    );
+
+    return res.send(csv);
+  });
+
+  /**
+   * GET /courses/:id/gradebook/me - Own grade breakdown
+   */
+  static me = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const gradebook = await GradebookService.getStudentGradebook(
+      id,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Grades retrieved successfully",
+      data: gradebook,
+    });
+  });
+}
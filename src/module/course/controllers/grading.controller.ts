@@ -0,0 +1,122 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { ManualGradingService } from "../services/manual-grading.service";
+import {
+  completeGradingSchema,
+  gradeAnswerSchema,
+  gradingQueueSchema,
+} from "../validation/grading";
+
+export class GradingController {
+  /**
+   * GET /grading/queue - Attempts waiting for manual grading
+   * Filter with ?course=&quiz=
+   */
+  static queue = catchAsync(async (req: Request, res: Response) => {
+    const validatedQuery = gradingQueueSchema.parse(req.query);
+
+    const result = await ManualGradingService.getQueue(
+      validatedQuery,
+      (req as any).user
+    );
+
+    return res.json({
+      status: true,
+      message: "Grading queue retrieved successfully",
+      ...result,
+    });
+  });
+
+  /**
+   * GET /grading/attempts/:attemptId - Get an attempt to grade
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const { attemptId } = req.params;
+
+    const { attempt, quiz } = await ManualGradingService.getGradableAttempt(
+      attemptId,
+      (req as any).user
+    );
+    const questions = await ManualGradingService.getManualQuestions(attempt);
+    await attempt.populate("user", "name email avatar");
+
+    return res.json({
+      status: true,
+      message: "Attempt retrieved successfully",
+      data: {
+        attempt,
+        quiz: {
+          _id: quiz._id,
+          title: quiz.title,
+          passingScore: quiz.passingScore,
+        },
+        questions,
+      },
+    });
+  });
+
+  /**
+   * PATCH /grading/attempts/:attemptId/answers/:questionId - Grade an answer
+   */
+  static gradeAnswer = catchAsync(async (req: Request, res: Response) => {
+    const { attemptId, questionId } = req.params;
+    const validatedData = gradeAnswerSchema.parse(req.body);
+    const user = (req as any).user;
+
+    const { attempt, quiz } = await ManualGradingService.getGradableAttempt(
+      attemptId,
+      user
+    );
+
+    const graded = await ManualGradingService.gradeAnswer(
+      attempt,
+      quiz,
+      questionId,
+      validatedData,
+      user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Answer graded successfully",
+      data: {
+        answer: graded.answers.find(
+          (a) => a.question.toString() === questionId
+        ),
+        pendingAnswers: graded.answers.filter((a) => a.pendingManualGrading)
+          .length,
+      },
+    });
+  });
+
+  /**
+   * POST /grading/attempts/:attemptId/complete - Finish grading an attempt
+   */
+  static complete = catchAsync(async (req: Request, res: Response) => {
+    const { attemptId } = req.params;
+    const validatedData = completeGradingSchema.parse(req.body ?? {});
+    const user = (req as any).user;
+
+    const { attempt, quiz, course } =
+      await ManualGradingService.getGradableAttempt(attemptId, user);
+
+    const graded = await ManualGradingService.completeGrading(
+      attempt,
+      quiz,
+      course,
+      validatedData,
+      user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Grading completed successfully",
+      data: {
+        attemptId: graded._id,
+        score: graded.score,
+        passed: graded.passed,
+        isGraded: graded.isGraded,
+      },
+    });
+  });
+}
@@ -0,0 +1,182 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { LearningPathService } from "../services/learning-path.service";
+import { NotFoundException } from "../../../common/middleware/errors";
+import {
+  createLearningPathSchema,
+  learningPathQuerySchema,
+  updateLearningPathSchema,
+} from "../validation/learning-path";
+
+export class LearningPathController {
+  /**
+   * GET /learning-paths - Published learning paths
+   */
+  static findAll = catchAsync(async (req: Request, res: Response) => {
+    const validatedQuery = learningPathQuerySchema.parse(req.query);
+
+    const result = await LearningPathService.findAll(validatedQuery);
+
+    return res.json({
+      status: true,
+      message: "Learning paths retrieved successfully",
+      ...result,
+    });
+  });
+
+  /**
+   * GET /learning-paths/:slugOrId - Learning path with its courses
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const user = (req as any).user;
+
+    const learningPath = await LearningPathService.getPath(req.params.slugOrId);
+    if (
+      learningPath.status !== "published" &&
+      !LearningPathService.canManagePath(
+        learningPath,
+        user,
+        "course:manage_all"
+      )
+    ) {
+      throw new NotFoundException("Learning path not found");
+    }
+
+    await learningPath.populate(
+      "steps.course",
+      "title slug thumbnail level totalDuration status shortDescription"
+    );
+
+    return res.json({
+      status: true,
+      message: "Learning path retrieved successfully",
+      data: learningPath,
+    });
+  });
+
+  /**
+   * POST /learning-paths - Create a learning path
+   */
+  static create = catchAsync(async (req: Request, res: Response) => {
+    const validatedData = createLearningPathSchema.parse(req.body);
+
+    const learningPath = await LearningPathService.create(
+      validatedData,
+      (req as any).user.id
+    );
+
+    return res.status(201).json({
+      status: true,
+      message: "Learning path created successfully",
+      data: learningPath,
+    });
+  });
+
+  /**
+   * PUT /learning-paths/:id - Update a learning path (Owner/Admin)
+   */
+  static update = catchAsync(async (req: Request, res: Response) => {
+    const validatedData = updateLearningPathSchema.parse(req.body);
+
+    const learningPath = await LearningPathService.getManageablePath(
+      req.params.id,
+      (req as any).user,
+      "course:manage_all"
+    );
+    const updated = await LearningPathService.update(
+      learningPath,
+      validatedData
+    );
+
+    return res.json({
+      status: true,
+      message: "Learning path updated successfully",
+      data: updated,
+    });
+  });
+
+  /**
+   * DELETE /learning-paths/:id - Delete, or archive when students are
+   * enrolled (Owner/Admin)
+   */
+  static delete = catchAsync(async (req: Request, res: Response) => {
+    const learningPath = await LearningPathService.getManageablePath(
+      req.params.id,
+      (req as any).user,
+      "course:manage_all"
+    );
+
+    const deleted = await LearningPathService.delete(learningPath);
+
+    return res.json({
+      status: true,
+      message: deleted
+        ? "Learning path deleted successfully"
+        : "Learning path archived successfully (has enrollments)",
+    });
+  });
+
+  /**
+   * POST /learning-paths/:id/enroll - Enroll in a learning path and its open
+   * courses
+   */
+  static enroll = catchAsync(async (req: Request, res: Response) => {
+    const result = await LearningPathService.enroll(
+      req.params.id,
+      (req as any).user.id
+    );
+
+    return res.status(201).json({
+      status: true,
+      message: "Successfully enrolled in learning path",
+      data: result,
+    });
+  });
+
+  /**
+   * POST /learning-paths/:id/unenroll - Leave a learning path
+   */
+  static unenroll = catchAsync(async (req: Request, res: Response) => {
+    const enrollment = await LearningPathService.unenroll(
+      req.params.id,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Successfully unenrolled from learning path",
+      data: enrollment,
+    });
+  });
+
+  /**
+   * GET /learning-paths/:id/progress - Own progress, course by course
+   */
+  static progress = catchAsync(async (req: Request, res: Response) => {
+    const result = await LearningPathService.getProgress(
+      req.params.id,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Learning path progress retrieved successfully",
+      data: result,
+    });
+  });
+
+  /**
+   * GET /my-learning-paths - Learning paths the user is enrolled in
+   */
+  static mine = catchAsync(async (req: Request, res: Response) => {
+    const enrollments = await LearningPathService.getUserPaths(
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Learning paths retrieved successfully",
+      data: enrollments,
+    });
+  });
+}
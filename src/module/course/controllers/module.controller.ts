@@ -0,0 +1,145 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import catchAsync from "../../../shared/request";
+import { Course } from "../models";
+import { ModuleService } from "../services/module.service";
+import { CourseAccessService } from "../services/course-access.service";
+import {
+  createModuleSchema,
+  updateModuleSchema,
+  reorderModulesSchema,
+} from "../validation/module";
+
+export class ModuleController {
+  /**
+   * GET /courses/:id/modules - List course modules
+   * (drafts are only listed for users who can manage the course)
+   */
+  static findAll = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const course = mongoose.isValidObjectId(id)
+      ? await Course.findById(id)
+      : null;
+    if (!course) {
+      return res.status(404).json({
+        status: false,
+        message: "Course not found",
+      });
+    }
+
+    const canManage = CourseAccessService.canManageCourse(
+      course,
+      (req as any).user,
+      "module:manage_all"
+    );
+
+    if (course.status !== "published" && !canManage) {
+      return res.status(404).json({
+        status: false,
+        message: "Course not found",
+      });
+    }
+
+    const modules = await ModuleService.getModules(id, canManage);
+
+    return res.json({
+      status: true,
+      message: "Modules retrieved successfully",
+      data: { modules },
+    });
+  });
+
+  /**
+   * POST /courses/:id/modules - Create module (Owner/Admin)
+   */
+  static create = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const validatedData = createModuleSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "module:manage_all"
+    );
+
+    const module = await ModuleService.createModule(course, validatedData);
+
+    return res.status(201).json({
+      status: true,
+      message: "Module created successfully",
+      data: { module },
+    });
+  });
+
+  /**
+   * PUT /courses/:id/modules/:moduleId - Update module (Owner/Admin)
+   */
+  static update = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId } = req.params;
+    const validatedData = updateModuleSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "module:manage_all"
+    );
+
+    const module = await ModuleService.updateModule(
+      course,
+      moduleId,
+      validatedData
+    );
+
+    return res.json({
+      status: true,
+      message: "Module updated successfully",
+      data: { module },
+    });
+  });
+
+  /**
+   * DELETE /courses/:id/modules/:moduleId - Delete module (Owner/Admin)
+   */
+  static delete = catchAsync(async (req: Request, res: Response) => {
+    const { id, moduleId } = req.params;
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "module:manage_all"
+    );
+
+    await ModuleService.deleteModule(course, moduleId);
+
+    return res.json({
+      status: true,
+      message: "Module deleted successfully",
+    });
+  });
+
+  /**
+   * PATCH /courses/:id/modules/reorder - Reorder modules (Owner/Admin)
+   */
+  static reorder = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const validatedData = reorderModulesSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "module:manage_all"
+    );
+
+    const modules = await ModuleService.reorderModules(
+      course,
+      validatedData.moduleIds
+    );
+
+    return res.json({
+      status: true,
+      message: "Modules reordered successfully",
+      data: { modules },
+    });
+  });
+}
@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { PeerReviewService } from "../services/peer-review.service";
+import { gradeSubmissionSchema } from "../validation/assignment";
+
+export class PeerReviewController {
+  /**
+   * GET /courses/:id/assignments/:contentId/peer-reviews - Submissions the
+   * student has to review
+   */
+  static assigned = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+
+    const result = await PeerReviewService.getAssignedReviews(
+      id,
+      contentId,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Peer reviews retrieved successfully",
+      data: result,
+    });
+  });
+
+  /**
+   * PATCH /courses/:id/assignments/:contentId/peer-reviews/:reviewId -
+   * Score a peer's submission
+   */
+  static submit = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId, reviewId } = req.params;
+    const validatedData = gradeSubmissionSchema.parse(req.body);
+
+    const review = await PeerReviewService.submitReview(
+      id,
+      contentId,
+      reviewId,
+      (req as any).user.id,
+      validatedData
+    );
+
+    return res.json({
+      status: true,
+      message: "Peer review submitted successfully",
+      data: review,
+    });
+  });
+
+  /**
+   * GET /courses/:id/assignments/:contentId/peer-reviews/received - Peer
+   * reviews of own submission, after the review window closes
+   */
+  static received = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+
+    const reviews = await PeerReviewService.getReceivedReviews(
+      id,
+      contentId,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Peer reviews retrieved successfully",
+      data: reviews,
+    });
+  });
+}
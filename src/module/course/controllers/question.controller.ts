@@ -0,0 +1,190 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { QuestionService } from "../services/question.service";
+import { QuestionInterchangeService } from "../services/question-interchange.service";
+import {
+  createQuestionSchema,
+  exportQuestionsSchema,
+  importQuestionsSchema,
+  questionSearchSchema,
+} from "../validation/question";
+
+export class QuestionController {
+  /**
+   * GET /questions - Search the question bank
+   * Filter with ?search=&tags=a,b&difficulty=&type=&category=&scope=all|mine|public
+   */
+  static findAll = catchAsync(async (req: Request, res: Response) => {
+    const validatedQuery = questionSearchSchema.parse(req.query);
+
+    const result = await QuestionService.searchQuestions(
+      validatedQuery,
+      (req as any).user
+    );
+
+    return res.json({
+      status: true,
+      message: "Questions retrieved successfully",
+      ...result,
+    });
+  });
+
+  /**
+   * GET /questions/:questionId - Get a question from the bank
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const { questionId } = req.params;
+
+    const question = await QuestionService.getUsableQuestion(
+      questionId,
+      (req as any).user
+    );
+    await question.populate("createdBy", "name avatar");
+
+    return res.json({
+      status: true,
+      message: "Question retrieved successfully",
+      data: { question },
+    });
+  });
+
+  /**
+   * POST /questions - Add a question to the bank
+   */
+  static create = catchAsync(async (req: Request, res: Response) => {
+    const validatedData = createQuestionSchema.parse(req.body);
+
+    const question = await QuestionService.createQuestion(
+      validatedData,
+      (req as any).user.id
+    );
+
+    return res.status(201).json({
+      status: true,
+      message: "Question created successfully",
+      data: { question },
+    });
+  });
+
+  /**
+   * PUT /questions/:questionId - Update a question (Owner/Admin)
+   * Questions answered in graded attempts get a new version instead
+   */
+  static update = catchAsync(async (req: Request, res: Response) => {
+    const { questionId } = req.params;
+
+    const existingQuestion = await QuestionService.getEditableQuestion(
+      questionId,
+      (req as any).user
+    );
+
+    const { question, isNewVersion } = await QuestionService.updateQuestion(
+      existingQuestion,
+      req.body
+    );
+
+    return res.json({
+      status: true,
+      message: isNewVersion
+        ? "Question is used in graded attempts, a new version was created"
+        : "Question updated successfully",
+      data: { question, isNewVersion },
+    });
+  });
+
+  /**
+   * POST /questions/:questionId/fork - Fork a question into a new version
+   */
+  static fork = catchAsync(async (req: Request, res: Response) => {
+    const { questionId } = req.params;
+    const user = (req as any).user;
+
+    const original = await QuestionService.getUsableQuestion(questionId, user);
+
+    const question = await QuestionService.forkQuestion(
+      original,
+      user.id,
+      req.body
+    );
+
+    return res.status(201).json({
+      status: true,
+      message: "Question forked successfully",
+      data: { question },
+    });
+  });
+
+  /**
+   * GET /questions/:questionId/usage - List quizzes using a question
+   */
+  static usage = catchAsync(async (req: Request, res: Response) => {
+    const { questionId } = req.params;
+
+    const question = await QuestionService.getUsableQuestion(
+      questionId,
+      (req as any).user
+    );
+
+    const quizzes = await QuestionService.getQuestionUsage(question.id);
+
+    return res.json({
+      status: true,
+      message: "Question usage retrieved successfully",
+      data: { quizzes, usageCount: quizzes.length },
+    });
+  });
+
+  /**
+   * POST /questions/import - Import GIFT, Aiken or QTI questions into the bank
+   * Send the file as multipart `file`, or its text as `content`.
+   * Pass dryRun=true to get the report without saving.
+   */
+  static import = catchAsync(async (req: Request, res: Response) => {
+    const validatedData = importQuestionsSchema.parse(req.body);
+    const input =
+      req.file?.buffer ?? Buffer.from(validatedData.content || "", "utf8");
+
+    const report = await QuestionInterchangeService.importQuestions(
+      input,
+      validatedData,
+      (req as any).user.id
+    );
+
+    return res
+      .status(validatedData.dryRun || !report.imported ? 200 : 201)
+      .json({
+        status: true,
+        message: validatedData.dryRun
+          ? `${report.imported} questions can be imported, ${report.failed} failed`
+          : `${report.imported} questions imported, ${report.failed} failed`,
+        data: report,
+      });
+  });
+
+  /**
+   * GET /questions/export - Export question bank filters as GIFT, Aiken or QTI
+   * Takes the search filters of GET /questions plus ?format=
+   */
+  static export = catchAsync(async (req: Request, res: Response) => {
+    const validatedQuery = exportQuestionsSchema.parse(req.query);
+
+    const questions = await QuestionInterchangeService.getBankQuestions(
+      validatedQuery,
+      (req as any).user
+    );
+    const { content, skipped, extension, contentType } =
+      QuestionInterchangeService.exportQuestions(
+        validatedQuery.format,
+        questions
+      );
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="questions.${extension}"`
+    );
+    res.setHeader("X-Skipped-Questions", String(skipped));
+
+    return res.send(content);
+  });
+}
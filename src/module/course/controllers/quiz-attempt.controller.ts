@@ -0,0 +1,123 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { QuizAttemptService } from "../services/quiz-attempt.service";
+import {
+  saveQuizAnswersSchema,
+  submitQuizAttemptSchema,
+} from "../validation/quiz";
+
+export class QuizAttemptController {
+  /**
+   * POST /courses/:id/quizzes/:quizId/attempts - Start or resume an attempt
+   */
+  static start = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+    const userId = (req as any).user.id;
+
+    const { attempt, quiz, isResumed } = await QuizAttemptService.startAttempt(
+      id,
+      userId,
+      quizId
+    );
+
+    const session = await QuizAttemptService.getSession(attempt, quiz);
+
+    return res.status(isResumed ? 200 : 201).json({
+      status: true,
+      message: isResumed
+        ? "Quiz attempt resumed successfully"
+        : "Quiz attempt started successfully",
+      data: session,
+    });
+  });
+
+  /**
+   * GET /courses/:id/quizzes/:quizId/attempts/:attemptId - Resume an attempt
+   * (returns the results once the attempt is finalized)
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId, attemptId } = req.params;
+    const userId = (req as any).user.id;
+
+    const { attempt, quiz } = await QuizAttemptService.getUserAttempt(
+      id,
+      userId,
+      quizId,
+      attemptId
+    );
+
+    if (attempt.isCompleted) {
+      return res.json({
+        status: true,
+        message: "Quiz attempt already submitted",
+        data: QuizAttemptService.getResults(attempt, quiz),
+      });
+    }
+
+    const session = await QuizAttemptService.getSession(attempt, quiz);
+
+    return res.json({
+      status: true,
+      message: "Quiz attempt retrieved successfully",
+      data: session,
+    });
+  });
+
+  /**
+   * PATCH /courses/:id/quizzes/:quizId/attempts/:attemptId - Autosave answers
+   */
+  static save = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId, attemptId } = req.params;
+    const userId = (req as any).user.id;
+    const { answers, timeSpent } = saveQuizAnswersSchema.parse(req.body);
+
+    const { attempt, quiz } = await QuizAttemptService.getUserAttempt(
+      id,
+      userId,
+      quizId,
+      attemptId
+    );
+
+    await QuizAttemptService.saveAnswers(attempt, quiz, answers, timeSpent);
+
+    return res.json({
+      status: true,
+      message: "Answers saved successfully",
+      data: {
+        lastSavedAt: attempt.lastSavedAt,
+        timeRemaining: QuizAttemptService.getTimeRemaining(attempt),
+      },
+    });
+  });
+
+  /**
+   * POST /courses/:id/quizzes/:quizId/attempts/:attemptId/submit - Submit an attempt
+   */
+  static submit = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId, attemptId } = req.params;
+    const userId = (req as any).user.id;
+    const { answers, timeSpent } = submitQuizAttemptSchema.parse(
+      req.body ?? {}
+    );
+
+    const { attempt, quiz } = await QuizAttemptService.getUserAttempt(
+      id,
+      userId,
+      quizId,
+      attemptId
+    );
+
+    const submitted = await QuizAttemptService.submitAttempt(
+      attempt,
+      quiz,
+      answers,
+      timeSpent
+    );
+
+    return res.json({
+      status: true,
+      message: "Quiz submitted successfully",
+      data: QuizAttemptService.getResults(submitted, quiz),
+    });
+  });
+}
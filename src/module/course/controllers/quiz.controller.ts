@@ -0,0 +1,296 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import slugify from "../../../common/utils/slugify";
+import { QuizService } from "../services/quiz.service";
+import { CourseAccessService } from "../services/course-access.service";
+import { QuestionInterchangeService } from "../services/question-interchange.service";
+import { ItemAnalysisService } from "../services/item-analysis.service";
+import {
+  addQuizQuestionSchema,
+  createQuizSchema,
+  exportQuizSchema,
+  reorderQuizQuestionsSchema,
+  updateQuizQuestionSchema,
+  updateQuizSchema,
+} from "../validation/quiz";
+
+export class QuizController {
+  /**
+   * GET /courses/:id/quizzes - List course quizzes including drafts (Owner/Admin)
+   * Filter with ?module= or ?content=
+   */
+  static findAll = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { module, content } = req.query;
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+
+    const quizzes = await QuizService.getQuizzes(
+      id,
+      {
+        module: module as string | undefined,
+        content: content as string | undefined,
+      },
+      true
+    );
+
+    return res.json({
+      status: true,
+      message: "Quizzes retrieved successfully",
+      data: { quizzes },
+    });
+  });
+
+  /**
+   * GET /courses/:id/quizzes/:quizId - Get quiz with its questions (Owner/Admin)
+   */
+  static findOne = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+
+    const quiz = await QuizService.getQuizWithQuestions(id, quizId);
+
+    return res.json({
+      status: true,
+      message: "Quiz retrieved successfully",
+      data: { quiz },
+    });
+  });
+
+  /**
+   * POST /courses/:id/quizzes - Create quiz (Owner/Admin)
+   */
+  static create = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const validatedData = createQuizSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+
+    const quiz = await QuizService.createQuiz(course, validatedData);
+
+    return res.status(201).json({
+      status: true,
+      message: "Quiz created successfully",
+      data: { quiz },
+    });
+  });
+
+  /**
+   * PUT /courses/:id/quizzes/:quizId - Update quiz settings (Owner/Admin)
+   */
+  static update = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+    const validatedData = updateQuizSchema.parse(req.body);
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+
+    const quiz = await QuizService.updateQuiz(course, quizId, validatedData);
+
+    return res.json({
+      status: true,
+      message: "Quiz updated successfully",
+      data: { quiz },
+    });
+  });
+
+  /**
+   * DELETE /courses/:id/quizzes/:quizId - Delete quiz (Owner/Admin)
+   */
+  static delete = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+
+    const course = await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+
+    await QuizService.deleteQuiz(course, quizId);
+
+    return res.json({
+      status: true,
+      message: "Quiz deleted successfully",
+    });
+  });
+
+  /**
+   * POST /courses/:id/quizzes/:quizId/questions - Add a question (Owner/Admin)
+   */
+  static addQuestion = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+    const user = (req as any).user;
+    const validatedData = addQuizQuestionSchema.parse(req.body);
+
+    await CourseAccessService.getManageableCourse(id, user, "quiz:manage_all");
+    const quiz = await QuizService.getCourseQuiz(id, quizId);
+
+    await QuizService.addQuestion(quiz, user, validatedData);
+    await quiz.getQuestionsWithDetails();
+
+    return res.status(201).json({
+      status: true,
+      message: "Question added successfully",
+      data: { quiz },
+    });
+  });
+
+  /**
+   * PUT /courses/:id/quizzes/:quizId/questions/:questionId - Update question weight (Owner/Admin)
+   */
+  static updateQuestion = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId, questionId } = req.params;
+    const { weight } = updateQuizQuestionSchema.parse(req.body);
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+    const quiz = await QuizService.getCourseQuiz(id, quizId);
+
+    await QuizService.updateQuestionWeight(quiz, questionId, weight);
+
+    return res.json({
+      status: true,
+      message: "Question updated successfully",
+      data: { quiz },
+    });
+  });
+
+  /**
+   * DELETE /courses/:id/quizzes/:quizId/questions/:questionId - Remove a question (Owner/Admin)
+   */
+  static removeQuestion = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId, questionId } = req.params;
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+    const quiz = await QuizService.getCourseQuiz(id, quizId);
+
+    await QuizService.removeQuestion(quiz, questionId);
+
+    return res.json({
+      status: true,
+      message: "Question removed successfully",
+      data: { quiz },
+    });
+  });
+
+  /**
+   * PATCH /courses/:id/quizzes/:quizId/questions/reorder - Reorder questions (Owner/Admin)
+   */
+  static reorderQuestions = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+    const { questionIds } = reorderQuizQuestionsSchema.parse(req.body);
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+    const quiz = await QuizService.getCourseQuiz(id, quizId);
+
+    await QuizService.reorderQuestions(quiz, questionIds);
+
+    return res.json({
+      status: true,
+      message: "Questions reordered successfully",
+      data: { quiz },
+    });
+  });
+
+  /**
+   * GET /courses/:id/quizzes/:quizId/preview - Preview quiz as a student (Owner/Admin)
+   */
+  static preview = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+    const quiz = await QuizService.getCourseQuiz(id, quizId);
+
+    const preview = await QuizService.getStudentView(quiz);
+
+    return res.json({
+      status: true,
+      message: "Quiz preview retrieved successfully",
+      data: preview,
+    });
+  });
+
+  /**
+   * GET /courses/:id/quizzes/:quizId/analysis - Item analysis of the quiz
+   * questions from graded attempts (Owner/Admin)
+   */
+  static analysis = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+    const quiz = await QuizService.getCourseQuiz(id, quizId);
+
+    const analysis = await ItemAnalysisService.analyzeQuiz(quiz);
+    await ItemAnalysisService.saveAnalysis(quiz, analysis);
+
+    return res.json({
+      status: true,
+      message: "Quiz analysis retrieved successfully",
+      data: analysis,
+    });
+  });
+
+  /**
+   * GET /courses/:id/quizzes/:quizId/export - Export quiz questions as GIFT,
+   * Aiken or QTI (Owner/Admin)
+   */
+  static export = catchAsync(async (req: Request, res: Response) => {
+    const { id, quizId } = req.params;
+    const { format } = exportQuizSchema.parse(req.query);
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "quiz:manage_all"
+    );
+    const quiz = await QuizService.getCourseQuiz(id, quizId);
+
+    const questions = await QuestionInterchangeService.getQuizQuestions(quiz);
+    const { content, skipped, extension, contentType } =
+      QuestionInterchangeService.exportQuestions(format, questions);
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${slugify(quiz.title) || "quiz"}.${extension}"`
+    );
+    res.setHeader("X-Skipped-Questions", String(skipped));
+
+    return res.send(content);
+  });
+}
@@ -0,0 +1,48 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { ScormService } from "../services/scorm.service";
+import { scormCommitSchema } from "../validation/scorm";
+
+export class ScormController {
+  /**
+   * POST /courses/:id/scorm/:contentId/launch - Start a session: the launch
+   * URL and the cmi data for LMSInitialize
+   */
+  static launch = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+
+    const session = await ScormService.launch(
+      id,
+      contentId,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "SCORM session started",
+      data: session,
+    });
+  });
+
+  /**
+   * PUT /courses/:id/scorm/:contentId/runtime - Save the cmi data of an
+   * LMSCommit or LMSFinish
+   */
+  static commit = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+    const validatedData = scormCommitSchema.parse(req.body);
+
+    const { progress, justCompleted } = await ScormService.commit(
+      id,
+      contentId,
+      (req as any).user.id,
+      validatedData
+    );
+
+    return res.json({
+      status: true,
+      message: justCompleted ? "Lesson completed" : "SCORM progress saved",
+      data: progress,
+    });
+  });
+}
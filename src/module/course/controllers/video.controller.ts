@@ -0,0 +1,80 @@
+import { Request, Response } from "express";
+import catchAsync from "../../../shared/request";
+import { VideoProgressService } from "../services/video-progress.service";
+import { CourseAccessService } from "../services/course-access.service";
+import {
+  videoAnalyticsSchema,
+  videoHeartbeatSchema,
+} from "../validation/video";
+
+export class VideoController {
+  /**
+   * POST /courses/:id/videos/:contentId/heartbeat - Report watched segments
+   * and the playback position
+   */
+  static heartbeat = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+    const validatedData = videoHeartbeatSchema.parse(req.body);
+
+    const { progress, justCompleted } =
+      await VideoProgressService.recordHeartbeat(
+        id,
+        contentId,
+        (req as any).user.id,
+        validatedData
+      );
+
+    return res.json({
+      status: true,
+      message: justCompleted ? "Video completed" : "Watch progress saved",
+      data: progress,
+    });
+  });
+
+  /**
+   * GET /courses/:id/videos/:contentId/progress - Own watch progress and
+   * resume position
+   */
+  static progress = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+
+    const result = await VideoProgressService.getUserProgress(
+      id,
+      contentId,
+      (req as any).user.id
+    );
+
+    return res.json({
+      status: true,
+      message: "Watch progress retrieved successfully",
+      data: result,
+    });
+  });
+
+  /**
+   * GET /courses/:id/videos/:contentId/analytics - Watch time and drop-off
+   * curve (Owner/Admin)
+   */
+  static analytics = catchAsync(async (req: Request, res: Response) => {
+    const { id, contentId } = req.params;
+    const validatedQuery = videoAnalyticsSchema.parse(req.query);
+
+    await CourseAccessService.getManageableCourse(
+      id,
+      (req as any).user,
+      "content:manage_all"
+    );
+    const content = await VideoProgressService.getCourseVideo(id, contentId);
+
+    const analytics = await VideoProgressService.getAnalytics(
+      content,
+      validatedQuery
+    );
+
+    return res.json({
+      status: true,
+      message: "Video analytics retrieved successfully",
+      data: analytics,
+    });
+  });
+}
@@ -0,0 +1,61 @@
+import { QuestionGrader } from "./types";
+
+/**
+ * Single choice - the answer is the selected option ID
+ */
+export const singleChoiceGrader: QuestionGrader = {
+  grade(question, userAnswer) {
+    const correctAnswer = question.options?.find((o) => o.isCorrect)?.id;
+    const isCorrect = userAnswer !== undefined && userAnswer === correctAnswer;
+
+    return { isCorrect, partialCredit: isCorrect ? 1 : 0, correctAnswer };
+  },
+};
+
+/**
+ * Multiple choice - the answer is an array of selected option IDs.
+ * With allowPartialCredit every correct pick earns a share of the points
+ * and every wrong pick takes one away.
+ */
+export const multipleChoiceGrader: QuestionGrader = {
+  grade(question, userAnswer) {
+    const correctAnswer: string[] = (question.options || [])
+      .filter((o) => o.isCorrect)
+      .map((o) => o.id);
+    const selected = new Set<string>(
+      Array.isArray(userAnswer) ? userAnswer.map(String) : []
+    );
+
+    const correctPicks = correctAnswer.filter((id) => selected.has(id)).length;
+    const wrongPicks = selected.size - correctPicks;
+    const isCorrect = correctPicks === correctAnswer.length && wrongPicks === 0;
+
+    let partialCredit = isCorrect ? 1 : 0;
+    if (!isCorrect && question.allowPartialCredit && correctAnswer.length) {
+      partialCredit = Math.max(
+        0,
+        (correctPicks - wrongPicks) / correctAnswer.length
+      );
+    }
+
+    return { isCorrect, partialCredit, correctAnswer };
+  },
+};
+
+/**
+ * True/false - the answer is a boolean ("true"/"false" strings are accepted)
+ */
+export const trueFalseGrader: QuestionGrader = {
+  grade(question, userAnswer) {
+    const answer =
+      userAnswer === "true"
+        ? true
+        : userAnswer === "false"
+          ? false
+          : userAnswer;
+    const correctAnswer = question.correctAnswer === true;
+    const isCorrect = answer === correctAnswer;
+
+    return { isCorrect, partialCredit: isCorrect ? 1 : 0, correctAnswer };
+  },
+};
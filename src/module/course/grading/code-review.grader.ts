@@ -0,0 +1,49 @@
+import { QuestionGrader } from "./types";
+import { manualGrader } from "./manual.grader";
+import { resolveLanguage, runTestCases } from "../sandbox/code-runner";
+
+/**
+ * Code review - runs the submission against the question's test cases and
+ * earns the share of passing cases. Questions without test cases, or whose
+ * languages cannot run in the sandbox, are left for an instructor.
+ *
+ * The answer is the code, or { language, code } when several languages are
+ * allowed.
+ */
+export const codeReviewGrader: QuestionGrader = {
+  async grade(question, userAnswer) {
+    const testCases = question.testCases || [];
+    const allowedLanguages = question.allowedLanguages?.length
+      ? question.allowedLanguages
+      : [question.language];
+    const runnable = allowedLanguages.some((language) =>
+      resolveLanguage(language)
+    );
+    if (!testCases.length || !runnable) {
+      return manualGrader.grade(question, userAnswer);
+    }
+
+    const code = typeof userAnswer === "string" ? userAnswer : userAnswer?.code;
+    const requested =
+      typeof userAnswer === "object" && userAnswer?.language
+        ? userAnswer.language
+        : allowedLanguages[0];
+    const language = resolveLanguage(requested);
+    const isAllowed = allowedLanguages.some(
+      (allowed) => resolveLanguage(allowed) === language
+    );
+
+    if (typeof code !== "string" || !code.trim() || !language || !isAllowed) {
+      return { isCorrect: false, partialCredit: 0, testResults: [] };
+    }
+
+    const testResults = await runTestCases({ language, code }, testCases);
+    const passedCount = testResults.filter((result) => result.passed).length;
+
+    return {
+      isCorrect: passedCount === testCases.length,
+      partialCredit: passedCount / testCases.length,
+      testResults,
+    };
+  },
+};
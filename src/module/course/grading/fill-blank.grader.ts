@@ -0,0 +1,64 @@
+import { QuestionGrader } from "./types";
+
+/**
+ * Check one blank. Without exactMatch, whitespace and punctuation are
+ * ignored.
+ */
+function matchesBlank(
+  blank: {
+    correctAnswers: string[];
+    caseSensitive?: boolean;
+    exactMatch?: boolean;
+  },
+  answer: unknown
+): boolean {
+  if (typeof answer !== "string" && typeof answer !== "number") return false;
+
+  const normalize = (value: string) => {
+    let result = value.trim();
+    if (!blank.caseSensitive) result = result.toLowerCase();
+    if (blank.exactMatch === false) {
+      result = result
+        .replace(/[^\p{L}\p{N}\s]/gu, "")
+        .replace(/\s+/g, " ")
+        .trim();
+    }
+    return result;
+  };
+
+  const given = normalize(String(answer));
+  if (!given) return false;
+
+  return blank.correctAnswers.some((correct) => normalize(correct) === given);
+}
+
+/**
+ * Fill in the blank - the answer maps blank IDs to text, or is an array of
+ * texts in blank position order. Each blank earns an equal share.
+ */
+export const fillBlankGrader: QuestionGrader = {
+  grade(question, userAnswer) {
+    const blanks = [...(question.blanks || [])].sort(
+      (a, b) => (a.position ?? 0) - (b.position ?? 0)
+    );
+    const correctAnswer = Object.fromEntries(
+      blanks.map((blank) => [blank.id, blank.correctAnswers[0]])
+    );
+    if (!blanks.length) {
+      return { isCorrect: false, partialCredit: 0, correctAnswer };
+    }
+
+    const answerFor = (blankId: string, index: number) =>
+      Array.isArray(userAnswer) ? userAnswer[index] : userAnswer?.[blankId];
+
+    const correctCount = blanks.filter((blank, index) =>
+      matchesBlank(blank, answerFor(blank.id, index))
+    ).length;
+
+    return {
+      isCorrect: correctCount === blanks.length,
+      partialCredit: correctCount / blanks.length,
+      correctAnswer,
+    };
+  },
+};
@@ -0,0 +1,28 @@
+import { QuestionType } from "../models";
+import { QuestionGrader } from "./types";
+import {
+  multipleChoiceGrader,
+  singleChoiceGrader,
+  trueFalseGrader,
+} from "./choice.grader";
+import { fillBlankGrader } from "./fill-blank.grader";
+import { matchingGrader } from "./matching.grader";
+import { orderingGrader } from "./ordering.grader";
+import { numericGrader } from "./numeric.grader";
+import { manualGrader } from "./manual.grader";
+import { codeReviewGrader } from "./code-review.grader";
+
+export * from "./types";
+
+// Built-in grader for every question type
+export const defaultGraders: Record<QuestionType, QuestionGrader> = {
+  "multiple-choice": multipleChoiceGrader,
+  "single-choice": singleChoiceGrader,
+  "true-false": trueFalseGrader,
+  "fill-blank": fillBlankGrader,
+  essay: manualGrader,
+  "code-review": codeReviewGrader,
+  matching: matchingGrader,
+  ordering: orderingGrader,
+  numeric: numericGrader,
+};
@@ -0,0 +1,16 @@
+import { QuestionGrader } from "./types";
+
+/**
+ * Essay and code review - left for an instructor to grade.
+ * The answer earns nothing until then.
+ */
+export const manualGrader: QuestionGrader = {
+  grade(question) {
+    return {
+      isCorrect: false,
+      partialCredit: 0,
+      correctAnswer: question.correctAnswer,
+      pendingManualGrading: true,
+    };
+  },
+};
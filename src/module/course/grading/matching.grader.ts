@@ -0,0 +1,35 @@
+import { QuestionGrader } from "./types";
+
+/**
+ * Matching - the answer maps left item IDs to right item IDs, or is an
+ * array of { leftId, rightId } pairs. Each correct pair earns an equal share.
+ */
+export const matchingGrader: QuestionGrader = {
+  grade(question, userAnswer) {
+    const correctMatches = question.correctMatches || [];
+    const correctAnswer = Object.fromEntries(
+      correctMatches.map((match) => [match.leftId, match.rightId])
+    );
+    if (!correctMatches.length) {
+      return { isCorrect: false, partialCredit: 0, correctAnswer };
+    }
+
+    const given: Record<string, unknown> = Array.isArray(userAnswer)
+      ? Object.fromEntries(
+          userAnswer.map((pair: any) => [pair?.leftId, pair?.rightId])
+        )
+      : userAnswer && typeof userAnswer === "object"
+        ? userAnswer
+        : {};
+
+    const correctCount = correctMatches.filter(
+      (match) => given[match.leftId] === match.rightId
+    ).length;
+
+    return {
+      isCorrect: correctCount === correctMatches.length,
+      partialCredit: correctCount / correctMatches.length,
+      correctAnswer,
+    };
+  },
+};
@@ -0,0 +1,22 @@
+import { QuestionGrader } from "./types";
+
+/**
+ * Numeric - the answer is a number (numeric strings are accepted) and may
+ * deviate from the correct answer by the question's tolerance
+ */
+export const numericGrader: QuestionGrader = {
+  grade(question, userAnswer) {
+    const correctAnswer = Number(question.correctAnswer);
+    const answer =
+      typeof userAnswer === "string" && userAnswer.trim() !== ""
+        ? Number(userAnswer)
+        : userAnswer;
+
+    const isCorrect =
+      typeof answer === "number" &&
+      Number.isFinite(answer) &&
+      Math.abs(answer - correctAnswer) <= (question.tolerance ?? 0);
+
+    return { isCorrect, partialCredit: isCorrect ? 1 : 0, correctAnswer };
+  },
+};
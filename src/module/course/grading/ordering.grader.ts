@@ -0,0 +1,29 @@
+import { QuestionGrader } from "./types";
+
+/**
+ * Ordering - the answer is an array of item IDs in the chosen order.
+ * Each item in its correct position earns an equal share.
+ */
+export const orderingGrader: QuestionGrader = {
+  grade(question, userAnswer) {
+    const correctAnswer: string[] = [...(question.items || [])]
+      .sort((a, b) => a.correctOrder - b.correctOrder)
+      .map((item) => item.id);
+    if (!correctAnswer.length) {
+      return { isCorrect: false, partialCredit: 0, correctAnswer };
+    }
+
+    const given = Array.isArray(userAnswer) ? userAnswer.map(String) : [];
+    const correctCount = correctAnswer.filter(
+      (id, index) => given[index] === id
+    ).length;
+
+    return {
+      isCorrect:
+        correctCount === correctAnswer.length &&
+        given.length === correctAnswer.length,
+      partialCredit: correctCount / correctAnswer.length,
+      correctAnswer,
+    };
+  },
+};
@@ -0,0 +1,21 @@
+import { IQuestion } from "../models";
+import { TestCaseResult } from "../sandbox/code-runner";
+
+export interface GradeResult {
+  isCorrect: boolean;
+  partialCredit: number; // 0-1, share of the question's points earned
+  correctAnswer?: any; // in the shape students submit answers
+  pendingManualGrading?: boolean;
+  testResults?: TestCaseResult[]; // per test case, for code submissions
+}
+
+/**
+ * Scores a student's answer to one question type.
+ * Graders never throw on malformed answers, they score them as wrong.
+ */
+export interface QuestionGrader {
+  grade(
+    question: IQuestion,
+    userAnswer: any
+  ): GradeResult | Promise<GradeResult>;
+}
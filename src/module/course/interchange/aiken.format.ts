@@ -0,0 +1,132 @@
+import { ParsedItem, QuestionFormat } from "./types";
+
+const OPTION_LINE = /^([A-Z])[.)]\s+(.+)$/;
+const ANSWER_LINE = /^ANSWER:\s*([A-Z])?\s*$/i;
+
+/**
+ * Aiken - single choice questions only:
+ *
+ *   Question text
+ *   A. First option
+ *   B) Second option
+ *   ANSWER: B
+ */
+export const aikenFormat: QuestionFormat = {
+  extension: "aiken.txt",
+  contentType: "text/plain; charset=utf-8",
+
+  parse(input) {
+    const lines = input.toString("utf8").replace(/\r\n?/g, "\n").split("\n");
+    const items: ParsedItem[] = [];
+
+    let questionLines: string[] = [];
+    let options: { letter: string; text: string }[] = [];
+    let start = 0;
+
+    const reset = () => {
+      questionLines = [];
+      options = [];
+    };
+    const fail = (error: string) => {
+      items.push({ source: `line ${start}`, error });
+      reset();
+    };
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        // Blank lines may separate questions, but not split one
+        if (options.length) fail("Missing ANSWER line");
+        return;
+      }
+
+      if (!questionLines.length && !options.length) start = index + 1;
+
+      const answer = trimmed.match(ANSWER_LINE);
+      if (answer) {
+        if (!questionLines.length) return fail("Question text is required");
+        if (options.length < 2) return fail("At least 2 options required");
+
+        const letter = answer[1]?.toUpperCase();
+        if (!letter || !options.some((option) => option.letter === letter)) {
+          return fail(
+            `ANSWER must be one of ${options.map((o) => o.letter).join(", ")}`
+          );
+        }
+
+        items.push({
+          source: `line ${start}`,
+          data: {
+            type: "single-choice",
+            question: questionLines.join(" "),
+            options: options.map((option, order) => ({
+              id: option.letter.toLowerCase(),
+              text: option.text,
+              isCorrect: option.letter === letter,
+              order,
+            })),
+          },
+        });
+        return reset();
+      }
+
+      const option = trimmed.match(OPTION_LINE);
+      if (option && questionLines.length) {
+        options.push({ letter: option[1], text: option[2].trim() });
+        return;
+      }
+
+      // Text after options starts the next question
+      if (options.length) {
+        fail("Missing ANSWER line");
+        start = index + 1;
+      }
+      questionLines.push(trimmed);
+    });
+
+    if (questionLines.length) fail("Missing ANSWER line");
+
+    return items;
+  },
+
+  serialize(questions) {
+    const blocks: string[] = [];
+    let skipped = 0;
+
+    for (const question of questions) {
+      const options =
+        question.type === "true-false"
+          ? [
+              { text: "True", isCorrect: !!question.correctAnswer },
+              { text: "False", isCorrect: !question.correctAnswer },
+            ]
+          : question.type === "single-choice"
+            ? question.options || []
+            : [];
+
+      const correctIndex = options.findIndex((option) => option.isCorrect);
+      if (options.length < 2 || options.length > 26 || correctIndex < 0) {
+        skipped++;
+        continue;
+      }
+
+      const letter = (index: number) => String.fromCharCode(65 + index);
+      const oneLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+      blocks.push(
+        [
+          oneLine(question.question),
+          ...options.map(
+            (option, index) => `${letter(index)}. ${oneLine(option.text)}`
+          ),
+          `ANSWER: ${letter(correctIndex)}`,
+        ].join("\n")
+      );
+    }
+
+    return {
+      content: Buffer.from(blocks.join("\n\n") + "\n", "utf8"),
+      skipped,
+    };
+  },
+};
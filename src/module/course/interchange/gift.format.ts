@@ -0,0 +1,422 @@
+import { IQuestion } from "../models";
+import { ParsedItem, QuestionFormat } from "./types";
+
+const SPECIAL_CHARACTERS = /[~=#{}:\\]/g;
+
+/**
+ * Escape GIFT control characters in text
+ */
+function escape(text: string): string {
+  return text.replace(SPECIAL_CHARACTERS, (char) => `\\${char}`);
+}
+
+/**
+ * Resolve GIFT escapes (\~ \= \# \{ \} \: \\ and \n)
+ */
+function unescape(text: string): string {
+  return text.replace(/\\(.)/g, (_, char) => (char === "n" ? "\n" : char));
+}
+
+/**
+ * Position of the first unescaped occurrence of `search`, or -1
+ */
+function indexOfUnescaped(text: string, search: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text.startsWith(search, i)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Split an answer block into its `=`/`~` prefixed answers
+ */
+function splitAnswers(body: string): { prefix: string; text: string }[] {
+  const answers: { prefix: string; text: string }[] = [];
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "\\") {
+      if (answers.length)
+        answers[answers.length - 1].text += body.slice(i, i + 2);
+      i++;
+    } else if (char === "=" || char === "~") {
+      answers.push({ prefix: char, text: "" });
+    } else if (answers.length) {
+      answers[answers.length - 1].text += char;
+    } else if (char.trim()) {
+      throw new Error("Answers must start with = or ~");
+    }
+  }
+
+  return answers;
+}
+
+/**
+ * Split "text#feedback" and a leading "%50%" weight off an answer
+ */
+function parseAnswer(raw: string): {
+  text: string;
+  weight?: number;
+  feedback?: string;
+} {
+  let text = raw.trim();
+  let weight: number | undefined;
+
+  const weightMatch = text.match(/^%(-?\d+(?:\.\d+)?)%/);
+  if (weightMatch) {
+    weight = Number(weightMatch[1]);
+    text = text.slice(weightMatch[0].length);
+  }
+
+  const feedbackIndex = indexOfUnescaped(text, "#");
+  const feedback =
+    feedbackIndex >= 0 ? unescape(text.slice(feedbackIndex + 1)).trim() : "";
+  if (feedbackIndex >= 0) text = text.slice(0, feedbackIndex);
+
+  return {
+    text: unescape(text).trim(),
+    weight,
+    ...(feedback && { feedback }),
+  };
+}
+
+/**
+ * Numeric answer: "value", "value:tolerance" or "min..max"
+ */
+function parseNumeric(body: string): {
+  correctAnswer: number;
+  tolerance?: number;
+} {
+  const first = body.trim().startsWith("=")
+    ? splitAnswers(body).find((answer) => answer.prefix === "=")?.text || ""
+    : body;
+  const { text } = parseAnswer(first);
+
+  const range = text.match(/^(-?[\d.eE+-]+)\.\.(-?[\d.eE+-]+)$/);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    if (Number.isFinite(min) && Number.isFinite(max)) {
+      return {
+        correctAnswer: (min + max) / 2,
+        tolerance: Math.abs(max - min) / 2,
+      };
+    }
+  }
+
+  const [value, tolerance] = text.split(":");
+  const correctAnswer = Number(value);
+  if (!value?.trim() || !Number.isFinite(correctAnswer)) {
+    throw new Error(`Invalid numeric answer "${text}"`);
+  }
+
+  return {
+    correctAnswer,
+    ...(tolerance !== undefined && { tolerance: Math.abs(Number(tolerance)) }),
+  };
+}
+
+/**
+ * Parse one GIFT question into question fields
+ */
+function parseQuestion(text: string, category?: string): ParsedItem["data"] {
+  let rest = text.trim();
+
+  const titleMatch = rest.match(/^::((?:\\.|[^\\])*?)::/);
+  if (titleMatch) rest = rest.slice(titleMatch[0].length).trim();
+  rest = rest.replace(/^\[(?:html|moodle|plain|markdown)\]/i, "");
+
+  const open = indexOfUnescaped(rest, "{");
+  const close = open >= 0 ? indexOfUnescaped(rest, "}", open) : -1;
+  if (open < 0 || close < 0) {
+    throw new Error("Missing answer block {...}");
+  }
+
+  const before = unescape(rest.slice(0, open)).trim();
+  const after = unescape(rest.slice(close + 1)).trim();
+  let body = rest.slice(open + 1, close).trim();
+
+  let explanation: string | undefined;
+  const generalFeedback = indexOfUnescaped(body, "####");
+  if (generalFeedback >= 0) {
+    explanation = unescape(body.slice(generalFeedback + 4)).trim() || undefined;
+    body = body.slice(0, generalFeedback).trim();
+  }
+
+  // Answers inside the text ("missing word") leave a gap in the question
+  const questionText = after ? `${before} _____ ${after}` : before;
+  if (!questionText) throw new Error("Question text is required");
+
+  const base = {
+    question: questionText,
+    ...(explanation && { explanation }),
+    ...(category && { category }),
+  };
+
+  if (!body) return { ...base, type: "essay" };
+
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)\s*(?:#|$)/i);
+  if (trueFalse) {
+    return {
+      ...base,
+      type: "true-false",
+      correctAnswer: trueFalse[1].toUpperCase().startsWith("T"),
+    };
+  }
+
+  if (body.startsWith("#")) {
+    return { ...base, type: "numeric", ...parseNumeric(body.slice(1)) };
+  }
+
+  const answers = splitAnswers(body);
+  if (!answers.length) throw new Error("No answers found");
+
+  // Matching - every answer is "=left -> right"
+  if (
+    answers.every(
+      (answer) => answer.prefix === "=" && answer.text.includes("->")
+    )
+  ) {
+    const pairs = answers.map((answer) => {
+      const [left, right] = answer.text.split("->");
+      return { left: unescape(left).trim(), right: unescape(right).trim() };
+    });
+    const rightTexts = [...new Set(pairs.map((pair) => pair.right))];
+
+    return {
+      ...base,
+      type: "matching",
+      leftColumn: pairs.map((pair, index) => ({
+        id: `l${index + 1}`,
+        text: pair.left,
+      })),
+      rightColumn: rightTexts.map((text, index) => ({
+        id: `r${index + 1}`,
+        text,
+      })),
+      correctMatches: pairs.map((pair, index) => ({
+        leftId: `l${index + 1}`,
+        rightId: `r${rightTexts.indexOf(pair.right) + 1}`,
+      })),
+    };
+  }
+
+  const parsed = answers.map((answer) => ({
+    prefix: answer.prefix,
+    ...parseAnswer(answer.text),
+  }));
+
+  // Short answer - only accepted answers, no distractors
+  if (parsed.every((answer) => answer.prefix === "=")) {
+    return {
+      ...base,
+      type: "fill-blank",
+      questionText: after ? `${before} {blank} ${after}` : `${before} {blank}`,
+      blanks: [
+        {
+          id: "b1",
+          correctAnswers: parsed.map((answer) => answer.text),
+          position: 0,
+        },
+      ],
+    };
+  }
+
+  const options = parsed.map((answer, index) => ({
+    id: `o${index + 1}`,
+    text: answer.text,
+    isCorrect: answer.prefix === "=" || (answer.weight ?? 0) > 0,
+    ...(answer.feedback && { explanation: answer.feedback }),
+    order: index,
+  }));
+  const correctCount = options.filter((option) => option.isCorrect).length;
+
+  return {
+    ...base,
+    type: correctCount > 1 ? "multiple-choice" : "single-choice",
+    options,
+  };
+}
+
+/**
+ * Format a weight for GIFT, e.g. 33.33333
+ */
+function formatWeight(weight: number): string {
+  return String(Math.round(weight * 100000) / 100000);
+}
+
+/**
+ * "#feedback" suffix of an option with an explanation
+ */
+function feedback(option: { explanation?: string }): string {
+  return option.explanation ? `#${escape(option.explanation)}` : "";
+}
+
+/**
+ * Answer block of a question, null if GIFT cannot express its type
+ */
+function serializeAnswers(question: IQuestion): string | null {
+  switch (question.type) {
+    case "single-choice":
+      return (question.options || [])
+        .map(
+          (option) =>
+            `\t${option.isCorrect ? "=" : "~"}${escape(option.text)}${feedback(option)}`
+        )
+        .join("\n");
+
+    case "multiple-choice": {
+      const options = question.options || [];
+      const correctCount = options.filter((option) => option.isCorrect).length;
+      const wrongCount = options.length - correctCount;
+
+      return options
+        .map((option) => {
+          const weight = option.isCorrect
+            ? 100 / correctCount
+            : -100 / wrongCount;
+          return `\t~%${formatWeight(weight)}%${escape(option.text)}${feedback(option)}`;
+        })
+        .join("\n");
+    }
+
+    case "true-false":
+      return question.correctAnswer ? "T" : "F";
+
+    case "fill-blank": {
+      if (question.blanks?.length !== 1) return null;
+      return question.blanks[0].correctAnswers
+        .map((answer: string) => `=${escape(answer)}`)
+        .join(" ");
+    }
+
+    case "matching": {
+      const left = new Map(
+        (question.leftColumn || []).map((item) => [item.id, item.text])
+      );
+      const right = new Map(
+        (question.rightColumn || []).map((item) => [item.id, item.text])
+      );
+
+      return (question.correctMatches || [])
+        .map(
+          (match) =>
+            `\t=${escape(left.get(match.leftId) || "")} -> ${escape(right.get(match.rightId) || "")}`
+        )
+        .join("\n");
+    }
+
+    case "numeric":
+      return question.tolerance
+        ? `#${question.correctAnswer}:${question.tolerance}`
+        : `#${question.correctAnswer}`;
+
+    case "essay":
+      return "";
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Moodle GIFT - one question per paragraph, answers in {...}
+ */
+export const giftFormat: QuestionFormat = {
+  extension: "gift.txt",
+  contentType: "text/plain; charset=utf-8",
+
+  parse(input) {
+    const lines = input.toString("utf8").replace(/\r\n?/g, "\n").split("\n");
+    const items: ParsedItem[] = [];
+    let category: string | undefined;
+    let block: string[] = [];
+    let blockStart = 0;
+
+    const flush = () => {
+      if (!block.length) return;
+      const text = block.join("\n");
+      const title = text.trim().match(/^::((?:\\.|[^\\])*?)::/)?.[1];
+
+      try {
+        items.push({
+          source: `line ${blockStart}`,
+          ...(title && { title: unescape(title) }),
+          data: parseQuestion(text, category),
+        });
+      } catch (error: any) {
+        items.push({
+          source: `line ${blockStart}`,
+          ...(title && { title: unescape(title) }),
+          error: error.message,
+        });
+      }
+      block = [];
+    };
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith("//")) return;
+      if (!trimmed) return flush();
+
+      const categoryMatch = trimmed.match(/^\$CATEGORY:\s*(.+)$/i);
+      if (categoryMatch && !block.length) {
+        category = categoryMatch[1]
+          .split("/")
+          .filter((part) => part && !part.startsWith("$"))
+          .pop();
+        return;
+      }
+
+      if (!block.length) blockStart = index + 1;
+      block.push(line);
+    });
+    flush();
+
+    return items;
+  },
+
+  serialize(questions) {
+    const blocks: string[] = [];
+    let category: string | undefined;
+    let skipped = 0;
+
+    for (const question of questions) {
+      const answers = serializeAnswers(question);
+      if (answers === null) {
+        skipped++;
+        continue;
+      }
+
+      if (question.category && question.category !== category) {
+        category = question.category;
+        blocks.push(`$CATEGORY: ${category}`);
+      }
+
+      const explanation = question.explanation
+        ? `\n\t####${escape(question.explanation)}`
+        : "";
+      const block = answers.includes("\n")
+        ? `{\n${answers}${explanation}\n}`
+        : `{${answers}${explanation}}`;
+
+      const text =
+        question.type === "fill-blank" &&
+        question.questionText?.includes("{blank}")
+          ? escape(question.questionText).replace("\\{blank\\}", block)
+          : `${escape(question.question)} ${block}`;
+
+      blocks.push(text);
+    }
+
+    return {
+      content: Buffer.from(blocks.join("\n\n") + "\n", "utf8"),
+      skipped,
+    };
+  },
+};
@@ -0,0 +1,15 @@
+import { QuestionFormat } from "./types";
+import { giftFormat } from "./gift.format";
+import { aikenFormat } from "./aiken.format";
+import { qtiFormat } from "./qti.format";
+
+export * from "./types";
+
+export type QuestionFormatName = "gift" | "aiken" | "qti";
+
+// Supported exchange formats for question import and export
+export const questionFormats: Record<QuestionFormatName, QuestionFormat> = {
+  gift: giftFormat,
+  aiken: aikenFormat,
+  qti: qtiFormat,
+};
@@ -0,0 +1,612 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { IQuestion } from "../models";
+import { createZip, isZip, readZip } from "../utils/zip";
+import { ParsedItem, QuestionFormat } from "./types";
+
+type XmlNode = Record<string, any>;
+
+const INTERACTIONS = [
+  "choiceInteraction",
+  "textEntryInteraction",
+  "extendedTextInteraction",
+  "matchInteraction",
+  "orderInteraction",
+];
+
+const BLOCK_ELEMENTS = new Set([
+  "p",
+  "div",
+  "br",
+  "li",
+  "ul",
+  "ol",
+  "pre",
+  "blockquote",
+  "table",
+  "tr",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  removeNSPrefix: true,
+  preserveOrder: true,
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+const tagOf = (node: XmlNode): string =>
+  Object.keys(node).find((key) => key !== ":@") || "";
+const childrenOf = (node: XmlNode): XmlNode[] => {
+  const children = node[tagOf(node)];
+  return Array.isArray(children) ? children : [];
+};
+const attr = (node: XmlNode, name: string): string | undefined =>
+  node[":@"]?.[name];
+
+/**
+ * Every descendant element with one of the given tags, in document order
+ */
+function findAll(nodes: XmlNode[], tags: string | string[]): XmlNode[] {
+  const wanted = Array.isArray(tags) ? tags : [tags];
+  const found: XmlNode[] = [];
+
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (tag === "#text") continue;
+    if (wanted.includes(tag)) found.push(node);
+    found.push(...findAll(childrenOf(node), wanted));
+  }
+
+  return found;
+}
+
+/**
+ * Text content of nodes. Elements in `replace` are swapped for the given
+ * text, block elements become line breaks.
+ */
+function textOf(
+  nodes: XmlNode[],
+  replace: Record<string, string> = {}
+): string {
+  const collect = (list: XmlNode[]): string =>
+    list
+      .map((node) => {
+        const tag = tagOf(node);
+        if (tag === "#text") return String(node["#text"]);
+        if (tag in replace) return replace[tag];
+        const inner = collect(childrenOf(node));
+        return BLOCK_ELEMENTS.has(tag) ? `\n${inner}\n` : inner;
+      })
+      .join("");
+
+  return collect(nodes)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Text as XHTML paragraphs
+ */
+function paragraphs(text: string): string {
+  return text
+    .split(/\n+/)
+    .filter((line) => line.trim())
+    .map((line) => `<p>${escapeXml(line)}</p>`)
+    .join("");
+}
+
+/**
+ * Convert one assessmentItem into question fields
+ */
+function parseItem(item: XmlNode): Record<string, any> {
+  const children = childrenOf(item);
+
+  const declarations = new Map(
+    findAll(children, "responseDeclaration").map((declaration) => {
+      const declarationChildren = childrenOf(declaration);
+      return [
+        attr(declaration, "identifier"),
+        {
+          cardinality: attr(declaration, "cardinality"),
+          baseType: attr(declaration, "baseType"),
+          correct: findAll(
+            findAll(declarationChildren, "correctResponse"),
+            "value"
+          ).map((value) => textOf(childrenOf(value))),
+          mapped: findAll(declarationChildren, "mapEntry")
+            .filter((entry) => Number(attr(entry, "mappedValue")) > 0)
+            .map((entry) => ({
+              key: attr(entry, "mapKey") || "",
+              caseSensitive: attr(entry, "caseSensitive") === "true",
+            })),
+        },
+      ];
+    })
+  );
+
+  const body = findAll(children, "itemBody")[0];
+  if (!body) throw new Error("Missing itemBody");
+
+  const bodyChildren = childrenOf(body);
+  const interactions = findAll(bodyChildren, INTERACTIONS);
+  if (!interactions.length) throw new Error("No supported interaction found");
+
+  const kinds = new Set(interactions.map(tagOf));
+  if (
+    kinds.size > 1 ||
+    (interactions.length > 1 && !kinds.has("textEntryInteraction"))
+  ) {
+    throw new Error("Items with several interactions are not supported");
+  }
+
+  const interaction = interactions[0];
+  const kind = tagOf(interaction);
+  const declaration = declarations.get(attr(interaction, "responseIdentifier"));
+
+  const withoutInteractions = Object.fromEntries(
+    INTERACTIONS.map((tag) => [tag, ""])
+  );
+  const stem = textOf(bodyChildren, withoutInteractions);
+  const prompt = textOf(findAll(childrenOf(interaction), "prompt"));
+  const question = [stem, prompt].filter(Boolean).join("\n");
+
+  const explanation = textOf(findAll(children, "modalFeedback"));
+  const base = {
+    question,
+    ...(explanation && { explanation }),
+  };
+
+  switch (kind) {
+    case "choiceInteraction": {
+      const correct = new Set(declaration?.correct || []);
+      const choices = findAll(childrenOf(interaction), "simpleChoice").map(
+        (choice) => ({
+          id: attr(choice, "identifier") || "",
+          text: textOf(childrenOf(choice)),
+        })
+      );
+
+      const texts = choices.map((choice) => choice.text.toLowerCase()).sort();
+      if (texts.length === 2 && texts[0] === "false" && texts[1] === "true") {
+        const correctChoice = choices.find((choice) => correct.has(choice.id));
+        if (!correctChoice) throw new Error("Missing correct response");
+
+        return {
+          ...base,
+          type: "true-false",
+          correctAnswer: correctChoice.text.toLowerCase() === "true",
+        };
+      }
+
+      return {
+        ...base,
+        type:
+          declaration?.cardinality === "multiple"
+            ? "multiple-choice"
+            : "single-choice",
+        options: choices.map((choice, order) => ({
+          ...choice,
+          isCorrect: correct.has(choice.id),
+          order,
+        })),
+      };
+    }
+
+    case "textEntryInteraction": {
+      const isNumeric =
+        interactions.length === 1 &&
+        (declaration?.baseType === "float" ||
+          declaration?.baseType === "integer");
+
+      if (isNumeric) {
+        const correctAnswer = Number(declaration?.correct[0]);
+        if (!Number.isFinite(correctAnswer)) {
+          throw new Error("Missing numeric correct response");
+        }
+
+        const equal = findAll(
+          findAll(children, "responseProcessing"),
+          "equal"
+        )[0];
+        const tolerance = equal
+          ? Number(attr(equal, "tolerance")?.split(" ")[0])
+          : NaN;
+
+        return {
+          ...base,
+          type: "numeric",
+          correctAnswer,
+          ...(Number.isFinite(tolerance) && { tolerance }),
+        };
+      }
+
+      const blanks = interactions.map((entry, position) => {
+        const blankDeclaration = declarations.get(
+          attr(entry, "responseIdentifier")
+        );
+        const correctAnswers = [
+          ...new Set([
+            ...(blankDeclaration?.correct || []),
+            ...(blankDeclaration?.mapped || []).map((mapped) => mapped.key),
+          ]),
+        ].filter(Boolean);
+
+        return {
+          id: `b${position + 1}`,
+          correctAnswers,
+          caseSensitive: (blankDeclaration?.mapped || []).some(
+            (mapped) => mapped.caseSensitive
+          ),
+          position,
+        };
+      });
+
+      return {
+        ...base,
+        question: textOf(bodyChildren, { textEntryInteraction: " _____ " }),
+        type: "fill-blank",
+        questionText: textOf(bodyChildren, {
+          textEntryInteraction: " {blank} ",
+        }),
+        blanks,
+      };
+    }
+
+    case "extendedTextInteraction":
+      return { ...base, type: "essay" };
+
+    case "matchInteraction": {
+      const [leftSet, rightSet] = findAll(
+        childrenOf(interaction),
+        "simpleMatchSet"
+      ).map((set) =>
+        findAll(childrenOf(set), "simpleAssociableChoice").map((choice) => ({
+          id: attr(choice, "identifier") || "",
+          text: textOf(childrenOf(choice)),
+        }))
+      );
+      if (!leftSet || !rightSet) throw new Error("Match sets are missing");
+
+      return {
+        ...base,
+        type: "matching",
+        leftColumn: leftSet,
+        rightColumn: rightSet,
+        correctMatches: (declaration?.correct || []).map((pair) => {
+          const [leftId, rightId] = pair.split(/\s+/);
+          return { leftId, rightId };
+        }),
+      };
+    }
+
+    case "orderInteraction": {
+      const correctOrder = declaration?.correct || [];
+
+      return {
+        ...base,
+        type: "ordering",
+        items: findAll(childrenOf(interaction), "simpleChoice").map(
+          (choice) => {
+            const id = attr(choice, "identifier") || "";
+            return {
+              id,
+              text: textOf(childrenOf(choice)),
+              correctOrder: correctOrder.indexOf(id),
+            };
+          }
+        ),
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported interaction ${kind}`);
+  }
+}
+
+/**
+ * Parse every assessmentItem of an XML document
+ */
+function parseDocument(xml: string, source: string): ParsedItem[] {
+  const validation = XMLValidator.validate(xml);
+  if (validation !== true) {
+    return [
+      {
+        source: `${source} line ${validation.err.line}`,
+        error: `Invalid XML: ${validation.err.msg}`,
+      },
+    ];
+  }
+
+  // The validator passes documents the parser still refuses, such as ones
+  // declaring external entities or nested too deep
+  let items: XmlNode[];
+  try {
+    items = findAll(parser.parse(xml), "assessmentItem");
+  } catch (error: any) {
+    return [{ source, error: `Invalid XML: ${error.message}` }];
+  }
+
+  return items.map((item, index) => {
+    const itemSource =
+      items.length > 1 ? `${source} item ${index + 1}` : source;
+    const title = attr(item, "title");
+
+    try {
+      return { source: itemSource, title, data: parseItem(item) };
+    } catch (error: any) {
+      return { source: itemSource, title, error: error.message };
+    }
+  });
+}
+
+/**
+ * Response declarations, body and processing of a question, null if QTI
+ * items here cannot express its type
+ */
+function serializeItemParts(question: IQuestion): {
+  declarations: string;
+  body: string;
+  processing: string;
+} | null {
+  const matchCorrect =
+    '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>';
+  const prompt = `<prompt>${escapeXml(question.question)}</prompt>`;
+
+  switch (question.type) {
+    case "single-choice":
+    case "multiple-choice":
+    case "true-false": {
+      const choices =
+        question.type === "true-false"
+          ? [
+              { text: "True", isCorrect: !!question.correctAnswer },
+              { text: "False", isCorrect: !question.correctAnswer },
+            ]
+          : question.options || [];
+      const isMultiple = question.type === "multiple-choice";
+
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="${isMultiple ? "multiple" : "single"}" baseType="identifier"><correctResponse>${choices
+          .map((choice, index) =>
+            choice.isCorrect ? `<value>c${index + 1}</value>` : ""
+          )
+          .join("")}</correctResponse></responseDeclaration>`,
+        body: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${isMultiple ? 0 : 1}">${prompt}${choices
+          .map(
+            (choice, index) =>
+              `<simpleChoice identifier="c${index + 1}">${escapeXml(choice.text)}</simpleChoice>`
+          )
+          .join("")}</choiceInteraction>`,
+        processing: matchCorrect,
+      };
+    }
+
+    case "fill-blank": {
+      const blanks = [...(question.blanks || [])].sort(
+        (a, b) => (a.position ?? 0) - (b.position ?? 0)
+      );
+      const segments = (question.questionText || question.question).split(
+        "{blank}"
+      );
+      if (!blanks.length || segments.length - 1 !== blanks.length) return null;
+
+      return {
+        declarations: blanks
+          .map(
+            (blank, index) =>
+              `<responseDeclaration identifier="RESPONSE${index + 1}" cardinality="single" baseType="string"><correctResponse><value>${escapeXml(
+                blank.correctAnswers[0]
+              )}</value></correctResponse><mapping defaultValue="0">${blank.correctAnswers
+                .map(
+                  (answer: string) =>
+                    `<mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="${!!blank.caseSensitive}"/>`
+                )
+                .join("")}</mapping></responseDeclaration>`
+          )
+          .join(""),
+        body: `<p>${segments
+          .map(
+            (segment, index) =>
+              escapeXml(segment) +
+              (index < blanks.length
+                ? `<textEntryInteraction responseIdentifier="RESPONSE${index + 1}"/>`
+                : "")
+          )
+          .join("")}</p>`,
+        processing: `<responseProcessing><setOutcomeValue identifier="SCORE"><sum>${blanks
+          .map((_, index) => `<mapResponse identifier="RESPONSE${index + 1}"/>`)
+          .join("")}</sum></setOutcomeValue></responseProcessing>`,
+      };
+    }
+
+    case "numeric": {
+      const tolerance = question.tolerance || 0;
+
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float"><correctResponse><value>${question.correctAnswer}</value></correctResponse></responseDeclaration>`,
+        body: `${paragraphs(question.question)}<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`,
+        processing: `<responseProcessing><responseCondition><responseIf><equal toleranceMode="${
+          tolerance ? "absolute" : "exact"
+        }"${tolerance ? ` tolerance="${tolerance} ${tolerance}"` : ""}><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal><setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue></responseIf></responseCondition></responseProcessing>`,
+      };
+    }
+
+    case "essay":
+      return {
+        declarations:
+          '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>',
+        body: `<extendedTextInteraction responseIdentifier="RESPONSE">${prompt}</extendedTextInteraction>`,
+        processing: "",
+      };
+
+    case "matching": {
+      const leftColumn = question.leftColumn || [];
+      const rightColumn = question.rightColumn || [];
+      const leftIds = new Map(
+        leftColumn.map((item, index) => [item.id, `l${index + 1}`])
+      );
+      const rightIds = new Map(
+        rightColumn.map((item, index) => [item.id, `r${index + 1}`])
+      );
+      const matchSet = (items: { text: string }[], prefix: string) =>
+        `<simpleMatchSet>${items
+          .map(
+            (item, index) =>
+              `<simpleAssociableChoice identifier="${prefix}${index + 1}" matchMax="1">${escapeXml(item.text)}</simpleAssociableChoice>`
+          )
+          .join("")}</simpleMatchSet>`;
+
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair"><correctResponse>${(
+          question.correctMatches || []
+        )
+          .map(
+            (match) =>
+              `<value>${leftIds.get(match.leftId)} ${rightIds.get(match.rightId)}</value>`
+          )
+          .join("")}</correctResponse></responseDeclaration>`,
+        body: `<matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${leftColumn.length}">${prompt}${matchSet(
+          leftColumn,
+          "l"
+        )}${matchSet(rightColumn, "r")}</matchInteraction>`,
+        processing: matchCorrect,
+      };
+    }
+
+    case "ordering": {
+      const items = question.items || [];
+      const ids = new Map(items.map((item, index) => [item, `i${index + 1}`]));
+
+      return {
+        declarations: `<responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier"><correctResponse>${[
+          ...items,
+        ]
+          .sort((a, b) => a.correctOrder - b.correctOrder)
+          .map((item) => `<value>${ids.get(item)}</value>`)
+          .join("")}</correctResponse></responseDeclaration>`,
+        body: `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">${prompt}${items
+          .map(
+            (item) =>
+              `<simpleChoice identifier="${ids.get(item)}">${escapeXml(item.text)}</simpleChoice>`
+          )
+          .join("")}</orderInteraction>`,
+        processing: matchCorrect,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * IMS QTI 2.1 - a content package (zip) with one assessmentItem per file.
+ * A single XML document with one or more assessmentItems also imports.
+ */
+export const qtiFormat: QuestionFormat = {
+  extension: "qti.zip",
+  contentType: "application/zip",
+
+  async parse(input) {
+    if (!isZip(input)) {
+      return parseDocument(input.toString("utf8"), "document");
+    }
+
+    let files;
+    try {
+      files = await readZip(input);
+    } catch (error: any) {
+      return [{ source: "package", error: error.message }];
+    }
+
+    return files
+      .filter(
+        (file) =>
+          file.name.toLowerCase().endsWith(".xml") &&
+          !file.name.toLowerCase().endsWith("imsmanifest.xml")
+      )
+      .flatMap((file) => parseDocument(file.data.toString("utf8"), file.name));
+  },
+
+  serialize(questions) {
+    const files: { name: string; data: Buffer }[] = [];
+    const resources: string[] = [];
+    let skipped = 0;
+
+    for (const question of questions) {
+      const parts = serializeItemParts(question);
+      if (!parts) {
+        skipped++;
+        continue;
+      }
+
+      const identifier = `q-${question.id}`;
+      const href = `items/${identifier}.xml`;
+      const feedback = question.explanation
+        ? `<modalFeedback outcomeIdentifier="FEEDBACK" identifier="explanation" showHide="show">${escapeXml(
+            question.explanation
+          )}</modalFeedback>`
+        : "";
+
+      const xml = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd" identifier="${identifier}" title="${escapeXml(
+          question.question.slice(0, 80)
+        )}" adaptive="false" timeDependent="false">`,
+        parts.declarations,
+        '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+        ...(feedback
+          ? [
+              '<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+            ]
+          : []),
+        `<itemBody>${parts.body}</itemBody>`,
+        parts.processing,
+        feedback,
+        "</assessmentItem>",
+      ]
+        .filter(Boolean)
+        .join("\n");
+
+      files.push({ name: href, data: Buffer.from(xml, "utf8") });
+      resources.push(
+        `<resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}"><file href="${href}"/></resource>`
+      );
+    }
+
+    const manifest = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST">',
+      "<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>",
+      "<organizations/>",
+      `<resources>${resources.join("")}</resources>`,
+      "</manifest>",
+    ].join("\n");
+
+    return {
+      content: createZip([
+        { name: "imsmanifest.xml", data: Buffer.from(manifest, "utf8") },
+        ...files,
+      ]),
+      skipped,
+    };
+  },
+};
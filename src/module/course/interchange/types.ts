@@ -0,0 +1,24 @@
+import { IQuestion } from "../models";
+
+export interface ParsedItem {
+  source: string; // where the item starts, e.g. "line 12" or a file name
+  title?: string;
+  data?: Record<string, any>; // question fields, validated on import
+  error?: string;
+}
+
+export interface SerializedQuestions {
+  content: Buffer;
+  skipped: number; // questions whose type the format cannot express
+}
+
+/**
+ * Reads and writes questions in an exchange format.
+ * Parsers never throw on a malformed item, they report it and move on.
+ */
+export interface QuestionFormat {
+  extension: string;
+  contentType: string;
+  parse(input: Buffer): ParsedItem[] | Promise<ParsedItem[]>;
+  serialize(questions: IQuestion[]): SerializedQuestions;
+}
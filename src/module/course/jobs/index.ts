@@ -0,0 +1,102 @@
+import { QuizAttemptService } from "../services/quiz-attempt.service";
+import { ItemAnalysisService } from "../services/item-analysis.service";
+import { PeerReviewService } from "../services/peer-review.service";
+import { GradebookService } from "../services/gradebook.service";
+import { ReleaseService } from "../services/release.service";
+import { VideoProgressService } from "../services/video-progress.service";
+import { CertificateService } from "../services/certificate.service";
+import logger from "../../../common/middleware/logger";
+
+const EXPIRED_ATTEMPT_SWEEP_INTERVAL = 60 * 1000; // 1 minute
+const ITEM_ANALYSIS_INTERVAL = 60 * 60 * 1000; // 1 hour
+const PEER_REVIEW_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const GRADE_SYNC_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const RELEASE_NOTIFICATION_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const VIDEO_STATS_INTERVAL = 60 * 60 * 1000; // 1 hour
+const CERTIFICATE_ISSUE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Run a job on an interval, never overlapping with its previous run
+ */
+function schedule(name: string, intervalMs: number, job: () => Promise<void>) {
+  let isRunning = false;
+
+  setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await job();
+    } catch (error) {
+      logger.error(`Course job "${name}" failed: ${error}`);
+    } finally {
+      isRunning = false;
+    }
+  }, intervalMs);
+}
+
+/**
+ * Start the course background jobs. Call once the database is connected.
+ */
+export function startCourseJobs() {
+  // Timed quiz attempts are finalized even if the student never comes back
+  schedule(
+    "finalize-expired-quiz-attempts",
+    EXPIRED_ATTEMPT_SWEEP_INTERVAL,
+    async () => {
+      const finalized = await QuizAttemptService.finalizeExpiredAttempts();
+      if (finalized) {
+        logger.info(`Finalized ${finalized} expired quiz attempt(s)`);
+      }
+    }
+  );
+
+  // Quiz and question statistics follow new attempts; the window overlaps
+  // the previous run so attempts graded mid-run are not missed
+  schedule("refresh-quiz-item-analysis", ITEM_ANALYSIS_INTERVAL, async () => {
+    const since = new Date(Date.now() - ITEM_ANALYSIS_INTERVAL * 1.5);
+    const analyzed = await ItemAnalysisService.refreshRecentQuizzes(since);
+    if (analyzed) {
+      logger.info(`Refreshed item analysis of ${analyzed} quiz(zes)`);
+    }
+  });
+
+  // Peer reviews start after the due date and grade when the window closes
+  schedule("process-peer-reviews", PEER_REVIEW_INTERVAL, async () => {
+    await PeerReviewService.processDueAssignments();
+  });
+
+  // Final grades are stored on the enrollment for certificates
+  schedule("sync-course-grades", GRADE_SYNC_INTERVAL, async () => {
+    const since = new Date(Date.now() - GRADE_SYNC_INTERVAL * 1.5);
+    await GradebookService.refreshRecentGrades(since);
+  });
+
+  // Drip-released lessons are announced to students by email
+  schedule(
+    "notify-content-releases",
+    RELEASE_NOTIFICATION_INTERVAL,
+    async () => {
+      const notified = await ReleaseService.notifyReleases();
+      if (notified) {
+        logger.info(`Sent ${notified} content release email(s)`);
+      }
+    }
+  );
+
+  // Lesson watch statistics follow new heartbeats
+  schedule("refresh-video-stats", VIDEO_STATS_INTERVAL, async () => {
+    const since = new Date(Date.now() - VIDEO_STATS_INTERVAL * 1.5);
+    const refreshed = await VideoProgressService.refreshRecentVideos(since);
+    if (refreshed) {
+      logger.info(`Refreshed watch statistics of ${refreshed} video(s)`);
+    }
+  });
+
+  // Completed courses and learning paths that award certificates get one
+  schedule("issue-certificates", CERTIFICATE_ISSUE_INTERVAL, async () => {
+    const issued = await CertificateService.issuePending();
+    if (issued) {
+      logger.info(`Issued ${issued} certificate(s)`);
+    }
+  });
+}
@@ -0,0 +1,452 @@
+// One-off migration: move courses authored with the legacy embedded schema
+// (course.modules[].contents[].quiz) into the normalized collections.
+//
+// Usage: npm run migrate:courses [-- --dry-run]
+//
+// Embedded subdocument IDs are reused for the new Module, Content, Quiz and
+// Question documents so existing enrollment progress keeps pointing at them.
+import dotenv from "dotenv";
+dotenv.config();
+import { ClientSession, Types } from "mongoose";
+import {
+  Course as LegacyCourse,
+  CourseEnrollment as LegacyCourseEnrollment,
+} from "../model";
+import {
+  Content,
+  Course,
+  CourseEnrollment,
+  Module,
+  Question,
+  Quiz,
+  QuizAttempt,
+  Resource,
+} from "../models";
+import { GradingService } from "../services/grading.service";
+import connectDB, {
+  startTransactionSession,
+} from "../../../common/database/connection";
+import { SECRETS } from "../../../common/constant";
+import logger from "../../../common/middleware/logger";
+
+interface MigrationStats {
+  courses: number;
+  modules: number;
+  contents: number;
+  quizzes: number;
+  questions: number;
+  resources: number;
+  attempts: number;
+  enrollments: number;
+}
+
+/**
+ * Convert a legacy embedded question into the normalized Question shape
+ */
+function toQuestion(legacyQuestion: any, createdBy: Types.ObjectId) {
+  const base = {
+    _id: legacyQuestion._id,
+    question: legacyQuestion.question,
+    explanation: legacyQuestion.explanation,
+    points: legacyQuestion.points || 1,
+    createdBy,
+  };
+  const correctAnswers: string[] = (
+    Array.isArray(legacyQuestion.correctAnswer)
+      ? legacyQuestion.correctAnswer
+      : [legacyQuestion.correctAnswer]
+  ).map(String);
+
+  switch (legacyQuestion.type) {
+    case "multiple-choice": {
+      const options = (legacyQuestion.options || []).map(
+        (text: string, index: number) => ({
+          id: `option-${index + 1}`,
+          text,
+          isCorrect: correctAnswers.includes(text),
+          order: index,
+        })
+      );
+      return {
+        ...base,
+        type: correctAnswers.length > 1 ? "multiple-choice" : "single-choice",
+        options,
+      };
+    }
+    case "true-false":
+      return {
+        ...base,
+        type: "true-false",
+        correctAnswer: String(correctAnswers[0]).toLowerCase() === "true",
+      };
+    case "fill-blank":
+      return {
+        ...base,
+        type: "fill-blank",
+        questionText: legacyQuestion.question,
+        blanks: [
+          {
+            id: "blank-1",
+            correctAnswers,
+            caseSensitive: false,
+            exactMatch: true,
+            position: 0,
+          },
+        ],
+      };
+    default:
+      return {
+        ...base,
+        type: "code-review",
+        codeSnippet: "",
+        language: "javascript",
+        correctAnswer: correctAnswers[0],
+      };
+  }
+}
+
+/**
+ * Translate a legacy answer (option text) into the new answer shape (option id)
+ */
+function toUserAnswer(question: any, legacyAnswer: any) {
+  if (!question.options?.length) return legacyAnswer;
+
+  const toOptionId = (text: any) =>
+    question.options.find((o: any) => o.text === text)?.id ?? text;
+
+  return Array.isArray(legacyAnswer)
+    ? legacyAnswer.map(toOptionId)
+    : toOptionId(legacyAnswer);
+}
+
+/**
+ * Create the Quiz and its Questions for a legacy embedded quiz
+ */
+function buildQuiz(
+  legacyQuiz: any,
+  course: any,
+  refs: { module: Types.ObjectId; content?: Types.ObjectId },
+  isPublished: boolean
+) {
+  const questions = (legacyQuiz.questions || []).map((q: any) =>
+    toQuestion(q, course.instructor)
+  );
+
+  const quiz = {
+    _id: legacyQuiz._id,
+    title: legacyQuiz.title || "Quiz",
+    description: legacyQuiz.description,
+    course: course._id,
+    module: refs.module,
+    content: refs.content,
+    questions: (legacyQuiz.questions || []).map((q: any, index: number) => ({
+      question: q._id,
+      order: q.order ?? index,
+      weight: 1,
+    })),
+    timeLimit: legacyQuiz.timeLimit,
+    passingScore: legacyQuiz.passingScore ?? 70,
+    maxAttempts: legacyQuiz.maxAttempts ?? 3,
+    showAnswers: legacyQuiz.showAnswers ?? true,
+    order: legacyQuiz.order ?? 0,
+    isRequired: legacyQuiz.isRequired ?? false,
+    isPublished,
+  };
+
+  return { quiz, questions };
+}
+
+/**
+ * Migrate a single legacy course. Without a session nothing is written.
+ */
+async function migrateCourse(
+  legacyCourse: any,
+  session: ClientSession | null
+): Promise<MigrationStats> {
+  const isPublished = legacyCourse.status === "published";
+  const modules: any[] = [];
+  const contents: any[] = [];
+  const quizzes: any[] = [];
+  const questions: any[] = [];
+  const resources: any[] = [];
+
+  legacyCourse.modules.forEach((legacyModule: any, moduleIndex: number) => {
+    modules.push({
+      _id: legacyModule._id,
+      course: legacyCourse._id,
+      title: legacyModule.title,
+      description: legacyModule.description,
+      order: legacyModule.order ?? moduleIndex,
+      // Legacy durations are stored in seconds, modules use minutes
+      estimatedDuration: legacyModule.estimatedDuration
+        ? Math.round(legacyModule.estimatedDuration / 60)
+        : undefined,
+      slug: `${legacyCourse.slug}-${legacyModule._id}`,
+      isPublished,
+    });
+
+    (legacyModule.contents || []).forEach(
+      (legacyContent: any, contentIndex: number) => {
+        const resourceIds: Types.ObjectId[] = [];
+        (legacyContent.resources || []).forEach((legacyResource: any) => {
+          const resourceId = new Types.ObjectId();
+          resourceIds.push(resourceId);
+          resources.push({
+            _id: resourceId,
+            title: legacyResource.title,
+            url: legacyResource.url,
+            type: legacyResource.type || "link",
+            course: legacyCourse._id,
+            module: legacyModule._id,
+            content: legacyContent._id,
+            createdBy: legacyCourse.instructor,
+          });
+        });
+
+        let quizId: Types.ObjectId | undefined;
+        if (legacyContent.quiz?.questions?.length) {
+          const built = buildQuiz(
+            legacyContent.quiz,
+            legacyCourse,
+            { module: legacyModule._id, content: legacyContent._id },
+            isPublished
+          );
+          quizId = built.quiz._id;
+          quizzes.push(built.quiz);
+          questions.push(...built.questions);
+        }
+
+        contents.push({
+          _id: legacyContent._id,
+          course: legacyCourse._id,
+          module: legacyModule._id,
+          title: legacyContent.title,
+          description: legacyContent.description,
+          type: legacyContent.type,
+          order: legacyContent.order ?? contentIndex,
+          duration: legacyContent.duration,
+          videoUrl: legacyContent.videoUrl,
+          videoId: legacyContent.videoId,
+          transcript: legacyContent.transcript,
+          textContent: legacyContent.textContent,
+          isPreview: legacyContent.isPreview ?? false,
+          resources: resourceIds,
+          quiz: quizId,
+          slug: `${legacyCourse.slug}-${legacyContent._id}`,
+          isPublished,
+        });
+      }
+    );
+
+    if (legacyModule.quiz?.questions?.length) {
+      const built = buildQuiz(
+        legacyModule.quiz,
+        legacyCourse,
+        { module: legacyModule._id },
+        isPublished
+      );
+      quizzes.push(built.quiz);
+      questions.push(...built.questions);
+    }
+  });
+
+  // Legacy quiz attempts become QuizAttempt documents
+  const questionsById = new Map(questions.map((q) => [q._id.toString(), q]));
+  const quizzesById = new Map(quizzes.map((q) => [q._id.toString(), q]));
+  const enrollments = await LegacyCourseEnrollment.find(
+    { course: legacyCourse._id },
+    null,
+    { session }
+  ).lean();
+  const attempts: any[] = [];
+
+  for (const enrollment of enrollments) {
+    for (const record of enrollment.quizAttempts || []) {
+      const quiz = quizzesById.get(record.quiz.toString());
+      if (!quiz) continue;
+
+      for (const [index, legacyAttempt] of record.attempts.entries()) {
+        const legacyAnswers = legacyAttempt.answers || {};
+        const answers = await Promise.all(
+          quiz.questions.map(async (quizQuestion: any) => {
+            const question = questionsById.get(
+              quizQuestion.question.toString()
+            );
+            const userAnswer = toUserAnswer(
+              question,
+              legacyAnswers[quizQuestion.question.toString()]
+            );
+            const result = await GradingService.gradeQuestion(
+              question,
+              userAnswer
+            );
+
+            return {
+              question: quizQuestion.question,
+              userAnswer,
+              isCorrect: result.isCorrect,
+              pointsEarned: question.points * result.partialCredit,
+              questionType: question.type,
+              correctAnswer: result.correctAnswer,
+              partialCredit: result.partialCredit,
+              maxPoints: question.points,
+            };
+          })
+        );
+        const totalPoints = answers.reduce(
+          (total: number, a: any) => total + a.maxPoints,
+          0
+        );
+
+        // Legacy scores are kept as recorded
+        attempts.push({
+          user: enrollment.user,
+          course: legacyCourse._id,
+          quiz: quiz._id,
+          attemptNumber: index + 1,
+          startedAt: legacyAttempt.completedAt,
+          completedAt: legacyAttempt.completedAt,
+          score: legacyAttempt.score,
+          totalPoints,
+          earnedPoints: Math.round((legacyAttempt.score / 100) * totalPoints),
+          passed: legacyAttempt.score >= quiz.passingScore,
+          answers,
+          isCompleted: true,
+          isGraded: true,
+        });
+      }
+    }
+  }
+
+  const counts: MigrationStats = {
+    courses: 1,
+    modules: modules.length,
+    contents: contents.length,
+    quizzes: quizzes.length,
+    questions: questions.length,
+    resources: resources.length,
+    attempts: attempts.length,
+    enrollments: enrollments.length,
+  };
+
+  // Dry runs only report what would be written
+  if (!session) return counts;
+
+  await Module.insertMany(modules, { session });
+  await Content.insertMany(contents, { session });
+  await Question.insertMany(questions, { session });
+  await Quiz.insertMany(quizzes, { session });
+  await Resource.insertMany(resources, { session });
+  await QuizAttempt.insertMany(attempts, { session });
+
+  const totals = {
+    totalContents: contents.length,
+    totalModules: modules.length,
+    totalQuizzes: quizzes.length,
+  };
+
+  await CourseEnrollment.collection.updateMany(
+    { course: legacyCourse._id },
+    {
+      $set: {
+        "progress.completedModules": [],
+        "progress.totalContents": totals.totalContents,
+        "progress.totalModules": totals.totalModules,
+        "progress.totalQuizzes": totals.totalQuizzes,
+      },
+      $unset: { quizAttempts: "" },
+    },
+    { session }
+  );
+
+  await Course.collection.updateOne(
+    { _id: legacyCourse._id },
+    {
+      $set: {
+        totalModules: totals.totalModules,
+        totalLessons: totals.totalContents,
+        totalQuizzes: totals.totalQuizzes,
+        lastUpdated: new Date(),
+      },
+      $unset: { modules: "" },
+    },
+    { session }
+  );
+
+  return counts;
+}
+
+export async function migrateEmbeddedCourses(dryRun = false) {
+  const stats: MigrationStats = {
+    courses: 0,
+    modules: 0,
+    contents: 0,
+    quizzes: 0,
+    questions: 0,
+    resources: 0,
+    attempts: 0,
+    enrollments: 0,
+  };
+
+  const legacyCourses = await LegacyCourse.find({
+    "modules.0": { $exists: true },
+  }).lean();
+
+  for (const legacyCourse of legacyCourses) {
+    // Skip courses that already have normalized modules
+    if (await Module.exists({ course: legacyCourse._id })) {
+      logger.warn(
+        `Skipping course "${legacyCourse.slug}": already has normalized modules`
+      );
+      continue;
+    }
+
+    let counts: MigrationStats;
+
+    if (dryRun) {
+      counts = await migrateCourse(legacyCourse, null);
+      logger.info(`[DRY RUN] Would migrate course "${legacyCourse.slug}"`);
+    } else {
+      counts = await migrateCourseInTransaction(legacyCourse);
+      logger.info(`Migrated course "${legacyCourse.slug}"`);
+    }
+
+    (Object.keys(stats) as (keyof MigrationStats)[]).forEach((key) => {
+      stats[key] += counts[key];
+    });
+  }
+
+  logger.info(`Course migration completed ${JSON.stringify(stats)}`);
+  return stats;
+}
+
+async function migrateCourseInTransaction(
+  legacyCourse: any
+): Promise<MigrationStats> {
+  const session = await startTransactionSession();
+  try {
+    let counts!: MigrationStats;
+    await session.withTransaction(async () => {
+      counts = await migrateCourse(legacyCourse, session);
+    });
+    return counts;
+  } catch (err) {
+    logger.error(`Failed to migrate course "${legacyCourse.slug}"`, err as any);
+    throw err;
+  } finally {
+    await session.endSession();
+  }
+}
+
+// When run directly, connect to DB using MONGO_URI env
+if (require.main === module) {
+  const dryRun = process.argv.includes("--dry-run");
+
+  connectDB(SECRETS.mongo_uri)
+    .then(() => migrateEmbeddedCourses(dryRun))
+    .then(() => process.exit(0))
+    .catch((err) => {
+      logger.error("Course migration failed", err as any);
+      process.exit(1);
+    });
+}
@@ -528,12 +528,18 @@ CourseReviewSchema.index({ user: 1, course: 1 }, { unique: true });
 CourseReviewSchema.index({ course: 1, rating: -1 }); // for filtering by rating
 CourseReviewSchema.index({ createdAt: -1 }); // for sorting by newest
 
-export const Course = model<ICourse>("Course", CourseSchema);
+// Legacy embedded course schema, only used by migrations/migrate-embedded-courses.
+// The normalized models in ./models own the "Course", "CourseEnrollment" and
+// "CourseReview" model names, so these are registered under legacy names but
+// read the same collections.
+export const Course = model<ICourse>("LegacyCourse", CourseSchema, "courses");
 export const CourseEnrollment = model<ICourseEnrollment>(
-  "CourseEnrollment",
-  CourseEnrollmentSchema
+  "LegacyCourseEnrollment",
+  CourseEnrollmentSchema,
+  "courseenrollments"
 );
 export const CourseReview = model<ICourseReview>(
-  "CourseReview",
-  CourseReviewSchema
+  "LegacyCourseReview",
+  CourseReviewSchema,
+  "coursereviews"
 );
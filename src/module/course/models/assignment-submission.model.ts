@@ -0,0 +1,164 @@
+import { Document, Schema, model, Types } from "mongoose";
+
+export type SubmissionStatus = "submitted" | "graded";
+
+export interface AssignmentSubmission {
+  _id?: Types.ObjectId;
+  user: Types.ObjectId;
+  course: Types.ObjectId;
+  module: Types.ObjectId;
+  content: Types.ObjectId; // assignment content
+
+  // Submission details
+  attemptNumber: number; // 1 for the first submission, then resubmissions
+  isLatest: boolean; // only the latest submission is graded and counts
+  files: {
+    url: string;
+    name: string;
+    format: string; // file extension, e.g. "pdf"
+    size: number; // bytes
+  }[];
+  comment?: string; // note from the student
+  submittedAt: Date;
+  isLate: boolean;
+
+  // Grading
+  status: SubmissionStatus;
+  rubricScores?: {
+    criteria: string;
+    points: number;
+    maxPoints: number;
+    comments?: string;
+  }[];
+  score?: number; // points
+  maxScore?: number;
+  percentage?: number;
+  passed?: boolean;
+  feedback?: string;
+  gradeSource?: "instructor" | "peer"; // an instructor grade overrides peers
+  gradedBy?: Types.ObjectId;
+  gradedAt?: Date;
+}
+
+export interface IAssignmentSubmission extends Document {
+  user: Types.ObjectId;
+  course: Types.ObjectId;
+  module: Types.ObjectId;
+  content: Types.ObjectId;
+  attemptNumber: number;
+  isLatest: boolean;
+  files: {
+    url: string;
+    name: string;
+    format: string;
+    size: number;
+  }[];
+  comment?: string;
+  submittedAt: Date;
+  isLate: boolean;
+  status: SubmissionStatus;
+  rubricScores?: {
+    criteria: string;
+    points: number;
+    maxPoints: number;
+    comments?: string;
+  }[];
+  score?: number;
+  maxScore?: number;
+  percentage?: number;
+  passed?: boolean;
+  feedback?: string;
+  gradeSource?: "instructor" | "peer";
+  gradedBy?: Types.ObjectId;
+  gradedAt?: Date;
+}
+
+const AssignmentSubmissionSchema = new Schema<IAssignmentSubmission>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    module: {
+      type: Schema.Types.ObjectId,
+      ref: "Module",
+      required: true,
+    },
+    content: {
+      type: Schema.Types.ObjectId,
+      ref: "Content",
+      required: true,
+      index: true,
+    },
+
+    // Submission details
+    attemptNumber: { type: Number, required: true, min: 1 },
+    isLatest: { type: Boolean, default: true },
+    files: [
+      {
+        url: { type: String, required: true },
+        name: { type: String, required: true },
+        format: { type: String, required: true, lowercase: true },
+        size: { type: Number, required: true, min: 0 },
+      },
+    ],
+    comment: { type: String, maxlength: 5000 },
+    submittedAt: { type: Date, default: Date.now },
+    isLate: { type: Boolean, default: false },
+
+    // Grading
+    status: {
+      type: String,
+      enum: ["submitted", "graded"],
+      default: "submitted",
+      index: true,
+    },
+    rubricScores: [
+      {
+        criteria: { type: String, required: true },
+        points: { type: Number, required: true, min: 0 },
+        maxPoints: { type: Number, required: true, min: 0 },
+        comments: { type: String },
+      },
+    ],
+    score: { type: Number, min: 0 },
+    maxScore: { type: Number, min: 0 },
+    percentage: { type: Number, min: 0, max: 100 },
+    passed: { type: Boolean },
+    feedback: { type: String },
+    gradeSource: { type: String, enum: ["instructor", "peer"] },
+    gradedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    gradedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Compound indexes
+AssignmentSubmissionSchema.index(
+  { user: 1, content: 1, attemptNumber: 1 },
+  { unique: true }
+);
+AssignmentSubmissionSchema.index({ content: 1, isLatest: 1, status: 1 });
+AssignmentSubmissionSchema.index({
+  course: 1,
+  isLatest: 1,
+  status: 1,
+  submittedAt: 1,
+});
+
+export const AssignmentSubmission = model<IAssignmentSubmission>(
+  "AssignmentSubmission",
+  AssignmentSubmissionSchema
+);
@@ -0,0 +1,124 @@
+import { Document, Schema, model, Types } from "mongoose";
+
+export interface Certificate {
+  _id?: Types.ObjectId;
+  code: string; // public verification code
+  user: Types.ObjectId;
+  url: string; // rendered PDF
+
+  // Either a course or a learning path completion
+  enrollment?: Types.ObjectId;
+  course?: Types.ObjectId;
+  pathEnrollment?: Types.ObjectId;
+  learningPath?: Types.ObjectId;
+
+  // What was printed, kept as issued
+  studentName: string;
+  courseTitle: string; // course or learning path title
+  instructorName?: string;
+  grade?: string;
+  completionScore?: number;
+  completionTime?: number; // hours
+  completedAt?: Date;
+
+  issuedAt: Date;
+  issuedBy?: Types.ObjectId; // unset when issued automatically
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  revocationReason?: string;
+
+  // Open Badge credential
+  statusListIndex?: number; // bit of the revocation status list
+}
+
+export interface ICertificate extends Document {
+  code: string;
+  user: Types.ObjectId;
+  url: string;
+  enrollment?: Types.ObjectId;
+  course?: Types.ObjectId;
+  pathEnrollment?: Types.ObjectId;
+  learningPath?: Types.ObjectId;
+  studentName: string;
+  courseTitle: string;
+  instructorName?: string;
+  grade?: string;
+  completionScore?: number;
+  completionTime?: number;
+  completedAt?: Date;
+  issuedAt: Date;
+  issuedBy?: Types.ObjectId;
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  revocationReason?: string;
+  statusListIndex?: number;
+}
+
+const CertificateSchema = new Schema<ICertificate>(
+  {
+    code: { type: String, required: true, unique: true },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    url: { type: String, required: true },
+
+    // Completed course or learning path
+    enrollment: {
+      type: Schema.Types.ObjectId,
+      ref: "CourseEnrollment",
+      index: true,
+    },
+    course: { type: Schema.Types.ObjectId, ref: "Course", index: true },
+    pathEnrollment: {
+      type: Schema.Types.ObjectId,
+      ref: "LearningPathEnrollment",
+      index: true,
+    },
+    learningPath: {
+      type: Schema.Types.ObjectId,
+      ref: "LearningPath",
+      index: true,
+    },
+
+    // Printed details
+    studentName: { type: String, required: true },
+    courseTitle: { type: String, required: true },
+    instructorName: { type: String },
+    grade: { type: String },
+    completionScore: { type: Number, min: 0, max: 100 },
+    completionTime: { type: Number, min: 0 }, // hours
+    completedAt: { type: Date },
+
+    issuedAt: { type: Date, default: Date.now },
+    issuedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    revokedAt: { type: Date },
+    revokedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    revocationReason: { type: String },
+
+    // Open Badge credential
+    statusListIndex: { type: Number, min: 0 },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// One valid certificate per course enrollment: unrevoked ones share a
+// missing revokedAt, revoked ones keep apart by when they were revoked
+CertificateSchema.index(
+  { enrollment: 1, revokedAt: 1 },
+  { unique: true, partialFilterExpression: { enrollment: { $exists: true } } }
+);
+
+// Status list bits are handed out once
+CertificateSchema.index({ statusListIndex: 1 }, { unique: true, sparse: true });
+
+export const Certificate = model<ICertificate>(
+  "Certificate",
+  CertificateSchema
+);
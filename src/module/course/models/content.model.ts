@@ -1,4 +1,6 @@
 import { Document, Schema, model, Types } from "mongoose";
+import { extractVideoInfo } from "../utils/video";
+import type { ReleaseTrigger } from "./module.model";
 
 export type ContentType =
   | "video"
@@ -7,7 +9,19 @@ export type ContentType =
   | "assignment"
   | "resource"
   | "live-session"
-  | "discussion";
+  | "discussion"
+  | "scorm";
+
+// SCORM 1.2 lesson. Package files are served from /scorm/<packageId>/ and
+// shared by the lessons of the package and their copies.
+export interface ScormPackage {
+  version: "1.2";
+  packageId: string;
+  identifier?: string; // manifest item
+  launchPath: string; // SCO file, relative to the package root
+  parameters?: string; // query string appended to the launch URL
+  masteryScore?: number; // raw score that passes the SCO
+}
 
 export interface Content {
   _id?: Types.ObjectId;
@@ -29,6 +43,7 @@ export interface Content {
   transcript?: string;
   thumbnailUrl?: string;
   videoQuality?: string[];
+  completionThreshold?: number; // % watched that completes the lesson
 
   // Text-specific fields
   textContent?: string; // Markdown or HTML content
@@ -43,6 +58,21 @@ export interface Content {
     maxPoints: number;
     description: string;
   }[];
+  allowLateSubmissions: boolean; // accept submissions after the due date, marked late
+  maxSubmissions?: number; // unlimited resubmissions when unset
+  passingScore?: number; // percentage the grade needs to complete the content
+  weight?: number; // for course grading
+  gradingCategory?: string; // gradebook category, see Course.gradingPolicy
+  peerReview?: {
+    enabled: boolean;
+    reviewersPerSubmission: number;
+    reviewWindowDays: number; // days reviewers get once reviews are assigned
+  };
+  peerReviewStatus?: {
+    assignedAt?: Date; // reviews are assigned after the due date
+    closesAt?: Date;
+    finalizedAt?: Date; // peer grades aggregated
+  };
 
   // Live session fields
   sessionDate?: Date;
@@ -50,6 +80,9 @@ export interface Content {
   meetingUrl?: string;
   recordingUrl?: string;
 
+  // SCORM-specific fields
+  scorm?: ScormPackage;
+
   // Access control
   isPreview: boolean; // can be viewed without enrollment
   isLocked: boolean;
@@ -58,6 +91,11 @@ export interface Content {
     requiredQuizScore?: number;
     requiredQuizzes?: Types.ObjectId[];
   };
+  release?: {
+    trigger: ReleaseTrigger;
+    date?: Date; // trigger "date"
+    days?: number; // days after enrollment or start
+  };
 
   // Resources (references to Resource collection)
   resources: Types.ObjectId[];
@@ -98,6 +136,7 @@ export interface IContent extends Document {
   transcript?: string;
   thumbnailUrl?: string;
   videoQuality?: string[];
+  completionThreshold?: number;
   textContent?: string;
   assignmentInstructions?: string;
   submissionFormat?: string[];
@@ -108,10 +147,26 @@ export interface IContent extends Document {
     maxPoints: number;
     description: string;
   }[];
+  allowLateSubmissions: boolean;
+  maxSubmissions?: number;
+  passingScore?: number;
+  weight?: number;
+  gradingCategory?: string;
+  peerReview?: {
+    enabled: boolean;
+    reviewersPerSubmission: number;
+    reviewWindowDays: number;
+  };
+  peerReviewStatus?: {
+    assignedAt?: Date;
+    closesAt?: Date;
+    finalizedAt?: Date;
+  };
   sessionDate?: Date;
   sessionDuration?: number;
   meetingUrl?: string;
   recordingUrl?: string;
+  scorm?: ScormPackage;
   isPreview: boolean;
   isLocked: boolean;
   unlockConditions?: {
@@ -119,6 +174,11 @@ export interface IContent extends Document {
     requiredQuizScore?: number;
     requiredQuizzes?: Types.ObjectId[];
   };
+  release?: {
+    trigger: ReleaseTrigger;
+    date?: Date; // trigger "date"
+    days?: number; // days after enrollment or start
+  };
   resources: Types.ObjectId[];
   quiz?: Types.ObjectId;
   allowComments: boolean;
@@ -153,6 +213,7 @@ const ContentSchema = new Schema<IContent>(
         "resource",
         "live-session",
         "discussion",
+        "scorm",
       ],
       index: true,
     },
@@ -184,6 +245,7 @@ const ContentSchema = new Schema<IContent>(
     transcript: { type: String },
     thumbnailUrl: { type: String, trim: true },
     videoQuality: [{ type: String }],
+    completionThreshold: { type: Number, min: 1, max: 100, default: 90 },
 
     // Text-specific fields
     textContent: { type: String }, // Markdown or HTML
@@ -200,6 +262,21 @@ const ContentSchema = new Schema<IContent>(
         description: { type: String },
       },
     ],
+    allowLateSubmissions: { type: Boolean, default: true },
+    maxSubmissions: { type: Number, min: 1 },
+    passingScore: { type: Number, min: 0, max: 100 },
+    weight: { type: Number, default: 1, min: 0 },
+    gradingCategory: { type: String, trim: true },
+    peerReview: {
+      enabled: { type: Boolean, default: false },
+      reviewersPerSubmission: { type: Number, default: 3, min: 1, max: 10 },
+      reviewWindowDays: { type: Number, default: 7, min: 1 },
+    },
+    peerReviewStatus: {
+      assignedAt: { type: Date },
+      closesAt: { type: Date },
+      finalizedAt: { type: Date },
+    },
 
     // Live session fields
     sessionDate: { type: Date },
@@ -207,6 +284,16 @@ const ContentSchema = new Schema<IContent>(
     meetingUrl: { type: String, trim: true },
     recordingUrl: { type: String, trim: true },
 
+    // SCORM fields
+    scorm: {
+      version: { type: String, enum: ["1.2"] },
+      packageId: { type: String },
+      identifier: { type: String },
+      launchPath: { type: String },
+      parameters: { type: String },
+      masteryScore: { type: Number, min: 0, max: 100 },
+    },
+
     // Access control
     isPreview: { type: Boolean, default: false },
     isLocked: { type: Boolean, default: false },
@@ -215,6 +302,15 @@ const ContentSchema = new Schema<IContent>(
       requiredQuizScore: { type: Number, min: 0, max: 100 },
       requiredQuizzes: [{ type: Schema.Types.ObjectId, ref: "Quiz" }],
     },
+    release: {
+      trigger: {
+        type: String,
+        enum: ["immediate", "date", "enrollment", "start"],
+        default: "immediate",
+      },
+      date: { type: Date },
+      days: { type: Number, min: 0 },
+    },
 
     // Resources references
     resources: [{ type: Schema.Types.ObjectId, ref: "Resource" }],
@@ -270,6 +366,7 @@ ContentSchema.virtual("icon").get(function (this: IContent) {
     resource: "📎",
     "live-session": "🔴",
     discussion: "💬",
+    scorm: "📦",
   };
   return iconMap[this.type] || "📄";
 });
@@ -314,12 +411,15 @@ ContentSchema.methods.canUserAccess = async function (
   this: IContent,
   userId: Types.ObjectId
 ) {
-  // Check if content is locked and user meets unlock conditions
-  if (!this.isLocked) return true;
   if (this.isPreview) return true;
 
-  // Implementation would check enrollment and unlock conditions
-  return true; // Placeholder
+  // Lessons of a locked module are locked too, so check even when unlocked.
+  // Imported lazily since the service depends on the models.
+  const { AccessEvaluatorService } = await import(
+    "../services/access-evaluator.service.js"
+  );
+  const ctx = await AccessEvaluatorService.getContext(this.course, userId);
+  return AccessEvaluatorService.evaluateContent(ctx, this).accessible;
 };
 
 ContentSchema.methods.getResourcesWithDetails = async function (
@@ -345,23 +445,10 @@ ContentSchema.pre("save", function (next) {
 
   // Validate video URL and extract ID
   if (this.type === "video" && this.videoUrl) {
-    if (
-      this.videoUrl.includes("youtube.com") ||
-      this.videoUrl.includes("youtu.be")
-    ) {
-      const match = this.videoUrl.match(
-        /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/
-      );
-      if (match) {
-        this.videoId = match[1];
-        this.videoProvider = "youtube";
-      }
-    } else if (this.videoUrl.includes("vimeo.com")) {
-      const match = this.videoUrl.match(/vimeo\.com\/(\d+)/);
-      if (match) {
-        this.videoId = match[1];
-        this.videoProvider = "vimeo";
-      }
+    const videoInfo = extractVideoInfo(this.videoUrl);
+    if (videoInfo) {
+      this.videoId = videoInfo.videoId;
+      this.videoProvider = videoInfo.provider;
     }
   }
 
@@ -70,6 +70,19 @@ export interface Course {
   certificate: boolean;
   certificateTemplate?: string;
 
+  // Gradebook - weighted categories of quizzes and assignments
+  gradingPolicy?: {
+    categories: {
+      name: string; // quizzes and assignments join by gradingCategory
+      weight: number;
+      dropLowest: number; // lowest item scores left out of the category
+    }[];
+    gradeBands: {
+      letter: string;
+      minScore: number; // percentage
+    }[];
+  };
+
   // SEO
   metaTitle?: string;
   metaDescription?: string;
@@ -104,6 +117,10 @@ export interface Course {
   // Monetization
   affiliateCommission?: number; // percentage
   couponCodes?: string[];
+
+  // Templates
+  isTemplate: boolean; // listed in the template gallery
+  clonedFrom?: Types.ObjectId;
 }
 
 // Course Enrollment Interface (simplified)
@@ -125,12 +142,18 @@ export interface CourseEnrollment {
     lastAccessedContent?: Types.ObjectId;
     lastAccessedAt: Date;
     currentModule?: Types.ObjectId;
+    moduleActivity: {
+      module: Types.ObjectId;
+      startedAt: Date;
+      completedAt?: Date;
+    }[];
   };
 
   enrollmentDate: Date;
   startDate?: Date;
   completionDate?: Date;
   expirationDate?: Date;
+  releaseNotifiedAt?: Date; // drip releases up to here were emailed
 
   // Certificates
   certificateIssued: boolean;
@@ -140,12 +163,14 @@ export interface CourseEnrollment {
     completionTime: number; // hours
     grade?: string;
     issuedAt: Date;
+    verificationCode?: string; // code of the current certificate
   };
 
   // Payment info
   paymentAmount?: number;
   paymentMethod?: string;
   transactionId?: string;
+  learningPath?: Types.ObjectId; // path that enrolled the student
 
   // Course rating/review
   rating?: {
@@ -266,6 +291,21 @@ const CourseSchema = new Schema(
     allowDownloads: { type: Boolean, default: true },
     certificate: { type: Boolean, default: false },
     certificateTemplate: { type: String },
+    gradingPolicy: {
+      categories: [
+        {
+          name: { type: String, required: true, trim: true },
+          weight: { type: Number, required: true, min: 0 },
+          dropLowest: { type: Number, default: 0, min: 0 },
+        },
+      ],
+      gradeBands: [
+        {
+          letter: { type: String, required: true, trim: true },
+          minScore: { type: Number, required: true, min: 0, max: 100 },
+        },
+      ],
+    },
 
     metaTitle: { type: String },
     metaDescription: { type: String },
@@ -290,6 +330,10 @@ const CourseSchema = new Schema(
     hasAssignments: { type: Boolean, default: false },
     affiliateCommission: { type: Number, min: 0, max: 100 },
     couponCodes: [{ type: String }],
+
+    // Templates
+    isTemplate: { type: Boolean, default: false, index: true },
+    clonedFrom: { type: Schema.Types.ObjectId, ref: "Course" },
   },
   {
     timestamps: true,
@@ -330,11 +374,20 @@ const CourseEnrollmentSchema = new Schema<ICourseEnrollment>(
       lastAccessedContent: { type: Schema.Types.ObjectId, ref: "Content" },
       lastAccessedAt: { type: Date, default: Date.now },
       currentModule: { type: Schema.Types.ObjectId, ref: "Module" },
+      // When the student started and completed each module
+      moduleActivity: [
+        {
+          module: { type: Schema.Types.ObjectId, ref: "Module" },
+          startedAt: { type: Date },
+          completedAt: { type: Date },
+        },
+      ],
     },
     enrollmentDate: { type: Date, default: Date.now },
     startDate: { type: Date },
     completionDate: { type: Date },
     expirationDate: { type: Date },
+    releaseNotifiedAt: { type: Date },
 
     certificateIssued: { type: Boolean, default: false },
     certificateUrl: { type: String },
@@ -343,11 +396,13 @@ const CourseEnrollmentSchema = new Schema<ICourseEnrollment>(
       completionTime: { type: Number, min: 0 }, // hours
       grade: { type: String },
       issuedAt: { type: Date },
+      verificationCode: { type: String },
     },
 
     paymentAmount: { type: Number, min: 0 },
     paymentMethod: { type: String },
     transactionId: { type: String },
+    learningPath: { type: Schema.Types.ObjectId, ref: "LearningPath" },
 
     rating: {
       stars: { type: Number, min: 1, max: 5 },
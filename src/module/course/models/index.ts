@@ -6,6 +6,12 @@ export * from "./quiz.model";
 export * from "./question.model";
 export * from "./resource.model";
 export * from "./quiz-attempt.model";
+export * from "./assignment-submission.model";
+export * from "./peer-review.model";
+export * from "./video-progress.model";
+export * from "./certificate.model";
+export * from "./learning-path.model";
+export * from "./scorm-progress.model";
 
 // Re-export commonly used types from their respective files
 export type {
@@ -16,10 +22,18 @@ export type {
 
 export type { QuestionType, QuestionDifficulty } from "./question.model";
 
+export type { ReleaseTrigger } from "./module.model";
+
 export type { ContentType } from "./content.model";
 
+export type { ScormLessonStatus } from "./scorm-progress.model";
+
 export type { ResourceType } from "./resource.model";
 
+export type { SubmissionStatus } from "./assignment-submission.model";
+
+export type { PeerReviewStatus } from "./peer-review.model";
+
 // Export model instances for easy importing
 export { Course, CourseEnrollment, CourseReview } from "./course.model";
 
@@ -29,3 +43,9 @@ export { Quiz } from "./quiz.model";
 export { Question } from "./question.model";
 export { Resource } from "./resource.model";
 export { QuizAttempt } from "./quiz-attempt.model";
+export { AssignmentSubmission } from "./assignment-submission.model";
+export { PeerReview } from "./peer-review.model";
+export { VideoProgress } from "./video-progress.model";
+export { Certificate } from "./certificate.model";
+export { LearningPath, LearningPathEnrollment } from "./learning-path.model";
+export { ScormProgress } from "./scorm-progress.model";
@@ -0,0 +1,217 @@
+import { Document, Schema, model, Types } from "mongoose";
+import { CourseStatus, EnrollmentStatus } from "./course.model";
+
+export interface LearningPathStep {
+  _id?: Types.ObjectId;
+  course: Types.ObjectId;
+  order: number;
+  isRequired: boolean; // optional courses do not count toward completion
+  prerequisites: Types.ObjectId[]; // courses of earlier steps to complete first
+}
+
+// Learning Path Interface - an ordered track of courses
+export interface LearningPath {
+  _id?: Types.ObjectId;
+  title: string;
+  slug: string;
+  description: string;
+  shortDescription?: string;
+  thumbnail?: string;
+  createdBy: Types.ObjectId;
+  status: CourseStatus;
+
+  steps: LearningPathStep[];
+
+  // Pricing
+  price: number;
+  currency: string;
+  isFree: boolean;
+
+  // Certificates
+  certificate: boolean;
+  certificateTemplate?: string;
+
+  // Statistics
+  totalEnrollments: number;
+  completionRate: number;
+
+  isActive: boolean;
+}
+
+export interface ILearningPath extends Document {
+  title: string;
+  slug: string;
+  description: string;
+  shortDescription?: string;
+  thumbnail?: string;
+  createdBy: Types.ObjectId;
+  status: CourseStatus;
+  steps: LearningPathStep[];
+  price: number;
+  currency: string;
+  isFree: boolean;
+  certificate: boolean;
+  certificateTemplate?: string;
+  totalEnrollments: number;
+  completionRate: number;
+  isActive: boolean;
+}
+
+// Learning Path Enrollment Interface
+export interface LearningPathEnrollment {
+  _id?: Types.ObjectId;
+  user: Types.ObjectId;
+  learningPath: Types.ObjectId;
+  status: EnrollmentStatus;
+
+  // Computed from the course enrollments of the steps
+  progress: {
+    completedCourses: Types.ObjectId[];
+    currentCourse?: Types.ObjectId;
+    progressPercentage: number;
+  };
+
+  enrollmentDate: Date;
+  completionDate?: Date;
+
+  // Certificates
+  certificateIssued: boolean;
+  certificateUrl?: string;
+  certificateData?: {
+    issuedAt: Date;
+    verificationCode?: string;
+  };
+}
+
+export interface ILearningPathEnrollment extends Document {
+  user: Types.ObjectId;
+  learningPath: Types.ObjectId;
+  status: EnrollmentStatus;
+  progress: {
+    completedCourses: Types.ObjectId[];
+    currentCourse?: Types.ObjectId;
+    progressPercentage: number;
+  };
+  enrollmentDate: Date;
+  completionDate?: Date;
+  certificateIssued: boolean;
+  certificateUrl?: string;
+  certificateData?: {
+    issuedAt: Date;
+    verificationCode?: string;
+  };
+}
+
+const LearningPathSchema = new Schema<ILearningPath>(
+  {
+    title: { type: String, required: true, trim: true, maxlength: 200 },
+    slug: { type: String, required: true, unique: true, lowercase: true },
+    description: { type: String, required: true },
+    shortDescription: { type: String, maxlength: 500 },
+    thumbnail: { type: String },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ["draft", "published", "archived", "coming-soon"],
+      default: "draft",
+    },
+
+    steps: [
+      {
+        course: {
+          type: Schema.Types.ObjectId,
+          ref: "Course",
+          required: true,
+        },
+        order: { type: Number, required: true, min: 0 },
+        isRequired: { type: Boolean, default: true },
+        prerequisites: [{ type: Schema.Types.ObjectId, ref: "Course" }],
+      },
+    ],
+
+    // Pricing
+    price: { type: Number, default: 0, min: 0 },
+    currency: { type: String, default: "USD" },
+    isFree: { type: Boolean, default: true },
+
+    // Certificates
+    certificate: { type: Boolean, default: true },
+    certificateTemplate: { type: String },
+
+    // Statistics
+    totalEnrollments: { type: Number, default: 0 },
+    completionRate: { type: Number, default: 0, min: 0, max: 100 },
+
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+const LearningPathEnrollmentSchema = new Schema<ILearningPathEnrollment>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    learningPath: {
+      type: Schema.Types.ObjectId,
+      ref: "LearningPath",
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ["enrolled", "in-progress", "completed", "dropped"],
+      default: "enrolled",
+    },
+
+    progress: {
+      completedCourses: [{ type: Schema.Types.ObjectId, ref: "Course" }],
+      currentCourse: { type: Schema.Types.ObjectId, ref: "Course" },
+      progressPercentage: { type: Number, default: 0, min: 0, max: 100 },
+    },
+
+    enrollmentDate: { type: Date, default: Date.now },
+    completionDate: { type: Date },
+
+    certificateIssued: { type: Boolean, default: false },
+    certificateUrl: { type: String },
+    certificateData: {
+      issuedAt: { type: Date },
+      verificationCode: { type: String },
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Compound indexes
+LearningPathSchema.index({ status: 1, isActive: 1 });
+LearningPathSchema.index({ "steps.course": 1 });
+LearningPathEnrollmentSchema.index(
+  { user: 1, learningPath: 1 },
+  { unique: true }
+);
+LearningPathEnrollmentSchema.index({ status: 1, certificateIssued: 1 });
+
+export const LearningPath = model<ILearningPath>(
+  "LearningPath",
+  LearningPathSchema
+);
+export const LearningPathEnrollment = model<ILearningPathEnrollment>(
+  "LearningPathEnrollment",
+  LearningPathEnrollmentSchema
+);
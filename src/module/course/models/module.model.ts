@@ -1,5 +1,7 @@
 import { Document, Schema, model, Types } from "mongoose";
 
+export type ReleaseTrigger = "immediate" | "date" | "enrollment" | "start";
+
 export interface Module {
   _id?: Types.ObjectId;
   title: string;
@@ -20,8 +22,16 @@ export interface Module {
     minimumProgress?: number; // percentage of previous modules to complete
     requiredQuizScore?: number;
   };
+  // Drip release: immediately, on a fixed date, or N days after the
+  // student enrolled or started the course
+  release?: {
+    trigger: ReleaseTrigger;
+    date?: Date;
+    days?: number;
+  };
 
   // Completion requirements
+  isRequired: boolean; // needed to complete the course
   completionRequirements: {
     requireAllContents: boolean;
     requiredContentPercentage?: number; // if not all contents required
@@ -58,6 +68,12 @@ export interface IModule extends Document {
     minimumProgress?: number;
     requiredQuizScore?: number;
   };
+  release?: {
+    trigger: ReleaseTrigger;
+    date?: Date;
+    days?: number;
+  };
+  isRequired: boolean;
   completionRequirements: {
     requireAllContents: boolean;
     requiredContentPercentage?: number;
@@ -110,8 +126,18 @@ const ModuleSchema = new Schema<IModule>(
       minimumProgress: { type: Number, min: 0, max: 100 },
       requiredQuizScore: { type: Number, min: 0, max: 100 },
     },
+    release: {
+      trigger: {
+        type: String,
+        enum: ["immediate", "date", "enrollment", "start"],
+        default: "immediate",
+      },
+      date: { type: Date },
+      days: { type: Number, min: 0 },
+    },
 
     // Completion requirements
+    isRequired: { type: Boolean, default: true },
     completionRequirements: {
       requireAllContents: { type: Boolean, default: true },
       requiredContentPercentage: {
@@ -221,9 +247,11 @@ ModuleSchema.methods.canUserAccess = async function (
   // Check if module is locked and user meets unlock conditions
   if (!this.isLocked) return true;
 
-  // Implementation would check enrollment and unlock conditions
-  // This is a placeholder
-  return true;
+  const { AccessEvaluatorService } = await import(
+    "../services/access-evaluator.service.js"
+  );
+  const ctx = await AccessEvaluatorService.getContext(this.course, userId);
+  return AccessEvaluatorService.evaluateModule(ctx, this).accessible;
 };
 
 ModuleSchema.methods.calculateProgress = async function (
@@ -0,0 +1,112 @@
+import { Document, Schema, model, Types } from "mongoose";
+
+export type PeerReviewStatus = "assigned" | "completed";
+
+export interface PeerReview {
+  _id?: Types.ObjectId;
+  course: Types.ObjectId;
+  content: Types.ObjectId; // assignment content
+  submission: Types.ObjectId;
+  author: Types.ObjectId; // student who wrote the submission
+  reviewer: Types.ObjectId; // never shown to the author
+
+  // Review
+  status: PeerReviewStatus;
+  rubricScores?: {
+    criteria: string;
+    points: number;
+    maxPoints: number;
+    comments?: string;
+  }[];
+  score?: number; // points
+  maxScore?: number;
+  percentage?: number;
+  feedback?: string;
+  dueDate: Date; // when the review window closes
+  completedAt?: Date;
+}
+
+export interface IPeerReview extends Document {
+  course: Types.ObjectId;
+  content: Types.ObjectId;
+  submission: Types.ObjectId;
+  author: Types.ObjectId;
+  reviewer: Types.ObjectId;
+  status: PeerReviewStatus;
+  rubricScores?: {
+    criteria: string;
+    points: number;
+    maxPoints: number;
+    comments?: string;
+  }[];
+  score?: number;
+  maxScore?: number;
+  percentage?: number;
+  feedback?: string;
+  dueDate: Date;
+  completedAt?: Date;
+}
+
+const PeerReviewSchema = new Schema<IPeerReview>(
+  {
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    content: {
+      type: Schema.Types.ObjectId,
+      ref: "Content",
+      required: true,
+    },
+    submission: {
+      type: Schema.Types.ObjectId,
+      ref: "AssignmentSubmission",
+      required: true,
+      index: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    reviewer: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+
+    // Review
+    status: {
+      type: String,
+      enum: ["assigned", "completed"],
+      default: "assigned",
+    },
+    rubricScores: [
+      {
+        criteria: { type: String, required: true },
+        points: { type: Number, required: true, min: 0 },
+        maxPoints: { type: Number, required: true, min: 0 },
+        comments: { type: String },
+      },
+    ],
+    score: { type: Number, min: 0 },
+    maxScore: { type: Number, min: 0 },
+    percentage: { type: Number, min: 0, max: 100 },
+    feedback: { type: String },
+    dueDate: { type: Date, required: true },
+    completedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Compound indexes
+PeerReviewSchema.index({ submission: 1, reviewer: 1 }, { unique: true });
+PeerReviewSchema.index({ content: 1, reviewer: 1 });
+
+export const PeerReview = model<IPeerReview>("PeerReview", PeerReviewSchema);
@@ -84,7 +84,7 @@ export interface FillBlankQuestion extends BaseQuestion {
     id: string;
     correctAnswers: string[]; // multiple acceptable answers
     caseSensitive: boolean;
-    exactMatch: boolean; // or allow fuzzy matching
+    exactMatch: boolean; // or ignore whitespace and punctuation
     position: number; // position in the text
   }[];
 }
@@ -10,7 +10,9 @@ export interface QuizAttempt {
   attemptNumber: number;
   startedAt: Date;
   completedAt?: Date;
+  expiresAt?: Date; // set by the server from the time limit and availability window
   timeSpent: number; // seconds
+  shuffleSeed?: number; // order of questions and options shown in this attempt
 
   // Scoring
   score: number; // percentage
@@ -30,8 +32,31 @@ export interface QuizAttempt {
     questionType?: string;
     correctAnswer?: any;
     partialCredit?: number; // for questions that allow partial credit
+    maxPoints?: number; // question points times its weight in the quiz
+    pendingManualGrading?: boolean; // essay/code-review until an instructor grades it
+    optionOrder?: string[]; // option/item IDs in the order the student saw them
+    testResults?: {
+      input: string;
+      expectedOutput: string;
+      actualOutput: string;
+      passed: boolean;
+      error?: string;
+      timedOut?: boolean;
+      durationMs: number;
+    }[]; // code submissions run against the question's test cases
+
+    // Manual grading
+    rubricScores?: { criteria: string; points: number }[];
+    comments?: string;
+    gradedBy?: Types.ObjectId;
+    gradedAt?: Date;
   }[];
 
+  // Answers saved while the attempt is in progress, keyed by question ID
+  savedAnswers: Map<string, any>;
+  questionTimes: Map<string, number>; // seconds spent per question
+  lastSavedAt?: Date;
+
   // Status
   isCompleted: boolean;
   isAbandoned: boolean; // if user left without completing
@@ -40,6 +65,8 @@ export interface QuizAttempt {
   // Feedback
   feedback?: string;
   instructorComments?: string;
+  gradedBy?: Types.ObjectId; // instructor who finished the manual grading
+  gradedAt?: Date;
 
   // Proctoring/Security
   securityFlags?: {
@@ -60,7 +87,9 @@ export interface IQuizAttempt extends Document {
   attemptNumber: number;
   startedAt: Date;
   completedAt?: Date;
+  expiresAt?: Date;
   timeSpent: number;
+  shuffleSeed?: number;
   score: number;
   totalPoints: number;
   earnedPoints: number;
@@ -74,12 +103,33 @@ export interface IQuizAttempt extends Document {
     questionType?: string;
     correctAnswer?: any;
     partialCredit?: number;
+    maxPoints?: number;
+    pendingManualGrading?: boolean;
+    optionOrder?: string[];
+    testResults?: {
+      input: string;
+      expectedOutput: string;
+      actualOutput: string;
+      passed: boolean;
+      error?: string;
+      timedOut?: boolean;
+      durationMs: number;
+    }[];
+    rubricScores?: { criteria: string; points: number }[];
+    comments?: string;
+    gradedBy?: Types.ObjectId;
+    gradedAt?: Date;
   }[];
+  savedAnswers: Map<string, any>;
+  questionTimes: Map<string, number>;
+  lastSavedAt?: Date;
   isCompleted: boolean;
   isAbandoned: boolean;
   isGraded: boolean;
   feedback?: string;
   instructorComments?: string;
+  gradedBy?: Types.ObjectId;
+  gradedAt?: Date;
   securityFlags?: {
     tabSwitches: number;
     copyPasteAttempts: number;
@@ -89,10 +139,10 @@ export interface IQuizAttempt extends Document {
   ipAddress?: string;
 
   // Methods
-  calculateScore(): void;
-  markAsCompleted(): Promise<IQuizAttempt>;
+  calculateScore(passingScore: number): void;
+  markAsCompleted(passingScore: number): Promise<IQuizAttempt>;
   addSecurityFlag(flag: string): Promise<IQuizAttempt>;
-  getDetailedResults(): any;
+  getDetailedResults(showAnswers?: boolean): any;
 }
 
 const QuizAttemptSchema = new Schema<IQuizAttempt>(
@@ -120,6 +170,8 @@ const QuizAttemptSchema = new Schema<IQuizAttempt>(
     attemptNumber: { type: Number, required: true, min: 1 },
     startedAt: { type: Date, default: Date.now, index: true },
     completedAt: { type: Date, index: true },
+    expiresAt: { type: Date },
+    shuffleSeed: { type: Number },
     timeSpent: { type: Number, default: 0, min: 0 }, // seconds
 
     // Scoring
@@ -143,9 +195,39 @@ const QuizAttemptSchema = new Schema<IQuizAttempt>(
         questionType: { type: String },
         correctAnswer: { type: Schema.Types.Mixed },
         partialCredit: { type: Number, min: 0, max: 1 }, // decimal percentage for partial credit
+        maxPoints: { type: Number, min: 0 },
+        pendingManualGrading: { type: Boolean, default: false },
+        optionOrder: [{ type: String }],
+        testResults: [
+          {
+            input: { type: String },
+            expectedOutput: { type: String },
+            actualOutput: { type: String },
+            passed: { type: Boolean, required: true },
+            error: { type: String },
+            timedOut: { type: Boolean },
+            durationMs: { type: Number, min: 0 },
+          },
+        ],
+
+        // Manual grading
+        rubricScores: [
+          {
+            criteria: { type: String, required: true },
+            points: { type: Number, min: 0, required: true },
+          },
+        ],
+        comments: { type: String },
+        gradedBy: { type: Schema.Types.ObjectId, ref: "User" },
+        gradedAt: { type: Date },
       },
     ],
 
+    // In-progress answers
+    savedAnswers: { type: Map, of: Schema.Types.Mixed, default: {} },
+    questionTimes: { type: Map, of: Number, default: {} },
+    lastSavedAt: { type: Date },
+
     // Status
     isCompleted: { type: Boolean, default: false, index: true },
     isAbandoned: { type: Boolean, default: false },
@@ -154,6 +236,8 @@ const QuizAttemptSchema = new Schema<IQuizAttempt>(
     // Feedback
     feedback: { type: String },
     instructorComments: { type: String },
+    gradedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    gradedAt: { type: Date },
 
     // Proctoring/Security
     securityFlags: {
@@ -181,6 +265,13 @@ QuizAttemptSchema.index(
 QuizAttemptSchema.index({ user: 1, course: 1 });
 QuizAttemptSchema.index({ quiz: 1, isCompleted: 1 });
 QuizAttemptSchema.index({ completedAt: -1 });
+QuizAttemptSchema.index({ isCompleted: 1, expiresAt: 1 });
+QuizAttemptSchema.index({
+  course: 1,
+  isCompleted: 1,
+  isGraded: 1,
+  completedAt: 1,
+});
 
 // Virtual for duration in readable format
 QuizAttemptSchema.virtual("formattedDuration").get(function (
@@ -221,10 +312,15 @@ QuizAttemptSchema.virtual("performanceLevel").get(function (
 });
 
 // Methods
-QuizAttemptSchema.methods.calculateScore = function (this: IQuizAttempt) {
+QuizAttemptSchema.methods.calculateScore = function (
+  this: IQuizAttempt,
+  passingScore: number
+) {
   if (this.answers.length === 0) {
     this.score = 0;
     this.earnedPoints = 0;
+    this.isGraded = true;
+    this.passed = false;
     return;
   }
 
@@ -237,23 +333,20 @@ QuizAttemptSchema.methods.calculateScore = function (this: IQuizAttempt) {
       ? Math.round((this.earnedPoints / this.totalPoints) * 100)
       : 0;
 
-  // Check if passed (would need to populate quiz to get passing score)
-  // This is a placeholder - actual implementation would check quiz.passingScore
-  this.passed = this.score >= 70;
+  // Answers waiting for manual grading keep the attempt ungraded
+  this.isGraded = !this.answers.some((answer) => answer.pendingManualGrading);
+  this.passed = this.isGraded && this.score >= passingScore;
 };
 
 QuizAttemptSchema.methods.markAsCompleted = async function (
-  this: IQuizAttempt
+  this: IQuizAttempt,
+  passingScore: number
 ) {
   this.isCompleted = true;
   this.completedAt = new Date();
 
   // Calculate final scores
-  this.calculateScore();
-
-  // If auto-graded, mark as graded
-  // (would check quiz settings in actual implementation)
-  this.isGraded = true;
+  this.calculateScore(passingScore);
 
   return this.save();
 };
@@ -274,7 +367,10 @@ QuizAttemptSchema.methods.addSecurityFlag = async function (
   return this.save();
 };
 
-QuizAttemptSchema.methods.getDetailedResults = function (this: IQuizAttempt) {
+QuizAttemptSchema.methods.getDetailedResults = function (
+  this: IQuizAttempt,
+  showAnswers: boolean = false
+) {
   const formattedDuration = (() => {
     if (!this.timeSpent) return "0m";
     const hours = Math.floor(this.timeSpent / 3600);
@@ -311,13 +407,34 @@ QuizAttemptSchema.methods.getDetailedResults = function (this: IQuizAttempt) {
     correctAnswers: this.answers.filter((a) => a.isCorrect).length,
     passed: this.passed,
     completedAt: this.completedAt,
+    // Answers are stored in the order the questions were shown
     answers: this.answers.map((answer) => ({
       questionId: answer.question,
+      userAnswer: answer.userAnswer,
+      optionOrder: answer.optionOrder,
+      ...(showAnswers && { correctAnswer: answer.correctAnswer }),
       isCorrect: answer.isCorrect,
       pointsEarned: answer.pointsEarned,
       timeSpent: answer.timeSpent,
       partialCredit: answer.partialCredit,
+      maxPoints: answer.maxPoints,
+      pendingManualGrading: answer.pendingManualGrading,
+      // Test inputs and expected outputs are part of the answer key
+      testResults: answer.testResults?.map((result) => ({
+        ...(showAnswers && {
+          input: result.input,
+          expectedOutput: result.expectedOutput,
+        }),
+        actualOutput: result.actualOutput,
+        passed: result.passed,
+        error: result.error,
+        timedOut: result.timedOut,
+      })),
+      rubricScores: answer.rubricScores,
+      comments: answer.comments,
     })),
+    feedback: this.feedback,
+    instructorComments: this.instructorComments,
   };
 };
 
@@ -330,11 +447,6 @@ QuizAttemptSchema.pre("save", function (next) {
     );
   }
 
-  // Auto-calculate score if answers exist
-  if (this.answers.length > 0 && !this.isGraded) {
-    this.calculateScore();
-  }
-
   next();
 });
 
@@ -350,7 +462,7 @@ QuizAttemptSchema.statics.getAttemptStatistics = async function (
         totalAttempts: { $sum: 1 },
         averageScore: { $avg: "$score" },
         passRate: {
-          $avg: { $cond: [{ $gte: ["$score", 70] }, 1, 0] },
+          $avg: { $cond: ["$passed", 1, 0] },
         },
         averageTimeSpent: { $avg: "$timeSpent" },
       },
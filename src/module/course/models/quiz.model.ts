@@ -39,6 +39,7 @@ export interface Quiz {
   order: number;
   isRequired: boolean;
   weight?: number; // for course grading
+  gradingCategory?: string; // gradebook category, see Course.gradingPolicy
 
   // Prerequisites
   prerequisites?: {
@@ -98,6 +99,7 @@ export interface IQuiz extends Document {
   order: number;
   isRequired: boolean;
   weight?: number;
+  gradingCategory?: string;
   prerequisites?: {
     requiredContents?: Types.ObjectId[];
     requiredQuizzes?: Types.ObjectId[];
@@ -192,6 +194,7 @@ const QuizSchema = new Schema<IQuiz>(
     order: { type: Number, required: true, default: 0 },
     isRequired: { type: Boolean, default: false },
     weight: { type: Number, default: 1, min: 0 },
+    gradingCategory: { type: String, trim: true },
 
     // Prerequisites
     prerequisites: {
@@ -0,0 +1,118 @@
+import { Document, Schema, model, Types } from "mongoose";
+
+export type ScormLessonStatus =
+  | "not attempted"
+  | "incomplete"
+  | "browsed"
+  | "completed"
+  | "passed"
+  | "failed";
+
+// SCORM 1.2 runtime data (cmi.*) of a user on a SCORM lesson
+export interface ScormProgress {
+  _id?: Types.ObjectId;
+  user: Types.ObjectId;
+  course: Types.ObjectId;
+  content: Types.ObjectId; // SCORM content
+
+  lessonStatus: ScormLessonStatus; // cmi.core.lesson_status
+  score?: {
+    raw?: number; // cmi.core.score.raw
+    min?: number;
+    max?: number;
+  };
+  lessonLocation?: string; // cmi.core.lesson_location, the bookmark
+  suspendData?: string; // cmi.suspend_data
+  exit?: string; // cmi.core.exit of the last session
+  totalTime: number; // seconds of the sessions before the current one
+  sessionTime: number; // cmi.core.session_time of the current session
+  sessions: number;
+
+  isCompleted: boolean; // completed or passed
+  completedAt?: Date;
+  lastCommitAt: Date;
+}
+
+export interface IScormProgress extends Document {
+  user: Types.ObjectId;
+  course: Types.ObjectId;
+  content: Types.ObjectId;
+  lessonStatus: ScormLessonStatus;
+  score?: {
+    raw?: number;
+    min?: number;
+    max?: number;
+  };
+  lessonLocation?: string;
+  suspendData?: string;
+  exit?: string;
+  totalTime: number;
+  sessionTime: number;
+  sessions: number;
+  isCompleted: boolean;
+  completedAt?: Date;
+  lastCommitAt: Date;
+}
+
+const ScormProgressSchema = new Schema<IScormProgress>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    content: {
+      type: Schema.Types.ObjectId,
+      ref: "Content",
+      required: true,
+    },
+
+    // Runtime data
+    lessonStatus: {
+      type: String,
+      enum: [
+        "not attempted",
+        "incomplete",
+        "browsed",
+        "completed",
+        "passed",
+        "failed",
+      ],
+      default: "not attempted",
+    },
+    score: {
+      raw: { type: Number },
+      min: { type: Number },
+      max: { type: Number },
+    },
+    lessonLocation: { type: String, maxlength: 255 },
+    suspendData: { type: String, maxlength: 4096 },
+    exit: { type: String },
+    totalTime: { type: Number, default: 0, min: 0 },
+    sessionTime: { type: Number, default: 0, min: 0 },
+    sessions: { type: Number, default: 0, min: 0 },
+
+    isCompleted: { type: Boolean, default: false },
+    completedAt: { type: Date },
+    lastCommitAt: { type: Date, default: Date.now },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Compound indexes
+ScormProgressSchema.index({ user: 1, content: 1 }, { unique: true });
+
+export const ScormProgress = model<IScormProgress>(
+  "ScormProgress",
+  ScormProgressSchema
+);
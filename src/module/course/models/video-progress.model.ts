@@ -0,0 +1,86 @@
+import { Document, Schema, model, Types } from "mongoose";
+
+export interface WatchedSegment {
+  start: number; // seconds
+  end: number;
+}
+
+export interface VideoProgress {
+  _id?: Types.ObjectId;
+  user: Types.ObjectId;
+  course: Types.ObjectId;
+  content: Types.ObjectId; // video content
+
+  // Watched ranges, merged and sorted
+  segments: WatchedSegment[];
+  watchedSeconds: number; // total length of the segments
+  resumePosition: number; // seconds
+  playbackSpeed?: number;
+
+  isCompleted: boolean; // watched the lesson's completion threshold
+  completedAt?: Date;
+  lastHeartbeatAt: Date;
+}
+
+export interface IVideoProgress extends Document {
+  user: Types.ObjectId;
+  course: Types.ObjectId;
+  content: Types.ObjectId;
+  segments: WatchedSegment[];
+  watchedSeconds: number;
+  resumePosition: number;
+  playbackSpeed?: number;
+  isCompleted: boolean;
+  completedAt?: Date;
+  lastHeartbeatAt: Date;
+}
+
+const VideoProgressSchema = new Schema<IVideoProgress>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    course: {
+      type: Schema.Types.ObjectId,
+      ref: "Course",
+      required: true,
+      index: true,
+    },
+    content: {
+      type: Schema.Types.ObjectId,
+      ref: "Content",
+      required: true,
+    },
+
+    // Watching
+    segments: [
+      {
+        start: { type: Number, required: true, min: 0 },
+        end: { type: Number, required: true, min: 0 },
+      },
+    ],
+    watchedSeconds: { type: Number, default: 0, min: 0 },
+    resumePosition: { type: Number, default: 0, min: 0 },
+    playbackSpeed: { type: Number, min: 0.5, max: 3.0 },
+
+    isCompleted: { type: Boolean, default: false },
+    completedAt: { type: Date },
+    lastHeartbeatAt: { type: Date, default: Date.now },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Compound indexes
+VideoProgressSchema.index({ user: 1, content: 1 }, { unique: true });
+VideoProgressSchema.index({ content: 1, lastHeartbeatAt: -1 });
+
+export const VideoProgress = model<IVideoProgress>(
+  "VideoProgress",
+  VideoProgressSchema
+);
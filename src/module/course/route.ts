@@ -1,5 +1,22 @@
 import { Router } from "express";
+import multer from "multer";
 import { CourseController } from "./controller";
+import { ModuleController } from "./controllers/module.controller";
+import { ContentController } from "./controllers/content.controller";
+import { QuizController } from "./controllers/quiz.controller";
+import { QuestionController } from "./controllers/question.controller";
+import { QuizAttemptController } from "./controllers/quiz-attempt.controller";
+import { GradingController } from "./controllers/grading.controller";
+import { AssignmentController } from "./controllers/assignment.controller";
+import { PeerReviewController } from "./controllers/peer-review.controller";
+import { GradebookController } from "./controllers/gradebook.controller";
+import { VideoController } from "./controllers/video.controller";
+import { CertificateController } from "./controllers/certificate.controller";
+import { BadgeController } from "./controllers/badge.controller";
+import { LearningPathController } from "./controllers/learning-path.controller";
+import { CourseCloneController } from "./controllers/course-clone.controller";
+import { CourseTransferController } from "./controllers/course-transfer.controller";
+import { ScormController } from "./controllers/scorm.controller";
 import {
   authenticate,
   authorize,
@@ -10,6 +27,25 @@ import {
   requireAnyPermission,
 } from "../../common/middleware/permission";
 
+// Question imports are parsed in memory
+const questionImportUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+});
+
+// Course archives and SCORM packages go through a temp file
+const courseImportUpload = multer({
+  dest: "uploads/",
+  limits: { fileSize: 50 * 1024 * 1024, files: 1 },
+});
+
+// Assignment files go through temp files to Cloudinary; the assignment's own
+// format and size limits are checked before uploading
+const assignmentUpload = multer({
+  dest: "uploads/",
+  limits: { fileSize: 50 * 1024 * 1024, files: 5 },
+});
+
 export default function (router: Router) {
   // Public routes
   router.get("/courses", CourseController.findAll);
@@ -17,6 +53,17 @@ export default function (router: Router) {
   router.get("/courses/:id/reviews", CourseController.getReviews);
   router.get("/categories", CourseController.getCategories);
   router.get("/instructors", CourseController.getInstructors);
+  router.get("/certificates/:code/verify", CertificateController.verify);
+  router.get("/learning-paths", LearningPathController.findAll);
+  router.get(
+    "/learning-paths/:slugOrId",
+    optionalAuth,
+    LearningPathController.findOne
+  );
+  router.get("/badges/issuer", BadgeController.issuer);
+  router.get("/badges/status/revocation", BadgeController.statusList);
+  router.post("/badges/verify", BadgeController.verify);
+  router.get("/badges/:code", BadgeController.findOne);
 
   // Authenticated user routes
   router.post("/courses/:id/enroll", authenticate, CourseController.enroll);
@@ -43,6 +90,22 @@ export default function (router: Router) {
     CourseController.markReviewHelpful
   );
   router.get("/my-courses", authenticate, CourseController.getMyCourses);
+  router.post(
+    "/learning-paths/:id/enroll",
+    authenticate,
+    LearningPathController.enroll
+  );
+  router.post(
+    "/learning-paths/:id/unenroll",
+    authenticate,
+    LearningPathController.unenroll
+  );
+  router.get(
+    "/learning-paths/:id/progress",
+    authenticate,
+    LearningPathController.progress
+  );
+  router.get("/my-learning-paths", authenticate, LearningPathController.mine);
 
   // Instructor/Author routes - using new permission system
   router.post(
@@ -74,6 +137,485 @@ export default function (router: Router) {
     CourseController.getAnalytics
   );
 
+  // Duplication and the template gallery
+  router.post(
+    "/courses/:id/duplicate",
+    authenticate,
+    requireAnyPermission(["course:create", "course:manage_all"]),
+    CourseCloneController.duplicate
+  );
+  router.get(
+    "/course-templates",
+    authenticate,
+    requireAnyPermission(["course:create", "course:manage_all"]),
+    CourseCloneController.templates
+  );
+
+  // Export and import - course archives and SCORM 1.2 packages
+  router.get(
+    "/courses/:id/export",
+    authenticate,
+    requireAnyPermission([
+      "course:edit",
+      "course:manage_all",
+      "course:manage_own",
+    ]),
+    CourseTransferController.export
+  );
+  router.post(
+    "/courses/import",
+    authenticate,
+    requireAnyPermission(["course:create", "course:manage_all"]),
+    courseImportUpload.single("file"),
+    CourseTransferController.import
+  );
+
+  // Learning paths
+  router.post(
+    "/learning-paths",
+    authenticate,
+    requireAnyPermission(["course:create", "course:manage_all"]),
+    LearningPathController.create
+  );
+  router.put(
+    "/learning-paths/:id",
+    authenticate,
+    requireAnyPermission([
+      "course:edit",
+      "course:manage_all",
+      "course:manage_own",
+    ]),
+    LearningPathController.update
+  );
+  router.delete(
+    "/learning-paths/:id",
+    authenticate,
+    requireAnyPermission([
+      "course:delete",
+      "course:manage_all",
+      "course:manage_own",
+    ]),
+    LearningPathController.delete
+  );
+
+  // Gradebook
+  router.get(
+    "/courses/:id/gradebook",
+    authenticate,
+    requireAnyPermission(["course:manage_all", "course:manage_own"]),
+    GradebookController.findAll
+  );
+  router.get(
+    "/courses/:id/gradebook/export",
+    authenticate,
+    requireAnyPermission(["course:manage_all", "course:manage_own"]),
+    GradebookController.export
+  );
+  router.get("/courses/:id/gradebook/me", authenticate, GradebookController.me);
+
+  // Certificates
+  router.post(
+    "/courses/:id/certificates",
+    authenticate,
+    requireAnyPermission(["student:issue_certificates"]),
+    CertificateController.issue
+  );
+  router.post(
+    "/courses/:id/certificates/:code/revoke",
+    authenticate,
+    requireAnyPermission(["student:issue_certificates"]),
+    CertificateController.revoke
+  );
+  router.get("/courses/:id/badge", authenticate, BadgeController.me);
+
+  // Module management
+  router.get("/courses/:id/modules", optionalAuth, ModuleController.findAll);
+  router.post(
+    "/courses/:id/modules",
+    authenticate,
+    requireAnyPermission([
+      "module:create",
+      "module:manage_all",
+      "module:manage_own",
+    ]),
+    ModuleController.create
+  );
+  router.patch(
+    "/courses/:id/modules/reorder",
+    authenticate,
+    requireAnyPermission([
+      "module:reorder",
+      "module:manage_all",
+      "module:manage_own",
+    ]),
+    ModuleController.reorder
+  );
+  router.put(
+    "/courses/:id/modules/:moduleId",
+    authenticate,
+    requireAnyPermission([
+      "module:edit",
+      "module:manage_all",
+      "module:manage_own",
+    ]),
+    ModuleController.update
+  );
+  router.delete(
+    "/courses/:id/modules/:moduleId",
+    authenticate,
+    requireAnyPermission([
+      "module:delete",
+      "module:manage_all",
+      "module:manage_own",
+    ]),
+    ModuleController.delete
+  );
+
+  // Lesson (content) management
+  router.get(
+    "/courses/:id/modules/:moduleId/contents",
+    optionalAuth,
+    ContentController.findAll
+  );
+  router.get(
+    "/courses/:id/modules/:moduleId/contents/:contentId",
+    optionalAuth,
+    ContentController.findOne
+  );
+  router.post(
+    "/courses/:id/modules/:moduleId/contents",
+    authenticate,
+    requireAnyPermission([
+      "content:create",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    ContentController.create
+  );
+  router.put(
+    "/courses/:id/modules/:moduleId/contents/:contentId",
+    authenticate,
+    requireAnyPermission([
+      "content:edit",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    ContentController.update
+  );
+  router.delete(
+    "/courses/:id/modules/:moduleId/contents/:contentId",
+    authenticate,
+    requireAnyPermission([
+      "content:delete",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    ContentController.delete
+  );
+  router.patch(
+    "/courses/:id/modules/:moduleId/contents/:contentId/move",
+    authenticate,
+    requireAnyPermission([
+      "content:edit",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    ContentController.move
+  );
+
+  // Quiz builder
+  router.get(
+    "/courses/:id/quizzes",
+    authenticate,
+    requireAnyPermission(["quiz:view", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.findAll
+  );
+  router.post(
+    "/courses/:id/quizzes",
+    authenticate,
+    requireAnyPermission(["quiz:create", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.create
+  );
+  router.get(
+    "/courses/:id/quizzes/:quizId",
+    authenticate,
+    requireAnyPermission(["quiz:view", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.findOne
+  );
+  router.put(
+    "/courses/:id/quizzes/:quizId",
+    authenticate,
+    requireAnyPermission(["quiz:edit", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.update
+  );
+  router.delete(
+    "/courses/:id/quizzes/:quizId",
+    authenticate,
+    requireAnyPermission(["quiz:delete", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.delete
+  );
+  router.get(
+    "/courses/:id/quizzes/:quizId/analysis",
+    authenticate,
+    requireAnyPermission(["quiz:view", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.analysis
+  );
+  router.get(
+    "/courses/:id/quizzes/:quizId/export",
+    authenticate,
+    requireAnyPermission(["quiz:view", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.export
+  );
+  router.get(
+    "/courses/:id/quizzes/:quizId/preview",
+    authenticate,
+    requireAnyPermission(["quiz:view", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.preview
+  );
+  router.post(
+    "/courses/:id/quizzes/:quizId/questions",
+    authenticate,
+    requireAnyPermission(["quiz:edit", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.addQuestion
+  );
+  router.patch(
+    "/courses/:id/quizzes/:quizId/questions/reorder",
+    authenticate,
+    requireAnyPermission(["quiz:edit", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.reorderQuestions
+  );
+  router.put(
+    "/courses/:id/quizzes/:quizId/questions/:questionId",
+    authenticate,
+    requireAnyPermission(["quiz:edit", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.updateQuestion
+  );
+  router.delete(
+    "/courses/:id/quizzes/:quizId/questions/:questionId",
+    authenticate,
+    requireAnyPermission(["quiz:edit", "quiz:manage_all", "quiz:manage_own"]),
+    QuizController.removeQuestion
+  );
+
+  // Quiz attempts - the server owns the clock of timed attempts
+  router.post(
+    "/courses/:id/quizzes/:quizId/attempts",
+    authenticate,
+    QuizAttemptController.start
+  );
+  router.get(
+    "/courses/:id/quizzes/:quizId/attempts/:attemptId",
+    authenticate,
+    QuizAttemptController.findOne
+  );
+  router.patch(
+    "/courses/:id/quizzes/:quizId/attempts/:attemptId",
+    authenticate,
+    QuizAttemptController.save
+  );
+  router.post(
+    "/courses/:id/quizzes/:quizId/attempts/:attemptId/submit",
+    authenticate,
+    QuizAttemptController.submit
+  );
+
+  // Video watch progress
+  router.post(
+    "/courses/:id/videos/:contentId/heartbeat",
+    authenticate,
+    VideoController.heartbeat
+  );
+  router.get(
+    "/courses/:id/videos/:contentId/progress",
+    authenticate,
+    VideoController.progress
+  );
+  router.get(
+    "/courses/:id/videos/:contentId/analytics",
+    authenticate,
+    requireAnyPermission(["content:manage_all", "content:manage_own"]),
+    VideoController.analytics
+  );
+
+  // SCORM runtime
+  router.post(
+    "/courses/:id/scorm/:contentId/launch",
+    authenticate,
+    ScormController.launch
+  );
+  router.put(
+    "/courses/:id/scorm/:contentId/runtime",
+    authenticate,
+    ScormController.commit
+  );
+
+  // Assignment submissions
+  router.post(
+    "/courses/:id/assignments/:contentId/submissions",
+    authenticate,
+    assignmentUpload.array("files", 5),
+    AssignmentController.submit
+  );
+  router.get(
+    "/courses/:id/assignments/:contentId/submissions/me",
+    authenticate,
+    AssignmentController.mySubmissions
+  );
+  router.get(
+    "/courses/:id/assignments/:contentId/submissions",
+    authenticate,
+    requireAnyPermission([
+      "quiz:grade",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    AssignmentController.findAll
+  );
+
+  // Peer review - reviewers and authors stay anonymous to each other
+  router.get(
+    "/courses/:id/assignments/:contentId/peer-reviews",
+    authenticate,
+    PeerReviewController.assigned
+  );
+  router.get(
+    "/courses/:id/assignments/:contentId/peer-reviews/received",
+    authenticate,
+    PeerReviewController.received
+  );
+  router.patch(
+    "/courses/:id/assignments/:contentId/peer-reviews/:reviewId",
+    authenticate,
+    PeerReviewController.submit
+  );
+
+  // Manual grading
+  router.get(
+    "/grading/queue",
+    authenticate,
+    requireAnyPermission(["quiz:grade", "quiz:manage_all"]),
+    GradingController.queue
+  );
+  router.get(
+    "/grading/attempts/:attemptId",
+    authenticate,
+    requireAnyPermission(["quiz:grade", "quiz:manage_all"]),
+    GradingController.findOne
+  );
+  router.patch(
+    "/grading/attempts/:attemptId/answers/:questionId",
+    authenticate,
+    requireAnyPermission(["quiz:grade", "quiz:manage_all"]),
+    GradingController.gradeAnswer
+  );
+  router.post(
+    "/grading/attempts/:attemptId/complete",
+    authenticate,
+    requireAnyPermission(["quiz:grade", "quiz:manage_all"]),
+    GradingController.complete
+  );
+  router.get(
+    "/grading/submissions",
+    authenticate,
+    requireAnyPermission([
+      "quiz:grade",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    AssignmentController.queue
+  );
+  router.get(
+    "/grading/submissions/:submissionId",
+    authenticate,
+    requireAnyPermission([
+      "quiz:grade",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    AssignmentController.findOne
+  );
+  router.patch(
+    "/grading/submissions/:submissionId",
+    authenticate,
+    requireAnyPermission([
+      "quiz:grade",
+      "content:manage_all",
+      "content:manage_own",
+    ]),
+    AssignmentController.grade
+  );
+
+  // Question bank
+  router.get(
+    "/questions",
+    authenticate,
+    requireAnyPermission([
+      "quiz:create",
+      "quiz:edit",
+      "quiz:manage_all",
+      "quiz:manage_own",
+    ]),
+    QuestionController.findAll
+  );
+  router.post(
+    "/questions",
+    authenticate,
+    requireAnyPermission(["quiz:create", "quiz:manage_all", "quiz:manage_own"]),
+    QuestionController.create
+  );
+  router.post(
+    "/questions/import",
+    authenticate,
+    requireAnyPermission(["quiz:create", "quiz:manage_all", "quiz:manage_own"]),
+    questionImportUpload.single("file"),
+    QuestionController.import
+  );
+  router.get(
+    "/questions/export",
+    authenticate,
+    requireAnyPermission([
+      "quiz:create",
+      "quiz:edit",
+      "quiz:manage_all",
+      "quiz:manage_own",
+    ]),
+    QuestionController.export
+  );
+  router.get(
+    "/questions/:questionId",
+    authenticate,
+    requireAnyPermission([
+      "quiz:create",
+      "quiz:edit",
+      "quiz:manage_all",
+      "quiz:manage_own",
+    ]),
+    QuestionController.findOne
+  );
+  router.put(
+    "/questions/:questionId",
+    authenticate,
+    requireAnyPermission(["quiz:edit", "quiz:manage_all", "quiz:manage_own"]),
+    QuestionController.update
+  );
+  router.post(
+    "/questions/:questionId/fork",
+    authenticate,
+    requireAnyPermission(["quiz:create", "quiz:manage_all", "quiz:manage_own"]),
+    QuestionController.fork
+  );
+  router.get(
+    "/questions/:questionId/usage",
+    authenticate,
+    requireAnyPermission([
+      "quiz:create",
+      "quiz:edit",
+      "quiz:manage_all",
+      "quiz:manage_own",
+    ]),
+    QuestionController.usage
+  );
+
   // Instructor dashboard - list own courses (including drafts)
   router.get(
     "/dashboard/courses",
@@ -97,6 +639,12 @@ export default function (router: Router) {
     authorize("admin"),
     CourseController.publish
   );
+  router.patch(
+    "/courses/:id/template",
+    authenticate,
+    authorize("admin"),
+    CourseCloneController.setTemplate
+  );
   router.get(
     "/admin/courses",
     authenticate,
@@ -0,0 +1,348 @@
+import { spawn } from "child_process";
+import os from "os";
+
+export type RunnableLanguage = "javascript" | "typescript";
+
+export interface TestCase {
+  input: string;
+  expectedOutput: string;
+  description?: string;
+}
+
+export interface TestCaseResult {
+  input: string;
+  expectedOutput: string;
+  actualOutput: string;
+  passed: boolean;
+  error?: string;
+  timedOut?: boolean;
+  durationMs: number;
+}
+
+export interface RunLimits {
+  timeoutMs: number; // CPU time per test case
+  memoryMb: number; // heap of the child process
+  maxOutputLength: number; // characters printed per test case
+}
+
+export const DEFAULT_RUN_LIMITS: RunLimits = {
+  timeoutMs: 2000,
+  memoryMb: 64,
+  maxOutputLength: 10_000,
+};
+
+// Runs beyond this many wait for a free slot
+const MAX_CONCURRENT_RUNS = 2;
+
+const LANGUAGE_ALIASES: Record<string, RunnableLanguage> = {
+  javascript: "javascript",
+  js: "javascript",
+  node: "javascript",
+  nodejs: "javascript",
+  typescript: "typescript",
+  ts: "typescript",
+};
+
+// Node 20 only knows the permission model by its experimental flag
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has("--permission")
+  ? "--permission"
+  : "--experimental-permission";
+
+/**
+ * Evaluated inside each test case's context, so the console and the output
+ * it collects belong to that context and no host function is reachable from
+ * the submission. Returns a reader of the output.
+ */
+const CONSOLE_SOURCE = `
+((maxOutputLength) => {
+  const lines = [];
+  let length = 0;
+  const format = (value) => {
+    if (typeof value === "string") return value;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+  const write = (...args) => {
+    const line = args.map(format).join(" ");
+    length += line.length + 1;
+    if (length > maxOutputLength) throw new Error("Output limit exceeded");
+    lines.push(line);
+  };
+  const ignore = () => {};
+  globalThis.console = { log: write, info: write, error: ignore, warn: ignore };
+  return () => lines.join("\\n");
+})
+`;
+
+/**
+ * Runs in a child process started under the permission model: no file
+ * system, child processes, workers or native addons. Each test case gets a
+ * fresh context holding only the `input` string and its own console - no
+ * require, process, timers or eval. Only strings leave a context, and the
+ * results go back as JSON on stdout. Synchronous work is cut off by the vm
+ * timeout.
+ */
+const CHILD_SOURCE = `
+const vm = require("vm");
+
+const text = (value) => (typeof value === "string" ? value : "");
+
+const run = ({ code, testCases, timeoutMs, maxOutputLength }) => {
+  const consoleScript = new vm.Script(${JSON.stringify(CONSOLE_SOURCE)});
+
+  let script;
+  let compileError;
+  try {
+    script = new vm.Script(code, { filename: "submission.js" });
+  } catch (error) {
+    compileError = String((error && error.message) || error);
+  }
+
+  return testCases.map((input) => {
+    if (compileError) return { output: "", error: compileError, durationMs: 0 };
+
+    // A null prototype keeps the host's Object (and with it Function) out
+    // of the context's global lookups
+    const sandbox = Object.create(null);
+    sandbox.input = String(input);
+    const context = vm.createContext(
+      sandbox,
+      {
+        codeGeneration: { strings: false, wasm: false },
+        microtaskMode: "afterEvaluate",
+      }
+    );
+    const readOutput = consoleScript.runInContext(context)(maxOutputLength);
+
+    const started = performance.now();
+    try {
+      script.runInContext(context, { timeout: timeoutMs });
+      return {
+        output: text(readOutput()),
+        durationMs: performance.now() - started,
+      };
+    } catch (error) {
+      const timedOut = !!error && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT";
+      let message;
+      try {
+        message = text(String((error && error.message) || error));
+      } catch {
+        message = "";
+      }
+      return {
+        output: text(readOutput()),
+        error: message || "Program failed",
+        timedOut,
+        durationMs: performance.now() - started,
+      };
+    }
+  });
+};
+
+let raw = "";
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", (chunk) => (raw += chunk));
+process.stdin.on("end", () => {
+  process.stdout.write(JSON.stringify(run(JSON.parse(raw))));
+});
+`;
+
+let activeRuns = 0;
+const waitingRuns: (() => void)[] = [];
+
+/**
+ * Wait for a free run slot so parallel submissions cannot exhaust the host
+ */
+async function acquireSlot(): Promise<void> {
+  if (activeRuns < MAX_CONCURRENT_RUNS) {
+    activeRuns++;
+    return;
+  }
+  await new Promise<void>((resolve) => waitingRuns.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waitingRuns.shift();
+  if (next) next();
+  else activeRuns--;
+}
+
+/**
+ * Map a language name to a runnable language, null if it cannot run here
+ */
+export function resolveLanguage(language?: string): RunnableLanguage | null {
+  if (!language) return null;
+  return LANGUAGE_ALIASES[language.trim().toLowerCase()] || null;
+}
+
+/**
+ * Compare program output with the expected output, ignoring line endings
+ * and trailing whitespace
+ */
+function matchesOutput(actual: string, expected: string): boolean {
+  const normalize = (value: string) =>
+    value
+      .replace(/\r\n/g, "\n")
+      .split("\n")
+      .map((line) => line.trimEnd())
+      .join("\n")
+      .trim();
+
+  return normalize(actual) === normalize(expected);
+}
+
+/**
+ * Turn a submission into plain JavaScript
+ */
+async function compile(
+  language: RunnableLanguage,
+  code: string
+): Promise<string> {
+  if (language === "javascript") return code;
+
+  const ts = (await import("typescript")).default;
+  return ts.transpileModule(code, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.None,
+    },
+  }).outputText;
+}
+
+/**
+ * Run a submission against each test case in a sandboxed child process.
+ * The program reads the test input from `input` and prints its answer with
+ * console.log. A crashed or killed process fails every case.
+ */
+export async function runTestCases(
+  submission: { language: RunnableLanguage; code: string },
+  testCases: TestCase[],
+  limits: RunLimits = DEFAULT_RUN_LIMITS
+): Promise<TestCaseResult[]> {
+  const failAll = (error: string, timedOut = false) =>
+    testCases.map((testCase) => ({
+      input: testCase.input,
+      expectedOutput: testCase.expectedOutput,
+      actualOutput: "",
+      passed: false,
+      error,
+      timedOut,
+      durationMs: 0,
+    }));
+
+  let code: string;
+  try {
+    code = await compile(submission.language, submission.code);
+  } catch (error: any) {
+    return failAll(`Compilation failed: ${error?.message || error}`);
+  }
+
+  await acquireSlot();
+  try {
+    const outcomes = await new Promise<
+      {
+        output: string;
+        error?: string;
+        timedOut?: boolean;
+        durationMs: number;
+      }[]
+    >((resolve, reject) => {
+      const child = spawn(
+        process.execPath,
+        [
+          PERMISSION_FLAG,
+          `--max-old-space-size=${limits.memoryMb}`,
+          `--max-semi-space-size=${Math.max(1, Math.floor(limits.memoryMb / 16))}`,
+          "-e",
+          CHILD_SOURCE,
+        ],
+        { cwd: os.tmpdir(), env: {}, stdio: ["pipe", "pipe", "pipe"] }
+      );
+
+      // Every case prints at most maxOutputLength, plus the JSON around it
+      const maxStdout = (limits.maxOutputLength * 2 + 1024) * testCases.length;
+      let stdout = "";
+      let stderr = "";
+      let failure: Error | undefined;
+      const kill = (error: Error) => {
+        failure ??= error;
+        child.kill("SIGKILL");
+      };
+
+      // Backstop for anything the vm timeout cannot interrupt
+      const timer = setTimeout(
+        () => kill(new Error("Time limit exceeded")),
+        limits.timeoutMs * testCases.length + 5000
+      );
+
+      child.stdout.setEncoding("utf8");
+      child.stdout.on("data", (chunk: string) => {
+        stdout += chunk;
+        if (stdout.length > maxStdout) {
+          kill(new Error("Output limit exceeded"));
+        }
+      });
+      child.stderr.setEncoding("utf8");
+      child.stderr.on("data", (chunk: string) => {
+        if (stderr.length < 4096) stderr += chunk;
+      });
+
+      child.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.once("close", (exitCode) => {
+        clearTimeout(timer);
+        if (failure) return reject(failure);
+        if (/heap out of memory/i.test(stderr)) {
+          return reject(new Error("Memory limit exceeded"));
+        }
+        if (exitCode !== 0) {
+          return reject(new Error("Program exited unexpectedly"));
+        }
+
+        try {
+          resolve(JSON.parse(stdout));
+        } catch {
+          reject(new Error("Program exited unexpectedly"));
+        }
+      });
+
+      child.stdin.on("error", () => {}); // the child may die before reading
+      child.stdin.end(
+        JSON.stringify({
+          code,
+          testCases: testCases.map(({ input }) => input),
+          timeoutMs: limits.timeoutMs,
+          maxOutputLength: limits.maxOutputLength,
+        })
+      );
+    });
+
+    return testCases.map((testCase, index) => {
+      const outcome = outcomes[index];
+
+      return {
+        input: testCase.input,
+        expectedOutput: testCase.expectedOutput,
+        actualOutput: outcome.output,
+        passed:
+          !outcome.error &&
+          matchesOutput(outcome.output, testCase.expectedOutput),
+        error: outcome.error,
+        timedOut: outcome.timedOut,
+        durationMs: Math.round(outcome.durationMs),
+      };
+    });
+  } catch (error: any) {
+    return failAll(
+      error?.message || String(error),
+      error?.message === "Time limit exceeded"
+    );
+  } finally {
+    releaseSlot();
+  }
+}
@@ -1,13 +1,20 @@
 import mongoose from "mongoose";
 import {
+  Content,
   Course,
   CourseEnrollment,
   CourseReview,
   ICourse,
   ICourseEnrollment,
   ICourseReview,
-} from "./model";
-import { IUser } from "../user/model";
+  IQuizAttempt,
+  Module,
+  Quiz,
+} from "./models";
+import { QuizAttemptService } from "./services/quiz-attempt.service";
+import { ReleaseService } from "./services/release.service";
+import { AccessEvaluatorService } from "./services/access-evaluator.service";
+import { ProgressService } from "./services/progress.service";
 import slugify from "../../common/utils/slugify";
 
 export class CourseService {
@@ -49,6 +56,7 @@ export class CourseService {
 
   /**
    * Process course data before saving
+   * (modules and lessons are managed through their own endpoints)
    */
   static async processCourseData(
     courseData: any,
@@ -62,45 +70,78 @@ export class CourseService {
     // Set instructor
     courseData.instructor = instructorId;
 
-    // Process modules and contents
-    if (courseData.modules) {
-      courseData.modules.forEach((module: any, moduleIndex: number) => {
-        module.order = module.order ?? moduleIndex;
-
-        if (module.contents) {
-          module.contents.forEach((content: any, contentIndex: number) => {
-            content.order = content.order ?? contentIndex;
-
-            // Extract YouTube video ID if video URL provided
-            if (content.videoUrl && content.type === "video") {
-              content.videoId = this.extractYouTubeId(content.videoUrl);
-            }
-
-            // Process quiz questions
-            if (content.quiz && content.quiz.questions) {
-              content.quiz.questions.forEach(
-                (question: any, questionIndex: number) => {
-                  question.order = question.order ?? questionIndex;
-                }
-              );
-            }
-          });
-        }
-
-        // Process module quiz
-        if (module.quiz && module.quiz.questions) {
-          module.quiz.questions.forEach(
-            (question: any, questionIndex: number) => {
-              question.order = question.order ?? questionIndex;
-            }
-          );
-        }
-      });
-    }
-
     return courseData;
   }
 
+  /**
+   * Get ordered course modules with their lessons. With an enrollment, each
+   * module and lesson tells whether it is released and when it will be.
+   */
+  static async getCourseOutline(
+    courseId: string,
+    includeUnpublished: boolean = false,
+    enrollment?: Pick<ICourseEnrollment, "enrollmentDate" | "startDate">
+  ) {
+    const publishedFilter = includeUnpublished ? {} : { isPublished: true };
+
+    const [modules, contents] = await Promise.all([
+      Module.find({ course: courseId, isActive: true, ...publishedFilter })
+        .sort({ order: 1 })
+        .lean(),
+      Content.find({ course: courseId, isActive: true, ...publishedFilter })
+        .select(
+          "title description type module order duration estimatedReadTime isPreview isLocked release isPublished slug quiz"
+        )
+        .sort({ order: 1 })
+        .lean(),
+    ]);
+
+    return modules.map((module) => ({
+      ...module,
+      ...(enrollment && {
+        availability: ReleaseService.getStatus([module.release], enrollment),
+      }),
+      contents: contents
+        .filter(
+          (content) => content.module.toString() === module._id.toString()
+        )
+        .map((content) => ({
+          ...content,
+          ...(enrollment && {
+            availability: ReleaseService.getStatus(
+              [module.release, content.release],
+              enrollment
+            ),
+          }),
+        })),
+    }));
+  }
+
+  /**
+   * Count the published lessons, modules and quizzes a student has to complete
+   */
+  static async getCourseProgressTotals(courseId: string) {
+    const [totalContents, totalModules, totalQuizzes] = await Promise.all([
+      Content.countDocuments({
+        course: courseId,
+        isActive: true,
+        isPublished: true,
+      }),
+      Module.countDocuments({
+        course: courseId,
+        isActive: true,
+        isPublished: true,
+      }),
+      Quiz.countDocuments({
+        course: courseId,
+        isActive: true,
+        isPublished: true,
+      }),
+    ]);
+
+    return { totalContents, totalModules, totalQuizzes };
+  }
+
   /**
    * Get course with enrollment status for specific user
    */
@@ -117,9 +158,10 @@ export class CourseService {
     }
     let enrollmentStatus;
     let userProgress;
+    let enrollment;
 
     if (userId) {
-      const enrollment = await CourseEnrollment.findOne({
+      enrollment = await CourseEnrollment.findOne({
         user: userId,
         course: courseId,
       }).lean();
@@ -130,8 +172,15 @@ export class CourseService {
       }
     }
 
+    const modules = await this.getCourseOutline(
+      courseId,
+      false,
+      enrollment ?? undefined
+    );
+
     return {
       ...course,
+      modules,
       enrollmentStatus,
       userProgress,
     } as any;
@@ -165,14 +214,7 @@ export class CourseService {
     }
 
     // Calculate totals
-    let totalContents = 0;
-    let totalQuizzes = 0;
-
-    course.modules.forEach((module) => {
-      totalContents += module.contents.length;
-      totalQuizzes += module.contents.filter((c) => c.type === "quiz").length;
-      if (module.quiz) totalQuizzes++;
-    });
+    const totals = await this.getCourseProgressTotals(courseId);
 
     // Create enrollment
     const enrollment = new CourseEnrollment({
@@ -181,12 +223,11 @@ export class CourseService {
       status: "enrolled",
       progress: {
         completedContents: [],
+        completedModules: [],
         completedQuizzes: [],
-        totalContents,
-        totalQuizzes,
+        ...totals,
         progressPercentage: 0,
       },
-      quizAttempts: [],
     });
 
     await enrollment.save();
@@ -203,13 +244,15 @@ export class CourseService {
   }
 
   /**
-   * Update user progress
+   * Update user progress. A locked lesson cannot be completed, unless the
+   * caller already checked access when the work was done.
    */
   static async updateProgress(
     courseId: string,
     userId: string,
     contentId: string,
-    completed: boolean = true
+    completed: boolean = true,
+    options: { skipAccessCheck?: boolean } = {}
   ): Promise<ICourseEnrollment> {
     const enrollment = await CourseEnrollment.findOne({
       user: userId,
@@ -220,57 +263,66 @@ export class CourseService {
       throw new Error("User not enrolled in this course");
     }
 
-    const contentObjectId = contentId;
+    const content = await Content.findOne({
+      _id: contentId,
+      course: courseId,
+      isActive: true,
+    });
+
+    if (!content) {
+      throw new Error("Content not found in course");
+    }
+
+    if (completed && !options.skipAccessCheck) {
+      await AccessEvaluatorService.assertContentAccess(content, userId);
+    }
 
     if (completed) {
       // Add to completed if not already there
       if (
         !enrollment.progress.completedContents.some(
-          (id) => id.toString() === contentObjectId.toString()
+          (id) => id.toString() === content.id
         )
       ) {
-        enrollment.progress.completedContents.push(contentObjectId as any);
+        enrollment.progress.completedContents.push(content._id as any);
       }
 
       // Update last accessed content
-      enrollment.progress.lastAccessedContent = contentObjectId as any;
+      enrollment.progress.lastAccessedContent = content._id as any;
+      enrollment.progress.lastAccessedAt = new Date();
 
       // Update status to in-progress if still enrolled
       if (enrollment.status === "enrolled") {
         enrollment.status = "in-progress";
+        enrollment.startDate = enrollment.startDate || new Date();
       }
     } else {
       // Remove from completed
       enrollment.progress.completedContents =
         enrollment.progress.completedContents.filter(
-          (id) => id.toString() !== contentObjectId.toString()
+          (id) => id.toString() !== content.id
         );
     }
 
+    // Refresh totals so lessons added after enrollment are counted
+    const totals = await this.getCourseProgressTotals(courseId);
+    enrollment.progress.totalContents = totals.totalContents;
+    enrollment.progress.totalModules = totals.totalModules;
+    enrollment.progress.totalQuizzes = totals.totalQuizzes;
+
     // Recalculate progress percentage
     const completedCount = enrollment.progress.completedContents.length;
     const totalCount = enrollment.progress.totalContents;
     enrollment.progress.progressPercentage =
-      totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
-
-    // Check if course is completed
-    if (
-      enrollment.progress.progressPercentage === 100 &&
-      enrollment.status !== "completed"
-    ) {
-      enrollment.status = "completed";
-      enrollment.completionDate = new Date();
-
-      // Update course completion stats
-      await this.updateCourseCompletionStats(courseId);
-    }
+      totalCount > 0 ? Math.min((completedCount / totalCount) * 100, 100) : 0;
 
-    await enrollment.save();
-    return enrollment;
+    // Modules and course completion follow the module requirements
+    return ProgressService.syncEnrollment(enrollment);
   }
 
   /**
-   * Submit quiz attempt
+   * Submit quiz attempt in one request - starts (or resumes) an attempt and
+   * submits it right away with the given answers
    */
   static async submitQuizAttempt(
     courseId: string,
@@ -280,120 +332,29 @@ export class CourseService {
   ): Promise<{
     score: number;
     passed: boolean;
-    enrollment: ICourseEnrollment;
+    attempt: IQuizAttempt;
+    enrollment: ICourseEnrollment | null;
   }> {
-    const enrollment = await CourseEnrollment.findOne({
-      user: userId,
-      course: courseId,
-    });
-
-    if (!enrollment) {
-      throw new Error("User not enrolled in this course");
-    }
-
-    const course = await Course.findById(courseId);
-    if (!course) {
-      throw new Error("Course not found");
-    }
+    const { attempt: startedAttempt, quiz } =
+      await QuizAttemptService.startAttempt(courseId, userId, quizId);
 
-    // Find the quiz in course structure
-    let quiz: any = null;
-    let isModuleQuiz = false;
-
-    // Search in course modules
-    for (const module of course.modules) {
-      // Check module quiz
-      if (module.quiz && module.quiz._id?.toString() === quizId) {
-        quiz = module.quiz;
-        isModuleQuiz = true;
-        break;
-      }
-
-      // Check content quizzes
-      for (const content of module.contents) {
-        if (content.quiz && content.quiz._id?.toString() === quizId) {
-          quiz = content.quiz;
-          break;
-        }
-      }
-      if (quiz) break;
-    }
-
-    if (!quiz) {
-      throw new Error("Quiz not found in course");
-    }
-
-    // Check existing attempts
-    let quizAttemptRecord = enrollment.quizAttempts.find(
-      (qa) => qa.quiz.toString() === quizId
+    const attempt = await QuizAttemptService.submitAttempt(
+      startedAttempt,
+      quiz,
+      answers
     );
 
-    if (!quizAttemptRecord) {
-      quizAttemptRecord = {
-        quiz: quizId as any,
-        attempts: [],
-      };
-      enrollment.quizAttempts.push(quizAttemptRecord);
-    }
-
-    // Check if max attempts exceeded
-    if (quizAttemptRecord.attempts.length >= quiz.maxAttempts) {
-      throw new Error(
-        `Maximum attempts (${quiz.maxAttempts}) exceeded for this quiz`
-      );
-    }
-
-    // Calculate score
-    let totalPoints = 0;
-    let earnedPoints = 0;
-
-    quiz.questions.forEach((question: any) => {
-      totalPoints += question.points || 1;
-
-      const userAnswer = answers[question._id?.toString()];
-      const correctAnswer = question.correctAnswer;
-
-      if (Array.isArray(correctAnswer)) {
-        // Multiple correct answers
-        if (
-          Array.isArray(userAnswer) &&
-          userAnswer.sort().join(",") === correctAnswer.sort().join(",")
-        ) {
-          earnedPoints += question.points || 1;
-        }
-      } else {
-        // Single correct answer
-        if (userAnswer === correctAnswer) {
-          earnedPoints += question.points || 1;
-        }
-      }
-    });
-
-    const score = totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
-    const passed = score >= quiz.passingScore;
-
-    // Record attempt
-    quizAttemptRecord.attempts.push({
-      score,
-      completedAt: new Date(),
-      answers,
+    const enrollment = await CourseEnrollment.findOne({
+      user: userId,
+      course: courseId,
     });
 
-    // If passed and not already in completed quizzes, add it
-    if (passed) {
-      const quizObjectId = quizId;
-      if (
-        !enrollment.progress.completedQuizzes.some(
-          (id) => id.toString() === quizObjectId.toString()
-        )
-      ) {
-        enrollment.progress.completedQuizzes.push(quizObjectId as any);
-      }
-    }
-
-    await enrollment.save();
-
-    return { score, passed, enrollment };
+    return {
+      score: attempt.score,
+      passed: attempt.passed,
+      attempt,
+      enrollment,
+    };
   }
 
   /**
@@ -475,44 +436,6 @@ export class CourseService {
     }
   }
 
-  /**
-   * Update course completion statistics
-   */
-  static async updateCourseCompletionStats(courseId: string): Promise<void> {
-    const stats = await CourseEnrollment.aggregate([
-      { $match: { course: courseId as any } },
-      {
-        $group: {
-          _id: null,
-          totalEnrollments: { $sum: 1 },
-          completedEnrollments: {
-            $sum: { $cond: [{ $eq: ["$status", "completed"] }, 1, 0] },
-          },
-          activeEnrollments: {
-            $sum: {
-              $cond: [{ $in: ["$status", ["enrolled", "in-progress"]] }, 1, 0],
-            },
-          },
-        },
-      },
-    ]);
-
-    if (stats.length > 0) {
-      const { totalEnrollments, completedEnrollments, activeEnrollments } =
-        stats[0];
-      const completionRate =
-        totalEnrollments > 0
-          ? (completedEnrollments / totalEnrollments) * 100
-          : 0;
-
-      await Course.findByIdAndUpdate(courseId, {
-        totalEnrollments,
-        activeEnrollments,
-        completionRate: Math.round(completionRate * 10) / 10,
-      });
-    }
-  }
-
   /**
    * Get course analytics
    */
@@ -0,0 +1,400 @@
+import { Types } from "mongoose";
+import {
+  Content,
+  CourseEnrollment,
+  IContent,
+  ICourseEnrollment,
+  IModule,
+  IQuiz,
+  Module,
+  Quiz,
+} from "../models";
+import { EffectiveQuizScore, QuizScoreService } from "./quiz-score.service";
+import { ReleaseService } from "./release.service";
+import { ForbiddenException } from "../../../common/middleware/errors";
+
+export interface LockReason {
+  type: "module" | "content" | "quiz" | "progress" | "schedule";
+  message: string;
+  target?: { id: string; title: string };
+  required?: number;
+  current?: number;
+  availableAt?: Date; // drip release date
+}
+
+export interface AccessResult {
+  accessible: boolean;
+  reasons: LockReason[];
+}
+
+/**
+ * What a user has done in a course, with the published structure needed to
+ * check unlock conditions. Build it once and evaluate many items against it.
+ */
+export interface AccessContext {
+  enrollment?: Pick<ICourseEnrollment, "enrollmentDate" | "startDate">;
+  completedContents: Set<string>;
+  modules: IModule[];
+  contents: IContent[];
+  quizzes: IQuiz[];
+  quizScores: Map<string, EffectiveQuizScore>;
+}
+
+const idOf = (id: Types.ObjectId | string | undefined) => id?.toString();
+
+export class AccessEvaluatorService {
+  /**
+   * Load a user's progress and the course's published modules, lessons and
+   * quizzes. Pass the enrollment when it holds unsaved progress.
+   */
+  static async getContext(
+    courseId: string | Types.ObjectId,
+    userId: string | Types.ObjectId,
+    loadedEnrollment?: ICourseEnrollment
+  ): Promise<AccessContext> {
+    const [enrollment, modules, contents, quizzes] = await Promise.all([
+      loadedEnrollment ??
+        CourseEnrollment.findOne({ user: userId, course: courseId }).select(
+          "enrollmentDate startDate progress.completedContents"
+        ),
+      Module.find({ course: courseId, isActive: true, isPublished: true }).sort(
+        { order: 1 }
+      ),
+      Content.find({
+        course: courseId,
+        isActive: true,
+        isPublished: true,
+      }).sort({ order: 1 }),
+      Quiz.find({ course: courseId, isActive: true, isPublished: true }),
+    ]);
+
+    return {
+      enrollment: enrollment ?? undefined,
+      completedContents: new Set(
+        (enrollment?.progress.completedContents || []).map(String)
+      ),
+      modules,
+      contents,
+      quizzes,
+      quizScores: await QuizScoreService.getEffectiveScores(userId, quizzes),
+    };
+  }
+
+  /**
+   * Whether a module's completion requirements are met: its lessons (all, or
+   * requiredContentPercentage of them) and, when required, its quizzes
+   */
+  static isModuleCompleted(ctx: AccessContext, module: IModule): boolean {
+    const requirements = module.completionRequirements;
+    const contents = this.getModuleContents(ctx, module.id);
+    const completed = contents.filter((content) =>
+      ctx.completedContents.has(content.id)
+    ).length;
+
+    const requiredPercentage =
+      requirements?.requireAllContents === false
+        ? (requirements.requiredContentPercentage ?? 100)
+        : 100;
+    const percentage = contents.length
+      ? (completed / contents.length) * 100
+      : 100;
+    if (percentage < requiredPercentage) return false;
+
+    if (!requirements?.requireQuizPass) return true;
+
+    return ctx.quizzes
+      .filter((quiz) => idOf(quiz.module) === module.id)
+      .every((quiz) => {
+        const effectiveScore = ctx.quizScores.get(quiz.id);
+        if (!effectiveScore) return false;
+
+        return requirements.minimumQuizScore !== undefined
+          ? effectiveScore.score >= requirements.minimumQuizScore
+          : effectiveScore.passed;
+      });
+  }
+
+  /**
+   * Check a module's release date and unlock conditions. A locked module
+   * without conditions opens once the module before it is completed.
+   */
+  static evaluateModule(ctx: AccessContext, module: IModule): AccessResult {
+    const reasons = this.checkRelease(ctx, module.release);
+    if (!module.isLocked) return { accessible: !reasons.length, reasons };
+
+    const conditions = module.unlockConditions;
+    const previousModules = ctx.modules.filter(
+      (other) => other.order < module.order
+    );
+    const requiredModules = ctx.modules.filter((other) =>
+      conditions?.requiredModules?.some((id) => idOf(id) === other.id)
+    );
+
+    const hasConditions =
+      requiredModules.length > 0 ||
+      conditions?.minimumProgress !== undefined ||
+      conditions?.requiredQuizScore !== undefined;
+
+    const modulesToComplete = hasConditions
+      ? requiredModules
+      : previousModules.slice(-1);
+    modulesToComplete
+      .filter((other) => !this.isModuleCompleted(ctx, other))
+      .forEach((other) =>
+        reasons.push({
+          type: "module",
+          message: `Complete module "${other.title}"`,
+          target: { id: other.id, title: other.title },
+        })
+      );
+
+    if (conditions?.minimumProgress !== undefined) {
+      const contents = previousModules.flatMap((other) =>
+        this.getModuleContents(ctx, other.id)
+      );
+      const completed = contents.filter((content) =>
+        ctx.completedContents.has(content.id)
+      ).length;
+      const progress = contents.length
+        ? Math.round((completed / contents.length) * 100)
+        : 100;
+
+      if (progress < conditions.minimumProgress) {
+        reasons.push({
+          type: "progress",
+          message: `Complete ${conditions.minimumProgress}% of the previous modules`,
+          required: conditions.minimumProgress,
+          current: progress,
+        });
+      }
+    }
+
+    if (conditions?.requiredQuizScore !== undefined) {
+      const quizModules = new Set(
+        (requiredModules.length ? requiredModules : previousModules).map(
+          (other) => other.id
+        )
+      );
+      ctx.quizzes
+        .filter((quiz) => quizModules.has(idOf(quiz.module)!))
+        .forEach((quiz) => {
+          const reason = this.checkQuizScore(
+            ctx,
+            quiz,
+            conditions.requiredQuizScore
+          );
+          if (reason) reasons.push(reason);
+        });
+    }
+
+    return { accessible: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Check whether a lesson is open: it and its module must be released and
+   * its module unlocked, and a locked lesson needs its required lessons and
+   * quiz scores. A locked lesson without conditions opens once the lesson
+   * before it is completed. Preview lessons are always open.
+   */
+  static evaluateContent(ctx: AccessContext, content: IContent): AccessResult {
+    if (content.isPreview) return { accessible: true, reasons: [] };
+
+    const module = ctx.modules.find(
+      (other) => other.id === idOf(content.module)
+    );
+    const reasons = module ? [...this.evaluateModule(ctx, module).reasons] : [];
+    reasons.push(...this.checkRelease(ctx, content.release));
+
+    if (content.isLocked) {
+      const conditions = content.unlockConditions;
+      const requiredContents = ctx.contents.filter((other) =>
+        conditions?.requiredContents?.some((id) => idOf(id) === other.id)
+      );
+      const requiredQuizzes = ctx.quizzes.filter((quiz) =>
+        conditions?.requiredQuizzes?.some((id) => idOf(id) === quiz.id)
+      );
+
+      const contentsToComplete =
+        requiredContents.length || requiredQuizzes.length
+          ? requiredContents
+          : this.getModuleContents(ctx, content.module)
+              .filter((other) => other.order < content.order)
+              .slice(-1);
+
+      reasons.push(...this.checkContents(ctx, contentsToComplete));
+      requiredQuizzes.forEach((quiz) => {
+        const reason = this.checkQuizScore(
+          ctx,
+          quiz,
+          conditions?.requiredQuizScore
+        );
+        if (reason) reasons.push(reason);
+      });
+    }
+
+    return { accessible: reasons.length === 0, reasons: this.unique(reasons) };
+  }
+
+  /**
+   * Check a quiz's prerequisites, and that its module and lesson are open
+   */
+  static evaluateQuiz(ctx: AccessContext, quiz: IQuiz): AccessResult {
+    const reasons: LockReason[] = [];
+
+    const content = ctx.contents.find(
+      (other) => other.id === idOf(quiz.content)
+    );
+    const module = ctx.modules.find((other) => other.id === idOf(quiz.module));
+    if (content) {
+      reasons.push(...this.evaluateContent(ctx, content).reasons);
+    } else if (module) {
+      reasons.push(...this.evaluateModule(ctx, module).reasons);
+    }
+
+    const prerequisites = quiz.prerequisites;
+    reasons.push(
+      ...this.checkContents(
+        ctx,
+        ctx.contents.filter((other) =>
+          prerequisites?.requiredContents?.some((id) => idOf(id) === other.id)
+        )
+      )
+    );
+    ctx.quizzes
+      .filter((other) =>
+        prerequisites?.requiredQuizzes?.some((id) => idOf(id) === other.id)
+      )
+      .forEach((other) => {
+        const reason = this.checkQuizScore(
+          ctx,
+          other,
+          prerequisites?.minimumScore
+        );
+        if (reason) reasons.push(reason);
+      });
+
+    return { accessible: reasons.length === 0, reasons: this.unique(reasons) };
+  }
+
+  /**
+   * Throw a ForbiddenException with the lock reasons when a user cannot
+   * open a lesson
+   */
+  static async assertContentAccess(
+    content: IContent,
+    userId: string | Types.ObjectId
+  ): Promise<void> {
+    const ctx = await this.getContext(content.course, userId);
+    const { accessible, reasons } = this.evaluateContent(ctx, content);
+
+    if (!accessible) {
+      throw new ForbiddenException(
+        `This ${this.getLabel(content)} is locked`,
+        403,
+        { reasons }
+      );
+    }
+  }
+
+  /**
+   * Throw a ForbiddenException with the lock reasons when a user cannot
+   * start a quiz
+   */
+  static async assertQuizAccess(
+    quiz: IQuiz,
+    userId: string | Types.ObjectId
+  ): Promise<void> {
+    const ctx = await this.getContext(quiz.course, userId);
+    const { accessible, reasons } = this.evaluateQuiz(ctx, quiz);
+
+    if (!accessible) {
+      throw new ForbiddenException("This quiz is locked", 403, { reasons });
+    }
+  }
+
+  private static getModuleContents(
+    ctx: AccessContext,
+    moduleId: Types.ObjectId | string
+  ): IContent[] {
+    return ctx.contents.filter(
+      (content) => idOf(content.module) === idOf(moduleId)
+    );
+  }
+
+  private static checkRelease(
+    ctx: AccessContext,
+    release: IModule["release"]
+  ): LockReason[] {
+    const { released, availableAt } = ReleaseService.getStatus(
+      [release],
+      ctx.enrollment
+    );
+    if (released) return [];
+
+    const days = release?.days ?? 0;
+    return [
+      {
+        type: "schedule",
+        message: availableAt
+          ? `Available on ${availableAt.toISOString().slice(0, 10)}`
+          : release?.trigger === "start"
+            ? `Available ${days} day(s) after you start the course`
+            : `Available ${days} day(s) after you enroll`,
+        availableAt,
+      },
+    ];
+  }
+
+  private static checkContents(
+    ctx: AccessContext,
+    contents: IContent[]
+  ): LockReason[] {
+    return contents
+      .filter((content) => !ctx.completedContents.has(content.id))
+      .map((content) => ({
+        type: "content",
+        message: `Complete ${this.getLabel(content)} "${content.title}"`,
+        target: { id: content.id, title: content.title },
+      }));
+  }
+
+  /**
+   * Reason a quiz score falls short of minimumScore, or of the quiz's
+   * passing score when no minimum is set
+   */
+  private static checkQuizScore(
+    ctx: AccessContext,
+    quiz: IQuiz,
+    minimumScore?: number
+  ): LockReason | null {
+    const effectiveScore = ctx.quizScores.get(quiz.id);
+    const score = effectiveScore?.score ?? 0;
+    const required = minimumScore ?? quiz.passingScore;
+
+    if (effectiveScore && score >= required) return null;
+
+    return {
+      type: "quiz",
+      message:
+        minimumScore !== undefined
+          ? `Score ${minimumScore}% on quiz "${quiz.title}"`
+          : `Pass quiz "${quiz.title}"`,
+      target: { id: quiz.id, title: quiz.title },
+      required,
+      current: score,
+    };
+  }
+
+  private static getLabel(content: IContent): string {
+    return content.type === "assignment" ? "assignment" : "lesson";
+  }
+
+  private static unique(reasons: LockReason[]): LockReason[] {
+    const seen = new Set<string>();
+    return reasons.filter((reason) => {
+      if (seen.has(reason.message)) return false;
+      seen.add(reason.message);
+      return true;
+    });
+  }
+}
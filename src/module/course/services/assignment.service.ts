@@ -0,0 +1,443 @@
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import {
+  AssignmentSubmission,
+  Content,
+  Course,
+  CourseEnrollment,
+  IAssignmentSubmission,
+  IContent,
+} from "../models";
+import { CourseService } from "../service";
+import { AccessEvaluatorService } from "./access-evaluator.service";
+import { CourseAccessService } from "./course-access.service";
+import { ManualGradingService } from "./manual-grading.service";
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import { checkPermission } from "../../../common/middleware/permission";
+import { paginate } from "../../../common/utils/pagination";
+import { uploadToCloudinary } from "../../../common/utils/upload";
+import {
+  IGradeSubmission,
+  ISubmissionQuery,
+  ISubmissionQueue,
+  ISubmitAssignment,
+} from "../validation/assignment";
+
+const UPLOAD_FOLDER = "hexonest/assignments";
+
+export class AssignmentService {
+  /**
+   * Get an active assignment of a course
+   */
+  static async getCourseAssignment(
+    courseId: string,
+    contentId: string
+  ): Promise<IContent> {
+    if (!mongoose.isValidObjectId(contentId)) {
+      throw new NotFoundException("Assignment not found");
+    }
+
+    const content = await Content.findOne({
+      _id: contentId,
+      course: courseId,
+      type: "assignment",
+      isActive: true,
+    });
+    if (!content) {
+      throw new NotFoundException("Assignment not found");
+    }
+
+    return content;
+  }
+
+  /**
+   * Check uploaded files against the assignment's allowed formats and
+   * maximum file size
+   */
+  static validateFiles(content: IContent, files: Express.Multer.File[]) {
+    if (!files.length) {
+      throw new BadRequestException("Upload at least one file");
+    }
+
+    const formats = (content.submissionFormat || []).map((format) =>
+      format.replace(/^\./, "").toLowerCase()
+    );
+
+    for (const file of files) {
+      const format = this.getFormat(file.originalname);
+      if (formats.length && !formats.includes(format)) {
+        throw new BadRequestException(
+          `"${file.originalname}" is not an accepted format (${formats.join(", ")})`
+        );
+      }
+      if (
+        content.maxFileSize &&
+        file.size > content.maxFileSize * 1024 * 1024
+      ) {
+        throw new BadRequestException(
+          `"${file.originalname}" exceeds the ${content.maxFileSize} MB limit`
+        );
+      }
+    }
+  }
+
+  /**
+   * Submit files for an assignment. A submission after the due date is
+   * marked late, or refused if the assignment does not accept late work.
+   * Resubmitting replaces the previous submission as the one to grade.
+   */
+  static async submitAssignment(
+    courseId: string,
+    contentId: string,
+    userId: string,
+    files: Express.Multer.File[],
+    data: ISubmitAssignment
+  ): Promise<IAssignmentSubmission> {
+    const enrollment = await CourseEnrollment.exists({
+      user: userId,
+      course: courseId,
+      status: { $ne: "dropped" },
+    });
+    if (!enrollment) {
+      throw new ForbiddenException(
+        "Enroll in this course to submit this assignment"
+      );
+    }
+
+    const content = await this.getCourseAssignment(courseId, contentId);
+    if (!content.isPublished) {
+      throw new NotFoundException("Assignment not found");
+    }
+    await AccessEvaluatorService.assertContentAccess(content, userId);
+
+    if (content.peerReviewStatus?.assignedAt) {
+      throw new BadRequestException(
+        "Submissions are closed, peer review has started"
+      );
+    }
+
+    this.validateFiles(content, files);
+
+    const now = new Date();
+    const isLate = !!content.dueDate && now > content.dueDate;
+    if (isLate && !content.allowLateSubmissions) {
+      throw new BadRequestException(
+        "The due date for this assignment has passed"
+      );
+    }
+
+    const previousSubmissions = await AssignmentSubmission.countDocuments({
+      user: userId,
+      content: content._id,
+    });
+    if (
+      content.maxSubmissions &&
+      previousSubmissions >= content.maxSubmissions
+    ) {
+      throw new BadRequestException(
+        `Maximum submissions (${content.maxSubmissions}) reached for this assignment`
+      );
+    }
+
+    const uploadedFiles = await Promise.all(
+      files.map(async (file) => ({
+        url: await uploadToCloudinary(file.path, UPLOAD_FOLDER, "auto"),
+        name: file.originalname,
+        format: this.getFormat(file.originalname),
+        size: file.size,
+      }))
+    );
+
+    await AssignmentSubmission.updateMany(
+      { user: userId, content: content._id, isLatest: true },
+      { $set: { isLatest: false } }
+    );
+
+    const submission = new AssignmentSubmission({
+      user: userId,
+      course: courseId,
+      module: content.module,
+      content: content._id,
+      attemptNumber: previousSubmissions + 1,
+      isLatest: true,
+      files: uploadedFiles,
+      comment: data.comment,
+      submittedAt: now,
+      isLate,
+    });
+
+    await submission.save();
+
+    return submission;
+  }
+
+  /**
+   * A student's submissions for an assignment, latest first. Grades stay
+   * hidden until they are released.
+   */
+  static async getUserSubmissions(
+    courseId: string,
+    contentId: string,
+    userId: string
+  ): Promise<IAssignmentSubmission[]> {
+    const content = await this.getCourseAssignment(courseId, contentId);
+
+    const submissions = await AssignmentSubmission.find({
+      user: userId,
+      content: content._id,
+    })
+      .populate("gradedBy", "name")
+      .sort({ attemptNumber: -1 });
+
+    if (this.areResultsReleased(content)) return submissions;
+
+    return submissions.map((submission) => {
+      submission.set({
+        status: "submitted",
+        rubricScores: undefined,
+        score: undefined,
+        maxScore: undefined,
+        percentage: undefined,
+        passed: undefined,
+        feedback: undefined,
+        gradeSource: undefined,
+        gradedBy: undefined,
+        gradedAt: undefined,
+      });
+      return submission;
+    });
+  }
+
+  /**
+   * Latest submission of each student for an assignment
+   */
+  static async getSubmissions(content: IContent, query: ISubmissionQuery) {
+    const { page, limit, status, user } = query;
+    const filter: Record<string, any> = {
+      content: content._id,
+      isLatest: true,
+    };
+    if (status) filter.status = status;
+    if (user) filter.user = user;
+
+    return paginate(AssignmentSubmission, filter, {
+      page,
+      limit,
+      sort: { submittedAt: 1 },
+      populate: [{ path: "user", select: "name email avatar" }],
+    });
+  }
+
+  /**
+   * List latest submissions still waiting for a grade, oldest first.
+   * Instructors only see submissions of the courses they teach.
+   */
+  static async getQueue(query: ISubmissionQueue, user: any) {
+    const { page, limit } = query;
+    const filter: Record<string, any> = {
+      isLatest: true,
+      status: "submitted",
+    };
+
+    const canGradeAll =
+      user.role === "admin" ||
+      user.role === "super-admin" ||
+      checkPermission(user, "content:manage_all");
+
+    const courseFilter: Record<string, any> = canGradeAll
+      ? {}
+      : { $or: [{ instructor: user.id }, { coInstructors: user.id }] };
+    if (query.course) courseFilter._id = query.course;
+    if (!canGradeAll || query.course) {
+      filter.course = { $in: await Course.find(courseFilter).distinct("_id") };
+    }
+    if (query.content) filter.content = query.content;
+
+    return paginate(AssignmentSubmission, filter, {
+      page,
+      limit,
+      sort: { submittedAt: 1 },
+      populate: [
+        { path: "user", select: "name email avatar" },
+        { path: "course", select: "title slug" },
+        { path: "content", select: "title dueDate gradingRubric" },
+      ],
+    });
+  }
+
+  /**
+   * Load a submission the user may grade, with its assignment
+   */
+  static async getGradableSubmission(
+    submissionId: string,
+    user: any
+  ): Promise<{ submission: IAssignmentSubmission; content: IContent }> {
+    if (!mongoose.isValidObjectId(submissionId)) {
+      throw new NotFoundException("Submission not found");
+    }
+
+    const submission = await AssignmentSubmission.findById(submissionId);
+    if (!submission) {
+      throw new NotFoundException("Submission not found");
+    }
+
+    await CourseAccessService.getManageableCourse(
+      submission.course.toString(),
+      user,
+      "content:manage_all"
+    );
+
+    const content = await Content.findById(submission.content);
+    if (!content) {
+      throw new NotFoundException("Assignment not found");
+    }
+
+    return { submission, content };
+  }
+
+  /**
+   * Score a submission per rubric criterion, or with a percentage when the
+   * assignment has no rubric. Used by instructors and peer reviewers alike.
+   */
+  static scoreSubmission(
+    content: IContent,
+    data: IGradeSubmission
+  ): Pick<
+    IAssignmentSubmission,
+    "rubricScores" | "score" | "maxScore" | "percentage"
+  > {
+    const rubric = content.gradingRubric || [];
+    if (!rubric.length) {
+      if (data.percentage === undefined) {
+        throw new BadRequestException(
+          "This assignment has no rubric, provide a percentage"
+        );
+      }
+
+      return {
+        rubricScores: undefined,
+        score: data.percentage,
+        maxScore: 100,
+        percentage: data.percentage,
+      };
+    }
+
+    if (!data.rubricScores) {
+      throw new BadRequestException("Score every rubric criterion");
+    }
+
+    const credit = ManualGradingService.scoreRubric(
+      rubric.map((criterion) => ({
+        criteria: criterion.criteria,
+        points: criterion.maxPoints,
+      })),
+      data.rubricScores
+    );
+    const scores = new Map(
+      data.rubricScores.map((score) => [score.criteria, score])
+    );
+    const maxScore = rubric.reduce(
+      (total, criterion) => total + criterion.maxPoints,
+      0
+    );
+
+    return {
+      rubricScores: rubric.map((criterion) => ({
+        criteria: criterion.criteria,
+        points: scores.get(criterion.criteria)?.points ?? 0,
+        maxPoints: criterion.maxPoints,
+        comments: scores.get(criterion.criteria)?.comments,
+      })),
+      score: Math.round(maxScore * credit * 100) / 100,
+      maxScore,
+      percentage: Math.round(credit * 10000) / 100,
+    };
+  }
+
+  /**
+   * Grade the latest submission. The grade decides whether the assignment
+   * counts as completed in the student's course progress, and overrides
+   * any grade from peer review.
+   */
+  static async gradeSubmission(
+    submission: IAssignmentSubmission,
+    content: IContent,
+    data: IGradeSubmission,
+    graderId: string
+  ): Promise<IAssignmentSubmission> {
+    if (!submission.isLatest) {
+      throw new BadRequestException("Only the latest submission can be graded");
+    }
+
+    submission.set(this.scoreSubmission(content, data));
+    submission.passed = submission.percentage! >= (content.passingScore ?? 0);
+    if (data.feedback !== undefined) submission.feedback = data.feedback;
+    submission.status = "graded";
+    submission.gradeSource = "instructor";
+    submission.gradedBy = new mongoose.Types.ObjectId(graderId);
+    submission.gradedAt = new Date();
+
+    await submission.save();
+
+    // Peer-reviewed grades reach progress when the review window closes
+    if (this.areResultsReleased(content)) {
+      await this.syncProgress(submission);
+    }
+
+    return submission;
+  }
+
+  /**
+   * Check whether students may see their grades. Peer-reviewed assignments
+   * keep them hidden until the review window closes.
+   */
+  static areResultsReleased(content: IContent): boolean {
+    if (!content.peerReview?.enabled) return true;
+
+    const closesAt = content.peerReviewStatus?.closesAt;
+    return !!closesAt && closesAt <= new Date();
+  }
+
+  /**
+   * Mark the assignment completed in the student's progress when the grade
+   * passes, and not completed when it does not
+   */
+  static async syncProgress(submission: IAssignmentSubmission): Promise<void> {
+    const enrollment = await CourseEnrollment.exists({
+      user: submission.user,
+      course: submission.course,
+    });
+    if (!enrollment) return;
+
+    // Access was checked when the work was submitted
+    await CourseService.updateProgress(
+      submission.course.toString(),
+      submission.user.toString(),
+      submission.content.toString(),
+      !!submission.passed,
+      { skipAccessCheck: true }
+    );
+  }
+
+  /**
+   * Remove the temporary files of an upload. Files already moved to
+   * storage are gone and skipped.
+   */
+  static async removeTempFiles(files: Express.Multer.File[]): Promise<void> {
+    await Promise.all(
+      files.map((file) => fs.promises.rm(file.path, { force: true }))
+    );
+  }
+
+  /**
+   * File extension without the dot, e.g. "pdf"
+   */
+  static getFormat(fileName: string): string {
+    return path.extname(fileName).slice(1).toLowerCase();
+  }
+}
@@ -0,0 +1,395 @@
+import crypto from "crypto";
+import { Certificate, Course, ICertificate, LearningPath } from "../models";
+import {
+  NotFoundException,
+  ServerException,
+} from "../../../common/middleware/errors";
+import {
+  encodeStatusList,
+  getIssuerKey,
+  IssuerKey,
+  isStatusSet,
+  SignedCredential,
+  signCredential,
+  STATUS_LIST_SIZE,
+  verifyCredentialProof,
+} from "../utils/open-badge";
+
+const ISSUER_NAME = "Hexonest";
+const CREDENTIAL_CONTEXT = [
+  "https://www.w3.org/ns/credentials/v2",
+  "https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json",
+];
+const MAX_INDEX_ATTEMPTS = 10;
+
+const getBadgeUrl = () => `${process.env.API_URL}/api/v1/badges`;
+
+export interface BadgeVerification {
+  verified: boolean;
+  status?: "valid" | "revoked";
+  checks: {
+    proof: boolean;
+    issuer: boolean;
+    validity: boolean;
+    status: boolean;
+  };
+  errors: string[];
+}
+
+export class BadgeService {
+  /**
+   * Issuer profile with the public key credentials are signed with
+   */
+  static getIssuerProfile() {
+    const key = this.getKey();
+    const issuerId = `${getBadgeUrl()}/issuer`;
+
+    return {
+      "@context": CREDENTIAL_CONTEXT,
+      ...this.getIssuer(),
+      verificationMethod: [
+        {
+          id: this.getVerificationMethod(key),
+          type: "Multikey",
+          controller: issuerId,
+          publicKeyMultibase: key.publicKeyMultibase,
+        },
+      ],
+      assertionMethod: [this.getVerificationMethod(key)],
+    };
+  }
+
+  /**
+   * Signed Open Badges 3.0 credential for a certificate. Proofs are dated at
+   * issue, so the same credential is returned every time.
+   */
+  static async getCredential(code: string): Promise<SignedCredential> {
+    const certificate = await Certificate.findOne({
+      code: code.trim().toUpperCase(),
+    });
+    if (!certificate) {
+      throw new NotFoundException("Badge not found");
+    }
+
+    return this.buildCredential(certificate);
+  }
+
+  /**
+   * A student's credential for a course, to add to a wallet or profile
+   */
+  static async getUserCredential(
+    courseId: string,
+    userId: string
+  ): Promise<SignedCredential> {
+    const certificate = await Certificate.findOne({
+      course: courseId,
+      user: userId,
+      revokedAt: { $exists: false },
+    }).sort({ issuedAt: -1 });
+    if (!certificate) {
+      throw new NotFoundException(
+        "No certificate has been issued to you for this course"
+      );
+    }
+
+    return this.buildCredential(certificate);
+  }
+
+  /**
+   * Bitstring status list with the bits of revoked certificates set
+   */
+  static async getStatusListCredential(): Promise<SignedCredential> {
+    const key = this.getKey();
+    const id = `${getBadgeUrl()}/status/revocation`;
+
+    const revoked = await Certificate.find({
+      revokedAt: { $exists: true },
+      statusListIndex: { $exists: true },
+    })
+      .select("statusListIndex")
+      .lean();
+
+    const now = new Date();
+    return signCredential(
+      {
+        "@context": [CREDENTIAL_CONTEXT[0]],
+        id,
+        type: ["VerifiableCredential", "BitstringStatusListCredential"],
+        issuer: this.getIssuer(),
+        validFrom: now.toISOString(),
+        credentialSubject: {
+          id: `${id}#list`,
+          type: "BitstringStatusList",
+          statusPurpose: "revocation",
+          encodedList: encodeStatusList(
+            revoked.map((certificate) => certificate.statusListIndex!)
+          ),
+        },
+      },
+      key,
+      this.getVerificationMethod(key),
+      now
+    );
+  }
+
+  /**
+   * Verify a credential issued here: proof signature, issuer key, validity
+   * period and revocation status
+   */
+  static async verifyCredential(
+    credential: Record<string, unknown>
+  ): Promise<BadgeVerification> {
+    const key = this.getKey();
+    const errors: string[] = [];
+    const signed = credential as SignedCredential;
+
+    const issuerId = (signed.issuer as { id?: string } | undefined)?.id;
+    const issuer =
+      issuerId === `${getBadgeUrl()}/issuer` &&
+      signed.proof?.verificationMethod === this.getVerificationMethod(key);
+    if (!issuer) {
+      errors.push("Credential was not issued with the Hexonest issuer key");
+    }
+
+    const proof =
+      issuer &&
+      typeof signed.proof === "object" &&
+      signed.proof.proofPurpose === "assertionMethod" &&
+      verifyCredentialProof(signed, key.publicKey);
+    if (issuer && !proof) {
+      errors.push("Credential proof is invalid");
+    }
+
+    const now = Date.now();
+    const validFrom = Date.parse(String(signed.validFrom));
+    const validUntil = signed.validUntil
+      ? Date.parse(String(signed.validUntil))
+      : Infinity;
+    const validity = validFrom <= now && now < validUntil;
+    if (!validity) {
+      errors.push("Credential is outside its validity period");
+    }
+
+    const credentialStatus = signed.credentialStatus as
+      | { statusListCredential?: string; statusListIndex?: string }
+      | undefined;
+    const statusListIndex = Number(credentialStatus?.statusListIndex);
+    let status: BadgeVerification["status"];
+    if (
+      credentialStatus?.statusListCredential ===
+        `${getBadgeUrl()}/status/revocation` &&
+      Number.isInteger(statusListIndex)
+    ) {
+      const statusList = await this.getStatusListCredential();
+      const { encodedList } = statusList.credentialSubject as {
+        encodedList: string;
+      };
+      status = isStatusSet(encodedList, statusListIndex) ? "revoked" : "valid";
+      if (status === "revoked") {
+        errors.push("Credential has been revoked");
+      }
+    } else {
+      errors.push("Credential has no Hexonest revocation status");
+    }
+
+    const checks = {
+      proof: !!proof,
+      issuer,
+      validity,
+      status: status === "valid",
+    };
+
+    return {
+      verified: Object.values(checks).every(Boolean),
+      status,
+      checks,
+      errors,
+    };
+  }
+
+  private static async buildCredential(
+    certificate: ICertificate
+  ): Promise<SignedCredential> {
+    const key = this.getKey();
+    const [achievement, statusListIndex] = await Promise.all([
+      this.getAchievement(certificate),
+      this.assignStatusListIndex(certificate),
+    ]);
+    const user = await certificate.populate<{ user: { email: string } }>(
+      "user",
+      "email"
+    );
+
+    const badgeUrl = getBadgeUrl();
+    const achievementId = achievement.id;
+    const salt = crypto
+      .createHash("sha256")
+      .update(certificate.code)
+      .digest("hex")
+      .slice(0, 16);
+    const identityHash = crypto
+      .createHash("sha256")
+      .update(`${user.user.email.toLowerCase()}${salt}`)
+      .digest("hex");
+
+    return signCredential(
+      {
+        "@context": CREDENTIAL_CONTEXT,
+        id: `${badgeUrl}/${certificate.code}`,
+        type: ["VerifiableCredential", "OpenBadgeCredential"],
+        name: `${certificate.courseTitle} - ${
+          certificate.learningPath ? "Learning Path" : "Course"
+        } Completion`,
+        issuer: this.getIssuer(),
+        validFrom: certificate.issuedAt.toISOString(),
+        credentialSubject: {
+          type: ["AchievementSubject"],
+          identifier: [
+            {
+              type: "IdentityObject",
+              identityHash: `sha256$${identityHash}`,
+              identityType: "emailAddress",
+              hashed: true,
+              salt,
+            },
+          ],
+          achievement: {
+            id: achievementId,
+            type: ["Achievement"],
+            achievementType: achievement.achievementType,
+            name: certificate.courseTitle,
+            description: achievement.description,
+            criteria: { narrative: achievement.criteria },
+            ...(achievement.thumbnail && {
+              image: { id: achievement.thumbnail, type: "Image" },
+            }),
+            ...(certificate.grade && {
+              resultDescription: [
+                {
+                  id: `${achievementId}#grade`,
+                  type: ["ResultDescription"],
+                  name: "Final grade",
+                  resultType: "LetterGrade",
+                },
+              ],
+            }),
+          },
+          ...(certificate.grade && {
+            result: [
+              {
+                type: ["Result"],
+                resultDescription: `${achievementId}#grade`,
+                value: certificate.grade,
+              },
+            ],
+          }),
+        },
+        credentialStatus: {
+          id: `${badgeUrl}/status/revocation#${statusListIndex}`,
+          type: "BitstringStatusListEntry",
+          statusPurpose: "revocation",
+          statusListIndex: String(statusListIndex),
+          statusListCredential: `${badgeUrl}/status/revocation`,
+        },
+      },
+      key,
+      this.getVerificationMethod(key),
+      certificate.issuedAt
+    );
+  }
+
+  /**
+   * What the certificate was awarded for: a course or a learning path
+   */
+  private static async getAchievement(certificate: ICertificate) {
+    if (certificate.learningPath) {
+      const learningPath = await LearningPath.findById(
+        certificate.learningPath
+      ).select("slug shortDescription thumbnail");
+
+      return {
+        id: `${process.env.CLIENT_URL}/learning-paths/${
+          learningPath?.slug ?? certificate.learningPath
+        }`,
+        achievementType: "LearningProgram",
+        description:
+          learningPath?.shortDescription ||
+          `Completion of the learning path "${certificate.courseTitle}"`,
+        criteria: "Complete every required course of the learning path",
+        thumbnail: learningPath?.thumbnail,
+      };
+    }
+
+    const course = await Course.findById(certificate.course).select(
+      "slug shortDescription thumbnail"
+    );
+
+    return {
+      id: `${process.env.CLIENT_URL}/courses/${
+        course?.slug ?? certificate.course
+      }`,
+      achievementType: "Course",
+      description:
+        course?.shortDescription ||
+        `Completion of the course "${certificate.courseTitle}"`,
+      criteria: "Complete every required module of the course",
+      thumbnail: course?.thumbnail,
+    };
+  }
+
+  /**
+   * Give a certificate a random free bit of the status list, once
+   */
+  private static async assignStatusListIndex(
+    certificate: ICertificate
+  ): Promise<number> {
+    if (certificate.statusListIndex !== undefined) {
+      return certificate.statusListIndex;
+    }
+
+    for (let attempt = 0; attempt < MAX_INDEX_ATTEMPTS; attempt++) {
+      const index = crypto.randomInt(STATUS_LIST_SIZE);
+      try {
+        const updated = await Certificate.findOneAndUpdate(
+          { _id: certificate._id },
+          [
+            {
+              $set: {
+                statusListIndex: { $ifNull: ["$statusListIndex", index] },
+              },
+            },
+          ],
+          { new: true }
+        );
+        certificate.statusListIndex = updated!.statusListIndex;
+        return updated!.statusListIndex!;
+      } catch (error) {
+        if ((error as { code?: number }).code !== 11000) throw error;
+      }
+    }
+
+    throw new ServerException("Could not assign a badge status index");
+  }
+
+  private static getKey(): IssuerKey {
+    const key = getIssuerKey();
+    if (!key) {
+      throw new ServerException("Badges are not configured", 503);
+    }
+
+    return key;
+  }
+
+  private static getIssuer() {
+    return {
+      id: `${getBadgeUrl()}/issuer`,
+      type: ["Profile"],
+      name: ISSUER_NAME,
+      url: process.env.CLIENT_URL,
+    };
+  }
+
+  private static getVerificationMethod(key: IssuerKey): string {
+    return `${getBadgeUrl()}/issuer#${key.publicKeyMultibase}`;
+  }
+}
@@ -0,0 +1,402 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Types } from "mongoose";
+import {
+  Certificate,
+  Course,
+  CourseEnrollment,
+  ICertificate,
+  ICourse,
+  ICourseEnrollment,
+  ILearningPathEnrollment,
+  LearningPath,
+  LearningPathEnrollment,
+} from "../models";
+import { GradebookService } from "./gradebook.service";
+import { QuizScoreService } from "./quiz-score.service";
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import logger from "../../../common/middleware/logger";
+import { uploadToCloudinary } from "../../../common/utils/upload";
+import { renderCertificatePdf } from "../utils/certificate-pdf";
+
+const UPLOAD_FOLDER = "hexonest/certificates";
+const ISSUE_BATCH_SIZE = 20;
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I
+const HOUR = 60 * 60 * 1000;
+
+export class CertificateService {
+  /**
+   * Random verification code such as HX-7K2M-Q9PD-4WTR
+   */
+  static generateCode(): string {
+    const bytes = crypto.randomBytes(12);
+    const characters = [...bytes].map(
+      (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+    );
+
+    return [
+      "HX",
+      characters.slice(0, 4).join(""),
+      characters.slice(4, 8).join(""),
+      characters.slice(8).join(""),
+    ].join("-");
+  }
+
+  /**
+   * Render a student's certificate, upload the PDF and record it on the
+   * enrollment. The grade is taken from the gradebook at issue time.
+   */
+  static async issueCertificate(
+    enrollment: ICourseEnrollment,
+    issuedBy?: string | Types.ObjectId
+  ): Promise<ICertificate> {
+    const [course, student] = await Promise.all([
+      Course.findById(enrollment.course).populate<{
+        instructor: { name: string };
+      }>("instructor", "name"),
+      enrollment.populate<{ user: { _id: Types.ObjectId; name: string } }>(
+        "user",
+        "name"
+      ),
+    ]);
+    if (!course) {
+      throw new NotFoundException("Course not found");
+    }
+
+    const userId = student.user._id;
+    const { grades } = await GradebookService.getStudentGrades(
+      course as unknown as ICourse,
+      [userId]
+    );
+    const grade = grades.get(userId.toString());
+
+    const issuedAt = new Date();
+    const startedAt = enrollment.startDate || enrollment.enrollmentDate;
+    const completedAt = enrollment.completionDate || issuedAt;
+    const completionTime =
+      Math.round(((completedAt.getTime() - startedAt.getTime()) / HOUR) * 10) /
+      10;
+
+    const code = this.generateCode();
+    const pdf = await renderCertificatePdf(
+      {
+        studentName: student.user.name,
+        courseTitle: course.title,
+        instructorName: course.instructor?.name,
+        grade: grade?.letter ?? undefined,
+        completionScore: grade?.finalScore ?? undefined,
+        issuedAt,
+        verificationCode: code,
+        verificationUrl: `${process.env.CLIENT_URL}/certificates/${code}`,
+      },
+      course.certificateTemplate
+    );
+
+    const url = await this.uploadPdf(code, pdf);
+
+    // The unique enrollment index stops a parallel issue of the same
+    // certificate, whether by hand or by the job
+    const certificate = await Certificate.create({
+      code,
+      enrollment: enrollment._id,
+      user: userId,
+      course: course._id,
+      url,
+      studentName: student.user.name,
+      courseTitle: course.title,
+      instructorName: course.instructor?.name,
+      grade: grade?.letter ?? undefined,
+      completionScore: grade?.finalScore ?? undefined,
+      completionTime,
+      completedAt: enrollment.completionDate,
+      issuedAt,
+      issuedBy,
+    }).catch((error) => {
+      if (error?.code === 11000 && error.keyPattern?.enrollment) {
+        throw new ConflictException(
+          "This student already has a certificate for this course"
+        );
+      }
+      throw error;
+    });
+
+    await CourseEnrollment.updateOne(
+      { _id: enrollment._id },
+      {
+        certificateIssued: true,
+        certificateUrl: url,
+        certificateData: {
+          completionScore: grade?.finalScore ?? 0,
+          completionTime,
+          grade: grade?.letter ?? undefined,
+          issuedAt,
+          verificationCode: code,
+        },
+      }
+    );
+
+    return certificate;
+  }
+
+  /**
+   * Render and record the certificate of a completed learning path
+   */
+  static async issuePathCertificate(
+    pathEnrollment: ILearningPathEnrollment
+  ): Promise<ICertificate> {
+    const [learningPath, student] = await Promise.all([
+      LearningPath.findById(pathEnrollment.learningPath).populate<{
+        createdBy: { name: string };
+      }>("createdBy", "name"),
+      pathEnrollment.populate<{ user: { _id: Types.ObjectId; name: string } }>(
+        "user",
+        "name"
+      ),
+    ]);
+    if (!learningPath) {
+      throw new NotFoundException("Learning path not found");
+    }
+
+    const issuedAt = new Date();
+    const completedAt = pathEnrollment.completionDate || issuedAt;
+    const completionTime =
+      Math.round(
+        ((completedAt.getTime() - pathEnrollment.enrollmentDate.getTime()) /
+          HOUR) *
+          10
+      ) / 10;
+
+    const code = this.generateCode();
+    const pdf = await renderCertificatePdf(
+      {
+        studentName: student.user.name,
+        courseTitle: learningPath.title,
+        instructorName: learningPath.createdBy?.name,
+        issuedAt,
+        verificationCode: code,
+        verificationUrl: `${process.env.CLIENT_URL}/certificates/${code}`,
+      },
+      learningPath.certificateTemplate
+    );
+    const url = await this.uploadPdf(code, pdf);
+
+    const certificate = await Certificate.create({
+      code,
+      pathEnrollment: pathEnrollment._id,
+      learningPath: learningPath._id,
+      user: student.user._id,
+      url,
+      studentName: student.user.name,
+      courseTitle: learningPath.title,
+      instructorName: learningPath.createdBy?.name,
+      completionTime,
+      completedAt: pathEnrollment.completionDate,
+      issuedAt,
+    });
+
+    await LearningPathEnrollment.updateOne(
+      { _id: pathEnrollment._id },
+      {
+        certificateIssued: true,
+        certificateUrl: url,
+        certificateData: { issuedAt, verificationCode: code },
+      }
+    );
+
+    return certificate;
+  }
+
+  /**
+   * Issue a certificate by hand, e.g. to a student who completed the course
+   * elsewhere or whose certificate was revoked
+   */
+  static async issueForUser(
+    course: ICourse,
+    userId: string,
+    issuedBy: string
+  ): Promise<ICertificate> {
+    const enrollment = await CourseEnrollment.findOne({
+      user: userId,
+      course: course._id,
+      status: { $ne: "dropped" },
+    });
+    if (!enrollment) {
+      throw new NotFoundException("Enrollment not found");
+    }
+
+    const existing = await Certificate.exists({
+      enrollment: enrollment._id,
+      revokedAt: { $exists: false },
+    });
+    if (existing) {
+      throw new ConflictException(
+        "This student already has a certificate for this course"
+      );
+    }
+
+    return this.issueCertificate(enrollment, issuedBy);
+  }
+
+  /**
+   * Revoke a certificate. It stays verifiable, reported as revoked.
+   */
+  static async revokeCertificate(
+    course: ICourse,
+    code: string,
+    reason: string,
+    revokedBy: string
+  ): Promise<ICertificate> {
+    const certificate = await Certificate.findOne({ code, course: course._id });
+    if (!certificate) {
+      throw new NotFoundException("Certificate not found");
+    }
+    if (certificate.revokedAt) {
+      throw new BadRequestException("This certificate is already revoked");
+    }
+
+    certificate.revokedAt = new Date();
+    certificate.revokedBy = new Types.ObjectId(revokedBy);
+    certificate.revocationReason = reason;
+    await certificate.save();
+
+    await CourseEnrollment.updateOne(
+      { _id: certificate.enrollment, "certificateData.verificationCode": code },
+      {
+        certificateIssued: false,
+        $unset: { certificateUrl: 1, "certificateData.verificationCode": 1 },
+      }
+    );
+
+    return certificate;
+  }
+
+  /**
+   * Public check of a certificate's authenticity
+   */
+  static async verify(code: string) {
+    const certificate = await Certificate.findOne({
+      code: code.trim().toUpperCase(),
+    });
+    if (!certificate) {
+      throw new NotFoundException("Certificate not found");
+    }
+
+    return {
+      code: certificate.code,
+      status: certificate.revokedAt ? "revoked" : "valid",
+      type: certificate.learningPath ? "learning-path" : "course",
+      studentName: certificate.studentName,
+      courseTitle: certificate.courseTitle,
+      instructorName: certificate.instructorName,
+      grade: certificate.grade,
+      completionScore: certificate.completionScore,
+      completedAt: certificate.completedAt,
+      issuedAt: certificate.issuedAt,
+      url: certificate.revokedAt ? undefined : certificate.url,
+      revokedAt: certificate.revokedAt,
+      revocationReason: certificate.revocationReason,
+    };
+  }
+
+  /**
+   * Issue certificates for completed enrollments of courses and learning
+   * paths that award one. Students who ever had a certificate for the
+   * course, even a revoked one, are left to manual issuing.
+   */
+  static async issuePending(): Promise<number> {
+    return (
+      (await this.issuePendingCourses()) + (await this.issuePendingPaths())
+    );
+  }
+
+  private static async issuePendingCourses(): Promise<number> {
+    const courseIds = await Course.distinct("_id", { certificate: true });
+    if (!courseIds.length) return 0;
+
+    const certified = await Certificate.distinct("enrollment", {
+      course: { $in: courseIds },
+    });
+    const enrollments = CourseEnrollment.find({
+      _id: { $nin: certified },
+      course: { $in: courseIds },
+      status: "completed",
+      certificateIssued: { $ne: true },
+    })
+      .sort({ completionDate: 1 })
+      .cursor();
+
+    let attempted = 0;
+    let issued = 0;
+    for await (const enrollment of enrollments) {
+      if (attempted >= ISSUE_BATCH_SIZE) break;
+
+      // Completing the lessons is not enough while a required quiz is failed
+      const { requiredQuizzesPassed } =
+        await QuizScoreService.getCertificateQuizStatus(
+          enrollment.course,
+          enrollment.user
+        );
+      if (!requiredQuizzesPassed) continue;
+
+      attempted++;
+      await this.issueCertificate(enrollment)
+        .then(() => issued++)
+        .catch((error) => {
+          logger.error(
+            `Failed to issue certificate for enrollment ${enrollment.id}: ${error}`
+          );
+        });
+    }
+
+    return issued;
+  }
+
+  private static async issuePendingPaths(): Promise<number> {
+    const pathIds = await LearningPath.distinct("_id", { certificate: true });
+    if (!pathIds.length) return 0;
+
+    const certified = await Certificate.distinct("pathEnrollment", {
+      learningPath: { $in: pathIds },
+    });
+    const pathEnrollments = await LearningPathEnrollment.find({
+      _id: { $nin: certified },
+      learningPath: { $in: pathIds },
+      status: "completed",
+      certificateIssued: { $ne: true },
+    })
+      .sort({ completionDate: 1 })
+      .limit(ISSUE_BATCH_SIZE);
+
+    let issued = 0;
+    for (const pathEnrollment of pathEnrollments) {
+      await this.issuePathCertificate(pathEnrollment)
+        .then(() => issued++)
+        .catch((error) => {
+          logger.error(
+            `Failed to issue certificate for learning path enrollment ${pathEnrollment.id}: ${error}`
+          );
+        });
+    }
+
+    return issued;
+  }
+
+  /**
+   * Upload a rendered certificate through a temp file
+   */
+  private static async uploadPdf(code: string, pdf: Buffer): Promise<string> {
+    const filePath = path.join("uploads", `certificate-${code}.pdf`);
+    try {
+      await fs.promises.mkdir("uploads", { recursive: true });
+      await fs.promises.writeFile(filePath, pdf);
+      return await uploadToCloudinary(filePath, UPLOAD_FOLDER, "raw");
+    } finally {
+      await fs.promises.rm(filePath, { force: true });
+    }
+  }
+}
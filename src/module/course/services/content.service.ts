@@ -0,0 +1,313 @@
+import mongoose from "mongoose";
+import {
+  Content,
+  ICourse,
+  IContent,
+  IModule,
+  Quiz,
+  Resource,
+} from "../models";
+import { ModuleService } from "./module.service";
+import { startTransactionSession } from "../../../common/database/connection";
+import slugify from "../../../common/utils/slugify";
+import {
+  BadRequestException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import {
+  ICreateContent,
+  IUpdateContent,
+  updateContentSchemas,
+} from "../validation/content";
+import { extractVideoInfo } from "../utils/video";
+
+export class ContentService {
+  /**
+   * Generate a content slug that is unique across all courses
+   */
+  static async generateUniqueSlug(
+    course: ICourse,
+    title: string,
+    contentId?: string
+  ): Promise<string> {
+    const originalSlug = `${course.slug}-${slugify(title)}`;
+    let slug = originalSlug;
+    let counter = 0;
+
+    while (true) {
+      const existingContent = await Content.findOne({
+        slug,
+        ...(contentId && { _id: { $ne: contentId } }),
+      });
+
+      if (!existingContent) break;
+
+      counter++;
+      slug = `${originalSlug}-${counter}`;
+    }
+
+    return slug;
+  }
+
+  /**
+   * Get a content item that belongs to the given module
+   */
+  static async getModuleContent(
+    moduleId: string,
+    contentId: string
+  ): Promise<IContent> {
+    if (!mongoose.isValidObjectId(contentId)) {
+      throw new NotFoundException("Content not found");
+    }
+
+    const content = await Content.findOne({ _id: contentId, module: moduleId });
+    if (!content) {
+      throw new NotFoundException("Content not found");
+    }
+
+    return content;
+  }
+
+  /**
+   * List module contents in order
+   */
+  static async getContents(
+    moduleId: string,
+    includeUnpublished: boolean = false
+  ): Promise<IContent[]> {
+    return Content.find({
+      module: moduleId,
+      isActive: true,
+      ...(!includeUnpublished && { isPublished: true }),
+    }).sort({ order: 1 });
+  }
+
+  /**
+   * Make sure referenced quizzes and resources belong to the course
+   */
+  static async validateReferences(
+    course: ICourse,
+    data: { quiz?: string; resources?: string[] }
+  ): Promise<void> {
+    if (data.quiz) {
+      const quizExists = await Quiz.exists({
+        _id: data.quiz,
+        course: course._id,
+      });
+      if (!quizExists) {
+        throw new BadRequestException("Quiz not found in this course");
+      }
+    }
+
+    if (data.resources?.length) {
+      const resourceCount = await Resource.countDocuments({
+        _id: { $in: data.resources },
+        course: course._id,
+      });
+      if (resourceCount !== new Set(data.resources).size) {
+        throw new BadRequestException(
+          "All resources must belong to this course"
+        );
+      }
+    }
+  }
+
+  /**
+   * Create a content item. Without an explicit order it is appended to the
+   * end of the module, otherwise later items are shifted down.
+   */
+  static async createContent(
+    course: ICourse,
+    module: IModule,
+    data: ICreateContent
+  ): Promise<IContent> {
+    await this.validateReferences(course, data as any);
+
+    const contentCount = await Content.countDocuments({
+      module: module._id,
+      isActive: true,
+    });
+    const order = Math.min(data.order ?? contentCount, contentCount);
+
+    if (order < contentCount) {
+      await Content.updateMany(
+        { module: module._id, order: { $gte: order } },
+        { $inc: { order: 1 } }
+      );
+    }
+
+    const content = new Content({
+      ...data,
+      course: course._id,
+      module: module._id,
+      order,
+      slug: data.slug || (await this.generateUniqueSlug(course, data.title)),
+    });
+    await content.save();
+
+    await course.calculateTotals();
+
+    return content;
+  }
+
+  /**
+   * Update a content item, validating fields against its content type
+   */
+  static async updateContent(
+    course: ICourse,
+    moduleId: string,
+    contentId: string,
+    body: unknown
+  ): Promise<IContent> {
+    const content = await this.getModuleContent(moduleId, contentId);
+    const data: IUpdateContent =
+      updateContentSchemas[content.type].parse(body);
+
+    if (
+      data.unlockConditions?.requiredContents?.includes(content.id as string)
+    ) {
+      throw new BadRequestException("A content item cannot require itself");
+    }
+
+    await this.validateReferences(course, data as any);
+
+    if (data.slug && data.slug !== content.slug) {
+      const slugTaken = await Content.exists({
+        slug: data.slug,
+        _id: { $ne: content._id },
+      });
+      if (slugTaken) {
+        throw new BadRequestException("Content slug is already in use");
+      }
+    }
+
+    content.set(data);
+
+    // Self-hosted videos have no provider video ID
+    if ("videoUrl" in data && data.videoUrl) {
+      if (!extractVideoInfo(data.videoUrl)) {
+        content.videoId = undefined;
+      }
+    }
+
+    await content.save();
+
+    await course.calculateTotals();
+
+    return content;
+  }
+
+  /**
+   * Delete a content item with its quizzes and resources, then close the
+   * gap it leaves in the module order
+   */
+  static async deleteContent(
+    course: ICourse,
+    moduleId: string,
+    contentId: string
+  ): Promise<void> {
+    const content = await this.getModuleContent(moduleId, contentId);
+
+    await Promise.all([
+      Quiz.deleteMany({ content: content._id }),
+      Resource.deleteMany({ content: content._id }),
+    ]);
+    await content.deleteOne();
+
+    await Content.updateMany(
+      { module: moduleId, order: { $gt: content.order } },
+      { $inc: { order: -1 } }
+    );
+
+    await course.calculateTotals();
+  }
+
+  /**
+   * Move a content item to another position, optionally in another module
+   * of the same course. Quizzes and resources attached to it follow along.
+   */
+  static async moveContent(
+    course: ICourse,
+    moduleId: string,
+    contentId: string,
+    targetModuleId: string,
+    targetOrder?: number
+  ): Promise<IContent> {
+    const content = await this.getModuleContent(moduleId, contentId);
+    const targetModule = await ModuleService.getCourseModule(
+      course.id,
+      targetModuleId
+    );
+    // The transaction may run more than once, so it only reads these
+    const sourceModule = content.module;
+    const sourceOrder = content.order;
+    const isSameModule = targetModule.id === sourceModule.toString();
+
+    let order = 0;
+    const session = await startTransactionSession();
+    try {
+      await session.withTransaction(async () => {
+        // Close the gap in the source module
+        await Content.updateMany(
+          {
+            module: sourceModule,
+            _id: { $ne: content._id },
+            order: { $gt: sourceOrder },
+          },
+          { $inc: { order: -1 } },
+          { session }
+        );
+
+        const targetCount = await Content.countDocuments(
+          {
+            module: targetModule._id,
+            _id: { $ne: content._id },
+            isActive: true,
+          },
+          { session }
+        );
+        order = Math.min(targetOrder ?? targetCount, targetCount);
+
+        // Open a slot in the target module
+        await Content.updateMany(
+          {
+            module: targetModule._id,
+            _id: { $ne: content._id },
+            order: { $gte: order },
+          },
+          { $inc: { order: 1 } },
+          { session }
+        );
+
+        await Content.updateOne(
+          { _id: content._id },
+          { module: targetModule._id, order },
+          { session }
+        );
+
+        // A session runs one operation at a time
+        if (!isSameModule) {
+          await Quiz.updateMany(
+            { content: content._id },
+            { module: targetModule._id },
+            { session }
+          );
+          await Resource.updateMany(
+            { content: content._id },
+            { module: targetModule._id },
+            { session }
+          );
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    content.module = targetModule._id as any;
+    content.order = order;
+
+    await course.calculateTotals();
+
+    return content;
+  }
+}
@@ -0,0 +1,64 @@
+import mongoose from "mongoose";
+import { Course, ICourse } from "../models";
+import { Permission } from "../../../common/config/roles-permissions";
+import { checkPermission } from "../../../common/middleware/permission";
+import {
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+
+export class CourseAccessService {
+  /**
+   * Check whether a user is the course instructor or a co-instructor
+   */
+  static isCourseInstructor(course: ICourse, userId: string): boolean {
+    return (
+      course.instructor.toString() === userId ||
+      (course.coInstructors || []).some((co) => co.toString() === userId)
+    );
+  }
+
+  /**
+   * Check whether a user can manage a course.
+   * Admins and holders of `manageAllPermission` can manage any course,
+   * everyone else must be the instructor or a co-instructor.
+   */
+  static canManageCourse(
+    course: ICourse,
+    user: any,
+    manageAllPermission: Permission
+  ): boolean {
+    if (!user) return false;
+
+    const isAdmin = user.role === "admin" || user.role === "super-admin";
+    return (
+      isAdmin ||
+      checkPermission(user, manageAllPermission) ||
+      this.isCourseInstructor(course, user.id)
+    );
+  }
+
+  /**
+   * Load a course the user is allowed to manage
+   */
+  static async getManageableCourse(
+    courseId: string,
+    user: any,
+    manageAllPermission: Permission
+  ): Promise<ICourse> {
+    if (!mongoose.isValidObjectId(courseId)) {
+      throw new NotFoundException("Course not found");
+    }
+
+    const course = await Course.findById(courseId);
+    if (!course) {
+      throw new NotFoundException("Course not found");
+    }
+
+    if (this.canManageCourse(course, user, manageAllPermission)) {
+      return course;
+    }
+
+    throw new ForbiddenException("Unauthorized to manage this course");
+  }
+}
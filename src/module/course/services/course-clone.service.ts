@@ -0,0 +1,408 @@
+import mongoose, { Document, Types } from "mongoose";
+import { addDays } from "date-fns";
+import {
+  Content,
+  Course,
+  IContent,
+  ICourse,
+  IModule,
+  IQuestion,
+  IQuiz,
+  IResource,
+  Module,
+  Question,
+  Quiz,
+  Resource,
+} from "../models";
+import { CourseService } from "../service";
+import { CourseAccessService } from "./course-access.service";
+import { ModuleService } from "./module.service";
+import { ContentService } from "./content.service";
+import { startTransactionSession } from "../../../common/database/connection";
+import { paginate } from "../../../common/utils/pagination";
+import {
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import { ICourseTemplateQuery, IDuplicateCourse } from "../validation/course";
+
+type Plain = Record<string, any>;
+
+// A course and the documents it is made of
+export interface CourseTree {
+  course: ICourse;
+  modules: IModule[];
+  contents: IContent[];
+  quizzes: IQuiz[];
+  resources: IResource[];
+  questions: IQuestion[]; // of the quizzes, when questions are copied
+}
+
+// Statistics and per-run state that a copy starts without
+const COURSE_RESET_FIELDS = [
+  "totalEnrollments",
+  "activeEnrollments",
+  "completionRate",
+  "averageRating",
+  "totalReviews",
+  "ratingDistribution",
+  "publishedAt",
+  "lastUpdated",
+  "isFeatured",
+  "isBestseller",
+  "isNew",
+  "conversionRate",
+  "refundRate",
+];
+const MODULE_RESET_FIELDS = ["completionRate", "averageTimeToComplete"];
+const CONTENT_RESET_FIELDS = [
+  "totalViews",
+  "averageWatchTime",
+  "completionRate",
+  "peerReviewStatus",
+  "discussionThread",
+];
+const QUIZ_RESET_FIELDS = [
+  "totalAttempts",
+  "averageScore",
+  "passRate",
+  "averageTimeSpent",
+];
+const QUESTION_RESET_FIELDS = [
+  "usageCount",
+  "successRate",
+  "averageTime",
+  "version",
+  "parentQuestion",
+];
+const RESOURCE_RESET_FIELDS = ["downloadCount"];
+
+export class CourseCloneService {
+  /**
+   * Load a course the user may duplicate: one they manage, or a template
+   */
+  static async getDuplicableCourse(
+    courseId: string,
+    user: any
+  ): Promise<ICourse> {
+    if (!mongoose.isValidObjectId(courseId)) {
+      throw new NotFoundException("Course not found");
+    }
+
+    const course = await Course.findById(courseId);
+    if (!course) {
+      throw new NotFoundException("Course not found");
+    }
+
+    if (
+      course.isTemplate ||
+      CourseAccessService.canManageCourse(course, user, "course:manage_all")
+    ) {
+      return course;
+    }
+
+    throw new ForbiddenException("Unauthorized to duplicate this course");
+  }
+
+  /**
+   * Deep-copy a course with its modules, lessons, quizzes and resources into
+   * a new draft owned by the user. Questions are shared with the source
+   * quizzes or copied; scheduled dates are kept, shifted or cleared.
+   */
+  static async duplicateCourse(
+    source: ICourse,
+    userId: string,
+    options: IDuplicateCourse
+  ): Promise<ICourse> {
+    const tree = await this.getCourseTree(source, options.questions === "copy");
+
+    return this.copyCourse(tree, userId, options, {
+      title: options.title ?? `${source.title} (Copy)`,
+      clonedFrom: source._id,
+    });
+  }
+
+  /**
+   * The active modules, lessons, quizzes and resources of a course, with the
+   * questions of its quizzes when asked for
+   */
+  static async getCourseTree(
+    course: ICourse,
+    withQuestions: boolean
+  ): Promise<CourseTree> {
+    const [modules, contents, quizzes, resources] = await Promise.all([
+      Module.find({ course: course._id, isActive: true }).sort({ order: 1 }),
+      Content.find({ course: course._id, isActive: true }).sort({ order: 1 }),
+      Quiz.find({ course: course._id, isActive: true }).sort({ order: 1 }),
+      Resource.find({ course: course._id, isActive: true }).sort({ order: 1 }),
+    ]);
+    const questions = withQuestions
+      ? await Question.find({
+          _id: {
+            $in: quizzes.flatMap((quiz) =>
+              quiz.questions.map((entry) => entry.question)
+            ),
+          },
+        })
+      : [];
+
+    return { course, modules, contents, quizzes, resources, questions };
+  }
+
+  /**
+   * Create a new draft course from a course tree, with new ids and the
+   * references between the documents rewritten to them. `fields` override
+   * fields of the course.
+   */
+  static async copyCourse(
+    tree: CourseTree,
+    userId: string,
+    options: Omit<IDuplicateCourse, "title">,
+    fields: Record<string, unknown> = {}
+  ): Promise<ICourse> {
+    const {
+      course: source,
+      modules,
+      contents,
+      quizzes,
+      resources,
+      questions,
+    } = tree;
+
+    // Every copied document gets its new id up front so references between
+    // them can be rewritten
+    const ids = new Map<string, Types.ObjectId>();
+    [source, ...modules, ...contents, ...quizzes, ...resources, ...questions]
+      .map((doc) => doc.id as string)
+      .forEach((id) => ids.set(id, new Types.ObjectId()));
+    const remap = (id?: Types.ObjectId) => (id ? ids.get(id.toString()) : id);
+    const remapAll = (list: Types.ObjectId[] = []) =>
+      list.map((id) => ids.get(id.toString())).filter(Boolean);
+    const remapQuestion = (id: Types.ObjectId) =>
+      options.questions === "copy" ? remap(id) : id;
+
+    const shiftDate = (date?: Date) =>
+      !date || options.dates === "keep"
+        ? date
+        : options.dates === "shift"
+          ? addDays(date, options.shiftDays!)
+          : undefined;
+    const shiftRelease = (release?: IModule["release"]) =>
+      release?.trigger === "date" && options.dates === "clear"
+        ? { trigger: "immediate" }
+        : release && { ...release, date: shiftDate(release.date) };
+
+    const title = (fields.title as string | undefined) ?? source.title;
+    const course = {
+      ...this.toPlain(source, COURSE_RESET_FIELDS),
+      ...fields,
+      _id: remap(source._id as Types.ObjectId),
+      title,
+      slug: await CourseService.generateUniqueSlug(title),
+      instructor: userId,
+      coInstructors: [],
+      status: "draft",
+      isTemplate: false,
+    };
+    const courseRef = { slug: course.slug } as ICourse;
+
+    const moduleSlugs = new Set<string>();
+    const moduleDocs: Plain[] = [];
+    for (const module of modules) {
+      const plain = this.toPlain(module, MODULE_RESET_FIELDS);
+      moduleDocs.push({
+        ...plain,
+        _id: remap(module._id as Types.ObjectId),
+        course: course._id,
+        slug: await this.uniqueSlug(moduleSlugs, module.title, (title) =>
+          ModuleService.generateUniqueSlug(courseRef, title)
+        ),
+        unlockConditions: plain.unlockConditions && {
+          ...plain.unlockConditions,
+          requiredModules: remapAll(module.unlockConditions?.requiredModules),
+        },
+        release: shiftRelease(module.release),
+      });
+    }
+
+    const contentSlugs = new Set<string>();
+    const contentDocs: Plain[] = [];
+    for (const content of contents) {
+      if (!remap(content.module)) continue; // module was deleted
+
+      const plain = this.toPlain(content, CONTENT_RESET_FIELDS);
+      contentDocs.push({
+        ...plain,
+        _id: remap(content._id as Types.ObjectId),
+        course: course._id,
+        module: remap(content.module),
+        slug: await this.uniqueSlug(contentSlugs, content.title, (title) =>
+          ContentService.generateUniqueSlug(courseRef, title)
+        ),
+        dueDate: shiftDate(content.dueDate),
+        sessionDate: shiftDate(content.sessionDate),
+        release: shiftRelease(content.release),
+        unlockConditions: plain.unlockConditions && {
+          ...plain.unlockConditions,
+          requiredContents: remapAll(
+            content.unlockConditions?.requiredContents
+          ),
+          requiredQuizzes: remapAll(content.unlockConditions?.requiredQuizzes),
+        },
+        resources: remapAll(content.resources),
+        quiz: remap(content.quiz),
+      });
+    }
+
+    const quizDocs = quizzes.map((quiz) => {
+      const plain = this.toPlain(quiz, QUIZ_RESET_FIELDS);
+      return {
+        ...plain,
+        _id: remap(quiz._id as Types.ObjectId),
+        course: course._id,
+        module: remap(quiz.module),
+        content: remap(quiz.content),
+        questions: plain.questions
+          .map((entry: Plain) => ({
+            ...entry,
+            question: remapQuestion(entry.question),
+          }))
+          .filter((entry: Plain) => entry.question),
+        availableFrom: shiftDate(quiz.availableFrom),
+        availableUntil: shiftDate(quiz.availableUntil),
+        prerequisites: plain.prerequisites && {
+          ...plain.prerequisites,
+          requiredContents: remapAll(quiz.prerequisites?.requiredContents),
+          requiredQuizzes: remapAll(quiz.prerequisites?.requiredQuizzes),
+        },
+      };
+    });
+
+    // A question's usageCount is the number of quizzes using it
+    const usage = new Map<string, number>();
+    quizDocs
+      .flatMap((quiz) => quiz.questions)
+      .forEach((entry: Plain) => {
+        const id = entry.question.toString();
+        usage.set(id, (usage.get(id) ?? 0) + 1);
+      });
+
+    const questionDocs = questions.map((question) => ({
+      ...this.toPlain(question, QUESTION_RESET_FIELDS),
+      _id: remap(question._id as Types.ObjectId),
+      createdBy: userId,
+      isPublic: false,
+      usageCount: usage.get(remap(question._id as Types.ObjectId)!.toString()),
+    }));
+
+    const resourceDocs = resources.map((resource) => ({
+      ...this.toPlain(resource, RESOURCE_RESET_FIELDS),
+      _id: remap(resource._id as Types.ObjectId),
+      course: course._id,
+      module: remap(resource.module),
+      content: remap(resource.content),
+      createdBy: userId,
+    }));
+
+    const session = await startTransactionSession();
+    try {
+      await session.withTransaction(async () => {
+        await Course.create([course], { session });
+        await Module.insertMany(moduleDocs, { session });
+        await Content.insertMany(contentDocs, { session });
+        await Question.insertMany(questionDocs, { session });
+        await Quiz.insertMany(quizDocs, { session });
+        await Resource.insertMany(resourceDocs, { session });
+
+        if (options.questions === "share" && usage.size) {
+          await Question.bulkWrite(
+            [...usage].map(([id, count]) => ({
+              updateOne: {
+                filter: { _id: id },
+                update: { $inc: { usageCount: count } },
+              },
+            })),
+            { session }
+          );
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    const copy = (await Course.findById(course._id))!;
+    await copy.calculateTotals();
+
+    return copy;
+  }
+
+  /**
+   * List or unlist a course in the template gallery
+   */
+  static async setTemplate(
+    course: ICourse,
+    isTemplate: boolean
+  ): Promise<ICourse> {
+    course.isTemplate = isTemplate;
+    return course.save();
+  }
+
+  /**
+   * Template gallery: courses marked as templates, to start new courses from
+   */
+  static async getTemplates(query: ICourseTemplateQuery) {
+    const { page, limit, search, category } = query;
+    const pattern = search?.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+    return paginate(
+      Course,
+      {
+        isTemplate: true,
+        ...(category && { category }),
+        ...(pattern && {
+          $or: [
+            { title: { $regex: pattern, $options: "i" } },
+            { shortDescription: { $regex: pattern, $options: "i" } },
+          ],
+        }),
+      },
+      {
+        page,
+        limit,
+        sort: { updatedAt: -1 },
+        select:
+          "title slug shortDescription thumbnail category subcategory level language totalModules totalLessons totalQuizzes totalDuration instructor",
+        populate: { path: "instructor", select: "name avatar" },
+      }
+    );
+  }
+
+  /**
+   * A document's fields without its identity, timestamps and reset fields
+   */
+  private static toPlain(doc: Document, resetFields: string[]): Plain {
+    const plain: Plain = doc.toObject({ virtuals: false, depopulate: true });
+    ["_id", "__v", "createdAt", "updatedAt", ...resetFields].forEach(
+      (field) => delete plain[field]
+    );
+
+    return plain;
+  }
+
+  /**
+   * Slug unique in the database and among the copies made so far
+   */
+  private static async uniqueSlug(
+    used: Set<string>,
+    title: string,
+    generate: (title: string) => Promise<string>
+  ): Promise<string> {
+    let slug = await generate(title);
+    for (let counter = 1; used.has(slug); counter++) {
+      slug = await generate(`${title} ${counter}`);
+    }
+    used.add(slug);
+
+    return slug;
+  }
+}
@@ -0,0 +1,450 @@
+import fs from "fs";
+import path from "path";
+import dns from "dns";
+import { BlockList } from "net";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import axios, { LookupAddress } from "axios";
+import { Document } from "mongoose";
+import {
+  Content,
+  Course,
+  ICourse,
+  IResource,
+  Module,
+  Question,
+  Quiz,
+  Resource,
+} from "../models";
+import { CourseCloneService, CourseTree } from "./course-clone.service";
+import { ScormService } from "./scorm.service";
+import { isZip, readZip, ZipEntry, zipStream } from "../utils/zip";
+import { parseScormManifest, SCORM_MANIFEST } from "../utils/scorm";
+import {
+  isUploadedFileUrl,
+  uploadToCloudinary,
+} from "../../../common/utils/upload";
+import { BadRequestException } from "../../../common/middleware/errors";
+import logger from "../../../common/middleware/logger";
+import {
+  courseArchiveSchema,
+  ICourseArchive,
+  IImportCourse,
+} from "../validation/course";
+
+// Version of the course.json layout, raised on changes older importers
+// cannot read
+export const COURSE_ARCHIVE_VERSION = 1;
+
+const ARCHIVE_FORMAT = "hexonest-course";
+const ARCHIVE_MANIFEST = "course.json";
+const UPLOAD_FOLDER = "hexonest/course-resources";
+
+// Resource files larger than this stay linked by their URL
+const MAX_ASSET_SIZE = 50 * 1024 * 1024;
+// Unpacked size of an imported archive, all files and each one
+const MAX_ARCHIVE_LIMITS = {
+  maxTotalSize: 100 * 1024 * 1024,
+  maxEntrySize: 50 * 1024 * 1024,
+  maxEntries: 5000,
+};
+
+// Addresses a resource download may never connect to
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * DNS lookup that refuses hosts resolving to a private or link-local address
+ */
+const lookupPublic = (
+  hostname: string,
+  options: object,
+  callback: (error: Error | null, addresses: LookupAddress[]) => void
+) =>
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    const blocked = addresses.some(({ address, family }) =>
+      PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+    );
+    if (blocked) {
+      return callback(
+        new Error(`${hostname} resolves to a private address`),
+        []
+      );
+    }
+    callback(
+      null,
+      addresses.map(({ address, family }) => ({
+        address,
+        family: family === 6 ? 6 : 4,
+      }))
+    );
+  });
+
+const toJson = (doc: Document) => {
+  const { __v, ...plain } = doc.toObject({ virtuals: false, depopulate: true });
+  return plain;
+};
+
+export class CourseTransferService {
+  /**
+   * Export a course as a zip archive: course.json with the course, its
+   * modules, lessons, quizzes, questions and resources, plus the files of
+   * uploaded resources and SCORM packages under assets/
+   */
+  static async exportCourse(course: ICourse): Promise<Readable> {
+    const tree = await CourseCloneService.getCourseTree(course, true);
+    return zipStream(this.archiveEntries(course, tree));
+  }
+
+  /**
+   * Files of a course archive, fetched one at a time as the archive is
+   * written. course.json comes last, once the bundled files are known.
+   */
+  private static async *archiveEntries(
+    course: ICourse,
+    tree: CourseTree
+  ): AsyncGenerator<ZipEntry> {
+    const resources = [];
+    for (const resource of tree.resources) {
+      const plain: Record<string, any> = toJson(resource);
+      const file = await this.downloadResource(resource);
+      if (file) {
+        plain.asset = `assets/resources/${resource.id}/${file.name}`;
+        yield { name: plain.asset, data: file.data };
+      }
+      resources.push(plain);
+    }
+
+    const packageIds = new Set(
+      tree.contents
+        .filter((content) => content.type === "scorm")
+        .map((content) => content.scorm!.packageId)
+    );
+    for (const packageId of packageIds) {
+      for await (const file of ScormService.readPackage(packageId)) {
+        yield {
+          name: `assets/scorm/${packageId}/${file.name}`,
+          data: file.data,
+        };
+      }
+    }
+
+    const archive = {
+      format: ARCHIVE_FORMAT,
+      version: COURSE_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      course: toJson(course),
+      modules: tree.modules.map(toJson),
+      contents: tree.contents.map(toJson),
+      quizzes: tree.quizzes.map(toJson),
+      questions: tree.questions.map(toJson),
+      resources,
+    };
+
+    yield {
+      name: ARCHIVE_MANIFEST,
+      data: Buffer.from(JSON.stringify(archive, null, 2), "utf8"),
+    };
+  }
+
+  /**
+   * Import an uploaded course archive or SCORM 1.2 package as a new draft
+   * course owned by the user
+   */
+  static async importCourse(
+    filePath: string,
+    options: IImportCourse,
+    userId: string
+  ): Promise<ICourse> {
+    const input = await fs.promises.readFile(filePath);
+    if (!isZip(input)) {
+      throw new BadRequestException(
+        "Upload a course archive or a SCORM package (.zip)"
+      );
+    }
+
+    let files: ZipEntry[];
+    try {
+      files = await readZip(input, MAX_ARCHIVE_LIMITS);
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+
+    const archive = files.find((file) => file.name === ARCHIVE_MANIFEST);
+    if (archive) {
+      return this.importArchive(archive, files, options, userId);
+    }
+
+    // The manifest belongs at the root, but packages zipped as a folder
+    // are common too
+    const manifest = files
+      .filter((file) => path.posix.basename(file.name) === SCORM_MANIFEST)
+      .sort((a, b) => a.name.length - b.name.length)[0];
+    if (manifest) {
+      return this.importScormPackage(manifest, files, options, userId);
+    }
+
+    throw new BadRequestException(
+      `The file has neither a ${ARCHIVE_MANIFEST} nor an ${SCORM_MANIFEST}`
+    );
+  }
+
+  /**
+   * Recreate an exported course with new ids. Bundled resource files are
+   * uploaded again and SCORM packages stored again.
+   */
+  private static async importArchive(
+    manifest: ZipEntry,
+    files: ZipEntry[],
+    options: IImportCourse,
+    userId: string
+  ): Promise<ICourse> {
+    let json: unknown;
+    try {
+      json = JSON.parse(manifest.data.toString("utf8"));
+    } catch {
+      throw new BadRequestException(`${ARCHIVE_MANIFEST} is not valid JSON`);
+    }
+
+    const result = courseArchiveSchema.safeParse(json);
+    if (!result.success) {
+      throw new BadRequestException(
+        `Invalid course archive: ${result.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")}`
+      );
+    }
+
+    const archive: ICourseArchive = result.data;
+    if (archive.version > COURSE_ARCHIVE_VERSION) {
+      throw new BadRequestException(
+        `The archive has version ${archive.version}, this server imports up to version ${COURSE_ARCHIVE_VERSION}`
+      );
+    }
+
+    const assets = new Map(files.map((file) => [file.name, file.data]));
+
+    // Files that are neither bundled nor uploaded here are not taken over,
+    // so the server never fetches an address an archive chose
+    const resources = [];
+    for (const { asset, ...resource } of archive.resources) {
+      const data = assets.get(asset as string);
+      if (data) {
+        resource.url = await this.uploadAsset(asset as string, data);
+      } else if (!this.isImportableUrl(resource)) {
+        logger.warn(
+          `Skipped resource ${resource._id} of an imported course: ${resource.url} is not an uploaded file`
+        );
+        continue;
+      }
+      resources.push(resource);
+    }
+
+    const packageIds = new Map<string, string>();
+    for (const content of archive.contents) {
+      const oldId: string | undefined = (content.scorm as any)?.packageId;
+      if (!oldId) continue;
+
+      if (!packageIds.has(oldId)) {
+        const prefix = `assets/scorm/${oldId}/`;
+        packageIds.set(
+          oldId,
+          await ScormService.writePackage(
+            files
+              .filter((file) => file.name.startsWith(prefix))
+              .map((file) => ({
+                name: file.name.slice(prefix.length),
+                data: file.data,
+              }))
+          )
+        );
+      }
+      (content.scorm as any).packageId = packageIds.get(oldId);
+    }
+
+    const tree: CourseTree = {
+      course: Course.hydrate(archive.course),
+      modules: archive.modules.map((doc) => Module.hydrate(doc)),
+      contents: archive.contents.map((doc) => Content.hydrate(doc)),
+      quizzes: archive.quizzes.map((doc) => Quiz.hydrate(doc)),
+      resources: resources.map((doc) => Resource.hydrate(doc)),
+      questions: archive.questions.map((doc) => Question.hydrate(doc)),
+    };
+
+    return CourseCloneService.copyCourse(
+      tree,
+      userId,
+      { questions: "copy", dates: "keep" },
+      this.getOverrides(options)
+    );
+  }
+
+  /**
+   * Create a course from a SCORM 1.2 package: the manifest's top-level items
+   * become modules, and every launchable item a SCORM lesson
+   */
+  private static async importScormPackage(
+    manifest: ZipEntry,
+    files: ZipEntry[],
+    options: IImportCourse,
+    userId: string
+  ): Promise<ICourse> {
+    let parsed;
+    try {
+      parsed = parseScormManifest(manifest.data.toString("utf8"));
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+
+    if (!options.category || !options.thumbnail) {
+      throw new BadRequestException(
+        "Category and thumbnail are required to import a SCORM package"
+      );
+    }
+
+    const root = path.posix.dirname(manifest.name);
+    const packageId = await ScormService.writePackage(
+      root === "."
+        ? files
+        : files
+            .filter((file) => file.name.startsWith(`${root}/`))
+            .map((file) => ({
+              name: file.name.slice(root.length + 1),
+              data: file.data,
+            }))
+    );
+
+    const title = options.title ?? parsed.title;
+    const course = new Course({
+      title,
+      description: `${title}, imported from a SCORM 1.2 package.`,
+      shortDescription: title.slice(0, 200),
+      level: "all-levels",
+      price: 0,
+      isFree: true,
+    });
+    const modules = parsed.modules.map(
+      (module, order) =>
+        new Module({ course: course._id, title: module.title, order })
+    );
+    const contents = parsed.modules.flatMap((module, index) =>
+      module.items.map(
+        (item, order) =>
+          new Content({
+            course: course._id,
+            module: modules[index]._id,
+            title: item.title,
+            type: "scorm",
+            order,
+            scorm: {
+              version: "1.2",
+              packageId,
+              identifier: item.identifier,
+              launchPath: item.launchPath,
+              parameters: item.parameters,
+              masteryScore: item.masteryScore,
+            },
+          })
+      )
+    );
+
+    return CourseCloneService.copyCourse(
+      { course, modules, contents, quizzes: [], resources: [], questions: [] },
+      userId,
+      { questions: "copy", dates: "keep" },
+      this.getOverrides(options)
+    );
+  }
+
+  /**
+   * Whether an archived resource that comes without its file may keep its
+   * URL: web links, and files uploaded to this app's storage
+   */
+  private static isImportableUrl(resource: Record<string, unknown>): boolean {
+    const url = String(resource.url ?? "");
+    return resource.type === "link"
+      ? /^https?:\/\//.test(url)
+      : isUploadedFileUrl(url);
+  }
+
+  /**
+   * The file of an uploaded resource, to bundle it. Only files on this app's
+   * upload storage are fetched; links, other URLs and files that cannot be
+   * fetched stay referenced by their URL.
+   */
+  private static async downloadResource(
+    resource: IResource
+  ): Promise<ZipEntry | undefined> {
+    if (resource.type === "link" || !isUploadedFileUrl(resource.url)) {
+      return undefined;
+    }
+
+    try {
+      const response = await axios.get<ArrayBuffer>(resource.url, {
+        responseType: "arraybuffer",
+        maxContentLength: MAX_ASSET_SIZE,
+        maxRedirects: 0,
+        lookup: lookupPublic,
+        timeout: 30_000,
+      });
+      const name =
+        path.posix.basename(
+          resource.fileName || new URL(resource.url).pathname
+        ) || "file";
+
+      return { name, data: Buffer.from(response.data) };
+    } catch (error: any) {
+      logger.warn(
+        `Could not bundle resource ${resource.id} (${resource.url}): ${error.message}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Upload a bundled resource file, returning its URL
+   */
+  private static async uploadAsset(name: string, data: Buffer) {
+    const filePath = path.join(
+      "uploads",
+      `${randomUUID()}${path.posix.extname(name)}`
+    );
+    try {
+      await fs.promises.mkdir("uploads", { recursive: true });
+      await fs.promises.writeFile(filePath, data);
+      return await uploadToCloudinary(filePath, UPLOAD_FOLDER, "auto");
+    } finally {
+      await fs.promises.rm(filePath, { force: true });
+    }
+  }
+
+  /**
+   * Course fields given with the import
+   */
+  private static getOverrides(options: IImportCourse) {
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    );
+  }
+}
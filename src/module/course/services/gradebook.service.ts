@@ -0,0 +1,518 @@
+import { Types } from "mongoose";
+import {
+  AssignmentSubmission,
+  Content,
+  Course,
+  CourseEnrollment,
+  IContent,
+  ICourse,
+  IQuiz,
+  Quiz,
+  QuizAttempt,
+} from "../models";
+import { AssignmentService } from "./assignment.service";
+import { QuizScoreService } from "./quiz-score.service";
+import { NotFoundException } from "../../../common/middleware/errors";
+import { paginate } from "../../../common/utils/pagination";
+import { toCsv } from "../utils/csv";
+import { IGradebookQuery } from "../validation/gradebook";
+
+const DEFAULT_GRADE_BANDS = [
+  { letter: "A", minScore: 90 },
+  { letter: "B", minScore: 80 },
+  { letter: "C", minScore: 70 },
+  { letter: "D", minScore: 60 },
+  { letter: "F", minScore: 0 },
+];
+
+// Category used when the course has no grading policy
+const OVERALL_CATEGORY = { name: "Overall", weight: 1, dropLowest: 0 };
+
+// Categories uncategorized quizzes and assignments fall back to
+const DEFAULT_CATEGORY_NAMES = { quiz: "quizzes", assignment: "assignments" };
+
+// Students graded per query when storing grades
+const SYNC_BATCH_SIZE = 200;
+
+export interface GradebookItem {
+  id: string;
+  type: "quiz" | "assignment";
+  title: string;
+  category: string | null; // null when it counts towards no category
+  weight: number;
+}
+
+export interface ItemGrade {
+  item: string;
+  score: number | null; // percentage
+  status: "graded" | "pending" | "missing";
+  dropped?: boolean;
+}
+
+export interface CategoryGrade {
+  name: string;
+  weight: number;
+  score: number | null; // null without items
+  items: ItemGrade[];
+}
+
+export interface StudentGrade {
+  finalScore: number | null; // null when the course has nothing to grade
+  letter: string | null;
+  categories: CategoryGrade[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class GradebookService {
+  /**
+   * Published quizzes and assignments of a course, in their gradebook
+   * categories
+   */
+  static async getItems(course: ICourse): Promise<{
+    items: GradebookItem[];
+    quizzes: IQuiz[];
+    assignments: IContent[];
+  }> {
+    const [quizzes, assignments] = await Promise.all([
+      Quiz.find({ course: course._id, isActive: true, isPublished: true }).sort(
+        { order: 1 }
+      ),
+      Content.find({
+        course: course._id,
+        type: "assignment",
+        isActive: true,
+        isPublished: true,
+      }).sort({ order: 1 }),
+    ]);
+
+    const items: GradebookItem[] = [
+      ...quizzes.map((quiz) => ({
+        id: quiz.id as string,
+        type: "quiz" as const,
+        title: quiz.title,
+        category: this.resolveCategory(course, "quiz", quiz.gradingCategory),
+        weight: quiz.weight ?? 1,
+      })),
+      ...assignments.map((content) => ({
+        id: content.id as string,
+        type: "assignment" as const,
+        title: content.title,
+        category: this.resolveCategory(
+          course,
+          "assignment",
+          content.gradingCategory
+        ),
+        weight: content.weight ?? 1,
+      })),
+    ];
+
+    return { items, quizzes, assignments };
+  }
+
+  /**
+   * Categories of the course grading policy, or a single overall category
+   */
+  static getCategories(course: ICourse) {
+    const categories = course.gradingPolicy?.categories || [];
+    return categories.length ? categories : [OVERALL_CATEGORY];
+  }
+
+  /**
+   * Category an item belongs to: its own gradingCategory, else "Quizzes" or
+   * "Assignments" when the policy has them
+   */
+  static resolveCategory(
+    course: ICourse,
+    type: GradebookItem["type"],
+    gradingCategory?: string
+  ): string | null {
+    const categories = course.gradingPolicy?.categories || [];
+    if (!categories.length) return OVERALL_CATEGORY.name;
+
+    const find = (name: string) =>
+      categories.find(
+        (category) => category.name.toLowerCase() === name.toLowerCase()
+      )?.name;
+
+    return (
+      (gradingCategory && find(gradingCategory)) ||
+      find(DEFAULT_CATEGORY_NAMES[type]) ||
+      null
+    );
+  }
+
+  /**
+   * Item grades of the given students. Quizzes use the effective score of
+   * their grading method; assignments the grade of the latest submission.
+   * With `releasedOnly`, unreleased peer-review grades read as pending.
+   */
+  static async getItemGrades(
+    course: ICourse,
+    userIds: (string | Types.ObjectId)[],
+    options: { releasedOnly?: boolean } = {}
+  ): Promise<{
+    items: GradebookItem[];
+    grades: Map<string, Map<string, ItemGrade>>;
+  }> {
+    const { items, quizzes, assignments } = await this.getItems(course);
+
+    const [attempts, submissions] = await Promise.all([
+      QuizAttempt.find({
+        quiz: { $in: quizzes.map((quiz) => quiz._id) },
+        user: { $in: userIds },
+        isCompleted: true,
+      })
+        .select("quiz user score isGraded completedAt")
+        .sort({ completedAt: 1 })
+        .lean(),
+      AssignmentSubmission.find({
+        content: { $in: assignments.map((content) => content._id) },
+        user: { $in: userIds },
+        isLatest: true,
+      })
+        .select("content user status percentage")
+        .lean(),
+    ]);
+
+    const grades = new Map<string, Map<string, ItemGrade>>(
+      userIds.map((userId) => [userId.toString(), new Map()])
+    );
+    const setGrade = (userId: string, grade: ItemGrade) =>
+      grades.get(userId)?.set(grade.item, grade);
+
+    for (const quiz of quizzes) {
+      const quizAttempts = attempts.filter((attempt) =>
+        attempt.quiz.equals(quiz._id as Types.ObjectId)
+      );
+
+      const scoresByUser = new Map<string, number[]>();
+      const pendingUsers = new Set<string>();
+      quizAttempts.forEach((attempt) => {
+        const userId = attempt.user.toString();
+        if (!attempt.isGraded) return pendingUsers.add(userId);
+        scoresByUser.set(userId, [
+          ...(scoresByUser.get(userId) || []),
+          attempt.score,
+        ]);
+      });
+
+      for (const userId of grades.keys()) {
+        const scores = scoresByUser.get(userId);
+        setGrade(userId, {
+          item: quiz.id,
+          score: scores
+            ? QuizScoreService.combineScores(scores, quiz.gradingMethod)
+            : null,
+          status: scores
+            ? "graded"
+            : pendingUsers.has(userId)
+              ? "pending"
+              : "missing",
+        });
+      }
+    }
+
+    for (const content of assignments) {
+      const released =
+        !options.releasedOnly || AssignmentService.areResultsReleased(content);
+
+      for (const userId of grades.keys()) {
+        const submission = submissions.find(
+          (s) =>
+            s.content.equals(content._id as Types.ObjectId) &&
+            s.user.toString() === userId
+        );
+        const isGraded = submission?.status === "graded" && released;
+
+        setGrade(userId, {
+          item: content.id,
+          score: isGraded ? (submission.percentage ?? 0) : null,
+          status: isGraded ? "graded" : submission ? "pending" : "missing",
+        });
+      }
+    }
+
+    return { items, grades };
+  }
+
+  /**
+   * Weighted final grade from item grades. Pending and missing items count
+   * as 0; a category's lowest scores are dropped as configured, and
+   * categories without items do not count.
+   */
+  static calculateGrade(
+    course: ICourse,
+    items: GradebookItem[],
+    itemGrades: Map<string, ItemGrade>
+  ): StudentGrade {
+    const categories = this.getCategories(course).map((category) => {
+      const categoryItems = items.filter(
+        (item) => item.category === category.name
+      );
+      const grades = categoryItems.map((item) => ({
+        ...(itemGrades.get(item.id) || {
+          item: item.id,
+          score: null,
+          status: "missing" as const,
+        }),
+        weight: item.weight,
+      }));
+
+      if (category.dropLowest && grades.length > category.dropLowest) {
+        [...grades]
+          .sort((a, b) => (a.score ?? 0) - (b.score ?? 0))
+          .slice(0, category.dropLowest)
+          .forEach((grade) => (grade.dropped = true));
+      }
+
+      const counted = grades.filter((grade) => !grade.dropped);
+      const totalWeight = counted.reduce((total, g) => total + g.weight, 0);
+      const score = !counted.length
+        ? null
+        : totalWeight > 0
+          ? counted.reduce((total, g) => total + (g.score ?? 0) * g.weight, 0) /
+            totalWeight
+          : counted.reduce((total, g) => total + (g.score ?? 0), 0) /
+            counted.length;
+
+      return {
+        name: category.name,
+        weight: category.weight,
+        score: score === null ? null : round(score),
+        items: grades.map(({ weight, ...grade }) => grade),
+      };
+    });
+
+    const graded = categories.filter((category) => category.score !== null);
+    const totalWeight = graded.reduce((total, c) => total + c.weight, 0);
+    const finalScore = !graded.length
+      ? null
+      : round(
+          totalWeight > 0
+            ? graded.reduce((total, c) => total + c.score! * c.weight, 0) /
+                totalWeight
+            : graded.reduce((total, c) => total + c.score!, 0) / graded.length
+        );
+
+    return {
+      finalScore,
+      letter: finalScore === null ? null : this.getLetter(course, finalScore),
+      categories,
+    };
+  }
+
+  /**
+   * Letter of the highest grade band the score reaches
+   */
+  static getLetter(course: ICourse, score: number): string | null {
+    const bands = course.gradingPolicy?.gradeBands?.length
+      ? course.gradingPolicy.gradeBands
+      : DEFAULT_GRADE_BANDS;
+
+    return (
+      [...bands]
+        .sort((a, b) => b.minScore - a.minScore)
+        .find((band) => score >= band.minScore)?.letter ?? null
+    );
+  }
+
+  /**
+   * Final grades of the given students
+   */
+  static async getStudentGrades(
+    course: ICourse,
+    userIds: (string | Types.ObjectId)[],
+    options: { releasedOnly?: boolean } = {}
+  ): Promise<{ items: GradebookItem[]; grades: Map<string, StudentGrade> }> {
+    const { items, grades: itemGrades } = await this.getItemGrades(
+      course,
+      userIds,
+      options
+    );
+
+    const grades = new Map<string, StudentGrade>();
+    itemGrades.forEach((userGrades, userId) =>
+      grades.set(userId, this.calculateGrade(course, items, userGrades))
+    );
+
+    return { items, grades };
+  }
+
+  /**
+   * Gradebook matrix: a row per enrolled student with every item grade
+   */
+  static async getGradebook(course: ICourse, query: IGradebookQuery) {
+    const { page, limit } = query;
+
+    const result = await paginate(
+      CourseEnrollment,
+      { course: course._id, status: { $ne: "dropped" } },
+      {
+        page,
+        limit,
+        sort: { enrollmentDate: 1 },
+        select: "user status progress.progressPercentage",
+        populate: [{ path: "user", select: "name email avatar" }],
+      }
+    );
+
+    const userIds = result.data
+      .map((enrollment: any) => enrollment.user?._id)
+      .filter(Boolean);
+    const { items, grades } = await this.getStudentGrades(course, userIds);
+
+    return {
+      columns: items,
+      categories: this.getCategories(course).map(({ name, weight }) => ({
+        name,
+        weight,
+      })),
+      data: result.data.map((enrollment: any) => ({
+        student: enrollment.user,
+        enrollmentStatus: enrollment.status,
+        progressPercentage: enrollment.progress?.progressPercentage ?? 0,
+        ...(enrollment.user && grades.get(enrollment.user._id.toString())),
+      })),
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * A student's own grade breakdown. Unreleased grades show as pending.
+   */
+  static async getStudentGradebook(courseId: string, userId: string) {
+    const enrollment = await CourseEnrollment.findOne({
+      user: userId,
+      course: courseId,
+    });
+    const course = enrollment && (await Course.findById(courseId));
+    if (!enrollment || !course) {
+      throw new NotFoundException("Enrollment not found");
+    }
+
+    const { items, grades } = await this.getStudentGrades(course, [userId], {
+      releasedOnly: true,
+    });
+
+    return { items, ...grades.get(userId)! };
+  }
+
+  /**
+   * Gradebook of every enrolled student as CSV
+   */
+  static async exportCsv(course: ICourse): Promise<string> {
+    const enrollments = await CourseEnrollment.find({
+      course: course._id,
+      status: { $ne: "dropped" },
+    })
+      .select("user")
+      .populate<{ user: { _id: Types.ObjectId; name: string; email: string } }>(
+        "user",
+        "name email"
+      )
+      .sort({ enrollmentDate: 1 });
+
+    const students = enrollments
+      .map((enrollment) => enrollment.user)
+      .filter(Boolean);
+    const { items, grades } = await this.getStudentGrades(
+      course,
+      students.map((student) => student._id)
+    );
+    const categories = this.getCategories(course);
+
+    const rows = students.map((student) => {
+      const grade = grades.get(student._id.toString())!;
+      const itemScores = new Map(
+        grade.categories.flatMap((category) =>
+          category.items.map((item) => [item.item, item.score])
+        )
+      );
+
+      return [
+        student.name,
+        student.email,
+        ...items.map((item) => itemScores.get(item.id) ?? ""),
+        ...grade.categories.map((category) => category.score ?? ""),
+        grade.finalScore ?? "",
+        grade.letter ?? "",
+      ];
+    });
+
+    return toCsv([
+      [
+        "Student",
+        "Email",
+        ...items.map((item) => item.title),
+        ...categories.map((category) => `${category.name} (%)`),
+        "Final (%)",
+        "Grade",
+      ],
+      ...rows,
+    ]);
+  }
+
+  /**
+   * Store the students' final grades in their enrollments' certificate data
+   */
+  static async syncEnrollmentGrades(
+    course: ICourse,
+    userIds: (string | Types.ObjectId)[]
+  ): Promise<void> {
+    for (let i = 0; i < userIds.length; i += SYNC_BATCH_SIZE) {
+      const batch = userIds.slice(i, i + SYNC_BATCH_SIZE);
+      const { grades } = await this.getStudentGrades(course, batch);
+
+      await CourseEnrollment.bulkWrite(
+        [...grades].map(([userId, grade]) => ({
+          updateOne: {
+            filter: { course: course._id, user: userId },
+            update: {
+              $set: {
+                "certificateData.completionScore": grade.finalScore ?? 0,
+                ...(grade.letter && { "certificateData.grade": grade.letter }),
+              },
+            },
+          },
+        }))
+      );
+    }
+  }
+
+  /**
+   * Refresh the stored grades of students with quiz attempts or assignment
+   * submissions graded since the given date
+   */
+  static async refreshRecentGrades(since: Date): Promise<number> {
+    const changed = { updatedAt: { $gte: since } };
+    const pairs = [
+      ...(await QuizAttempt.aggregate([
+        { $match: { isCompleted: true, ...changed } },
+        { $group: { _id: { course: "$course", user: "$user" } } },
+      ])),
+      ...(await AssignmentSubmission.aggregate([
+        { $match: changed },
+        { $group: { _id: { course: "$course", user: "$user" } } },
+      ])),
+    ];
+
+    const usersByCourse = new Map<string, Set<string>>();
+    for (const { _id } of pairs) {
+      const courseId = _id.course.toString();
+      if (!usersByCourse.has(courseId)) usersByCourse.set(courseId, new Set());
+      usersByCourse.get(courseId)!.add(_id.user.toString());
+    }
+
+    let refreshed = 0;
+    for (const [courseId, userIds] of usersByCourse) {
+      const course = await Course.findById(courseId);
+      if (!course) continue;
+
+      await this.syncEnrollmentGrades(course, [...userIds]);
+      refreshed += userIds.size;
+    }
+
+    return refreshed;
+  }
+}
@@ -0,0 +1,77 @@
+import { IQuestion, IQuiz, IQuizAttempt, QuestionType } from "../models";
+import { defaultGraders, GradeResult, QuestionGrader } from "../grading";
+
+export type GradedAnswer = IQuizAttempt["answers"][number];
+
+export class GradingService {
+  private static graders: Record<QuestionType, QuestionGrader> = {
+    ...defaultGraders,
+  };
+
+  /**
+   * Replace the grader used for a question type
+   */
+  static registerGrader(type: QuestionType, grader: QuestionGrader): void {
+    this.graders[type] = grader;
+  }
+
+  /**
+   * Grade a single answer with the grader of its question type
+   */
+  static async gradeQuestion(
+    question: IQuestion,
+    userAnswer: any
+  ): Promise<GradeResult> {
+    const grader = this.graders[question.type];
+    const result = await grader.grade(question, userAnswer);
+
+    return {
+      ...result,
+      partialCredit: Math.min(1, Math.max(0, result.partialCredit)),
+    };
+  }
+
+  /**
+   * Grade submitted answers (keyed by question ID) against the quiz.
+   * A question is worth its points times its weight in the quiz.
+   */
+  static async gradeAnswers(
+    quiz: IQuiz,
+    answers: Record<string, any>
+  ): Promise<{ answers: GradedAnswer[]; totalPoints: number }> {
+    const quizQuestions = (await quiz.getQuestionsWithDetails()).filter(
+      (quizQuestion) => quizQuestion.question
+    );
+
+    const gradedAnswers = await Promise.all(
+      quizQuestions.map(async (quizQuestion) => {
+        const question: IQuestion = quizQuestion.question;
+        const userAnswer = answers[question.id];
+        const maxPoints = (question.points ?? 1) * (quizQuestion.weight ?? 1);
+        const result = await this.gradeQuestion(question, userAnswer);
+
+        return {
+          question: question._id,
+          userAnswer,
+          isCorrect: result.isCorrect,
+          pointsEarned: maxPoints * result.partialCredit,
+          timeSpent: 0,
+          questionType: question.type,
+          correctAnswer: result.correctAnswer,
+          partialCredit: result.partialCredit,
+          maxPoints,
+          pendingManualGrading: !!result.pendingManualGrading,
+          testResults: result.testResults,
+        } as GradedAnswer;
+      })
+    );
+
+    return {
+      answers: gradedAnswers,
+      totalPoints: gradedAnswers.reduce(
+        (total, answer) => total + (answer.maxPoints ?? 0),
+        0
+      ),
+    };
+  }
+}
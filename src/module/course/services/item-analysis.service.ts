@@ -0,0 +1,397 @@
+import { Types } from "mongoose";
+import { IQuestion, IQuiz, Question, Quiz, QuizAttempt } from "../models";
+
+// Thresholds for flagging questions worth a second look
+const MIN_RESPONSES_FOR_FLAGS = 5;
+const TOO_EASY_P_VALUE = 0.95;
+const TOO_HARD_P_VALUE = 0.2;
+const LOW_DISCRIMINATION = 0.1;
+
+// Question types whose answers pick from a fixed set of options
+const CHOICE_TYPES = ["single-choice", "multiple-choice", "true-false"];
+
+export type QuestionFlag =
+  | "too-easy"
+  | "too-hard"
+  | "low-discrimination"
+  | "negative-discrimination"
+  | "unused-distractor"
+  | "attractive-distractor";
+
+export interface OptionStatistics {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+  count: number;
+  rate: number; // share of responses choosing the option, 0-1
+  averageScore: number | null; // mean attempt score of those choosing it
+}
+
+export interface QuestionStatistics {
+  question: string;
+  text: string;
+  type: string;
+  responses: number;
+  pValue: number | null; // mean credit, 0-1 - higher is easier
+  discrimination: number | null; // point-biserial against the rest score
+  averageTime: number | null; // seconds
+  options?: OptionStatistics[];
+  flags: QuestionFlag[];
+}
+
+export interface QuizAnalysis {
+  quiz: string;
+  attempts: number;
+  averageScore: number;
+  passRate: number;
+  averageTimeSpent: number;
+  reliability: number | null; // Cronbach's alpha
+  questions: QuestionStatistics[];
+  analyzedAt: Date;
+}
+
+const round = (value: number, digits = 3) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const mean = (values: number[]) =>
+  values.length
+    ? values.reduce((total, value) => total + value, 0) / values.length
+    : 0;
+
+const variance = (values: number[]) => {
+  const average = mean(values);
+  return mean(values.map((value) => (value - average) ** 2));
+};
+
+/**
+ * Pearson correlation, null when either side does not vary
+ */
+function correlation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) return null;
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+
+  if (!varianceX || !varianceY) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+export class ItemAnalysisService {
+  /**
+   * Option IDs picked in an answer to a choice question
+   */
+  static getChosenOptions(type: string, userAnswer: any): string[] {
+    switch (type) {
+      case "single-choice":
+        return typeof userAnswer === "string" ? [userAnswer] : [];
+      case "multiple-choice":
+        return Array.isArray(userAnswer) ? userAnswer.map(String) : [];
+      case "true-false":
+        return userAnswer === undefined || userAnswer === null
+          ? []
+          : [String(userAnswer)];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Options of a choice question; true/false gets "true" and "false"
+   */
+  static getOptions(
+    question: IQuestion
+  ): { id: string; text: string; isCorrect: boolean }[] {
+    if (question.type === "true-false") {
+      return [
+        {
+          id: "true",
+          text: "True",
+          isCorrect: question.correctAnswer === true,
+        },
+        {
+          id: "false",
+          text: "False",
+          isCorrect: question.correctAnswer !== true,
+        },
+      ];
+    }
+
+    return (question.options || []).map((option) => ({
+      id: option.id,
+      text: option.text,
+      isCorrect: option.isCorrect,
+    }));
+  }
+
+  /**
+   * Psychometrics of a quiz from its completed, graded attempts: difficulty,
+   * discrimination and option choices per question, and the quiz
+   * reliability. Discrimination correlates the item score with the rest of
+   * the attempt, so an item never correlates with itself.
+   */
+  static async analyzeQuiz(quiz: IQuiz): Promise<QuizAnalysis> {
+    const attempts = await QuizAttempt.find({
+      quiz: quiz._id,
+      isCompleted: true,
+      isGraded: true,
+    })
+      .select("answers score earnedPoints passed timeSpent")
+      .lean();
+
+    const quizQuestions = await quiz.getQuestionsWithDetails();
+    const questions = quizQuestions
+      .map((quizQuestion) => quizQuestion.question as IQuestion)
+      .filter(Boolean);
+
+    const questionStatistics = questions.map((question) => {
+      const responses = attempts.flatMap((attempt) => {
+        const answer = attempt.answers.find((a) =>
+          a.question.equals(question._id as Types.ObjectId)
+        );
+        return answer ? [{ attempt, answer }] : [];
+      });
+
+      const credits = responses.map(
+        ({ answer }) => answer.partialCredit ?? (answer.isCorrect ? 1 : 0)
+      );
+      const restScores = responses.map(
+        ({ attempt, answer }) => attempt.earnedPoints - answer.pointsEarned
+      );
+      const times = responses
+        .map(({ answer }) => answer.timeSpent)
+        .filter((time) => time > 0);
+
+      const pValue = responses.length ? round(mean(credits)) : null;
+      const discrimination = correlation(credits, restScores);
+
+      const statistics: QuestionStatistics = {
+        question: question.id,
+        text: question.question,
+        type: question.type,
+        responses: responses.length,
+        pValue,
+        discrimination: discrimination === null ? null : round(discrimination),
+        averageTime: times.length ? round(mean(times), 1) : null,
+        flags: [],
+      };
+
+      if (CHOICE_TYPES.includes(question.type)) {
+        statistics.options = this.getOptions(question).map((option) => {
+          const choosers = responses.filter(({ answer }) =>
+            this.getChosenOptions(question.type, answer.userAnswer).includes(
+              option.id
+            )
+          );
+
+          return {
+            ...option,
+            count: choosers.length,
+            rate: responses.length
+              ? round(choosers.length / responses.length)
+              : 0,
+            averageScore: choosers.length
+              ? round(mean(choosers.map(({ attempt }) => attempt.score)), 1)
+              : null,
+          };
+        });
+      }
+
+      statistics.flags = this.getFlags(statistics);
+      return statistics;
+    });
+
+    return {
+      quiz: quiz.id,
+      attempts: attempts.length,
+      averageScore: round(mean(attempts.map((a) => a.score)), 2),
+      passRate: round(mean(attempts.map((a) => (a.passed ? 100 : 0))), 2),
+      averageTimeSpent: Math.round(mean(attempts.map((a) => a.timeSpent))),
+      reliability: this.getReliability(attempts, questions),
+      questions: questionStatistics,
+      analyzedAt: new Date(),
+    };
+  }
+
+  /**
+   * Flag questions that are trivial, too hard, or do not tell strong and
+   * weak students apart
+   */
+  static getFlags(statistics: QuestionStatistics): QuestionFlag[] {
+    if (statistics.responses < MIN_RESPONSES_FOR_FLAGS) return [];
+
+    const flags: QuestionFlag[] = [];
+    const { pValue, discrimination, options = [] } = statistics;
+
+    if (pValue !== null && pValue > TOO_EASY_P_VALUE) flags.push("too-easy");
+    if (pValue !== null && pValue < TOO_HARD_P_VALUE) flags.push("too-hard");
+    if (discrimination !== null && discrimination < 0) {
+      flags.push("negative-discrimination");
+    } else if (discrimination !== null && discrimination < LOW_DISCRIMINATION) {
+      flags.push("low-discrimination");
+    }
+
+    const distractors = options.filter((option) => !option.isCorrect);
+    if (distractors.some((option) => option.count === 0)) {
+      flags.push("unused-distractor");
+    }
+
+    // A wrong option picked more often than every correct one
+    const topCorrectRate = Math.max(
+      0,
+      ...options.filter((o) => o.isCorrect).map((o) => o.rate)
+    );
+    if (distractors.some((option) => option.rate > topCorrectRate)) {
+      flags.push("attractive-distractor");
+    }
+
+    return flags;
+  }
+
+  /**
+   * Cronbach's alpha over the points earned per question, using attempts
+   * that answered every question
+   */
+  static getReliability(
+    attempts: {
+      answers: { question: Types.ObjectId; pointsEarned: number }[];
+    }[],
+    questions: IQuestion[]
+  ): number | null {
+    if (questions.length < 2) return null;
+
+    const rows = attempts
+      .map((attempt) =>
+        questions.map(
+          (question) =>
+            attempt.answers.find((a) =>
+              a.question.equals(question._id as Types.ObjectId)
+            )?.pointsEarned
+        )
+      )
+      .filter((row): row is number[] =>
+        row.every((points) => points !== undefined)
+      );
+    if (rows.length < 2) return null;
+
+    const itemVariance = questions.reduce(
+      (total, _, index) => total + variance(rows.map((row) => row[index])),
+      0
+    );
+    const totalVariance = variance(
+      rows.map((row) => row.reduce((a, b) => a + b, 0))
+    );
+    if (!totalVariance) return null;
+
+    const k = questions.length;
+    return round((k / (k - 1)) * (1 - itemVariance / totalVariance));
+  }
+
+  /**
+   * Write the analysis back onto the quiz, and refresh the success rate and
+   * average time of its questions over every quiz they are used in.
+   * totalAttempts stays with the attempt counter, as the analysis only
+   * counts graded attempts.
+   */
+  static async saveAnalysis(
+    quiz: IQuiz,
+    analysis: QuizAnalysis
+  ): Promise<void> {
+    await Quiz.updateOne(
+      { _id: quiz._id },
+      {
+        $set: {
+          averageScore: analysis.averageScore,
+          passRate: analysis.passRate,
+          averageTimeSpent: analysis.averageTimeSpent,
+        },
+      }
+    );
+
+    const questionIds = analysis.questions.map(
+      (statistics) => new Types.ObjectId(statistics.question)
+    );
+    if (!questionIds.length) return;
+
+    const questionStatistics = await QuizAttempt.aggregate([
+      {
+        $match: {
+          "answers.question": { $in: questionIds },
+          isCompleted: true,
+          isGraded: true,
+        },
+      },
+      { $unwind: "$answers" },
+      { $match: { "answers.question": { $in: questionIds } } },
+      {
+        $group: {
+          _id: "$answers.question",
+          successRate: {
+            $avg: {
+              $ifNull: [
+                "$answers.partialCredit",
+                { $cond: ["$answers.isCorrect", 1, 0] },
+              ],
+            },
+          },
+          // $avg skips the nulls of untimed answers
+          averageTime: {
+            $avg: {
+              $cond: [
+                { $gt: ["$answers.timeSpent", 0] },
+                "$answers.timeSpent",
+                null,
+              ],
+            },
+          },
+        },
+      },
+    ]);
+
+    if (!questionStatistics.length) return;
+
+    await Question.bulkWrite(
+      questionStatistics.map((statistics) => ({
+        updateOne: {
+          filter: { _id: statistics._id },
+          update: {
+            $set: {
+              successRate: round(statistics.successRate * 100, 2),
+              ...(statistics.averageTime !== null && {
+                averageTime: round(statistics.averageTime, 1),
+              }),
+            },
+          },
+        },
+      }))
+    );
+  }
+
+  /**
+   * Analyze and save every quiz with attempts completed since the given date
+   */
+  static async refreshRecentQuizzes(since: Date): Promise<number> {
+    const quizIds = await QuizAttempt.distinct("quiz", {
+      isCompleted: true,
+      updatedAt: { $gte: since },
+    });
+
+    let analyzed = 0;
+    for (const quizId of quizIds) {
+      const quiz = await Quiz.findById(quizId);
+      if (!quiz) continue;
+
+      await this.saveAnalysis(quiz, await this.analyzeQuiz(quiz));
+      analyzed++;
+    }
+
+    return analyzed;
+  }
+}
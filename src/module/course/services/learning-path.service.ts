@@ -0,0 +1,571 @@
+import mongoose, { Types } from "mongoose";
+import {
+  Course,
+  CourseEnrollment,
+  ICourseEnrollment,
+  ILearningPath,
+  ILearningPathEnrollment,
+  LearningPath,
+  LearningPathEnrollment,
+} from "../models";
+import { CourseService } from "../service";
+import { ProgressService } from "./progress.service";
+import { Permission } from "../../../common/config/roles-permissions";
+import { checkPermission } from "../../../common/middleware/permission";
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import logger from "../../../common/middleware/logger";
+import slugify from "../../../common/utils/slugify";
+import { paginate } from "../../../common/utils/pagination";
+import {
+  ICreateLearningPath,
+  ILearningPathQuery,
+  IUpdateLearningPath,
+} from "../validation/learning-path";
+
+export type PathStepStatus =
+  | "locked"
+  | "available"
+  | "enrolled"
+  | "in-progress"
+  | "completed"
+  | "dropped";
+
+export interface PathStepProgress {
+  course: Types.ObjectId;
+  order: number;
+  isRequired: boolean;
+  status: PathStepStatus;
+  progressPercentage: number;
+  missingPrerequisites: Types.ObjectId[];
+}
+
+const COURSE_SUMMARY = "title slug thumbnail level totalDuration status";
+
+export class LearningPathService {
+  /**
+   * Check whether a user can manage a learning path: admins and holders of
+   * `manageAllPermission`, or its creator
+   */
+  static canManagePath(
+    learningPath: ILearningPath,
+    user: any,
+    manageAllPermission: Permission
+  ): boolean {
+    if (!user) return false;
+
+    const isAdmin = user.role === "admin" || user.role === "super-admin";
+    return (
+      isAdmin ||
+      checkPermission(user, manageAllPermission) ||
+      learningPath.createdBy.toString() === user.id
+    );
+  }
+
+  /**
+   * Load a learning path the user is allowed to manage
+   */
+  static async getManageablePath(
+    pathId: string,
+    user: any,
+    manageAllPermission: Permission
+  ): Promise<ILearningPath> {
+    const learningPath = await this.getPath(pathId);
+
+    if (this.canManagePath(learningPath, user, manageAllPermission)) {
+      return learningPath;
+    }
+
+    throw new ForbiddenException("Unauthorized to manage this learning path");
+  }
+
+  /**
+   * Get an active learning path by ID or slug
+   */
+  static async getPath(slugOrId: string): Promise<ILearningPath> {
+    const learningPath = await LearningPath.findOne({
+      ...(mongoose.isValidObjectId(slugOrId)
+        ? { _id: slugOrId }
+        : { slug: slugOrId }),
+      isActive: true,
+    });
+    if (!learningPath) {
+      throw new NotFoundException("Learning path not found");
+    }
+
+    return learningPath;
+  }
+
+  /**
+   * Published learning paths with their courses
+   */
+  static async findAll(query: ILearningPathQuery) {
+    const { page, limit, search } = query;
+    const pattern = search?.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+    return paginate(
+      LearningPath,
+      {
+        status: "published",
+        isActive: true,
+        ...(pattern && {
+          $or: [
+            { title: { $regex: pattern, $options: "i" } },
+            { shortDescription: { $regex: pattern, $options: "i" } },
+          ],
+        }),
+      },
+      {
+        page,
+        limit,
+        sort: { totalEnrollments: -1, createdAt: -1 },
+        select: "-__v",
+        populate: { path: "steps.course", select: COURSE_SUMMARY },
+      }
+    );
+  }
+
+  /**
+   * Create a learning path from published or draft courses
+   */
+  static async create(
+    data: ICreateLearningPath,
+    userId: string
+  ): Promise<ILearningPath> {
+    await this.validateCourses(data.steps, data.status);
+
+    return LearningPath.create({
+      ...data,
+      slug: await this.generateUniqueSlug(data.title),
+      steps: this.toSteps(data.steps),
+      createdBy: userId,
+    });
+  }
+
+  /**
+   * Update a learning path. Steps are replaced as a whole; students keep
+   * their course enrollments and are re-evaluated on their next progress.
+   */
+  static async update(
+    learningPath: ILearningPath,
+    data: IUpdateLearningPath
+  ): Promise<ILearningPath> {
+    const steps =
+      data.steps ??
+      learningPath.steps.map((step) => ({
+        course: step.course.toString(),
+        prerequisites: step.prerequisites.map(String),
+      }));
+    if (data.steps || data.status === "published") {
+      await this.validateCourses(steps, data.status ?? learningPath.status);
+    }
+
+    if (data.title && data.title !== learningPath.title) {
+      learningPath.slug = await this.generateUniqueSlug(
+        data.title,
+        learningPath.id
+      );
+    }
+    const { steps: _steps, ...fields } = data;
+    learningPath.set(fields);
+    if (data.steps) {
+      learningPath.set("steps", this.toSteps(data.steps));
+    }
+
+    return learningPath.save();
+  }
+
+  /**
+   * Archive a learning path with enrollments, delete it otherwise
+   */
+  static async delete(learningPath: ILearningPath): Promise<boolean> {
+    const hasEnrollments = await LearningPathEnrollment.exists({
+      learningPath: learningPath._id,
+    });
+
+    if (hasEnrollments) {
+      learningPath.status = "archived";
+      await learningPath.save();
+      return false;
+    }
+
+    await learningPath.deleteOne();
+    return true;
+  }
+
+  /**
+   * Enroll a student in a learning path and in the courses it opens
+   */
+  static async enroll(
+    pathId: string,
+    userId: string
+  ): Promise<{
+    enrollment: ILearningPathEnrollment;
+    steps: PathStepProgress[];
+  }> {
+    const learningPath = await this.getPath(pathId);
+    if (learningPath.status !== "published") {
+      throw new BadRequestException(
+        "Learning path is not available for enrollment"
+      );
+    }
+
+    let enrollment = await LearningPathEnrollment.findOne({
+      user: userId,
+      learningPath: learningPath._id,
+    });
+    if (enrollment && enrollment.status !== "dropped") {
+      throw new ConflictException("Already enrolled in this learning path");
+    }
+
+    if (enrollment) {
+      enrollment.status = "enrolled";
+    } else {
+      enrollment = new LearningPathEnrollment({
+        user: userId,
+        learningPath: learningPath._id,
+      });
+      await LearningPath.updateOne(
+        { _id: learningPath._id },
+        { $inc: { totalEnrollments: 1 } }
+      );
+    }
+
+    return this.syncEnrollment(enrollment, learningPath);
+  }
+
+  /**
+   * Leave a learning path. Course enrollments are kept.
+   */
+  static async unenroll(
+    pathId: string,
+    userId: string
+  ): Promise<ILearningPathEnrollment> {
+    const learningPath = await this.getPath(pathId);
+
+    const enrollment = await LearningPathEnrollment.findOneAndUpdate(
+      {
+        user: userId,
+        learningPath: learningPath._id,
+        status: { $nin: ["dropped", "completed"] },
+      },
+      { status: "dropped" },
+      { new: true }
+    );
+    if (!enrollment) {
+      throw new NotFoundException("Enrollment not found");
+    }
+
+    return enrollment;
+  }
+
+  /**
+   * A student's progress through a learning path, step by step
+   */
+  static async getProgress(pathId: string, userId: string) {
+    const learningPath = await this.getPath(pathId);
+
+    const enrollment = await LearningPathEnrollment.findOne({
+      user: userId,
+      learningPath: learningPath._id,
+    });
+    if (!enrollment) {
+      throw new NotFoundException("Not enrolled in this learning path");
+    }
+
+    const result =
+      enrollment.status === "dropped"
+        ? {
+            enrollment,
+            steps: this.evaluateSteps(
+              learningPath,
+              await this.getCourseEnrollments(learningPath, userId)
+            ),
+          }
+        : await this.syncEnrollment(enrollment, learningPath);
+
+    const courses = await Course.find({
+      _id: { $in: learningPath.steps.map((step) => step.course) },
+    }).select(COURSE_SUMMARY);
+
+    return {
+      enrollment: result.enrollment,
+      steps: result.steps.map((step) => ({
+        ...step,
+        course:
+          courses.find((course) => step.course.equals(course.id)) ??
+          step.course,
+      })),
+    };
+  }
+
+  /**
+   * Learning paths a student is enrolled in
+   */
+  static async getUserPaths(userId: string) {
+    return LearningPathEnrollment.find({
+      user: userId,
+      status: { $ne: "dropped" },
+    })
+      .populate("learningPath", "title slug thumbnail shortDescription steps")
+      .sort({ updatedAt: -1 });
+  }
+
+  /**
+   * Re-evaluate a student's path: enroll them in courses whose prerequisites
+   * are now met, and compute progress from the course enrollments of the
+   * required steps (every step when none is required). The path completes
+   * once all of them are completed.
+   */
+  static async syncEnrollment(
+    enrollment: ILearningPathEnrollment,
+    learningPath: ILearningPath
+  ): Promise<{
+    enrollment: ILearningPathEnrollment;
+    steps: PathStepProgress[];
+  }> {
+    const userId = enrollment.user.toString();
+    const courseEnrollments = await this.getCourseEnrollments(
+      learningPath,
+      userId
+    );
+
+    let steps = this.evaluateSteps(learningPath, courseEnrollments);
+    const toEnroll = steps.filter((step) => step.status === "available");
+    if (toEnroll.length) {
+      const published = await Course.find({
+        _id: { $in: toEnroll.map((step) => step.course) },
+        status: "published",
+      }).select("_id");
+
+      for (const step of toEnroll) {
+        if (!published.some((course) => step.course.equals(course.id))) {
+          logger.warn(
+            `Learning path ${learningPath.id} step course ${step.course} is not published`
+          );
+          continue;
+        }
+
+        const courseEnrollment = await CourseService.enrollUser(
+          step.course.toString(),
+          userId
+        );
+        courseEnrollment.learningPath = learningPath._id as Types.ObjectId;
+        await courseEnrollment.save();
+        courseEnrollments.push(courseEnrollment);
+      }
+      steps = this.evaluateSteps(learningPath, courseEnrollments);
+    }
+
+    const requiredSteps = steps.filter((step) => step.isRequired);
+    const countedSteps = requiredSteps.length ? requiredSteps : steps;
+    const progressPercentage = countedSteps.length
+      ? countedSteps.reduce(
+          (total, step) => total + step.progressPercentage,
+          0
+        ) / countedSteps.length
+      : 0;
+
+    enrollment.progress.completedCourses = steps
+      .filter((step) => step.status === "completed")
+      .map((step) => step.course);
+    enrollment.progress.currentCourse = steps.find(
+      (step) => step.status !== "completed" && step.status !== "locked"
+    )?.course;
+    enrollment.progress.progressPercentage =
+      Math.round(progressPercentage * 10) / 10;
+
+    if (
+      enrollment.status === "enrolled" &&
+      steps.some((step) => step.progressPercentage > 0)
+    ) {
+      enrollment.status = "in-progress";
+    }
+
+    const justCompleted =
+      countedSteps.length > 0 &&
+      countedSteps.every((step) => step.status === "completed") &&
+      enrollment.status !== "completed" &&
+      enrollment.status !== "dropped";
+    if (justCompleted) {
+      enrollment.status = "completed";
+      enrollment.completionDate = new Date();
+    }
+
+    await enrollment.save();
+
+    if (justCompleted) {
+      await this.updateStats(learningPath._id as Types.ObjectId);
+    }
+
+    return { enrollment, steps };
+  }
+
+  /**
+   * Re-evaluate the paths of a student that include a course, e.g. after
+   * progress in that course
+   */
+  static async syncCourse(
+    courseId: string | Types.ObjectId,
+    userId: string | Types.ObjectId
+  ): Promise<void> {
+    const enrollments = await LearningPathEnrollment.find({
+      user: userId,
+      status: { $in: ["enrolled", "in-progress"] },
+    });
+    if (!enrollments.length) return;
+
+    const learningPaths = await LearningPath.find({
+      _id: { $in: enrollments.map((enrollment) => enrollment.learningPath) },
+      "steps.course": courseId,
+      isActive: true,
+    });
+
+    for (const learningPath of learningPaths) {
+      const enrollment = enrollments.find((other) =>
+        other.learningPath.equals(learningPath.id)
+      )!;
+      await this.syncEnrollment(enrollment, learningPath);
+    }
+  }
+
+  /**
+   * Share of a path's students who completed it
+   */
+  static async updateStats(pathId: Types.ObjectId): Promise<void> {
+    const [total, completed] = await Promise.all([
+      LearningPathEnrollment.countDocuments({ learningPath: pathId }),
+      LearningPathEnrollment.countDocuments({
+        learningPath: pathId,
+        status: "completed",
+      }),
+    ]);
+
+    await LearningPath.updateOne(
+      { _id: pathId },
+      {
+        totalEnrollments: total,
+        completionRate: total ? Math.round((completed / total) * 1000) / 10 : 0,
+      }
+    );
+  }
+
+  /**
+   * Status of each step from the student's course enrollments. A step opens
+   * once its prerequisite courses are completed.
+   */
+  private static evaluateSteps(
+    learningPath: ILearningPath,
+    courseEnrollments: ICourseEnrollment[]
+  ): PathStepProgress[] {
+    const enrollmentOf = (courseId: Types.ObjectId) =>
+      courseEnrollments.find((enrollment) =>
+        enrollment.course.equals(courseId)
+      );
+    const isCompleted = (courseId: Types.ObjectId) =>
+      enrollmentOf(courseId)?.status === "completed";
+
+    return [...learningPath.steps]
+      .sort((a, b) => a.order - b.order)
+      .map((step) => {
+        const courseEnrollment = enrollmentOf(step.course);
+        const missingPrerequisites = step.prerequisites.filter(
+          (courseId) => !isCompleted(courseId)
+        );
+
+        const status: PathStepStatus = courseEnrollment
+          ? courseEnrollment.status
+          : missingPrerequisites.length
+            ? "locked"
+            : "available";
+
+        return {
+          course: step.course,
+          order: step.order,
+          isRequired: step.isRequired,
+          status,
+          progressPercentage:
+            status === "completed"
+              ? 100
+              : (courseEnrollment?.progress.progressPercentage ?? 0),
+          missingPrerequisites,
+        };
+      });
+  }
+
+  private static async getCourseEnrollments(
+    learningPath: ILearningPath,
+    userId: string
+  ): Promise<ICourseEnrollment[]> {
+    return CourseEnrollment.find({
+      user: userId,
+      course: { $in: learningPath.steps.map((step) => step.course) },
+    });
+  }
+
+  /**
+   * Every step course must exist, and be published for a published path
+   */
+  private static async validateCourses(
+    steps: { course: string }[],
+    status?: string
+  ): Promise<void> {
+    const courses = await Course.find({
+      _id: { $in: steps.map((step) => step.course) },
+    }).select("title status");
+
+    const missing = steps.filter(
+      (step) => !courses.some((course) => course.id === step.course)
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        `Course(s) not found: ${missing.map((step) => step.course).join(", ")}`
+      );
+    }
+
+    const unpublished = courses.filter(
+      (course) => course.status !== "published"
+    );
+    if (status === "published" && unpublished.length) {
+      throw new BadRequestException(
+        `Publish these courses first: ${unpublished
+          .map((course) => course.title)
+          .join(", ")}`
+      );
+    }
+  }
+
+  private static toSteps(steps: ICreateLearningPath["steps"]) {
+    return steps.map((step, index) => ({ ...step, order: index }));
+  }
+
+  private static async generateUniqueSlug(
+    title: string,
+    pathId?: string
+  ): Promise<string> {
+    const baseSlug = slugify(title);
+    let slug = baseSlug;
+    let counter = 0;
+
+    while (
+      await LearningPath.exists({
+        slug,
+        ...(pathId && { _id: { $ne: pathId } }),
+      })
+    ) {
+      counter++;
+      slug = `${baseSlug}-${counter}`;
+    }
+
+    return slug;
+  }
+}
+
+// Paths follow the progress of their courses
+ProgressService.onEnrollmentSynced((enrollment) =>
+  LearningPathService.syncCourse(enrollment.course, enrollment.user)
+);
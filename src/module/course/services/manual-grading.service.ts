@@ -0,0 +1,298 @@
+import mongoose from "mongoose";
+import {
+  Course,
+  ICourse,
+  IQuestion,
+  IQuiz,
+  IQuizAttempt,
+  Question,
+  Quiz,
+  QuizAttempt,
+} from "../models";
+import { CourseAccessService } from "./course-access.service";
+import { QuizScoreService } from "./quiz-score.service";
+import { ProgressService } from "./progress.service";
+import {
+  BadRequestException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import { checkPermission } from "../../../common/middleware/permission";
+import logger from "../../../common/middleware/logger";
+import { paginate } from "../../../common/utils/pagination";
+import { sendEmail } from "../../../common/utils/sendEmail";
+import {
+  ICompleteGrading,
+  IGradeAnswer,
+  IGradingQueue,
+} from "../validation/grading";
+
+// Question types an instructor has to grade
+const MANUAL_QUESTION_TYPES = ["essay", "code-review"];
+
+export class ManualGradingService {
+  /**
+   * List completed attempts still waiting for manual grading, oldest first.
+   * Instructors only see attempts of the courses they teach.
+   */
+  static async getQueue(query: IGradingQueue, user: any) {
+    const { page, limit } = query;
+    const filter: Record<string, any> = {
+      isCompleted: true,
+      isGraded: false,
+    };
+
+    const canGradeAll =
+      user.role === "admin" ||
+      user.role === "super-admin" ||
+      checkPermission(user, "quiz:manage_all");
+
+    const courseFilter: Record<string, any> = canGradeAll
+      ? {}
+      : { $or: [{ instructor: user.id }, { coInstructors: user.id }] };
+    if (query.course) courseFilter._id = query.course;
+    if (!canGradeAll || query.course) {
+      filter.course = { $in: await Course.find(courseFilter).distinct("_id") };
+    }
+    if (query.quiz) filter.quiz = query.quiz;
+
+    return paginate(QuizAttempt, filter, {
+      page,
+      limit,
+      sort: { completedAt: 1 },
+      select: "-savedAnswers -answers.correctAnswer",
+      populate: [
+        { path: "user", select: "name email avatar" },
+        { path: "course", select: "title slug" },
+        { path: "quiz", select: "title passingScore" },
+      ],
+    });
+  }
+
+  /**
+   * Load a completed attempt the user may grade, with its quiz and course
+   */
+  static async getGradableAttempt(
+    attemptId: string,
+    user: any
+  ): Promise<{ attempt: IQuizAttempt; quiz: IQuiz; course: ICourse }> {
+    if (!mongoose.isValidObjectId(attemptId)) {
+      throw new NotFoundException("Attempt not found");
+    }
+
+    const attempt = await QuizAttempt.findById(attemptId);
+    if (!attempt || !attempt.isCompleted) {
+      throw new NotFoundException("Attempt not found");
+    }
+
+    const course = await CourseAccessService.getManageableCourse(
+      attempt.course.toString(),
+      user,
+      "quiz:manage_all"
+    );
+
+    const quiz = await Quiz.findById(attempt.quiz);
+    if (!quiz) {
+      throw new NotFoundException("Quiz not found");
+    }
+
+    return { attempt, quiz, course };
+  }
+
+  /**
+   * Questions of the attempt's manually graded answers, with their rubrics
+   */
+  static async getManualQuestions(attempt: IQuizAttempt): Promise<IQuestion[]> {
+    return Question.find({
+      _id: {
+        $in: attempt.answers
+          .filter((answer) => this.isManualAnswer(answer))
+          .map((answer) => answer.question),
+      },
+    });
+  }
+
+  /**
+   * Score one essay or code-review answer, per rubric criterion when the
+   * question has a rubric. Regrading a finished attempt reopens it and takes
+   * its score out of the student's progress until grading is completed.
+   */
+  static async gradeAnswer(
+    attempt: IQuizAttempt,
+    quiz: IQuiz,
+    questionId: string,
+    data: IGradeAnswer,
+    graderId: string
+  ): Promise<IQuizAttempt> {
+    const answer = attempt.answers.find(
+      (a) => a.question.toString() === questionId
+    );
+    if (!answer) {
+      throw new NotFoundException("Answer not found in this attempt");
+    }
+    if (!this.isManualAnswer(answer)) {
+      throw new BadRequestException("This answer is graded automatically");
+    }
+
+    const question = await Question.findById(answer.question);
+    const rubric = question?.rubric || [];
+    const maxPoints = answer.maxPoints ?? 0;
+
+    let credit: number;
+    if (rubric.length) {
+      if (!data.rubricScores) {
+        throw new BadRequestException("Score every rubric criterion");
+      }
+      credit = this.scoreRubric(rubric, data.rubricScores);
+    } else {
+      if (data.points === undefined) {
+        throw new BadRequestException(
+          "This question has no rubric, provide points"
+        );
+      }
+      if (data.points > maxPoints) {
+        throw new BadRequestException(
+          `Points cannot exceed ${maxPoints} for this answer`
+        );
+      }
+      credit = maxPoints > 0 ? data.points / maxPoints : 0;
+    }
+
+    answer.rubricScores = rubric.length ? data.rubricScores : undefined;
+    answer.comments = data.comments;
+    answer.partialCredit = credit;
+    answer.isCorrect = credit >= 1;
+    answer.pointsEarned = Math.round(maxPoints * credit * 100) / 100;
+    answer.pendingManualGrading = false;
+    answer.gradedBy = new mongoose.Types.ObjectId(graderId);
+    answer.gradedAt = new Date();
+
+    // The score only counts again once grading is completed
+    const wasGraded = attempt.isGraded;
+    attempt.isGraded = false;
+    attempt.passed = false;
+
+    await attempt.save();
+    if (wasGraded) {
+      await QuizScoreService.syncEnrollment(quiz, attempt.user);
+      await ProgressService.syncUser(attempt.course, attempt.user);
+    }
+
+    return attempt;
+  }
+
+  /**
+   * Finish grading: recompute the score and pass/fail, update the student's
+   * effective quiz score and notify them
+   */
+  static async completeGrading(
+    attempt: IQuizAttempt,
+    quiz: IQuiz,
+    course: ICourse,
+    data: ICompleteGrading,
+    graderId: string
+  ): Promise<IQuizAttempt> {
+    const pending = attempt.answers.filter((a) => a.pendingManualGrading);
+    if (pending.length) {
+      throw new BadRequestException(
+        `Grade all answers first (${pending.length} pending)`
+      );
+    }
+
+    if (data.feedback !== undefined) attempt.feedback = data.feedback;
+    if (data.instructorComments !== undefined) {
+      attempt.instructorComments = data.instructorComments;
+    }
+    attempt.gradedBy = new mongoose.Types.ObjectId(graderId);
+    attempt.gradedAt = new Date();
+    attempt.calculateScore(quiz.passingScore);
+
+    await attempt.save();
+    await QuizScoreService.syncEnrollment(quiz, attempt.user);
+    await ProgressService.syncUser(attempt.course, attempt.user);
+
+    await this.notifyStudent(attempt, quiz, course);
+
+    return attempt;
+  }
+
+  /**
+   * Email the student that their attempt was graded. Failures are logged,
+   * never surfaced to the grader.
+   */
+  static async notifyStudent(
+    attempt: IQuizAttempt,
+    quiz: IQuiz,
+    course: ICourse
+  ): Promise<void> {
+    const { user } = await attempt.populate<{
+      user: { name: string; email: string };
+    }>("user", "name email");
+    if (!user?.email) return;
+
+    await sendEmail({
+      to: user.email,
+      type: "quiz-graded",
+      data: {
+        name: user.name,
+        quizTitle: quiz.title,
+        courseTitle: course.title,
+        score: attempt.score,
+        passed: attempt.passed,
+        resultsUrl: `${process.env.CLIENT_URL}/courses/${course.slug}/quizzes/${quiz.id}/attempts/${attempt.id}`,
+      },
+    }).catch((error) => {
+      logger.error(
+        `Failed to send quiz graded email for attempt ${attempt.id}: ${error}`
+      );
+    });
+  }
+
+  /**
+   * Share of the rubric's points earned. Every criterion must be scored
+   * exactly once and within its points.
+   */
+  static scoreRubric(
+    rubric: { criteria: string; points: number }[],
+    scores: { criteria: string; points: number }[]
+  ): number {
+    const given = new Map(
+      scores.map((score) => [score.criteria, score.points])
+    );
+    if (given.size !== scores.length) {
+      throw new BadRequestException("Each rubric criterion can be scored once");
+    }
+
+    let earned = 0;
+    for (const criterion of rubric) {
+      const points = given.get(criterion.criteria);
+      if (points === undefined) {
+        throw new BadRequestException(
+          `Missing score for rubric criterion "${criterion.criteria}"`
+        );
+      }
+      if (points > criterion.points) {
+        throw new BadRequestException(
+          `"${criterion.criteria}" is worth at most ${criterion.points} points`
+        );
+      }
+      earned += points;
+      given.delete(criterion.criteria);
+    }
+
+    if (given.size) {
+      throw new BadRequestException(
+        `Unknown rubric criteria: ${[...given.keys()].join(", ")}`
+      );
+    }
+
+    const total = rubric.reduce((sum, criterion) => sum + criterion.points, 0);
+    return total > 0 ? earned / total : 0;
+  }
+
+  /**
+   * Check whether an answer belongs to a manually graded question type
+   */
+  static isManualAnswer(answer: { questionType?: string }): boolean {
+    return MANUAL_QUESTION_TYPES.includes(answer.questionType || "");
+  }
+}
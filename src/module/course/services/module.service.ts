@@ -0,0 +1,196 @@
+import mongoose from "mongoose";
+import { ICourse, IModule, Module } from "../models";
+import slugify from "../../../common/utils/slugify";
+import {
+  BadRequestException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import {
+  ICreateModule,
+  IUpdateModule,
+} from "../validation/module";
+
+export class ModuleService {
+  /**
+   * Generate a module slug that is unique across all courses
+   */
+  static async generateUniqueSlug(
+    course: ICourse,
+    title: string,
+    moduleId?: string
+  ): Promise<string> {
+    const originalSlug = `${course.slug}-${slugify(title)}`;
+    let slug = originalSlug;
+    let counter = 0;
+
+    while (true) {
+      const existingModule = await Module.findOne({
+        slug,
+        ...(moduleId && { _id: { $ne: moduleId } }),
+      });
+
+      if (!existingModule) break;
+
+      counter++;
+      slug = `${originalSlug}-${counter}`;
+    }
+
+    return slug;
+  }
+
+  /**
+   * Get a module that belongs to the given course
+   */
+  static async getCourseModule(
+    courseId: string,
+    moduleId: string
+  ): Promise<IModule> {
+    if (!mongoose.isValidObjectId(moduleId)) {
+      throw new NotFoundException("Module not found");
+    }
+
+    const module = await Module.findOne({ _id: moduleId, course: courseId });
+    if (!module) {
+      throw new NotFoundException("Module not found");
+    }
+
+    return module;
+  }
+
+  /**
+   * List course modules in order
+   */
+  static async getModules(
+    courseId: string,
+    includeUnpublished: boolean = false
+  ): Promise<IModule[]> {
+    return Module.find({
+      course: courseId,
+      isActive: true,
+      ...(!includeUnpublished && { isPublished: true }),
+    })
+      .sort({ order: 1 })
+      .populate("totalContents")
+      .populate("totalQuizzes");
+  }
+
+  /**
+   * Create a module. Without an explicit order it is appended to the end,
+   * otherwise later modules are shifted down to make room.
+   */
+  static async createModule(
+    course: ICourse,
+    data: ICreateModule
+  ): Promise<IModule> {
+    const moduleCount = await Module.countDocuments({
+      course: course._id,
+      isActive: true,
+    });
+    const order = Math.min(data.order ?? moduleCount, moduleCount);
+
+    if (order < moduleCount) {
+      await Module.updateMany(
+        { course: course._id, order: { $gte: order } },
+        { $inc: { order: 1 } }
+      );
+    }
+
+    const module = new Module({
+      ...data,
+      course: course._id,
+      order,
+      slug: data.slug || (await this.generateUniqueSlug(course, data.title)),
+    });
+    await module.save();
+
+    await course.calculateTotals();
+
+    return module;
+  }
+
+  /**
+   * Update module details
+   */
+  static async updateModule(
+    course: ICourse,
+    moduleId: string,
+    data: IUpdateModule
+  ): Promise<IModule> {
+    const module = await this.getCourseModule(course.id, moduleId);
+
+    if (data.unlockConditions?.requiredModules?.includes(moduleId)) {
+      throw new BadRequestException("A module cannot require itself");
+    }
+
+    if (data.slug && data.slug !== module.slug) {
+      const slugTaken = await Module.exists({
+        slug: data.slug,
+        _id: { $ne: module._id },
+      });
+      if (slugTaken) {
+        throw new BadRequestException("Module slug is already in use");
+      }
+    }
+
+    module.set(data);
+    await module.save();
+
+    await course.calculateTotals();
+
+    return module;
+  }
+
+  /**
+   * Delete a module with its contents, quizzes and resources, then close
+   * the gap it leaves in the module order
+   */
+  static async deleteModule(course: ICourse, moduleId: string): Promise<void> {
+    const module = await this.getCourseModule(course.id, moduleId);
+
+    await module.deleteOne();
+
+    await Module.updateMany(
+      { course: course._id, order: { $gt: module.order } },
+      { $inc: { order: -1 } }
+    );
+
+    await course.calculateTotals();
+  }
+
+  /**
+   * Reorder all course modules in a single bulk write.
+   * `moduleIds` must contain every active module of the course exactly once.
+   */
+  static async reorderModules(
+    course: ICourse,
+    moduleIds: string[]
+  ): Promise<IModule[]> {
+    const existingModules = await Module.find(
+      { course: course._id, isActive: true },
+      "_id"
+    ).lean();
+    const existingIds = new Set(existingModules.map((m) => m._id.toString()));
+
+    if (
+      existingIds.size !== moduleIds.length ||
+      moduleIds.some((id) => !existingIds.has(id))
+    ) {
+      throw new BadRequestException(
+        "Module IDs must match the modules of this course exactly"
+      );
+    }
+
+    await Module.bulkWrite(
+      moduleIds.map((id, index) => ({
+        updateOne: {
+          filter: { _id: id, course: course._id },
+          update: { $set: { order: index } },
+        },
+      }))
+    );
+
+    await course.calculateTotals();
+
+    return this.getModules(course.id, true);
+  }
+}
@@ -0,0 +1,321 @@
+import mongoose from "mongoose";
+import {
+  AssignmentSubmission,
+  Content,
+  IAssignmentSubmission,
+  IContent,
+  IPeerReview,
+  PeerReview,
+} from "../models";
+import { AssignmentService } from "./assignment.service";
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import logger from "../../../common/middleware/logger";
+import { shuffle } from "../utils/shuffle";
+import { IGradeSubmission } from "../validation/assignment";
+
+// With this many reviews the highest and lowest are dropped
+const TRIM_OUTLIERS_FROM = 3;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class PeerReviewService {
+  /**
+   * Assign each latest submission to peer reviewers among the students who
+   * submitted. Reviewers are placed in a shuffled ring, so everybody
+   * reviews the same number of submissions and never their own.
+   */
+  static async assignReviews(content: IContent): Promise<number> {
+    const settings = content.peerReview!;
+    const submissions = await AssignmentSubmission.find({
+      content: content._id,
+      isLatest: true,
+    }).select("user course");
+
+    const ring = shuffle(submissions);
+    const reviewersPerSubmission = Math.max(
+      0,
+      Math.min(settings.reviewersPerSubmission, ring.length - 1)
+    );
+
+    const now = new Date();
+    const closesAt = new Date(now.getTime() + settings.reviewWindowDays * DAY);
+
+    const reviews = ring.flatMap((submission, index) =>
+      Array.from({ length: reviewersPerSubmission }, (_, offset) => ({
+        course: submission.course,
+        content: content._id,
+        submission: submission._id,
+        author: submission.user,
+        reviewer: ring[(index + offset + 1) % ring.length].user,
+        dueDate: closesAt,
+      }))
+    );
+    if (reviews.length) await PeerReview.insertMany(reviews);
+
+    content.peerReviewStatus = { assignedAt: now, closesAt };
+    await content.save();
+
+    return reviews.length;
+  }
+
+  /**
+   * Reviews assigned to a student for an assignment, with the submissions
+   * to review. Authors stay anonymous.
+   */
+  static async getAssignedReviews(
+    courseId: string,
+    contentId: string,
+    userId: string
+  ) {
+    const content = await AssignmentService.getCourseAssignment(
+      courseId,
+      contentId
+    );
+
+    const reviews = await PeerReview.find({
+      content: content._id,
+      reviewer: userId,
+    })
+      .select("-author -reviewer")
+      .populate("submission", "files comment submittedAt")
+      .sort({ createdAt: 1 });
+
+    return {
+      assignment: {
+        _id: content._id,
+        title: content.title,
+        gradingRubric: content.gradingRubric,
+        closesAt: content.peerReviewStatus?.closesAt,
+      },
+      reviews,
+    };
+  }
+
+  /**
+   * Score a submission as its peer reviewer, with the assignment rubric.
+   * A review can be changed until the review window closes.
+   */
+  static async submitReview(
+    courseId: string,
+    contentId: string,
+    reviewId: string,
+    userId: string,
+    data: IGradeSubmission
+  ): Promise<IPeerReview> {
+    if (!mongoose.isValidObjectId(reviewId)) {
+      throw new NotFoundException("Review not found");
+    }
+
+    const content = await AssignmentService.getCourseAssignment(
+      courseId,
+      contentId
+    );
+
+    const review = await PeerReview.findOne({
+      _id: reviewId,
+      content: content._id,
+    });
+    if (!review) {
+      throw new NotFoundException("Review not found");
+    }
+    if (review.reviewer.toString() !== userId) {
+      throw new ForbiddenException("This review is assigned to someone else");
+    }
+    if (review.dueDate <= new Date()) {
+      throw new BadRequestException("The review window has closed");
+    }
+
+    review.set(AssignmentService.scoreSubmission(content, data));
+    if (data.feedback !== undefined) review.feedback = data.feedback;
+    review.status = "completed";
+    review.completedAt = new Date();
+
+    await review.save();
+
+    return review;
+  }
+
+  /**
+   * Completed peer reviews of a student's latest submission, once the
+   * review window has closed. Reviewers stay anonymous.
+   */
+  static async getReceivedReviews(
+    courseId: string,
+    contentId: string,
+    userId: string
+  ): Promise<IPeerReview[]> {
+    const content = await AssignmentService.getCourseAssignment(
+      courseId,
+      contentId
+    );
+    if (!AssignmentService.areResultsReleased(content)) {
+      throw new BadRequestException(
+        "Peer reviews are shown once the review window closes"
+      );
+    }
+
+    const submission = await AssignmentSubmission.findOne({
+      content: content._id,
+      user: userId,
+      isLatest: true,
+    });
+    if (!submission) return [];
+
+    return PeerReview.find({
+      submission: submission._id,
+      status: "completed",
+    })
+      .select("rubricScores score maxScore percentage feedback completedAt")
+      .sort({ completedAt: 1 });
+  }
+
+  /**
+   * Peer reviews of a submission with their reviewers, for instructors
+   */
+  static async getSubmissionReviews(
+    submission: IAssignmentSubmission
+  ): Promise<IPeerReview[]> {
+    return PeerReview.find({ submission: submission._id })
+      .populate("reviewer", "name email avatar")
+      .sort({ createdAt: 1 });
+  }
+
+  /**
+   * Grade every latest submission from its completed peer reviews, once the
+   * review window closed. Submissions graded by an instructor keep that
+   * grade; submissions nobody reviewed are left to the instructor.
+   */
+  static async finalizeReviews(content: IContent): Promise<number> {
+    const submissions = await AssignmentSubmission.find({
+      content: content._id,
+      isLatest: true,
+    });
+    const reviews = await PeerReview.find({
+      content: content._id,
+      status: "completed",
+    });
+
+    let graded = 0;
+    for (const submission of submissions) {
+      if (submission.gradeSource !== "instructor") {
+        const submissionReviews = reviews.filter((review) =>
+          review.submission.equals(submission._id as mongoose.Types.ObjectId)
+        );
+        if (!submissionReviews.length) continue;
+
+        submission.set(this.aggregateReviews(submissionReviews));
+        submission.passed =
+          submission.percentage! >= (content.passingScore ?? 0);
+        submission.status = "graded";
+        submission.gradeSource = "peer";
+        submission.gradedBy = undefined;
+        submission.gradedAt = new Date();
+        await submission.save();
+        graded++;
+      }
+
+      if (submission.status === "graded") {
+        await AssignmentService.syncProgress(submission);
+      }
+    }
+
+    content.set("peerReviewStatus.finalizedAt", new Date());
+    await content.save();
+
+    return graded;
+  }
+
+  /**
+   * Combine peer reviews into one grade: the mean of the reviews left after
+   * dropping the highest and lowest, per rubric criterion
+   */
+  static aggregateReviews(
+    reviews: IPeerReview[]
+  ): Pick<
+    IAssignmentSubmission,
+    "rubricScores" | "score" | "maxScore" | "percentage"
+  > {
+    const sorted = [...reviews].sort(
+      (a, b) => (a.percentage ?? 0) - (b.percentage ?? 0)
+    );
+    const kept =
+      sorted.length >= TRIM_OUTLIERS_FROM ? sorted.slice(1, -1) : sorted;
+
+    const mean = (values: number[]) =>
+      Math.round(
+        (values.reduce((total, value) => total + value, 0) / values.length) *
+          100
+      ) / 100;
+
+    const rubric = kept[0].rubricScores || [];
+    const rubricScores = rubric.length
+      ? rubric.map((criterion) => ({
+          criteria: criterion.criteria,
+          maxPoints: criterion.maxPoints,
+          points: mean(
+            kept.map(
+              (review) =>
+                review.rubricScores?.find(
+                  (score) => score.criteria === criterion.criteria
+                )?.points ?? 0
+            )
+          ),
+        }))
+      : undefined;
+
+    return {
+      rubricScores,
+      score: mean(kept.map((review) => review.score ?? 0)),
+      maxScore: kept[0].maxScore,
+      percentage: mean(kept.map((review) => review.percentage ?? 0)),
+    };
+  }
+
+  /**
+   * Assign reviews of peer-reviewed assignments past their due date, and
+   * grade those whose review window closed
+   */
+  static async processDueAssignments(): Promise<{
+    assigned: number;
+    finalized: number;
+  }> {
+    const now = new Date();
+    let assigned = 0;
+    let finalized = 0;
+
+    const due = await Content.find({
+      type: "assignment",
+      isActive: true,
+      "peerReview.enabled": true,
+      dueDate: { $lte: now },
+      "peerReviewStatus.assignedAt": { $exists: false },
+    });
+    for (const content of due) {
+      const reviews = await this.assignReviews(content);
+      logger.info(
+        `Assigned ${reviews} peer review(s) for assignment ${content.id}`
+      );
+      assigned++;
+    }
+
+    const closed = await Content.find({
+      type: "assignment",
+      "peerReview.enabled": true,
+      "peerReviewStatus.closesAt": { $lte: now },
+      "peerReviewStatus.finalizedAt": { $exists: false },
+    });
+    for (const content of closed) {
+      const graded = await this.finalizeReviews(content);
+      logger.info(
+        `Graded ${graded} submission(s) from peer review for assignment ${content.id}`
+      );
+      finalized++;
+    }
+
+    return { assigned, finalized };
+  }
+}
@@ -0,0 +1,255 @@
+import mongoose, { Types } from "mongoose";
+import {
+  Course,
+  CourseEnrollment,
+  ICourseEnrollment,
+  IModule,
+  Module,
+} from "../models";
+import {
+  AccessContext,
+  AccessEvaluatorService,
+} from "./access-evaluator.service";
+import logger from "../../../common/middleware/logger";
+
+const HOUR = 60 * 60 * 1000;
+
+type EnrollmentListener = (enrollment: ICourseEnrollment) => Promise<void>;
+
+export class ProgressService {
+  // Services that follow course progress, such as learning paths, subscribe
+  // here instead of being imported by this service
+  private static enrollmentListeners: EnrollmentListener[] = [];
+
+  /**
+   * Call a listener after every synced enrollment. A failing listener is
+   * logged and never fails the sync.
+   */
+  static onEnrollmentSynced(listener: EnrollmentListener): void {
+    this.enrollmentListeners.push(listener);
+  }
+
+  /**
+   * Re-evaluate a student's modules against their completionRequirements:
+   * completed modules, the module they are on, when each was started and
+   * completed, and whether the course is complete (every required module
+   * done). Saves the enrollment, refreshes module and course statistics and
+   * notifies the enrollment listeners.
+   */
+  static async syncEnrollment(
+    enrollment: ICourseEnrollment
+  ): Promise<ICourseEnrollment> {
+    const ctx = await AccessEvaluatorService.getContext(
+      enrollment.course,
+      enrollment.user,
+      enrollment
+    );
+    const { modules } = ctx;
+    const progress = enrollment.progress;
+    const now = new Date();
+
+    const completed = new Set(
+      modules
+        .filter((module) =>
+          AccessEvaluatorService.isModuleCompleted(ctx, module)
+        )
+        .map((module) => module.id)
+    );
+    const previouslyCompleted = new Set(progress.completedModules.map(String));
+    const changedModules = modules.filter(
+      (module) =>
+        completed.has(module.id) !== previouslyCompleted.has(module.id)
+    );
+
+    progress.completedModules = modules
+      .filter((module) => completed.has(module.id))
+      .map((module) => module._id as Types.ObjectId);
+    progress.currentModule = (
+      modules.find((module) => !completed.has(module.id)) ??
+      modules[modules.length - 1]
+    )?._id as Types.ObjectId | undefined;
+
+    progress.moduleActivity = progress.moduleActivity || [];
+    modules.forEach((module) => {
+      let activity = progress.moduleActivity.find((entry) =>
+        entry.module.equals(module.id)
+      );
+      if (!activity && this.hasActivity(ctx, module)) {
+        progress.moduleActivity.push({
+          module: module._id as Types.ObjectId,
+          startedAt: now,
+        });
+        activity = progress.moduleActivity[progress.moduleActivity.length - 1];
+      }
+      if (activity) {
+        activity.completedAt = completed.has(module.id)
+          ? (activity.completedAt ?? now)
+          : undefined;
+      }
+    });
+
+    if (enrollment.status === "enrolled" && progress.moduleActivity.length) {
+      enrollment.status = "in-progress";
+      enrollment.startDate = enrollment.startDate || now;
+    }
+
+    const requiredModules = modules.filter((module) => module.isRequired);
+    const justCompleted =
+      modules.length > 0 &&
+      (requiredModules.length ? requiredModules : modules).every((module) =>
+        completed.has(module.id)
+      ) &&
+      enrollment.status !== "completed" &&
+      enrollment.status !== "dropped";
+
+    if (justCompleted) {
+      enrollment.status = "completed";
+      enrollment.completionDate = now;
+    }
+
+    await enrollment.save();
+
+    for (const module of changedModules) {
+      await this.updateModuleStats(module);
+    }
+    if (justCompleted) {
+      await this.updateCourseStats(enrollment.course);
+    }
+
+    for (const listener of this.enrollmentListeners) {
+      try {
+        await listener(enrollment);
+      } catch (error) {
+        logger.error(
+          `Failed to follow up on enrollment ${enrollment.id}: ${error}`
+        );
+      }
+    }
+
+    return enrollment;
+  }
+
+  /**
+   * Re-evaluate the modules of one student, e.g. after a quiz result
+   */
+  static async syncUser(
+    courseId: string | Types.ObjectId,
+    userId: string | Types.ObjectId
+  ): Promise<ICourseEnrollment | null> {
+    const enrollment = await CourseEnrollment.findOne({
+      user: userId,
+      course: courseId,
+      status: { $ne: "dropped" },
+    });
+    if (!enrollment) return null;
+
+    return this.syncEnrollment(enrollment);
+  }
+
+  /**
+   * Share of the course's students who completed the module, and how many
+   * hours they took on average from their first activity in it
+   */
+  static async updateModuleStats(module: IModule): Promise<void> {
+    const match = { course: module.course, status: { $ne: "dropped" } };
+
+    const [total, stats] = await Promise.all([
+      CourseEnrollment.countDocuments(match),
+      CourseEnrollment.aggregate([
+        { $match: { ...match, "progress.completedModules": module._id } },
+        { $unwind: "$progress.moduleActivity" },
+        {
+          $match: {
+            "progress.moduleActivity.module": module._id,
+            "progress.moduleActivity.completedAt": { $exists: true },
+          },
+        },
+        {
+          $group: {
+            _id: null,
+            completed: { $sum: 1 },
+            averageTime: {
+              $avg: {
+                $subtract: [
+                  "$progress.moduleActivity.completedAt",
+                  "$progress.moduleActivity.startedAt",
+                ],
+              },
+            },
+          },
+        },
+      ]),
+    ]);
+
+    const completed = stats[0]?.completed ?? 0;
+    await Module.updateOne(
+      { _id: module._id },
+      completed
+        ? {
+            completionRate: Math.round((completed / total) * 1000) / 10,
+            averageTimeToComplete:
+              Math.round((stats[0].averageTime / HOUR) * 10) / 10,
+          }
+        : { completionRate: 0, $unset: { averageTimeToComplete: 1 } }
+    );
+  }
+
+  /**
+   * Update course completion statistics
+   */
+  static async updateCourseStats(
+    courseId: string | Types.ObjectId
+  ): Promise<void> {
+    const stats = await CourseEnrollment.aggregate([
+      { $match: { course: new mongoose.Types.ObjectId(courseId.toString()) } },
+      {
+        $group: {
+          _id: null,
+          totalEnrollments: { $sum: 1 },
+          completedEnrollments: {
+            $sum: { $cond: [{ $eq: ["$status", "completed"] }, 1, 0] },
+          },
+          activeEnrollments: {
+            $sum: {
+              $cond: [{ $in: ["$status", ["enrolled", "in-progress"]] }, 1, 0],
+            },
+          },
+        },
+      },
+    ]);
+
+    if (stats.length > 0) {
+      const { totalEnrollments, completedEnrollments, activeEnrollments } =
+        stats[0];
+      const completionRate =
+        totalEnrollments > 0
+          ? (completedEnrollments / totalEnrollments) * 100
+          : 0;
+
+      await Course.findByIdAndUpdate(courseId, {
+        totalEnrollments,
+        activeEnrollments,
+        completionRate: Math.round(completionRate * 10) / 10,
+      });
+    }
+  }
+
+  /**
+   * Whether the student completed a lesson or has a graded quiz in the module
+   */
+  private static hasActivity(ctx: AccessContext, module: IModule): boolean {
+    const moduleId = module.id;
+
+    return (
+      ctx.contents.some(
+        (content) =>
+          content.module.toString() === moduleId &&
+          ctx.completedContents.has(content.id)
+      ) ||
+      ctx.quizzes.some(
+        (quiz) =>
+          quiz.module?.toString() === moduleId && ctx.quizScores.has(quiz.id)
+      )
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { IQuestion, IQuiz, Question } from "../models";
+import { questionFormats, QuestionFormatName } from "../interchange";
+import { QuestionService } from "./question.service";
+import { BadRequestException } from "../../../common/middleware/errors";
+import {
+  createQuestionSchema,
+  ICreateQuestion,
+  IExportQuestions,
+  IImportQuestions,
+} from "../validation/question";
+
+// Most questions a single export may contain
+const EXPORT_LIMIT = 1000;
+
+export interface ImportReport {
+  imported: number;
+  failed: number;
+  questions: (IQuestion | ICreateQuestion)[]; // unsaved on a dry run
+  errors: { item: number; source: string; title?: string; message: string }[];
+}
+
+export class QuestionInterchangeService {
+  /**
+   * Import questions into the bank. Every item is validated like a question
+   * created by hand; items that fail are reported and the rest still import.
+   */
+  static async importQuestions(
+    input: Buffer,
+    options: IImportQuestions,
+    userId: string
+  ): Promise<ImportReport> {
+    if (!input.length) {
+      throw new BadRequestException("Upload a file or provide the content");
+    }
+
+    const items = await questionFormats[options.format].parse(input);
+    if (!items.length) {
+      throw new BadRequestException("No questions found in the file");
+    }
+
+    const report: ImportReport = {
+      imported: 0,
+      failed: 0,
+      questions: [],
+      errors: [],
+    };
+    const fail = (
+      index: number,
+      item: (typeof items)[number],
+      message: string
+    ) => {
+      report.failed++;
+      report.errors.push({
+        item: index + 1,
+        source: item.source,
+        ...(item.title && { title: item.title }),
+        message,
+      });
+    };
+
+    for (const [index, item] of items.entries()) {
+      if (item.error || !item.data) {
+        fail(index, item, item.error || "Could not parse this item");
+        continue;
+      }
+
+      const result = createQuestionSchema.safeParse({
+        ...item.data,
+        category: item.data.category ?? options.category,
+        tags: item.data.tags ?? options.tags,
+        isPublic: item.data.isPublic ?? options.isPublic,
+      });
+      if (!result.success) {
+        fail(
+          index,
+          item,
+          result.error.issues
+            .map((issue) =>
+              issue.path.length
+                ? `${issue.path.join(".")}: ${issue.message}`
+                : issue.message
+            )
+            .join("; ")
+        );
+        continue;
+      }
+
+      report.imported++;
+      report.questions.push(
+        options.dryRun
+          ? result.data
+          : await QuestionService.createQuestion(result.data, userId)
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Questions of the bank matching the filters, oldest first
+   */
+  static async getBankQuestions(
+    query: IExportQuestions,
+    user: any
+  ): Promise<IQuestion[]> {
+    const { format, ...filters } = query;
+
+    return Question.find(QuestionService.buildSearchFilter(filters, user))
+      .sort({ createdAt: 1 })
+      .limit(EXPORT_LIMIT);
+  }
+
+  /**
+   * Questions of a quiz in quiz order
+   */
+  static async getQuizQuestions(quiz: IQuiz): Promise<IQuestion[]> {
+    const quizQuestions = await quiz.getQuestionsWithDetails();
+
+    return quizQuestions
+      .map((quizQuestion) => quizQuestion.question as IQuestion)
+      .filter(Boolean);
+  }
+
+  /**
+   * Write questions in an exchange format. Types the format cannot express
+   * are skipped and counted.
+   */
+  static exportQuestions(format: QuestionFormatName, questions: IQuestion[]) {
+    const { extension, contentType, serialize } = questionFormats[format];
+    const { content, skipped } = serialize(questions);
+
+    return { content, skipped, extension, contentType };
+  }
+}
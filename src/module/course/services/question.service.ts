@@ -0,0 +1,309 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { IQuestion, IQuiz, Question, Quiz, QuizAttempt } from "../models";
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import { checkPermission } from "../../../common/middleware/permission";
+import { paginate } from "../../../common/utils/pagination";
+import {
+  createQuestionSchema,
+  ICreateQuestion,
+  IQuestionSearch,
+  updateQuestionSchemas,
+} from "../validation/question";
+
+export class QuestionService {
+  /**
+   * Give options, blanks and ordering items without an ID a generated one
+   * and default their order to their position
+   */
+  static assignItemIds<T extends Record<string, any>>(data: T): T {
+    const withIds = (items?: any[], orderField?: string) =>
+      items?.map((item, index) => ({
+        ...item,
+        id: item.id || crypto.randomBytes(6).toString("hex"),
+        ...(orderField && { [orderField]: item[orderField] ?? index }),
+      }));
+
+    return {
+      ...data,
+      ...("options" in data && { options: withIds(data.options, "order") }),
+      ...("blanks" in data && { blanks: withIds(data.blanks, "position") }),
+      ...("items" in data && { items: withIds(data.items) }),
+    };
+  }
+
+  /**
+   * Admins and holders of quiz:manage_all can use every question
+   */
+  static canUseAllQuestions(user: any): boolean {
+    return (
+      user.role === "admin" ||
+      user.role === "super-admin" ||
+      checkPermission(user, "quiz:manage_all")
+    );
+  }
+
+  /**
+   * Create a question owned by the given user
+   */
+  static async createQuestion(
+    data: ICreateQuestion,
+    userId: string
+  ): Promise<IQuestion> {
+    const question = new Question({
+      ...this.assignItemIds(data),
+      createdBy: userId,
+    });
+    await question.save();
+
+    return question;
+  }
+
+  /**
+   * Load an active question by ID
+   */
+  static async getQuestion(questionId: string): Promise<IQuestion> {
+    const question = mongoose.isValidObjectId(questionId)
+      ? await Question.findOne({ _id: questionId, isActive: true })
+      : null;
+    if (!question) {
+      throw new NotFoundException("Question not found");
+    }
+
+    return question;
+  }
+
+  /**
+   * Get a question the user may attach to a quiz - their own questions,
+   * public ones, or any question for users who manage all quizzes
+   */
+  static async getUsableQuestion(
+    questionId: string,
+    user: any
+  ): Promise<IQuestion> {
+    const question = await this.getQuestion(questionId);
+
+    const isOwner = question.createdBy.toString() === user.id;
+    if (!question.isPublic && !isOwner && !this.canUseAllQuestions(user)) {
+      throw new ForbiddenException("You do not have access to this question");
+    }
+
+    return question;
+  }
+
+  /**
+   * Get a question the user may edit - their own, or any question for
+   * users who manage all quizzes
+   */
+  static async getEditableQuestion(
+    questionId: string,
+    user: any
+  ): Promise<IQuestion> {
+    const question = await this.getQuestion(questionId);
+
+    const isOwner = question.createdBy.toString() === user.id;
+    if (!isOwner && !this.canUseAllQuestions(user)) {
+      throw new ForbiddenException("Unauthorized to edit this question");
+    }
+
+    return question;
+  }
+
+  /**
+   * Filter for the question bank - public questions and the user's own
+   */
+  static buildSearchFilter(
+    query: Omit<IQuestionSearch, "page" | "limit">,
+    user: any
+  ): Record<string, any> {
+    const filter: Record<string, any> = { isActive: true };
+
+    if (query.scope === "mine") {
+      filter.createdBy = user.id;
+    } else if (query.scope === "public") {
+      filter.isPublic = true;
+    } else if (!this.canUseAllQuestions(user)) {
+      filter.$or = [{ isPublic: true }, { createdBy: user.id }];
+    }
+
+    if (query.search) filter.$text = { $search: query.search };
+    if (query.tags?.length) filter.tags = { $all: query.tags };
+    if (query.difficulty) filter.difficulty = query.difficulty;
+    if (query.type) filter.type = query.type;
+    if (query.category) filter.category = query.category;
+
+    return filter;
+  }
+
+  /**
+   * Search the question bank - public questions and the user's own
+   */
+  static async searchQuestions(query: IQuestionSearch, user: any) {
+    const { page, limit } = query;
+    const filter = this.buildSearchFilter(query, user);
+
+    return paginate(Question, filter, {
+      page,
+      limit,
+      sort: query.search
+        ? ({ score: { $meta: "textScore" } } as any)
+        : { createdAt: -1 },
+      ...(query.search && { select: { score: { $meta: "textScore" } } }),
+      populate: { path: "createdBy", select: "name avatar" },
+    });
+  }
+
+  /**
+   * List the quizzes a question is used in
+   */
+  static async getQuestionUsage(questionId: string): Promise<IQuiz[]> {
+    return Quiz.find({ "questions.question": questionId, isActive: true })
+      .select("title course module content isPublished")
+      .populate("course", "title slug");
+  }
+
+  /**
+   * Check whether any graded attempt has answered this question
+   */
+  static async isUsedInGradedAttempts(questionId: string): Promise<boolean> {
+    const attempt = await QuizAttempt.exists({
+      "answers.question": questionId,
+      isGraded: true,
+    });
+    return !!attempt;
+  }
+
+  /**
+   * Apply type-specific changes to a question and validate the result as a
+   * whole, so answers stay consistent with options, columns and items
+   */
+  static mergeQuestionData(
+    question: IQuestion,
+    body: unknown
+  ): ICreateQuestion {
+    const changes = updateQuestionSchemas[question.type].parse(body);
+
+    return this.assignItemIds(
+      createQuestionSchema.parse({ ...question.toObject(), ...changes })
+    );
+  }
+
+  /**
+   * Create a new version of a question linked to it via parentQuestion,
+   * numbered after the question and any version already made of it
+   */
+  static async createVersion(
+    question: IQuestion,
+    data: ICreateQuestion,
+    userId: string
+  ): Promise<IQuestion> {
+    const latest = await Question.findOne(
+      { parentQuestion: question._id },
+      "version"
+    ).sort({ version: -1 });
+
+    const version = new Question({
+      ...data,
+      createdBy: userId,
+      parentQuestion: question._id,
+      version: Math.max(question.version, latest?.version ?? 0) + 1,
+    });
+    await version.save();
+
+    return version;
+  }
+
+  /**
+   * Update a question. Questions already answered in graded attempts are
+   * not changed - a new version replaces them in every quiz and in the
+   * attempts still in progress instead. Only one update can retire a
+   * question, a concurrent one fails with a conflict.
+   */
+  static async updateQuestion(
+    question: IQuestion,
+    body: unknown
+  ): Promise<{ question: IQuestion; isNewVersion: boolean }> {
+    const data = this.mergeQuestionData(question, body);
+
+    if (!(await this.isUsedInGradedAttempts(question.id))) {
+      question.set(data);
+      await question.save();
+
+      return { question, isNewVersion: false };
+    }
+
+    // The old version stays for attempt history but leaves the bank
+    const retired = await Question.findOneAndUpdate(
+      { _id: question._id, isActive: true },
+      { $set: { isActive: false, usageCount: 0 } },
+      { new: true }
+    );
+    if (!retired) {
+      throw new ConflictException(
+        "This question was already replaced by a newer version"
+      );
+    }
+
+    let version: IQuestion;
+    try {
+      version = await this.createVersion(
+        question,
+        data,
+        question.createdBy.toString()
+      );
+    } catch (error) {
+      await Question.updateOne(
+        { _id: question._id },
+        { $set: { isActive: true, usageCount: question.usageCount } }
+      );
+      throw error;
+    }
+
+    const quizIds = await Quiz.find({
+      "questions.question": question._id,
+    }).distinct("_id");
+    const result = await Quiz.updateMany(
+      { _id: { $in: quizIds }, "questions.question": question._id },
+      { $set: { "questions.$[entry].question": version._id } },
+      { arrayFilters: [{ "entry.question": question._id }] }
+    );
+
+    await Question.updateOne(
+      { _id: version._id },
+      { $inc: { usageCount: result.modifiedCount } }
+    );
+    version.usageCount += result.modifiedCount;
+
+    // Attempts in progress carry on with the new version: their answers and
+    // times move to its id, the question keeps its place in their order
+    await QuizAttempt.updateMany(
+      { quiz: { $in: quizIds }, isCompleted: false },
+      {
+        $rename: {
+          [`savedAnswers.${question.id}`]: `savedAnswers.${version.id}`,
+          [`questionTimes.${question.id}`]: `questionTimes.${version.id}`,
+        },
+      }
+    );
+
+    return { question: version, isNewVersion: true };
+  }
+
+  /**
+   * Fork a question into a private copy owned by the user, optionally with
+   * changes applied
+   */
+  static async forkQuestion(
+    question: IQuestion,
+    userId: string,
+    body: unknown = {}
+  ): Promise<IQuestion> {
+    const data = this.mergeQuestionData(question, body);
+
+    return this.createVersion(question, { ...data, isPublic: false }, userId);
+  }
+}
@@ -0,0 +1,438 @@
+import mongoose from "mongoose";
+import {
+  CourseEnrollment,
+  IQuiz,
+  IQuizAttempt,
+  Quiz,
+  QuizAttempt,
+} from "../models";
+import { GradedAnswer, GradingService } from "./grading.service";
+import { QuizScoreService } from "./quiz-score.service";
+import { AccessEvaluatorService } from "./access-evaluator.service";
+import { ProgressService } from "./progress.service";
+import { QuizService } from "./quiz.service";
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import logger from "../../../common/middleware/logger";
+import { generateSeed } from "../utils/shuffle";
+
+// Saves and submits that arrive this late are still accepted, to absorb
+// network latency. The recorded completion time never passes expiresAt.
+const SUBMIT_GRACE_SECONDS = 10;
+
+export class QuizAttemptService {
+  /**
+   * Check whether the attempt's time is up (grace period included)
+   */
+  static isExpired(attempt: IQuizAttempt, now: Date = new Date()): boolean {
+    return (
+      !!attempt.expiresAt &&
+      now.getTime() > attempt.expiresAt.getTime() + SUBMIT_GRACE_SECONDS * 1000
+    );
+  }
+
+  /**
+   * Seconds left before the attempt expires, null without a time limit
+   */
+  static getTimeRemaining(
+    attempt: IQuizAttempt,
+    now: Date = new Date()
+  ): number | null {
+    if (!attempt.expiresAt) return null;
+
+    return Math.max(
+      0,
+      Math.floor((attempt.expiresAt.getTime() - now.getTime()) / 1000)
+    );
+  }
+
+  /**
+   * Start an attempt, or resume the one already in progress.
+   * Enforces enrollment, the availability window and maxAttempts.
+   */
+  static async startAttempt(
+    courseId: string,
+    userId: string,
+    quizId: string
+  ): Promise<{ attempt: IQuizAttempt; quiz: IQuiz; isResumed: boolean }> {
+    const enrollment = await CourseEnrollment.exists({
+      user: userId,
+      course: courseId,
+      status: { $ne: "dropped" },
+    });
+    if (!enrollment) {
+      throw new ForbiddenException("Enroll in this course to take this quiz");
+    }
+
+    const quiz = await QuizService.getCourseQuiz(courseId, quizId);
+    if (!quiz.isPublished) {
+      throw new NotFoundException("Quiz not found");
+    }
+    await AccessEvaluatorService.assertQuizAccess(quiz, userId);
+
+    const inProgress = await QuizAttempt.findOne({
+      user: userId,
+      quiz: quiz._id,
+      isCompleted: false,
+    });
+    if (inProgress) {
+      if (!this.isExpired(inProgress)) {
+        return { attempt: inProgress, quiz, isResumed: true };
+      }
+      await this.finalizeAttempt(inProgress, quiz, { timedOut: true });
+    }
+
+    const now = new Date();
+    if (quiz.availableFrom && now < quiz.availableFrom) {
+      throw new BadRequestException("This quiz is not available yet");
+    }
+    if (quiz.availableUntil && now > quiz.availableUntil) {
+      throw new BadRequestException("This quiz is no longer available");
+    }
+
+    const previousAttempts = await QuizAttempt.countDocuments({
+      user: userId,
+      quiz: quiz._id,
+    });
+    if (previousAttempts >= quiz.maxAttempts) {
+      throw new BadRequestException(
+        `Maximum attempts (${quiz.maxAttempts}) exceeded for this quiz`
+      );
+    }
+
+    // The attempt ends at the time limit or when the quiz closes
+    const deadlines = [
+      quiz.timeLimit ? now.getTime() + quiz.timeLimit * 60 * 1000 : null,
+      quiz.availableUntil ? quiz.availableUntil.getTime() : null,
+    ].filter((deadline): deadline is number => deadline !== null);
+
+    const attempt = new QuizAttempt({
+      user: userId,
+      course: courseId,
+      quiz: quiz._id,
+      attemptNumber: previousAttempts + 1,
+      startedAt: now,
+      shuffleSeed: generateSeed(),
+      expiresAt: deadlines.length
+        ? new Date(Math.min(...deadlines))
+        : undefined,
+      isCompleted: false,
+    });
+
+    try {
+      await attempt.save();
+    } catch (error: any) {
+      // A parallel request started the same attempt number first
+      if (error?.code === 11000) {
+        const existing = await QuizAttempt.findOne({
+          user: userId,
+          quiz: quiz._id,
+          isCompleted: false,
+        });
+        if (existing) return { attempt: existing, quiz, isResumed: true };
+      }
+      throw error;
+    }
+
+    return { attempt, quiz, isResumed: false };
+  }
+
+  /**
+   * Load an attempt of the user for the given quiz. Attempts whose time ran
+   * out are finalized on access.
+   */
+  static async getUserAttempt(
+    courseId: string,
+    userId: string,
+    quizId: string,
+    attemptId: string
+  ): Promise<{ attempt: IQuizAttempt; quiz: IQuiz }> {
+    if (!mongoose.isValidObjectId(attemptId)) {
+      throw new NotFoundException("Attempt not found");
+    }
+
+    const quiz = await QuizService.getCourseQuiz(courseId, quizId);
+    const attempt = await QuizAttempt.findOne({
+      _id: attemptId,
+      user: userId,
+      quiz: quiz._id,
+    });
+    if (!attempt) {
+      throw new NotFoundException("Attempt not found");
+    }
+
+    if (!attempt.isCompleted && this.isExpired(attempt)) {
+      const finalized = await this.finalizeAttempt(attempt, quiz, {
+        timedOut: true,
+      });
+      return { attempt: finalized, quiz };
+    }
+
+    return { attempt, quiz };
+  }
+
+  /**
+   * Merge answers into the in-progress attempt and add the time spent on
+   * each question. Only questions of the quiz are accepted.
+   */
+  static async saveAnswers(
+    attempt: IQuizAttempt,
+    quiz: IQuiz,
+    answers: Record<string, unknown>,
+    timeSpent: Record<string, number> = {}
+  ): Promise<IQuizAttempt> {
+    if (attempt.isCompleted) {
+      throw new BadRequestException("This attempt has already been submitted");
+    }
+
+    const questionIds = new Set(
+      quiz.questions.map((q) => this.getQuestionId(q.question))
+    );
+    const unknownIds = [
+      ...Object.keys(answers),
+      ...Object.keys(timeSpent),
+    ].filter((id) => !questionIds.has(id));
+    if (unknownIds.length) {
+      throw new BadRequestException("Answers must belong to this quiz");
+    }
+
+    Object.entries(answers).forEach(([questionId, answer]) => {
+      attempt.savedAnswers.set(questionId, answer);
+    });
+    Object.entries(timeSpent).forEach(([questionId, seconds]) => {
+      attempt.questionTimes.set(
+        questionId,
+        (attempt.questionTimes.get(questionId) || 0) + seconds
+      );
+    });
+    attempt.lastSavedAt = new Date();
+    await attempt.save();
+
+    return attempt;
+  }
+
+  /**
+   * Submit an attempt with any last answers
+   */
+  static async submitAttempt(
+    attempt: IQuizAttempt,
+    quiz: IQuiz,
+    answers: Record<string, unknown> = {},
+    timeSpent: Record<string, number> = {}
+  ): Promise<IQuizAttempt> {
+    if (Object.keys(answers).length || Object.keys(timeSpent).length) {
+      await this.saveAnswers(attempt, quiz, answers, timeSpent);
+    } else if (attempt.isCompleted) {
+      throw new BadRequestException("This attempt has already been submitted");
+    }
+
+    if (!quiz.allowSkip) {
+      const unanswered = quiz.questions.filter(
+        (q) => !attempt.savedAnswers.has(this.getQuestionId(q.question))
+      );
+      if (unanswered.length) {
+        throw new BadRequestException(
+          `All questions must be answered (${unanswered.length} unanswered)`
+        );
+      }
+    }
+
+    return this.finalizeAttempt(attempt, quiz);
+  }
+
+  /**
+   * Grade and close an attempt, then record the result on the enrollment.
+   * The completion time is capped at expiresAt so late requests never buy
+   * extra time.
+   */
+  static async finalizeAttempt(
+    attempt: IQuizAttempt,
+    quiz: IQuiz,
+    options: { timedOut?: boolean } = {}
+  ): Promise<IQuizAttempt> {
+    const now = new Date();
+    const completedAt =
+      attempt.expiresAt && attempt.expiresAt < now ? attempt.expiresAt : now;
+
+    const graded = await GradingService.gradeAnswers(
+      quiz,
+      Object.fromEntries(attempt.savedAnswers)
+    );
+    const answers = (
+      await this.applyPresentation(attempt, quiz, graded.answers)
+    ).map((answer) => ({
+      ...answer,
+      timeSpent: Math.round(
+        attempt.questionTimes.get(answer.question.toString()) || 0
+      ),
+    }));
+    const totalPoints = graded.totalPoints;
+
+    attempt.set({
+      answers,
+      totalPoints,
+      completedAt,
+      isAbandoned: !!options.timedOut,
+      timeSpent: Math.floor(
+        (completedAt.getTime() - attempt.startedAt.getTime()) / 1000
+      ),
+    });
+    attempt.calculateScore(quiz.passingScore);
+
+    // Only the first of a parallel submit and sweep may finalize the attempt
+    const result = await QuizAttempt.updateOne(
+      { _id: attempt._id, isCompleted: false },
+      {
+        $set: {
+          answers: attempt.answers,
+          totalPoints: attempt.totalPoints,
+          earnedPoints: attempt.earnedPoints,
+          score: attempt.score,
+          passed: attempt.passed,
+          isGraded: attempt.isGraded,
+          isCompleted: true,
+          completedAt,
+          isAbandoned: attempt.isAbandoned,
+          timeSpent: attempt.timeSpent,
+        },
+      }
+    );
+    if (!result.modifiedCount) {
+      const finalized = await QuizAttempt.findById(attempt._id);
+      return finalized || attempt;
+    }
+    attempt.isCompleted = true;
+
+    await this.recordResult(attempt, quiz);
+
+    return attempt;
+  }
+
+  /**
+   * Put graded answers in the order the student saw the questions and record
+   * the order their options were shown in, using the attempt's seed
+   */
+  static async applyPresentation(
+    attempt: IQuizAttempt,
+    quiz: IQuiz,
+    answers: GradedAnswer[]
+  ): Promise<GradedAnswer[]> {
+    if (attempt.shuffleSeed === undefined) return answers;
+
+    const { questions } = await QuizService.getStudentView(
+      quiz,
+      attempt.shuffleSeed
+    );
+    const presentation = new Map(
+      questions.map((question, index) => [
+        question._id.toString(),
+        {
+          index,
+          optionOrder: (
+            question.options ||
+            question.items ||
+            question.rightColumn
+          )?.map((option: { id: string }) => option.id),
+        },
+      ])
+    );
+    const positionOf = (answer: GradedAnswer) =>
+      presentation.get(answer.question.toString())?.index ?? answers.length;
+
+    return answers
+      .map((answer) => ({
+        ...answer,
+        optionOrder: presentation.get(answer.question.toString())?.optionOrder,
+      }))
+      .sort((a, b) => positionOf(a) - positionOf(b));
+  }
+
+  /**
+   * Update the enrollment and quiz statistics after an attempt is finalized
+   */
+  static async recordResult(attempt: IQuizAttempt, quiz: IQuiz): Promise<void> {
+    await CourseEnrollment.updateOne(
+      { user: attempt.user, course: attempt.course },
+      { $set: { "progress.lastAccessedAt": new Date() } }
+    );
+    await QuizScoreService.syncEnrollment(quiz, attempt.user);
+    await ProgressService.syncUser(attempt.course, attempt.user);
+
+    await Quiz.updateOne({ _id: quiz._id }, { $inc: { totalAttempts: 1 } });
+  }
+
+  /**
+   * Finalize every in-progress attempt whose time ran out
+   */
+  static async finalizeExpiredAttempts(): Promise<number> {
+    const cutoff = new Date(Date.now() - SUBMIT_GRACE_SECONDS * 1000);
+    const expiredAttempts = await QuizAttempt.find({
+      isCompleted: false,
+      expiresAt: { $lt: cutoff },
+    }).limit(100);
+
+    let finalized = 0;
+    for (const attempt of expiredAttempts) {
+      try {
+        const quiz = await Quiz.findById(attempt.quiz);
+        if (!quiz) continue;
+
+        await this.finalizeAttempt(attempt, quiz, { timedOut: true });
+        finalized++;
+      } catch (error) {
+        logger.error(
+          `Failed to finalize expired quiz attempt ${attempt.id}: ${error}`
+        );
+      }
+    }
+
+    return finalized;
+  }
+
+  /**
+   * Build the state a student needs to take or resume an attempt
+   */
+  static async getSession(attempt: IQuizAttempt, quiz: IQuiz) {
+    const view = await QuizService.getStudentView(quiz, attempt.shuffleSeed);
+
+    return {
+      attempt: {
+        _id: attempt._id,
+        attemptNumber: attempt.attemptNumber,
+        startedAt: attempt.startedAt,
+        expiresAt: attempt.expiresAt,
+        timeRemaining: this.getTimeRemaining(attempt),
+        savedAnswers: Object.fromEntries(attempt.savedAnswers),
+        lastSavedAt: attempt.lastSavedAt,
+        isCompleted: attempt.isCompleted,
+      },
+      ...view,
+    };
+  }
+
+  /**
+   * Results of a finalized attempt, as far as the quiz settings reveal them
+   */
+  static getResults(attempt: IQuizAttempt, quiz: IQuiz) {
+    return {
+      attemptId: attempt._id,
+      isCompleted: attempt.isCompleted,
+      isGraded: attempt.isGraded,
+      isAbandoned: attempt.isAbandoned,
+      completedAt: attempt.completedAt,
+      ...(quiz.immediateResults && {
+        results: attempt.getDetailedResults(quiz.showAnswers),
+      }),
+    };
+  }
+
+  /**
+   * Question ID of a quiz question entry, populated or not
+   */
+  static getQuestionId(question: any): string {
+    return (question?._id ?? question).toString();
+  }
+}
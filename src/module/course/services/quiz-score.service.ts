@@ -0,0 +1,172 @@
+import { Types } from "mongoose";
+import { CourseEnrollment, IQuiz, Quiz, QuizAttempt } from "../models";
+
+export interface EffectiveQuizScore {
+  quiz: string;
+  gradingMethod: IQuiz["gradingMethod"];
+  score: number;
+  passed: boolean;
+  attempts: number;
+}
+
+export class QuizScoreService {
+  /**
+   * Combine attempt scores (oldest first) with a quiz's grading method
+   */
+  static combineScores(
+    scores: number[],
+    gradingMethod: IQuiz["gradingMethod"]
+  ): number {
+    if (!scores.length) return 0;
+
+    switch (gradingMethod) {
+      case "latest":
+        return scores[scores.length - 1];
+      case "average":
+        return (
+          Math.round(
+            (scores.reduce((total, score) => total + score, 0) /
+              scores.length) *
+              100
+          ) / 100
+        );
+      case "highest":
+      default:
+        return Math.max(...scores);
+    }
+  }
+
+  /**
+   * Effective score of a user on each of the given quizzes. Only completed,
+   * fully graded attempts count. Quizzes without such attempts are left out.
+   */
+  static async getEffectiveScores(
+    userId: string | Types.ObjectId,
+    quizzes: IQuiz[]
+  ): Promise<Map<string, EffectiveQuizScore>> {
+    const attempts = await QuizAttempt.find({
+      user: userId,
+      quiz: { $in: quizzes.map((quiz) => quiz._id) },
+      isCompleted: true,
+      isGraded: true,
+    })
+      .select("quiz score completedAt")
+      .sort({ completedAt: 1 })
+      .lean();
+
+    const scoresByQuiz = new Map<string, number[]>();
+    attempts.forEach((attempt) => {
+      const quizId = attempt.quiz.toString();
+      scoresByQuiz.set(quizId, [
+        ...(scoresByQuiz.get(quizId) || []),
+        attempt.score,
+      ]);
+    });
+
+    const effectiveScores = new Map<string, EffectiveQuizScore>();
+    quizzes.forEach((quiz) => {
+      const scores = scoresByQuiz.get(quiz.id);
+      if (!scores) return;
+
+      const score = this.combineScores(scores, quiz.gradingMethod);
+      effectiveScores.set(quiz.id, {
+        quiz: quiz.id,
+        gradingMethod: quiz.gradingMethod,
+        score,
+        passed: score >= quiz.passingScore,
+        attempts: scores.length,
+      });
+    });
+
+    return effectiveScores;
+  }
+
+  /**
+   * Effective score of a user on one quiz, null without graded attempts
+   */
+  static async getEffectiveScore(
+    quiz: IQuiz,
+    userId: string | Types.ObjectId
+  ): Promise<EffectiveQuizScore | null> {
+    const scores = await this.getEffectiveScores(userId, [quiz]);
+    return scores.get(quiz.id) || null;
+  }
+
+  /**
+   * Add the quiz to, or remove it from, the user's completed quizzes
+   * according to their effective score
+   */
+  static async syncEnrollment(
+    quiz: IQuiz,
+    userId: string | Types.ObjectId
+  ): Promise<EffectiveQuizScore | null> {
+    const effectiveScore = await this.getEffectiveScore(quiz, userId);
+
+    await CourseEnrollment.updateOne(
+      { user: userId, course: quiz.course },
+      effectiveScore?.passed
+        ? { $addToSet: { "progress.completedQuizzes": quiz._id } }
+        : { $pull: { "progress.completedQuizzes": quiz._id } }
+    );
+
+    return effectiveScore;
+  }
+
+  /**
+   * Re-evaluate every user who attempted the quiz, e.g. after its grading
+   * method or passing score changed. Returns the users re-evaluated.
+   */
+  static async recalculateQuiz(quiz: IQuiz): Promise<Types.ObjectId[]> {
+    const userIds = await QuizAttempt.distinct("user", { quiz: quiz._id });
+
+    for (const userId of userIds) {
+      await this.syncEnrollment(quiz, userId);
+    }
+
+    return userIds;
+  }
+
+  /**
+   * Quiz side of certificate eligibility: every required quiz must be
+   * passed. The completion score is the weighted average effective score
+   * over all published quizzes (unattempted quizzes count as 0).
+   */
+  static async getCertificateQuizStatus(
+    courseId: string | Types.ObjectId,
+    userId: string | Types.ObjectId
+  ): Promise<{
+    requiredQuizzesPassed: boolean;
+    completionScore: number;
+    quizzes: EffectiveQuizScore[];
+  }> {
+    const quizzes = await Quiz.find({
+      course: courseId,
+      isActive: true,
+      isPublished: true,
+    });
+    const scores = await this.getEffectiveScores(userId, quizzes);
+
+    const requiredQuizzesPassed = quizzes
+      .filter((quiz) => quiz.isRequired)
+      .every((quiz) => scores.get(quiz.id)?.passed);
+
+    const totalWeight = quizzes.reduce(
+      (total, quiz) => total + (quiz.weight ?? 1),
+      0
+    );
+    const weightedScore = quizzes.reduce(
+      (total, quiz) =>
+        total + (scores.get(quiz.id)?.score ?? 0) * (quiz.weight ?? 1),
+      0
+    );
+
+    return {
+      requiredQuizzesPassed,
+      completionScore:
+        totalWeight > 0
+          ? Math.round((weightedScore / totalWeight) * 100) / 100
+          : 100,
+      quizzes: [...scores.values()],
+    };
+  }
+}
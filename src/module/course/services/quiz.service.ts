@@ -0,0 +1,506 @@
+import mongoose from "mongoose";
+import {
+  Content,
+  ICourse,
+  IQuestion,
+  IQuiz,
+  Module,
+  Question,
+  Quiz,
+} from "../models";
+import { QuestionService } from "./question.service";
+import { QuizScoreService } from "./quiz-score.service";
+import { ProgressService } from "./progress.service";
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import { IAddQuizQuestion, ICreateQuiz, IUpdateQuiz } from "../validation/quiz";
+import { createSeededRandom, deriveSeed, shuffle } from "../utils/shuffle";
+
+export class QuizService {
+  /**
+   * Get a quiz that belongs to the given course
+   */
+  static async getCourseQuiz(courseId: string, quizId: string): Promise<IQuiz> {
+    if (!mongoose.isValidObjectId(quizId)) {
+      throw new NotFoundException("Quiz not found");
+    }
+
+    const quiz = await Quiz.findOne({
+      _id: quizId,
+      course: courseId,
+      isActive: true,
+    });
+    if (!quiz) {
+      throw new NotFoundException("Quiz not found");
+    }
+
+    return quiz;
+  }
+
+  /**
+   * List course quizzes, optionally only those of a module or lesson
+   */
+  static async getQuizzes(
+    courseId: string,
+    filters: { module?: string; content?: string } = {},
+    includeUnpublished: boolean = false
+  ): Promise<IQuiz[]> {
+    return Quiz.find({
+      course: courseId,
+      isActive: true,
+      ...(filters.module && { module: filters.module }),
+      ...(filters.content && { content: filters.content }),
+      ...(!includeUnpublished && { isPublished: true }),
+    }).sort({ module: 1, order: 1 });
+  }
+
+  /**
+   * Make sure the module, lesson and prerequisites belong to the course.
+   * A lesson-level quiz always belongs to the lesson's module.
+   */
+  static async resolvePlacement(
+    course: ICourse,
+    data: Pick<ICreateQuiz, "module" | "content">
+  ): Promise<{ module?: string; content?: string }> {
+    if (data.content) {
+      const content = mongoose.isValidObjectId(data.content)
+        ? await Content.findOne({ _id: data.content, course: course._id })
+        : null;
+      if (!content) {
+        throw new BadRequestException("Content not found in this course");
+      }
+      if (data.module && content.module.toString() !== data.module) {
+        throw new BadRequestException("Content does not belong to this module");
+      }
+
+      return { module: content.module.toString(), content: content.id };
+    }
+
+    if (data.module) {
+      const moduleExists = await Module.exists({
+        _id: data.module,
+        course: course._id,
+      });
+      if (!moduleExists) {
+        throw new BadRequestException("Module not found in this course");
+      }
+
+      return { module: data.module };
+    }
+
+    return {};
+  }
+
+  /**
+   * Make sure prerequisite lessons and quizzes belong to the course
+   */
+  static async validatePrerequisites(
+    course: ICourse,
+    prerequisites: ICreateQuiz["prerequisites"],
+    quizId?: string
+  ): Promise<void> {
+    const { requiredContents = [], requiredQuizzes = [] } = prerequisites || {};
+
+    if (quizId && requiredQuizzes.includes(quizId)) {
+      throw new BadRequestException("A quiz cannot require itself");
+    }
+
+    const [contentCount, quizCount] = await Promise.all([
+      Content.countDocuments({
+        _id: { $in: requiredContents },
+        course: course._id,
+      }),
+      Quiz.countDocuments({
+        _id: { $in: requiredQuizzes },
+        course: course._id,
+      }),
+    ]);
+
+    if (contentCount !== new Set(requiredContents).size) {
+      throw new BadRequestException(
+        "All required contents must belong to this course"
+      );
+    }
+    if (quizCount !== new Set(requiredQuizzes).size) {
+      throw new BadRequestException(
+        "All required quizzes must belong to this course"
+      );
+    }
+  }
+
+  /**
+   * Create a quiz at course, module or lesson level. It is appended after
+   * the other quizzes at the same level.
+   */
+  static async createQuiz(course: ICourse, data: ICreateQuiz): Promise<IQuiz> {
+    const placement = await this.resolvePlacement(course, data);
+    await this.validatePrerequisites(course, data.prerequisites);
+
+    const order = await Quiz.countDocuments({
+      course: course._id,
+      module: placement.module ?? null,
+      content: placement.content ?? null,
+      isActive: true,
+    });
+
+    const quiz = new Quiz({
+      ...data,
+      ...placement,
+      course: course._id,
+      questions: [],
+      order,
+    });
+    await quiz.save();
+
+    // Quiz lessons without a quiz get linked to the new one
+    if (placement.content) {
+      await Content.updateOne(
+        { _id: placement.content, type: "quiz", quiz: null },
+        { quiz: quiz._id }
+      );
+    }
+
+    await course.calculateTotals();
+
+    return quiz;
+  }
+
+  /**
+   * Update quiz settings
+   */
+  static async updateQuiz(
+    course: ICourse,
+    quizId: string,
+    data: IUpdateQuiz
+  ): Promise<IQuiz> {
+    const quiz = await this.getCourseQuiz(course.id, quizId);
+
+    if (data.prerequisites) {
+      await this.validatePrerequisites(course, data.prerequisites, quiz.id);
+    }
+
+    quiz.set(data);
+
+    if (
+      quiz.availableFrom &&
+      quiz.availableUntil &&
+      quiz.availableFrom >= quiz.availableUntil
+    ) {
+      throw new BadRequestException(
+        "Available until must be after available from"
+      );
+    }
+
+    const scoringChanged =
+      quiz.isModified("gradingMethod") || quiz.isModified("passingScore");
+
+    await quiz.save();
+
+    // Effective scores of everyone who attempted the quiz may have changed
+    if (scoringChanged) {
+      const userIds = await QuizScoreService.recalculateQuiz(quiz);
+      for (const userId of userIds) {
+        await ProgressService.syncUser(quiz.course, userId);
+      }
+    }
+
+    return quiz;
+  }
+
+  /**
+   * Delete a quiz, unlink it from lessons and close the gap it leaves in
+   * the order of its level
+   */
+  static async deleteQuiz(course: ICourse, quizId: string): Promise<void> {
+    const quiz = await this.getCourseQuiz(course.id, quizId);
+
+    await quiz.deleteOne();
+
+    await Promise.all([
+      Content.updateMany({ quiz: quiz._id }, { $unset: { quiz: 1 } }),
+      Question.updateMany(
+        { _id: { $in: quiz.questions.map((q) => q.question) } },
+        { $inc: { usageCount: -1 } }
+      ),
+      Quiz.updateMany(
+        {
+          course: course._id,
+          module: quiz.module ?? null,
+          content: quiz.content ?? null,
+          order: { $gt: quiz.order },
+        },
+        { $inc: { order: -1 } }
+      ),
+    ]);
+
+    await course.calculateTotals();
+  }
+
+  /**
+   * Get a quiz with its questions populated in order
+   */
+  static async getQuizWithQuestions(
+    courseId: string,
+    quizId: string
+  ): Promise<IQuiz> {
+    const quiz = await this.getCourseQuiz(courseId, quizId);
+    await quiz.getQuestionsWithDetails();
+
+    return quiz;
+  }
+
+  /**
+   * Attach an existing question, or create a new one, at the given position.
+   * Without an order it is appended to the end.
+   */
+  static async addQuestion(
+    quiz: IQuiz,
+    user: any,
+    data: IAddQuizQuestion
+  ): Promise<IQuiz> {
+    const question = data.questionId
+      ? await QuestionService.getUsableQuestion(data.questionId, user)
+      : await QuestionService.createQuestion(data.question!, user.id);
+
+    const alreadyAttached = quiz.questions.some(
+      (q) => q.question.toString() === question.id
+    );
+    if (alreadyAttached) {
+      throw new ConflictException("Question is already in this quiz");
+    }
+
+    const count = quiz.questions.length;
+    const order = Math.min(data.order ?? count, count);
+
+    quiz.questions.forEach((q) => {
+      if (q.order >= order) q.order += 1;
+    });
+    quiz.questions.push({
+      question: question._id as any,
+      order,
+      weight: data.weight ?? 1,
+    });
+    await quiz.save();
+
+    await Question.updateOne(
+      { _id: question._id },
+      { $inc: { usageCount: 1 } }
+    );
+
+    return quiz;
+  }
+
+  /**
+   * Change the weight of a question in the quiz
+   */
+  static async updateQuestionWeight(
+    quiz: IQuiz,
+    questionId: string,
+    weight: number
+  ): Promise<IQuiz> {
+    const entry = quiz.questions.find(
+      (q) => q.question.toString() === questionId
+    );
+    if (!entry) {
+      throw new NotFoundException("Question not found in this quiz");
+    }
+
+    entry.weight = weight;
+    await quiz.save();
+
+    return quiz;
+  }
+
+  /**
+   * Detach a question from the quiz. The question itself is kept.
+   */
+  static async removeQuestion(quiz: IQuiz, questionId: string): Promise<IQuiz> {
+    const entry = quiz.questions.find(
+      (q) => q.question.toString() === questionId
+    );
+    if (!entry) {
+      throw new NotFoundException("Question not found in this quiz");
+    }
+
+    quiz.questions = quiz.questions.filter((q) => q !== entry);
+    quiz.questions.forEach((q) => {
+      if (q.order > entry.order) q.order -= 1;
+    });
+    await quiz.save();
+
+    await Question.updateOne(
+      { _id: entry.question },
+      { $inc: { usageCount: -1 } }
+    );
+
+    return quiz;
+  }
+
+  /**
+   * Reorder quiz questions. All questions of the quiz must be given.
+   */
+  static async reorderQuestions(
+    quiz: IQuiz,
+    questionIds: string[]
+  ): Promise<IQuiz> {
+    const currentIds = quiz.questions.map((q) => q.question.toString());
+    if (
+      currentIds.length !== questionIds.length ||
+      !questionIds.every((id) => currentIds.includes(id))
+    ) {
+      throw new BadRequestException(
+        "Question IDs must match the questions of this quiz"
+      );
+    }
+
+    quiz.questions.forEach((q) => {
+      q.order = questionIds.indexOf(q.question.toString());
+    });
+    await quiz.save();
+
+    return quiz;
+  }
+
+  /**
+   * Strip answers and authoring data from a question so it can be shown to
+   * a student. Matching columns and ordering items are always shuffled since
+   * their stored order gives the answer away.
+   */
+  static toStudentQuestion(
+    question: IQuestion,
+    shuffleOptions: boolean = false,
+    random: () => number = Math.random
+  ): Record<string, any> {
+    const studentQuestion: Record<string, any> = {
+      _id: question._id,
+      question: question.question,
+      type: question.type,
+      points: question.points,
+      estimatedTime: question.estimatedTime,
+      mediaUrl: question.mediaUrl,
+      mediaType: question.mediaType,
+    };
+
+    switch (question.type) {
+      case "multiple-choice":
+      case "single-choice": {
+        const options = [...(question.options || [])]
+          .sort((a, b) => a.order - b.order)
+          .map((o) => ({ id: o.id, text: o.text }));
+        studentQuestion.options = shuffleOptions
+          ? shuffle(options, random)
+          : options;
+        break;
+      }
+      case "fill-blank":
+        studentQuestion.questionText = question.questionText;
+        studentQuestion.blanks = (question.blanks || []).map((b) => ({
+          id: b.id,
+          position: b.position,
+        }));
+        break;
+      case "essay":
+        studentQuestion.minWords = question.minWords;
+        studentQuestion.maxWords = question.maxWords;
+        studentQuestion.rubric = question.rubric;
+        break;
+      case "code-review":
+        studentQuestion.codeSnippet = question.codeSnippet;
+        studentQuestion.language = question.language;
+        studentQuestion.allowedLanguages = question.allowedLanguages;
+        break;
+      case "matching":
+        studentQuestion.leftColumn = shuffle(
+          (question.leftColumn || []).map(({ id, text, mediaUrl }) => ({
+            id,
+            text,
+            mediaUrl,
+          })),
+          random
+        );
+        studentQuestion.rightColumn = shuffle(
+          (question.rightColumn || []).map(({ id, text, mediaUrl }) => ({
+            id,
+            text,
+            mediaUrl,
+          })),
+          random
+        );
+        break;
+      case "ordering":
+        studentQuestion.items = shuffle(
+          (question.items || []).map(({ id, text }) => ({ id, text })),
+          random
+        );
+        break;
+      case "numeric":
+        studentQuestion.unit = question.unit;
+        studentQuestion.format = question.format;
+        break;
+    }
+
+    return studentQuestion;
+  }
+
+  /**
+   * Build the quiz as a student would see it, without answers and with the
+   * quiz's shuffle settings applied. The same seed always gives the same
+   * order, so an attempt looks the same every time it is resumed.
+   */
+  static async getStudentView(quiz: IQuiz, seed?: number) {
+    const questions = (await quiz.getQuestionsWithDetails()).filter(
+      (q) => q.question?.isActive
+    );
+
+    const shuffleQuestions =
+      quiz.shuffleQuestions || quiz.preventCheating?.randomizeQuestions;
+    const shuffleOptions =
+      quiz.shuffleOptions || quiz.preventCheating?.randomizeOptions;
+
+    // Each question's options get their own seed so their order survives
+    // questions being added or removed
+    const randomFor = (key?: string) =>
+      seed === undefined
+        ? Math.random
+        : createSeededRandom(key ? deriveSeed(seed, key) : seed);
+
+    const orderedQuestions = shuffleQuestions
+      ? shuffle(questions, randomFor())
+      : questions;
+
+    return {
+      quiz: {
+        _id: quiz._id,
+        title: quiz.title,
+        description: quiz.description,
+        instructions: quiz.instructions,
+        timeLimit: quiz.timeLimit,
+        passingScore: quiz.passingScore,
+        maxAttempts: quiz.maxAttempts,
+        showProgress: quiz.showProgress,
+        allowSkip: quiz.allowSkip,
+        availableFrom: quiz.availableFrom,
+        availableUntil: quiz.availableUntil,
+        totalQuestions: orderedQuestions.length,
+        totalPoints: orderedQuestions.reduce(
+          (total, q) => total + (q.question.points ?? 1) * (q.weight ?? 1),
+          0
+        ),
+      },
+      questions: orderedQuestions.map(
+        (q, index): Record<string, any> => ({
+          order: index,
+          weight: q.weight ?? 1,
+          ...this.toStudentQuestion(
+            q.question,
+            shuffleOptions,
+            randomFor(q.question.id)
+          ),
+        })
+      ),
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import {
+  Content,
+  Course,
+  CourseEnrollment,
+  ICourseEnrollment,
+  IModule,
+  Module,
+} from "../models";
+import logger from "../../../common/middleware/logger";
+import { sendEmail } from "../../../common/utils/sendEmail";
+
+type ReleaseRule = IModule["release"];
+type EnrollmentDates = Pick<ICourseEnrollment, "enrollmentDate" | "startDate">;
+
+export interface ReleaseStatus {
+  released: boolean;
+  availableAt?: Date; // unknown while waiting for the student to start
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Enrollments never notified before only hear about releases this recent
+const FIRST_NOTIFICATION_LOOKBACK = DAY;
+
+const DRIP_TRIGGERS = ["date", "enrollment", "start"];
+
+export class ReleaseService {
+  /**
+   * When a release rule opens for a student. Null when released
+   * immediately, undefined while it waits for a course start that has not
+   * happened yet.
+   */
+  static getReleaseDate(
+    release: ReleaseRule,
+    enrollment?: EnrollmentDates | null
+  ): Date | null | undefined {
+    const days = release?.days ?? 0;
+
+    switch (release?.trigger) {
+      case "date":
+        return release.date ?? null;
+      case "enrollment":
+        return enrollment
+          ? new Date(enrollment.enrollmentDate.getTime() + days * DAY)
+          : undefined;
+      case "start":
+        if (enrollment?.startDate) {
+          return new Date(enrollment.startDate.getTime() + days * DAY);
+        }
+        return days ? undefined : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Whether every rule has released (e.g. a lesson and its module), and
+   * when the last one does
+   */
+  static getStatus(
+    releases: ReleaseRule[],
+    enrollment?: EnrollmentDates | null,
+    now: Date = new Date()
+  ): ReleaseStatus {
+    const dates = releases.map((release) =>
+      this.getReleaseDate(release, enrollment)
+    );
+    if (dates.includes(undefined)) return { released: false };
+
+    const availableAt = (dates as (Date | null)[]).reduce<Date | undefined>(
+      (latest, date) => (date && (!latest || date > latest) ? date : latest),
+      undefined
+    );
+
+    return { released: !availableAt || availableAt <= now, availableAt };
+  }
+
+  /**
+   * Email students about lessons released since they were last notified.
+   * Lessons released before enrollment are not news and are skipped.
+   */
+  static async notifyReleases(now: Date = new Date()): Promise<number> {
+    const drippedModules = await Module.find({
+      isActive: true,
+      isPublished: true,
+      "release.trigger": { $in: DRIP_TRIGGERS },
+    }).distinct("_id");
+
+    const contents = await Content.find({
+      isActive: true,
+      isPublished: true,
+      $or: [
+        { "release.trigger": { $in: DRIP_TRIGGERS } },
+        { module: { $in: drippedModules } },
+      ],
+    })
+      .select("title course module order release")
+      .sort({ order: 1 });
+    const modules = await Module.find({
+      _id: { $in: contents.map((content) => content.module) },
+      isActive: true,
+      isPublished: true,
+    })
+      .select("course order release")
+      .sort({ order: 1 });
+
+    const courseIds = [
+      ...new Set(contents.map((content) => content.course.toString())),
+    ];
+
+    let notified = 0;
+    for (const courseId of courseIds) {
+      const course = await Course.findById(courseId).select("title slug");
+      if (!course) continue;
+
+      const courseContents = modules
+        .filter((module) => module.course.equals(courseId))
+        .flatMap((module) =>
+          contents
+            .filter(
+              (content) =>
+                content.course.equals(courseId) &&
+                content.module.equals(module.id)
+            )
+            .map((content) => ({ content, module }))
+        );
+
+      const enrollments = await CourseEnrollment.find({
+        course: courseId,
+        status: { $in: ["enrolled", "in-progress"] },
+      })
+        .select("user enrollmentDate startDate releaseNotifiedAt")
+        .populate<{ user: { name: string; email: string } }>(
+          "user",
+          "name email"
+        );
+
+      // Enrollments whose email failed keep their mark and hear next time
+      const upToDate: ICourseEnrollment["_id"][] = [];
+      for (const enrollment of enrollments) {
+        const since = new Date(
+          Math.max(
+            enrollment.releaseNotifiedAt?.getTime() ??
+              now.getTime() - FIRST_NOTIFICATION_LOOKBACK,
+            enrollment.enrollmentDate.getTime()
+          )
+        );
+
+        const titles = courseContents
+          .filter(({ content, module }) => {
+            const { released, availableAt } = this.getStatus(
+              [module.release, content.release],
+              enrollment,
+              now
+            );
+            return released && availableAt && availableAt > since;
+          })
+          .map(({ content }) => content.title);
+        if (!titles.length || !enrollment.user?.email) {
+          upToDate.push(enrollment._id);
+          continue;
+        }
+
+        await sendEmail({
+          to: enrollment.user.email,
+          type: "content-released",
+          data: {
+            name: enrollment.user.name,
+            courseTitle: course.title,
+            titles,
+            courseUrl: `${process.env.CLIENT_URL}/courses/${course.slug}`,
+          },
+        })
+          .then(() => {
+            upToDate.push(enrollment._id);
+            notified++;
+          })
+          .catch((error) => {
+            logger.error(
+              `Failed to send content released email for enrollment ${enrollment.id}: ${error}`
+            );
+          });
+      }
+
+      await CourseEnrollment.updateMany(
+        { _id: { $in: upToDate } },
+        { releaseNotifiedAt: now }
+      );
+    }
+
+    return notified;
+  }
+}
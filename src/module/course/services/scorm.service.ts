@@ -0,0 +1,240 @@
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import {
+  Content,
+  CourseEnrollment,
+  IContent,
+  IScormProgress,
+  ScormProgress,
+} from "../models";
+import { CourseService } from "../service";
+import { AccessEvaluatorService } from "./access-evaluator.service";
+import {
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import { ZipEntry } from "../utils/zip";
+import {
+  formatTimespan,
+  getScormBaseUrl,
+  parseTimespan,
+  resolvePackagePath,
+  SCORM_ROOT,
+} from "../utils/scorm";
+import { IScormCommit } from "../validation/scorm";
+
+const COMPLETED_STATUSES = ["completed", "passed"];
+const FINISHED_STATUSES = [...COMPLETED_STATUSES, "failed"];
+
+export class ScormService {
+  /**
+   * Get a SCORM lesson of a course
+   */
+  static async getCourseScorm(
+    courseId: string,
+    contentId: string
+  ): Promise<IContent> {
+    if (!mongoose.isValidObjectId(contentId)) {
+      throw new NotFoundException("SCORM lesson not found");
+    }
+
+    const content = await Content.findOne({
+      _id: contentId,
+      course: courseId,
+      type: "scorm",
+      isActive: true,
+    });
+    if (!content) {
+      throw new NotFoundException("SCORM lesson not found");
+    }
+
+    return content;
+  }
+
+  /**
+   * URL of the SCO a SCORM lesson launches
+   */
+  static getLaunchUrl(content: IContent): string {
+    const { packageId, launchPath, parameters = "" } = content.scorm!;
+    return `${getScormBaseUrl()}/${packageId}/${launchPath}${parameters}`;
+  }
+
+  /**
+   * Start a session on a SCORM lesson: the launch URL and the cmi data the
+   * player hands to the SCO on LMSInitialize
+   */
+  static async launch(courseId: string, contentId: string, userId: string) {
+    const enrollment = await CourseEnrollment.findOne({
+      user: userId,
+      course: courseId,
+      status: { $ne: "dropped" },
+    }).populate<{ user: { name: string } }>("user", "name");
+    if (!enrollment) {
+      throw new ForbiddenException("Enroll in this course to open this lesson");
+    }
+
+    const content = await this.getCourseScorm(courseId, contentId);
+    if (!content.isPublished) {
+      throw new NotFoundException("SCORM lesson not found");
+    }
+    await AccessEvaluatorService.assertContentAccess(content, userId);
+
+    const progress =
+      (await ScormProgress.findOne({ user: userId, content: content._id })) ||
+      new ScormProgress({
+        user: userId,
+        course: content.course,
+        content: content._id,
+      });
+
+    // The previous session ends with the new one
+    const entry =
+      progress.sessions === 0
+        ? "ab-initio"
+        : progress.exit === "suspend"
+          ? "resume"
+          : "";
+    progress.totalTime += progress.sessionTime;
+    progress.sessionTime = 0;
+    progress.sessions += 1;
+    await progress.save();
+
+    return {
+      launchUrl: this.getLaunchUrl(content),
+      cmi: {
+        core: {
+          student_id: userId,
+          student_name: enrollment.user.name,
+          lesson_location: progress.lessonLocation ?? "",
+          credit: "credit",
+          lesson_status: progress.lessonStatus,
+          entry,
+          score: {
+            raw: progress.score?.raw ?? "",
+            min: progress.score?.min ?? "",
+            max: progress.score?.max ?? "",
+          },
+          total_time: formatTimespan(progress.totalTime),
+          lesson_mode: "normal",
+        },
+        suspend_data: progress.suspendData ?? "",
+        launch_data: "",
+        student_data: {
+          mastery_score: content.scorm?.masteryScore ?? "",
+        },
+      },
+    };
+  }
+
+  /**
+   * Store the cmi data a SCO commits. Once the SCO is finished a mastery
+   * score decides between passed and failed; completed or passed completes
+   * the lesson.
+   */
+  static async commit(
+    courseId: string,
+    contentId: string,
+    userId: string,
+    data: IScormCommit
+  ): Promise<{ progress: IScormProgress; justCompleted: boolean }> {
+    const content = await this.getCourseScorm(courseId, contentId);
+
+    const progress = await ScormProgress.findOne({
+      user: userId,
+      content: content._id,
+    });
+    if (!progress) {
+      throw new ForbiddenException("Launch this lesson before saving progress");
+    }
+
+    const { core } = data.cmi;
+    if (core.lesson_location !== undefined) {
+      progress.lessonLocation = core.lesson_location;
+    }
+    if (data.cmi.suspend_data !== undefined) {
+      progress.suspendData = data.cmi.suspend_data;
+    }
+    if (core.exit !== undefined) progress.exit = core.exit;
+    if (core.session_time) {
+      progress.sessionTime = parseTimespan(core.session_time);
+    }
+    if (core.score) {
+      progress.score = {
+        ...progress.score,
+        ...Object.fromEntries(
+          Object.entries(core.score).filter(([, value]) => value !== undefined)
+        ),
+      };
+    }
+    if (core.lesson_status) progress.lessonStatus = core.lesson_status;
+
+    const masteryScore = content.scorm?.masteryScore;
+    if (
+      masteryScore !== undefined &&
+      progress.score?.raw !== undefined &&
+      FINISHED_STATUSES.includes(progress.lessonStatus)
+    ) {
+      progress.lessonStatus =
+        progress.score.raw >= masteryScore ? "passed" : "failed";
+    }
+    progress.lastCommitAt = new Date();
+
+    const justCompleted =
+      !progress.isCompleted &&
+      COMPLETED_STATUSES.includes(progress.lessonStatus);
+    if (justCompleted) {
+      progress.isCompleted = true;
+      progress.completedAt = new Date();
+    }
+
+    // Fails before anything is stored while the lesson is locked
+    if (justCompleted) {
+      await CourseService.updateProgress(courseId, userId, content.id, true);
+    }
+
+    await progress.save();
+
+    return { progress, justCompleted };
+  }
+
+  /**
+   * Store the files of a SCORM package, paths leaving the package are
+   * skipped. Returns the id the package is served under.
+   */
+  static async writePackage(files: ZipEntry[]): Promise<string> {
+    const packageId = new mongoose.Types.ObjectId().toString();
+    const directory = path.join(SCORM_ROOT, packageId);
+
+    for (const file of files) {
+      const name = resolvePackagePath(file.name);
+      if (!name) continue;
+
+      const target = path.join(directory, name);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.writeFile(target, file.data);
+    }
+
+    return packageId;
+  }
+
+  /**
+   * Files of a SCORM package, read one at a time
+   */
+  static async *readPackage(packageId: string): AsyncGenerator<ZipEntry> {
+    const directory = path.join(SCORM_ROOT, packageId);
+    const entries = await fs.promises
+      .readdir(directory, { recursive: true, withFileTypes: true })
+      .catch(() => []);
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+
+      const file = path.join(entry.parentPath, entry.name);
+      yield {
+        name: path.relative(directory, file).split(path.sep).join("/"),
+        data: await fs.promises.readFile(file),
+      };
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import mongoose from "mongoose";
+import {
+  Content,
+  CourseEnrollment,
+  IContent,
+  IVideoProgress,
+  VideoProgress,
+  WatchedSegment,
+} from "../models";
+import { CourseService } from "../service";
+import { AccessEvaluatorService } from "./access-evaluator.service";
+import {
+  ForbiddenException,
+  NotFoundException,
+} from "../../../common/middleware/errors";
+import { IVideoAnalytics, IVideoHeartbeat } from "../validation/video";
+
+// Stopping this close to the end resumes the video from the start
+const RESUME_END_MARGIN = 10; // seconds
+
+// A bucket of the drop-off curve counts as watched from this share of it
+const BUCKET_WATCHED_SHARE = 0.5;
+
+// A heartbeat credits at most the time since the previous one at the
+// fastest playback speed, the first one what a heartbeat interval holds
+const MAX_PLAYBACK_SPEED = 3;
+const FIRST_HEARTBEAT_CREDIT = 30; // seconds
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class VideoProgressService {
+  /**
+   * Get a video lesson of a course
+   */
+  static async getCourseVideo(
+    courseId: string,
+    contentId: string
+  ): Promise<IContent> {
+    if (!mongoose.isValidObjectId(contentId)) {
+      throw new NotFoundException("Video not found");
+    }
+
+    const content = await Content.findOne({
+      _id: contentId,
+      course: courseId,
+      type: "video",
+      isActive: true,
+    });
+    if (!content) {
+      throw new NotFoundException("Video not found");
+    }
+
+    return content;
+  }
+
+  /**
+   * Record a player heartbeat: add the watched segments, store the resume
+   * position, and complete the lesson once completionThreshold percent of
+   * the video was watched. Without a known duration a video is never
+   * completed by watching.
+   */
+  static async recordHeartbeat(
+    courseId: string,
+    contentId: string,
+    userId: string,
+    data: IVideoHeartbeat
+  ): Promise<{ progress: IVideoProgress; justCompleted: boolean }> {
+    const enrollment = await CourseEnrollment.findOne({
+      user: userId,
+      course: courseId,
+      status: { $ne: "dropped" },
+    });
+    if (!enrollment) {
+      throw new ForbiddenException("Enroll in this course to watch this video");
+    }
+
+    const content = await this.getCourseVideo(courseId, contentId);
+    if (!content.isPublished) {
+      throw new NotFoundException("Video not found");
+    }
+
+    // Access is checked when watching starts and again on completion
+    let progress = await VideoProgress.findOne({
+      user: userId,
+      content: content._id,
+    });
+    if (!progress) {
+      await AccessEvaluatorService.assertContentAccess(content, userId);
+      progress = new VideoProgress({
+        user: userId,
+        course: content.course,
+        content: content._id,
+      });
+    }
+
+    // Only a duration set on the lesson is trusted, not the player's
+    const duration = content.duration;
+    const clamp = (seconds: number) =>
+      duration ? Math.min(seconds, duration) : seconds;
+
+    const now = new Date();
+    const elapsed = (now.getTime() - progress.lastHeartbeatAt.getTime()) / 1000;
+    const credited = this.getUncovered(
+      progress.segments,
+      data.segments.map((segment) => ({
+        start: clamp(segment.start),
+        end: clamp(segment.end),
+      })),
+      progress.isNew
+        ? FIRST_HEARTBEAT_CREDIT
+        : Math.max(0, elapsed) * MAX_PLAYBACK_SPEED
+    );
+
+    progress.segments = this.mergeSegments([...progress.segments, ...credited]);
+    progress.watchedSeconds = round(
+      progress.segments.reduce(
+        (total, segment) => total + segment.end - segment.start,
+        0
+      )
+    );
+    progress.resumePosition =
+      duration && duration - data.position <= RESUME_END_MARGIN
+        ? 0
+        : clamp(data.position);
+    if (data.playbackSpeed) progress.playbackSpeed = data.playbackSpeed;
+    progress.lastHeartbeatAt = now;
+
+    const justCompleted =
+      !progress.isCompleted &&
+      !!duration &&
+      (progress.watchedSeconds / duration) * 100 >=
+        (content.completionThreshold ?? 90);
+    if (justCompleted) {
+      progress.isCompleted = true;
+      progress.completedAt = now;
+    }
+
+    if (data.playbackSpeed) {
+      enrollment.set("preferences.playbackSpeed", data.playbackSpeed);
+      await enrollment.save();
+    }
+    // Fails before anything is stored while the lesson is locked
+    if (justCompleted) {
+      await CourseService.updateProgress(courseId, userId, content.id, true);
+    }
+
+    await progress.save();
+
+    return { progress, justCompleted };
+  }
+
+  /**
+   * Watch progress and playback speed of a user on a video, to resume it
+   */
+  static async getUserProgress(
+    courseId: string,
+    contentId: string,
+    userId: string
+  ): Promise<{ progress: IVideoProgress | null; playbackSpeed: number }> {
+    const content = await this.getCourseVideo(courseId, contentId);
+
+    const [progress, enrollment] = await Promise.all([
+      VideoProgress.findOne({ user: userId, content: content._id }),
+      CourseEnrollment.findOne({ user: userId, course: courseId }).select(
+        "preferences.playbackSpeed"
+      ),
+    ]);
+
+    return {
+      progress,
+      playbackSpeed:
+        progress?.playbackSpeed ?? enrollment?.preferences?.playbackSpeed ?? 1,
+    };
+  }
+
+  /**
+   * Watch statistics of a video: viewers, average watch time, completion
+   * rate, and a drop-off curve - the share of viewers who watched each
+   * stretch of the video
+   */
+  static async getAnalytics(content: IContent, query: IVideoAnalytics) {
+    const progresses = await VideoProgress.find({ content: content._id })
+      .select("segments watchedSeconds isCompleted")
+      .lean();
+
+    const viewers = progresses.length;
+    const duration =
+      content.duration ||
+      Math.max(
+        0,
+        ...progresses.flatMap((progress) =>
+          progress.segments.map((segment) => segment.end)
+        )
+      );
+
+    const bucketSize = duration / query.buckets;
+    const dropOff = duration
+      ? Array.from({ length: query.buckets }, (_, index) => {
+          const start = index * bucketSize;
+          const end = start + bucketSize;
+          const watched = progresses.filter(
+            (progress) =>
+              this.getOverlap(progress.segments, start, end) >=
+              bucketSize * BUCKET_WATCHED_SHARE
+          ).length;
+
+          return {
+            start: round(start),
+            end: round(end),
+            viewers: watched,
+            percentage: viewers ? round((watched / viewers) * 100) : 0,
+          };
+        })
+      : [];
+
+    const completed = progresses.filter(
+      (progress) => progress.isCompleted
+    ).length;
+
+    return {
+      content: { _id: content._id, title: content.title, duration },
+      viewers,
+      averageWatchTime: viewers
+        ? round(
+            progresses.reduce(
+              (total, progress) => total + progress.watchedSeconds,
+              0
+            ) / viewers
+          )
+        : 0,
+      completionRate: viewers ? round((completed / viewers) * 100) : 0,
+      dropOff,
+    };
+  }
+
+  /**
+   * Store a video's averageWatchTime and completionRate (share of viewers
+   * who completed it)
+   */
+  static async refreshStats(contentId: mongoose.Types.ObjectId): Promise<void> {
+    const [stats] = await VideoProgress.aggregate([
+      { $match: { content: contentId } },
+      {
+        $group: {
+          _id: null,
+          viewers: { $sum: 1 },
+          averageWatchTime: { $avg: "$watchedSeconds" },
+          completed: { $sum: { $cond: ["$isCompleted", 1, 0] } },
+        },
+      },
+    ]);
+    if (!stats) return;
+
+    await Content.updateOne(
+      { _id: contentId },
+      {
+        averageWatchTime: round(stats.averageWatchTime),
+        completionRate: round((stats.completed / stats.viewers) * 100),
+      }
+    );
+  }
+
+  /**
+   * Refresh the statistics of videos watched since the given date
+   */
+  static async refreshRecentVideos(since: Date): Promise<number> {
+    const contentIds = await VideoProgress.distinct("content", {
+      lastHeartbeatAt: { $gte: since },
+    });
+
+    for (const contentId of contentIds) {
+      await this.refreshStats(contentId);
+    }
+
+    return contentIds.length;
+  }
+
+  /**
+   * The parts of the segments not covered yet, earliest first and no more
+   * than limit seconds of them. Covered segments must be merged.
+   */
+  static getUncovered(
+    covered: WatchedSegment[],
+    segments: WatchedSegment[],
+    limit: number
+  ): WatchedSegment[] {
+    const uncovered: WatchedSegment[] = [];
+    for (const segment of this.mergeSegments(segments)) {
+      let start = segment.start;
+      for (const watched of covered) {
+        if (watched.start >= segment.end) break;
+        if (watched.end <= start) continue;
+        if (watched.start > start) {
+          uncovered.push({ start, end: watched.start });
+        }
+        start = watched.end;
+      }
+      if (segment.end > start) uncovered.push({ start, end: segment.end });
+    }
+
+    let remaining = limit;
+    return uncovered.flatMap(({ start, end }) => {
+      const credited = Math.min(end - start, remaining);
+      remaining -= credited;
+      return credited > 0 ? [{ start, end: start + credited }] : [];
+    });
+  }
+
+  /**
+   * Sort segments and merge the overlapping or touching ones
+   */
+  static mergeSegments(segments: WatchedSegment[]): WatchedSegment[] {
+    const sorted = segments
+      .filter((segment) => segment.end > segment.start)
+      .map(({ start, end }) => ({ start, end }))
+      .sort((a, b) => a.start - b.start);
+
+    return sorted.reduce<WatchedSegment[]>((merged, segment) => {
+      const last = merged[merged.length - 1];
+      if (last && segment.start <= last.end) {
+        last.end = Math.max(last.end, segment.end);
+      } else {
+        merged.push(segment);
+      }
+      return merged;
+    }, []);
+  }
+
+  /**
+   * Seconds of the segments that fall within [start, end)
+   */
+  private static getOverlap(
+    segments: WatchedSegment[],
+    start: number,
+    end: number
+  ): number {
+    return segments.reduce(
+      (total, segment) =>
+        total +
+        Math.max(
+          0,
+          Math.min(segment.end, end) - Math.max(segment.start, start)
+        ),
+      0
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { format } from "date-fns";
+
+export interface CertificatePdfData {
+  studentName: string;
+  courseTitle: string;
+  instructorName?: string;
+  grade?: string;
+  completionScore?: number;
+  issuedAt: Date;
+  verificationCode: string;
+  verificationUrl: string;
+}
+
+// Course.certificateTemplate picks one of these, "classic" by default
+export const CERTIFICATE_TEMPLATES = {
+  classic: {
+    background: "#fffdf7",
+    accent: "#1e3a8a",
+    text: "#1f2937",
+    font: "Times-Roman",
+    boldFont: "Times-Bold",
+    signatureFont: "Times-Italic",
+  },
+  modern: {
+    background: "#ffffff",
+    accent: "#2563eb",
+    text: "#111827",
+    font: "Helvetica",
+    boldFont: "Helvetica-Bold",
+    signatureFont: "Helvetica-Oblique",
+  },
+};
+
+export type CertificateTemplate = keyof typeof CERTIFICATE_TEMPLATES;
+
+/**
+ * Render a landscape A4 certificate with a QR code linking to its
+ * verification page
+ */
+export async function renderCertificatePdf(
+  data: CertificatePdfData,
+  templateName?: string
+): Promise<Buffer> {
+  const template =
+    CERTIFICATE_TEMPLATES[templateName as CertificateTemplate] ||
+    CERTIFICATE_TEMPLATES.classic;
+  const qrCode = await QRCode.toBuffer(data.verificationUrl, {
+    margin: 1,
+    width: 240,
+  });
+
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: 0,
+    info: {
+      Title: `${data.courseTitle} - Certificate of Completion`,
+      Author: "Hexonest",
+      Subject: data.studentName,
+    },
+  });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const { width, height } = doc.page;
+  const centered = { width, align: "center" as const };
+
+  // Frame
+  doc.rect(0, 0, width, height).fill(template.background);
+  doc
+    .lineWidth(4)
+    .rect(20, 20, width - 40, height - 40)
+    .stroke(template.accent);
+  doc
+    .lineWidth(1)
+    .rect(30, 30, width - 60, height - 60)
+    .stroke(template.accent);
+
+  // Body
+  doc
+    .fillColor(template.accent)
+    .font(template.boldFont)
+    .fontSize(34)
+    .text("Certificate of Completion", 0, 85, centered);
+  doc
+    .fillColor(template.text)
+    .font(template.font)
+    .fontSize(14)
+    .text("This certifies that", 0, 160, centered);
+  doc
+    .font(template.boldFont)
+    .fontSize(30)
+    .text(data.studentName, 0, 188, centered);
+  doc
+    .font(template.font)
+    .fontSize(14)
+    .text("has successfully completed", 0, 240, centered);
+  doc
+    .font(template.boldFont)
+    .fontSize(22)
+    .text(data.courseTitle, 60, 266, { width: width - 120, align: "center" });
+  if (data.grade) {
+    const score =
+      data.completionScore !== undefined ? ` (${data.completionScore}%)` : "";
+    doc
+      .font(template.font)
+      .fontSize(14)
+      .text(`Final grade: ${data.grade}${score}`, 0, 330, centered);
+  }
+
+  // Date and signature
+  const footerY = height - 150;
+  doc
+    .font(template.font)
+    .fontSize(14)
+    .text(format(data.issuedAt, "MMMM d, yyyy"), 90, footerY, {
+      width: 200,
+      align: "center",
+    });
+  doc
+    .moveTo(90, footerY + 22)
+    .lineTo(290, footerY + 22)
+    .stroke(template.text);
+  doc
+    .fontSize(11)
+    .text("Date", 90, footerY + 30, { width: 200, align: "center" });
+
+  const signatureX = width / 2 - 100;
+  if (data.instructorName) {
+    doc
+      .font(template.signatureFont)
+      .fontSize(20)
+      .text(data.instructorName, signatureX, footerY - 6, {
+        width: 200,
+        align: "center",
+      });
+  }
+  doc
+    .moveTo(signatureX, footerY + 22)
+    .lineTo(signatureX + 200, footerY + 22)
+    .stroke(template.text);
+  doc
+    .font(template.font)
+    .fontSize(11)
+    .text("Instructor", signatureX, footerY + 30, {
+      width: 200,
+      align: "center",
+    });
+
+  // Verification
+  const qrSize = 90;
+  const qrX = width - 90 - qrSize;
+  doc.image(qrCode, qrX, footerY - 40, { width: qrSize, height: qrSize });
+  doc.fontSize(9).text(data.verificationCode, qrX - 30, footerY + qrSize - 34, {
+    width: qrSize + 60,
+    align: "center",
+  });
+
+  doc.end();
+
+  return rendered;
+}
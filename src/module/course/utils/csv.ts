@@ -0,0 +1,25 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a CSV field when needed. Text starting like a formula is prefixed
+ * with a quote so spreadsheets do not evaluate it.
+ */
+function formatField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document (RFC 4180, CRLF line endings) from rows of values
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return (
+    rows.map((row) => row.map(formatField).join(",")).join("\r\n") + "\r\n"
+  );
+}
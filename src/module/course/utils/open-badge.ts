@@ -0,0 +1,217 @@
+import crypto, { KeyObject } from "crypto";
+import { gunzipSync, gzipSync } from "zlib";
+
+// Data Integrity proofs over JSON Canonicalization (RFC 8785), so credentials
+// are signed without an RDF processor
+export const PROOF_TYPE = "DataIntegrityProof";
+export const CRYPTOSUITE = "eddsa-jcs-2022";
+
+// Bitstring Status List minimum size, 16KB, so one index says little about
+// who holds it
+export const STATUS_LIST_SIZE = 131072;
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const ED25519_MULTICODEC = Buffer.from([0xed, 0x01]);
+
+export interface DataIntegrityProof {
+  type: string;
+  cryptosuite: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue?: string;
+}
+
+export type SignedCredential = Record<string, unknown> & {
+  proof: DataIntegrityProof;
+};
+
+export interface IssuerKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  publicKeyMultibase: string;
+}
+
+let issuerKey: IssuerKey | null | undefined;
+
+/**
+ * The Ed25519 issuer key from BADGE_ISSUER_PRIVATE_KEY (base64 PKCS#8 DER),
+ * or null when badges are not configured
+ */
+export function getIssuerKey(): IssuerKey | null {
+  if (issuerKey !== undefined) return issuerKey;
+
+  const encoded = process.env.BADGE_ISSUER_PRIVATE_KEY;
+  if (!encoded) return (issuerKey = null);
+
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.from(encoded, "base64"),
+    format: "der",
+    type: "pkcs8",
+  });
+  const publicKey = crypto.createPublicKey(privateKey);
+
+  return (issuerKey = {
+    privateKey,
+    publicKey,
+    publicKeyMultibase: encodePublicKey(publicKey),
+  });
+}
+
+/**
+ * Multikey form of an Ed25519 public key: base58btc of the multicodec
+ * prefix and the raw key
+ */
+export function encodePublicKey(publicKey: KeyObject): string {
+  const { x } = publicKey.export({ format: "jwk" });
+  const raw = Buffer.from(x!, "base64url");
+
+  return `z${encodeBase58(Buffer.concat([ED25519_MULTICODEC, raw]))}`;
+}
+
+/**
+ * Add an assertion proof to a credential
+ */
+export function signCredential<T extends Record<string, unknown>>(
+  credential: T,
+  key: IssuerKey,
+  verificationMethod: string,
+  created: Date
+): T & { proof: DataIntegrityProof } {
+  const proof: DataIntegrityProof = {
+    type: PROOF_TYPE,
+    cryptosuite: CRYPTOSUITE,
+    created: created.toISOString().replace(/\.\d{3}Z$/, "Z"),
+    verificationMethod,
+    proofPurpose: "assertionMethod",
+  };
+  const signature = crypto.sign(
+    null,
+    hashForProof(credential, proof),
+    key.privateKey
+  );
+
+  return {
+    ...credential,
+    proof: { ...proof, proofValue: `z${encodeBase58(signature)}` },
+  };
+}
+
+/**
+ * Check a credential's proof signature against a public key
+ */
+export function verifyCredentialProof(
+  credential: SignedCredential,
+  publicKey: KeyObject
+): boolean {
+  const { proof, ...document } = credential;
+  const { proofValue, ...options } = proof;
+  if (
+    options.type !== PROOF_TYPE ||
+    options.cryptosuite !== CRYPTOSUITE ||
+    !proofValue?.startsWith("z")
+  ) {
+    return false;
+  }
+
+  try {
+    return crypto.verify(
+      null,
+      hashForProof(document, options),
+      publicKey,
+      decodeBase58(proofValue.slice(1))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GZIP-compressed bitstring with the given indexes set, multibase base64url
+ * encoded
+ */
+export function encodeStatusList(indexes: number[]): string {
+  const bitstring = Buffer.alloc(STATUS_LIST_SIZE / 8);
+  indexes.forEach((index) => {
+    bitstring[index >> 3] |= 0x80 >> (index & 7);
+  });
+
+  return `u${gzipSync(bitstring).toString("base64url")}`;
+}
+
+/**
+ * Whether an index is set in an encoded status list
+ */
+export function isStatusSet(encodedList: string, index: number): boolean {
+  const bitstring = gunzipSync(Buffer.from(encodedList.slice(1), "base64url"));
+
+  return ((bitstring[index >> 3] ?? 0) & (0x80 >> (index & 7))) !== 0;
+}
+
+/**
+ * RFC 8785 JSON canonicalization: sorted keys, no whitespace
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item ?? null)).join(",")}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return `{${entries
+    .map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`)
+    .join(",")}}`;
+}
+
+/**
+ * eddsa-jcs-2022 signing input: hash of the proof options, with the
+ * document's context, followed by the hash of the document
+ */
+function hashForProof(
+  document: Record<string, unknown>,
+  proof: DataIntegrityProof
+): Buffer {
+  const sha256 = (value: unknown) =>
+    crypto.createHash("sha256").update(canonicalize(value)).digest();
+
+  return Buffer.concat([
+    sha256({ ...proof, "@context": document["@context"] }),
+    sha256(document),
+  ]);
+}
+
+function encodeBase58(bytes: Buffer): string {
+  let value = BigInt(`0x${bytes.toString("hex") || "0"}`);
+  let encoded = "";
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+
+  const leadingZeros = bytes.findIndex((byte) => byte !== 0);
+  return (
+    "1".repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + encoded
+  );
+}
+
+function decodeBase58(encoded: string): Buffer {
+  let value = BigInt(0);
+  for (const character of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(character);
+    if (digit === -1) throw new Error("Invalid base58 character");
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  const hex = value > BigInt(0) ? value.toString(16) : "";
+  const leadingZeros = encoded.match(/^1*/)![0].length;
+  return Buffer.concat([
+    Buffer.alloc(leadingZeros),
+    Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex"),
+  ]);
+}
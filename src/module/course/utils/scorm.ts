@@ -0,0 +1,197 @@
+import path from "path";
+import { ServerResponse } from "http";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { PUBLIC_DIR } from "../../../common/constant";
+
+type XmlNode = Record<string, any>;
+
+export interface ScormItem {
+  identifier: string;
+  title: string;
+  launchPath: string; // relative to the package root
+  parameters?: string;
+  masteryScore?: number;
+}
+
+// Items are grouped by the manifest's top-level items
+export interface ScormModule {
+  title: string;
+  items: ScormItem[];
+}
+
+export interface ScormManifest {
+  title: string;
+  modules: ScormModule[];
+}
+
+export const SCORM_MANIFEST = "imsmanifest.xml";
+
+// Package files are served statically from /scorm/<package id>/
+export const SCORM_ROOT = path.join(PUBLIC_DIR, "scorm");
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (name) => ["organization", "item", "resource"].includes(name),
+});
+
+const textOf = (value: any): string =>
+  String((typeof value === "object" ? value?.["#text"] : value) ?? "").trim();
+
+/**
+ * Normalize a path inside the package, undefined when it leaves the package
+ */
+export function resolvePackagePath(...parts: string[]): string | undefined {
+  const resolved = path.posix.normalize(
+    parts.filter(Boolean).join("/").replace(/\\/g, "/")
+  );
+
+  return resolved.startsWith("../") ||
+    resolved === ".." ||
+    path.posix.isAbsolute(resolved)
+    ? undefined
+    : resolved;
+}
+
+/**
+ * Base URL packages are launched from: SCORM_URL when packages have an
+ * origin of their own, else the API's /scorm
+ */
+export function getScormBaseUrl(): string {
+  return process.env.SCORM_URL || `${process.env.API_URL}/scorm`;
+}
+
+/**
+ * Static file headers: package files run their own scripts, so anywhere but
+ * on SCORM_URL's origin they are sandboxed into an opaque origin, away from
+ * the API's cookies and storage
+ */
+export function setScormHeaders(res: ServerResponse, filePath: string) {
+  const relative = path.relative(SCORM_ROOT, filePath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return;
+
+  const scormUrl = process.env.SCORM_URL;
+  if (scormUrl && (res as any).req?.headers.host === new URL(scormUrl).host) {
+    return;
+  }
+  res.setHeader("Content-Security-Policy", "sandbox allow-scripts allow-forms");
+}
+
+/**
+ * Read a SCORM 1.2 imsmanifest.xml: the default organization's items become
+ * modules of launchable SCOs and assets. Throws on a package it cannot use.
+ */
+export function parseScormManifest(xml: string): ScormManifest {
+  if (XMLValidator.validate(xml) !== true) {
+    throw new Error(`${SCORM_MANIFEST} is not valid XML`);
+  }
+
+  const manifest: XmlNode | undefined = parser.parse(xml).manifest;
+  if (!manifest) {
+    throw new Error(`${SCORM_MANIFEST} has no manifest element`);
+  }
+
+  const schemaVersion = textOf(manifest.metadata?.schemaversion);
+  if (schemaVersion && schemaVersion !== "1.2") {
+    throw new Error(
+      `SCORM ${schemaVersion} packages are not supported, only SCORM 1.2`
+    );
+  }
+
+  const resourcesBase = manifest.resources?.base || "";
+  const resources = new Map<string, string | undefined>(
+    (manifest.resources?.resource || [])
+      .filter((resource: XmlNode) => resource.href)
+      .map((resource: XmlNode): [string, string | undefined] => [
+        resource.identifier,
+        resolvePackagePath(
+          manifest.base || "",
+          resourcesBase,
+          resource.base || "",
+          resource.href.split(/[?#]/)[0]
+        ),
+      ])
+  );
+
+  const organizations: XmlNode[] = manifest.organizations?.organization || [];
+  const organization =
+    organizations.find(
+      (candidate) => candidate.identifier === manifest.organizations.default
+    ) || organizations[0];
+  if (!organization) {
+    throw new Error("The package has no organization");
+  }
+
+  const toItem = (item: XmlNode): ScormItem | undefined => {
+    const launchPath = resources.get(item.identifierref);
+    if (!launchPath || item.isvisible === "false") return undefined;
+
+    const parameters: string | undefined = item.parameters;
+    const masteryScore = parseFloat(textOf(item.masteryscore));
+
+    return {
+      identifier: item.identifier,
+      title: textOf(item.title) || launchPath,
+      launchPath,
+      ...(parameters && {
+        parameters: /^[?#]/.test(parameters) ? parameters : `?${parameters}`,
+      }),
+      ...(!Number.isNaN(masteryScore) && { masteryScore }),
+    };
+  };
+  // Launchable items under an item, depth first
+  const leaves = (item: XmlNode): ScormItem[] =>
+    item.item
+      ? item.item.flatMap(leaves)
+      : [toItem(item)].filter((leaf): leaf is ScormItem => !!leaf);
+
+  const title = textOf(organization.title) || "SCORM package";
+  const modules: ScormModule[] = [];
+  let loose: ScormModule | undefined; // top-level SCOs next to each other
+  for (const item of organization.item || []) {
+    if (item.item) {
+      modules.push({ title: textOf(item.title) || title, items: leaves(item) });
+      loose = undefined;
+      continue;
+    }
+
+    if (!loose) {
+      loose = { title, items: [] };
+      modules.push(loose);
+    }
+    loose.items.push(...leaves(item));
+  }
+
+  const launchable = modules.filter((module) => module.items.length);
+  if (!launchable.length) {
+    throw new Error("The package has no launchable items");
+  }
+
+  return { title, modules: launchable };
+}
+
+/**
+ * Seconds of a CMITimespan, HHHH:MM:SS.SS
+ */
+export function parseTimespan(timespan: string): number {
+  const [hours, minutes, seconds] = timespan.split(":").map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * CMITimespan of a number of seconds
+ */
+export function formatTimespan(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return [
+    String(hours).padStart(4, "0"),
+    String(minutes).padStart(2, "0"),
+    seconds.toFixed(2).padStart(5, "0"),
+  ].join(":");
+}
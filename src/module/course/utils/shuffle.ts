@@ -0,0 +1,55 @@
+import crypto from "crypto";
+
+/**
+ * Return a shuffled copy of the items (Fisher-Yates).
+ * `random` must return numbers in [0, 1) like Math.random.
+ */
+export function shuffle<T>(
+  items: T[],
+  random: () => number = Math.random
+): T[] {
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
+
+/**
+ * Generate a random 32-bit seed
+ */
+export function generateSeed(): number {
+  return crypto.randomBytes(4).readUInt32LE(0);
+}
+
+/**
+ * Derive a seed for a sub-sequence (e.g. one question's options), so it
+ * does not depend on how many numbers other sequences consumed (FNV-1a)
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic random number generator for a seed (mulberry32).
+ * Returns numbers in [0, 1) like Math.random.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
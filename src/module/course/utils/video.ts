@@ -0,0 +1,30 @@
+export type HostedVideoProvider = "youtube" | "vimeo";
+
+export interface VideoInfo {
+  provider: HostedVideoProvider;
+  videoId: string;
+}
+
+const YOUTUBE_PATTERN =
+  /(?:youtube(?:-nocookie)?\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/|live\/|v\/)|youtu\.be\/)([A-Za-z0-9_-]{11})/;
+
+const VIMEO_PATTERN =
+  /vimeo\.com\/(?:video\/|channels\/[^/]+\/|groups\/[^/]+\/videos\/)?(\d+)/;
+
+/**
+ * Extract the provider and video ID from a YouTube or Vimeo URL.
+ * Returns null for URLs of any other host.
+ */
+export function extractVideoInfo(url: string): VideoInfo | null {
+  const youtubeMatch = url.match(YOUTUBE_PATTERN);
+  if (youtubeMatch) {
+    return { provider: "youtube", videoId: youtubeMatch[1] };
+  }
+
+  const vimeoMatch = url.match(VIMEO_PATTERN);
+  if (vimeoMatch) {
+    return { provider: "vimeo", videoId: vimeoMatch[1] };
+  }
+
+  return null;
+}
@@ -0,0 +1,251 @@
+import { Readable } from "stream";
+import { promisify } from "util";
+import { crc32, deflateRaw, deflateRawSync, inflateRaw } from "zlib";
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ZipLimits {
+  maxTotalSize: number; // unpacked bytes of all files
+  maxEntrySize: number; // unpacked bytes of one file
+  maxEntries: number;
+}
+
+const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxTotalSize: 20 * 1024 * 1024,
+  maxEntrySize: 20 * 1024 * 1024,
+  maxEntries: 1000,
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// The end record is followed by a comment of at most this many bytes
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const inflateRawAsync = promisify(inflateRaw);
+const deflateRawAsync = promisify(deflateRaw);
+
+/**
+ * Local and central directory headers of a deflated file
+ */
+function entryHeaders(
+  name: Buffer,
+  data: Buffer,
+  compressed: Buffer,
+  offset: number
+) {
+  const checksum = crc32(data);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(LOCAL_HEADER, 0);
+  local.writeUInt16LE(20, 4); // version needed
+  local.writeUInt16LE(0x0800, 6); // UTF-8 names
+  local.writeUInt16LE(8, 8); // deflate
+  local.writeUInt32LE(checksum, 14);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt32LE(data.length, 22);
+  local.writeUInt16LE(name.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(CENTRAL_HEADER, 0);
+  central.writeUInt16LE(20, 4); // version made by
+  central.writeUInt16LE(20, 6); // version needed
+  central.writeUInt16LE(0x0800, 8);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(checksum, 16);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt32LE(data.length, 24);
+  central.writeUInt16LE(name.length, 28);
+  central.writeUInt32LE(offset, 42);
+
+  return { local, central };
+}
+
+/**
+ * End of central directory record
+ */
+function endRecord(
+  entryCount: number,
+  centralSize: number,
+  centralOffset: number
+): Buffer {
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entryCount, 8);
+  end.writeUInt16LE(entryCount, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(centralOffset, 16);
+  return end;
+}
+
+/**
+ * Build a zip archive of deflated files
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = deflateRawSync(entry.data);
+    const { local, central } = entryHeaders(
+      name,
+      entry.data,
+      compressed,
+      offset
+    );
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  return Buffer.concat([
+    ...localParts,
+    centralDirectory,
+    endRecord(entries.length, centralDirectory.length, offset),
+  ]);
+}
+
+/**
+ * Stream a zip archive of deflated files, holding one file at a time
+ */
+export function zipStream(
+  entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>
+): Readable {
+  async function* chunks() {
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for await (const entry of entries) {
+      const name = Buffer.from(entry.name, "utf8");
+      const compressed = await deflateRawAsync(entry.data);
+      const { local, central } = entryHeaders(
+        name,
+        entry.data,
+        compressed,
+        offset
+      );
+
+      yield Buffer.concat([local, name]);
+      yield compressed;
+      centralParts.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    yield centralDirectory;
+    yield endRecord(centralParts.length / 2, centralDirectory.length, offset);
+  }
+
+  return Readable.from(chunks());
+}
+
+/**
+ * Check whether a buffer starts like a zip archive
+ */
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER;
+}
+
+/**
+ * Read the files of a zip archive (stored or deflated entries), inflating
+ * one file at a time off the event loop. Throws on a malformed archive and
+ * once a limit is passed.
+ */
+export async function readZip(
+  buffer: Buffer,
+  limits: Partial<ZipLimits> = {}
+): Promise<ZipEntry[]> {
+  const { maxTotalSize, maxEntrySize, maxEntries } = {
+    ...DEFAULT_ZIP_LIMITS,
+    ...limits,
+  };
+  const invalid = () => new Error("Invalid zip archive");
+  // Read a header field, failing on one past the end of the buffer
+  const read = (offset: number, bytes: 2 | 4) => {
+    if (offset < 0 || offset + bytes > buffer.length) throw invalid();
+    return bytes === 2
+      ? buffer.readUInt16LE(offset)
+      : buffer.readUInt32LE(offset);
+  };
+
+  let endOffset = -1;
+  const searchEnd = Math.max(0, buffer.length - 22 - MAX_COMMENT_LENGTH);
+  for (let i = buffer.length - 22; i >= searchEnd; i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw invalid();
+
+  const entryCount = read(endOffset + 10, 2);
+  if (entryCount > maxEntries) {
+    throw new Error(`Zip archive has more than ${maxEntries} files`);
+  }
+
+  let position = read(endOffset + 16, 4);
+  let totalSize = 0;
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (read(position, 4) !== CENTRAL_HEADER) throw invalid();
+
+    const method = read(position + 10, 2);
+    const compressedSize = read(position + 20, 4);
+    const size = read(position + 24, 4);
+    const nameLength = read(position + 28, 2);
+    const extraLength = read(position + 30, 2);
+    const commentLength = read(position + 32, 2);
+    const localOffset = read(position + 42, 4);
+    if (position + 46 + nameLength > buffer.length) throw invalid();
+    const name = buffer
+      .subarray(position + 46, position + 46 + nameLength)
+      .toString("utf8");
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+
+    if (size > maxEntrySize) {
+      throw new Error(`${name} is too large`);
+    }
+    totalSize += size;
+    if (totalSize > maxTotalSize) {
+      throw new Error("Zip archive is too large");
+    }
+
+    if (read(localOffset, 4) !== LOCAL_HEADER) throw invalid();
+    const dataStart =
+      localOffset + 30 + read(localOffset + 26, 2) + read(localOffset + 28, 2);
+    if (dataStart + compressedSize > buffer.length) throw invalid();
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(raw);
+    } else if (method === 8) {
+      // Inflating past the declared size fails, so the size limits hold
+      // for archives that lie about their sizes
+      data = await inflateRawAsync(raw, {
+        maxOutputLength: Math.max(size, 1),
+      }).catch(() => {
+        throw new Error(`${name} is damaged or larger than it claims`);
+      });
+    } else {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+    if (data.length !== size) {
+      throw new Error(`${name} is damaged or larger than it claims`);
+    }
+
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+const objectIdSchema = z.string().length(24, "Invalid ID");
+
+// Submit Assignment Validation - files come from the multipart upload
+export const submitAssignmentSchema = z.object({
+  comment: z.string().trim().max(5000).optional(),
+});
+
+// Assignment Submissions List Validation
+export const submissionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  status: z.enum(["submitted", "graded"]).optional(),
+  user: objectIdSchema.optional(),
+});
+
+// Assignment Grading Queue Validation
+export const submissionQueueSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  course: objectIdSchema.optional(),
+  content: objectIdSchema.optional(),
+});
+
+// Grade Submission Validation - score per rubric criterion, or a
+// percentage for assignments without a rubric
+export const gradeSubmissionSchema = z
+  .object({
+    rubricScores: z
+      .array(
+        z.object({
+          criteria: z.string().min(1),
+          points: z.number().min(0),
+          comments: z.string().max(2000).optional(),
+        })
+      )
+      .min(1)
+      .optional(),
+    percentage: z.number().min(0).max(100).optional(),
+    feedback: z.string().max(5000).optional(),
+  })
+  .refine(
+    (data) =>
+      (data.rubricScores === undefined) !== (data.percentage === undefined),
+    {
+      message: "Provide either rubric scores or a percentage",
+    }
+  );
+
+export type ISubmitAssignment = z.infer<typeof submitAssignmentSchema>;
+export type ISubmissionQuery = z.infer<typeof submissionQuerySchema>;
+export type ISubmissionQueue = z.infer<typeof submissionQueueSchema>;
+export type IGradeSubmission = z.infer<typeof gradeSubmissionSchema>;
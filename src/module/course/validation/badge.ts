@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+// Badge Verification Validation - a credential as held by the learner
+export const verifyBadgeSchema = z.object({
+  credential: z.record(z.string(), z.unknown()),
+});
+
+export type IVerifyBadge = z.infer<typeof verifyBadgeSchema>;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+const objectIdSchema = z.string().length(24, "Invalid ID");
+
+// Manual Certificate Validation - issue to an enrolled student
+export const issueCertificateSchema = z.object({
+  userId: objectIdSchema,
+});
+
+// Certificate Revocation Validation
+export const revokeCertificateSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+export type IIssueCertificate = z.infer<typeof issueCertificateSchema>;
+export type IRevokeCertificate = z.infer<typeof revokeCertificateSchema>;
@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { extractVideoInfo } from "../utils/video";
+import { releaseSchema } from "./module";
+
+const objectIdSchema = z.string().length(24, "Invalid ID");
+
+// Fields shared by every content type
+const baseContentSchema = z.object({
+  title: z.string().min(3, "Content title must be at least 3 characters"),
+  description: z.string().optional(),
+  order: z.number().int().min(0).optional(),
+  isPreview: z.boolean().optional(),
+  isLocked: z.boolean().optional(),
+  unlockConditions: z
+    .object({
+      requiredContents: z.array(objectIdSchema).optional(),
+      requiredQuizScore: z.number().min(0).max(100).optional(),
+      requiredQuizzes: z.array(objectIdSchema).optional(),
+    })
+    .optional(),
+  release: releaseSchema.optional(),
+  resources: z.array(objectIdSchema).optional(),
+  allowComments: z.boolean().optional(),
+  isPublished: z.boolean().optional(),
+  slug: z
+    .string()
+    .regex(
+      /^[a-z0-9-]+$/,
+      "Slug must contain only lowercase letters, numbers, and hyphens"
+    )
+    .optional(),
+  metaDescription: z.string().max(160).optional(),
+});
+
+const videoContentSchema = baseContentSchema.extend({
+  type: z.literal("video"),
+  videoUrl: z.url("Video URL must be a valid URL"),
+  videoProvider: z.enum(["youtube", "vimeo", "aws", "local"]).optional(),
+  duration: z.number().min(0).optional(), // seconds
+  transcript: z.string().optional(),
+  thumbnailUrl: z.url().optional(),
+  videoQuality: z.array(z.string().min(1)).optional(),
+  completionThreshold: z.number().min(1).max(100).optional(), // % watched
+});
+
+const textContentSchema = baseContentSchema.extend({
+  type: z.literal("text"),
+  textContent: z.string().min(1, "Text content is required"),
+  estimatedReadTime: z.number().min(0).optional(), // minutes
+});
+
+const quizContentSchema = baseContentSchema.extend({
+  type: z.literal("quiz"),
+  quiz: objectIdSchema.optional(),
+});
+
+const assignmentContentSchema = baseContentSchema.extend({
+  type: z.literal("assignment"),
+  assignmentInstructions: z
+    .string()
+    .min(10, "Assignment instructions must be at least 10 characters"),
+  submissionFormat: z.array(z.string().min(1).toLowerCase()).optional(),
+  maxFileSize: z.number().positive().optional(), // MB
+  dueDate: z.coerce.date().optional(),
+  gradingRubric: z
+    .array(
+      z.object({
+        criteria: z.string().min(1, "Rubric criteria is required"),
+        maxPoints: z.number().min(0),
+        description: z.string().optional(),
+      })
+    )
+    .min(1, "Assignment must have at least 1 rubric criterion")
+    .optional(),
+  allowLateSubmissions: z.boolean().optional(),
+  maxSubmissions: z.number().int().min(1).optional(),
+  passingScore: z.number().min(0).max(100).optional(), // percentage
+  weight: z.number().min(0).optional(),
+  gradingCategory: z.string().trim().min(1).max(50).optional(),
+  peerReview: z
+    .object({
+      enabled: z.boolean(),
+      reviewersPerSubmission: z.number().int().min(1).max(10).default(3),
+      reviewWindowDays: z.number().int().min(1).max(60).default(7),
+    })
+    .optional(),
+});
+
+const resourceContentSchema = baseContentSchema.extend({
+  type: z.literal("resource"),
+  resources: z
+    .array(objectIdSchema)
+    .min(1, "Resource content must reference at least 1 resource"),
+});
+
+const liveSessionContentSchema = baseContentSchema.extend({
+  type: z.literal("live-session"),
+  sessionDate: z.coerce.date(),
+  sessionDuration: z.number().min(0).optional(), // minutes
+  meetingUrl: z.url().optional(),
+  recordingUrl: z.url().optional(),
+});
+
+const discussionContentSchema = baseContentSchema.extend({
+  type: z.literal("discussion"),
+  discussionThread: objectIdSchema.optional(),
+});
+
+/**
+ * Hosted providers must match the URL, other providers must be given explicitly
+ */
+function checkVideoProvider(
+  data: { videoUrl?: string; videoProvider?: string },
+  ctx: z.RefinementCtx
+) {
+  if (!data.videoUrl) return;
+
+  const videoInfo = extractVideoInfo(data.videoUrl);
+  if (videoInfo) {
+    if (data.videoProvider && data.videoProvider !== videoInfo.provider) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["videoProvider"],
+        message: `Video URL belongs to ${videoInfo.provider}`,
+      });
+    }
+    return;
+  }
+
+  if (!data.videoProvider) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["videoProvider"],
+      message: "Video provider is required for non YouTube/Vimeo URLs",
+    });
+  } else if (
+    data.videoProvider === "youtube" ||
+    data.videoProvider === "vimeo"
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["videoUrl"],
+      message: `Could not extract a ${data.videoProvider} video ID from URL`,
+    });
+  }
+}
+
+// Create Content Validation
+export const createContentSchema = z
+  .discriminatedUnion("type", [
+    videoContentSchema,
+    textContentSchema,
+    quizContentSchema,
+    assignmentContentSchema,
+    resourceContentSchema,
+    liveSessionContentSchema,
+    discussionContentSchema,
+  ])
+  .superRefine((data, ctx) => {
+    if (data.type === "video") checkVideoProvider(data, ctx);
+    if (
+      data.type === "assignment" &&
+      data.peerReview?.enabled &&
+      !data.dueDate
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["dueDate"],
+        message: "Peer review needs a due date to start reviews",
+      });
+    }
+  });
+
+// Update Content Validation (partial, per content type - type cannot change)
+export const updateContentSchemas = {
+  video: videoContentSchema
+    .omit({ type: true, order: true })
+    .partial()
+    .superRefine(checkVideoProvider),
+  text: textContentSchema.omit({ type: true, order: true }).partial(),
+  quiz: quizContentSchema.omit({ type: true, order: true }).partial(),
+  assignment: assignmentContentSchema
+    .omit({ type: true, order: true })
+    .partial(),
+  resource: resourceContentSchema.omit({ type: true, order: true }).partial(),
+  "live-session": liveSessionContentSchema
+    .omit({ type: true, order: true })
+    .partial(),
+  discussion: discussionContentSchema
+    .omit({ type: true, order: true })
+    .partial(),
+  // SCORM lessons come from imported packages, their package is read-only
+  scorm: baseContentSchema.omit({ order: true }).partial(),
+};
+
+// Move Content Validation - to another module and/or position
+export const moveContentSchema = z.object({
+  targetModuleId: objectIdSchema,
+  order: z.number().int().min(0).optional(),
+});
+
+export type ICreateContent = z.infer<typeof createContentSchema>;
+export type IUpdateContent = z.infer<
+  (typeof updateContentSchemas)[keyof typeof updateContentSchemas]
+>;
+export type IMoveContent = z.infer<typeof moveContentSchema>;
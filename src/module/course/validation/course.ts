@@ -1,66 +1,42 @@
 import { z } from "zod";
 
-// Quiz Question Validation
-const quizQuestionSchema = z.object({
-  question: z.string().min(10, "Question must be at least 10 characters"),
-  type: z.enum(["multiple-choice", "true-false", "fill-blank", "code-review"]),
-  options: z.array(z.string()).optional(),
-  correctAnswer: z.union([z.string(), z.array(z.string())]),
-  explanation: z.string().optional(),
-  points: z.number().min(1).default(1),
-  order: z.number().min(0),
-});
-
-// Quiz Validation
-const quizSchema = z.object({
-  title: z.string().min(3, "Quiz title must be at least 3 characters"),
-  description: z.string().optional(),
-  questions: z
-    .array(quizQuestionSchema)
-    .min(1, "Quiz must have at least 1 question"),
-  timeLimit: z.number().min(1).optional(), // minutes
-  passingScore: z.number().min(0).max(100).default(70),
-  maxAttempts: z.number().min(1).default(3),
-  showAnswers: z.boolean().default(true),
-  order: z.number().min(0).optional(),
-  isRequired: z.boolean().default(false),
-});
-
-// Course Content Validation
-const courseContentSchema = z.object({
-  title: z.string().min(3, "Content title must be at least 3 characters"),
-  description: z.string().optional(),
-  type: z.enum(["video", "text", "quiz", "assignment", "resource"]),
-  order: z.number().min(0),
-  duration: z.number().min(0).optional(), // seconds
-  videoUrl: z.string().url().optional(),
-  videoId: z.string().optional(),
-  transcript: z.string().optional(),
-  textContent: z.string().optional(),
-  quiz: quizSchema.optional(),
-  resources: z
-    .array(
-      z.object({
-        title: z.string().min(1),
-        url: z.string().url(),
-        type: z.enum(["pdf", "zip", "link", "other"]).default("link"),
-      })
-    )
-    .optional(),
-  isPreview: z.boolean().default(false),
-});
-
-// Course Module Validation
-const courseModuleSchema = z.object({
-  title: z.string().min(3, "Module title must be at least 3 characters"),
-  description: z.string().optional(),
-  order: z.number().min(0),
-  contents: z
-    .array(courseContentSchema)
-    .min(1, "Module must have at least 1 content item"),
-  quiz: quizSchema.optional(),
-  estimatedDuration: z.number().min(0).optional(),
-});
+// Gradebook Policy Validation - category weights are relative, grade bands
+// are matched from the highest minimum score down
+export const gradingPolicySchema = z
+  .object({
+    categories: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(50),
+          weight: z.number().min(0),
+          dropLowest: z.number().int().min(0).default(0),
+        })
+      )
+      .default([]),
+    gradeBands: z
+      .array(
+        z.object({
+          letter: z.string().trim().min(1).max(5),
+          minScore: z.number().min(0).max(100),
+        })
+      )
+      .default([]),
+  })
+  .refine(
+    (policy) =>
+      new Set(policy.categories.map((c) => c.name.toLowerCase())).size ===
+      policy.categories.length,
+    { message: "Category names must be unique", path: ["categories"] }
+  )
+  .refine(
+    (policy) =>
+      new Set(policy.gradeBands.map((band) => band.minScore)).size ===
+      policy.gradeBands.length,
+    {
+      message: "Grade bands need distinct minimum scores",
+      path: ["gradeBands"],
+    }
+  );
 
 // Create Course Validation
 export const createCourseSchema = z.object({
@@ -94,10 +70,6 @@ export const createCourseSchema = z.object({
   currency: z.string().default("USD"),
   isFree: z.boolean().default(false),
 
-  modules: z
-    .array(courseModuleSchema)
-    .min(1, "Course must have at least 1 module"),
-
   whatYouWillLearn: z
     .array(z.string().min(1))
     .min(1, "Must specify at least 1 learning outcome"),
@@ -109,7 +81,8 @@ export const createCourseSchema = z.object({
   allowComments: z.boolean().default(true),
   allowDownloads: z.boolean().default(true),
   certificate: z.boolean().default(false),
-  certificateTemplate: z.string().optional(),
+  certificateTemplate: z.enum(["classic", "modern"]).optional(),
+  gradingPolicy: gradingPolicySchema.optional(),
 
   metaTitle: z.string().max(160).optional(),
   metaDescription: z.string().max(300).optional(),
@@ -211,6 +184,70 @@ export const bulkCourseUpdateSchema = z.object({
   value: z.any().optional(), // for operations that need additional data
 });
 
+// Course Duplication Validation - questions are shared with the source or
+// copied, and scheduled dates kept, shifted by a number of days, or cleared
+export const duplicateCourseSchema = z
+  .object({
+    title: z
+      .string()
+      .min(3, "Course title must be at least 3 characters")
+      .optional(),
+    questions: z.enum(["share", "copy"]).default("copy"),
+    dates: z.enum(["keep", "shift", "clear"]).default("keep"),
+    shiftDays: z.number().int().optional(),
+  })
+  .refine((data) => data.dates !== "shift" || data.shiftDays !== undefined, {
+    message: "Number of days to shift dates by is required",
+    path: ["shiftDays"],
+  });
+
+// Course Template Validation (Admin)
+export const courseTemplateSchema = z.object({
+  isTemplate: z.boolean(),
+});
+
+// Template Gallery Validation
+export const courseTemplateQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+  search: z.string().trim().optional(),
+  category: z.string().optional(),
+});
+
+// Course Import Validation - multipart form fields that override the
+// imported course's; a SCORM package has no category or thumbnail of its own
+export const importCourseSchema = z.object({
+  title: z
+    .string()
+    .min(3, "Course title must be at least 3 characters")
+    .optional(),
+  description: z.string().min(1).optional(),
+  shortDescription: z.string().min(1).max(200).optional(),
+  thumbnail: z.string().url("Thumbnail must be a valid URL").optional(),
+  category: z.string().min(1).optional(),
+  level: z
+    .enum(["beginner", "intermediate", "advanced", "all-levels"])
+    .optional(),
+});
+
+// Course Archive Validation - course.json of an exported course. Documents
+// keep their ids so the references between them can be remapped on import.
+const archivedDocumentSchema = z.looseObject({
+  _id: z.string().length(24, "Invalid ID"),
+});
+
+export const courseArchiveSchema = z.object({
+  format: z.literal("hexonest-course"),
+  version: z.number().int().min(1),
+  exportedAt: z.string().optional(),
+  course: archivedDocumentSchema,
+  modules: z.array(archivedDocumentSchema).default([]),
+  contents: z.array(archivedDocumentSchema).default([]),
+  quizzes: z.array(archivedDocumentSchema).default([]),
+  questions: z.array(archivedDocumentSchema).default([]),
+  resources: z.array(archivedDocumentSchema).default([]),
+});
+
 // Export type definitions
 export type ICreateCourse = z.infer<typeof createCourseSchema>;
 export type IUpdateCourse = z.infer<typeof updateCourseSchema>;
@@ -222,13 +259,10 @@ export type IMarkHelpful = z.infer<typeof markHelpfulSchema>;
 export type ICourseSearch = z.infer<typeof courseSearchSchema>;
 export type ICourseAnalytics = z.infer<typeof courseAnalyticsSchema>;
 export type IBulkCourseUpdate = z.infer<typeof bulkCourseUpdateSchema>;
-
-// Export individual schemas for reuse
-export {
-  quizQuestionSchema,
-  quizSchema,
-  courseContentSchema,
-  courseModuleSchema,
-};
+export type IDuplicateCourse = z.infer<typeof duplicateCourseSchema>;
+export type ICourseTemplate = z.infer<typeof courseTemplateSchema>;
+export type ICourseTemplateQuery = z.infer<typeof courseTemplateQuerySchema>;
+export type IImportCourse = z.infer<typeof importCourseSchema>;
+export type ICourseArchive = z.infer<typeof courseArchiveSchema>;
 
 export default createCourseSchema;
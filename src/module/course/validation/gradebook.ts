@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+// Gradebook Matrix Validation - a page of enrolled students
+export const gradebookQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type IGradebookQuery = z.infer<typeof gradebookQuerySchema>;
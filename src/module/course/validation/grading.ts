@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+const objectIdSchema = z.string().length(24, "Invalid ID");
+
+// Grading Queue Validation
+export const gradingQueueSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  course: objectIdSchema.optional(),
+  quiz: objectIdSchema.optional(),
+});
+
+// Grade Answer Validation - score per rubric criterion, or points directly
+// for questions without a rubric
+export const gradeAnswerSchema = z
+  .object({
+    rubricScores: z
+      .array(
+        z.object({
+          criteria: z.string().min(1),
+          points: z.number().min(0),
+        })
+      )
+      .min(1)
+      .optional(),
+    points: z.number().min(0).optional(),
+    comments: z.string().max(5000).optional(),
+  })
+  .refine(
+    (data) => (data.rubricScores === undefined) !== (data.points === undefined),
+    {
+      message: "Provide either rubric scores or points",
+    }
+  );
+
+// Complete Grading Validation
+export const completeGradingSchema = z.object({
+  feedback: z.string().max(5000).optional(),
+  instructorComments: z.string().max(5000).optional(),
+});
+
+export type IGradingQueue = z.infer<typeof gradingQueueSchema>;
+export type IGradeAnswer = z.infer<typeof gradeAnswerSchema>;
+export type ICompleteGrading = z.infer<typeof completeGradingSchema>;
@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+const objectIdSchema = z.string().length(24, "Invalid ID");
+
+// A course of the path, in track order
+const stepSchema = z.object({
+  course: objectIdSchema,
+  isRequired: z.boolean().optional(),
+  prerequisites: z.array(objectIdSchema).optional(), // courses of earlier steps
+});
+
+// Courses appear once, and prerequisites point back to earlier steps
+const stepsSchema = z
+  .array(stepSchema)
+  .min(1, "A learning path needs at least 1 course")
+  .superRefine((steps, ctx) => {
+    steps.forEach((step, index) => {
+      const earlier = steps.slice(0, index).map((other) => other.course);
+      if (earlier.includes(step.course)) {
+        ctx.addIssue({
+          code: "custom",
+          path: [index, "course"],
+          message: "Course is already part of this learning path",
+        });
+      }
+      step.prerequisites?.forEach((prerequisite, prerequisiteIndex) => {
+        if (!earlier.includes(prerequisite)) {
+          ctx.addIssue({
+            code: "custom",
+            path: [index, "prerequisites", prerequisiteIndex],
+            message: "Prerequisites must be courses of earlier steps",
+          });
+        }
+      });
+    });
+  });
+
+// Create Learning Path Validation
+export const createLearningPathSchema = z.object({
+  title: z.string().min(3, "Title must be at least 3 characters").max(200),
+  description: z.string().min(10, "Description must be at least 10 characters"),
+  shortDescription: z.string().max(500).optional(),
+  thumbnail: z.string().url().optional(),
+  status: z.enum(["draft", "published", "archived", "coming-soon"]).optional(),
+  steps: stepsSchema,
+  price: z.number().min(0).optional(),
+  currency: z.string().length(3).optional(),
+  isFree: z.boolean().optional(),
+  certificate: z.boolean().optional(),
+  certificateTemplate: z.enum(["classic", "modern"]).optional(),
+});
+
+// Update Learning Path Validation - steps are replaced as a whole
+export const updateLearningPathSchema = createLearningPathSchema.partial();
+
+// Learning Path Listing Validation
+export const learningPathQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+  search: z.string().trim().optional(),
+});
+
+export type ICreateLearningPath = z.infer<typeof createLearningPathSchema>;
+export type IUpdateLearningPath = z.infer<typeof updateLearningPathSchema>;
+export type ILearningPathQuery = z.infer<typeof learningPathQuerySchema>;
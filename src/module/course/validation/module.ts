@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+const objectIdSchema = z.string().length(24, "Invalid ID");
+
+// Module unlock conditions
+const unlockConditionsSchema = z.object({
+  requiredModules: z.array(objectIdSchema).optional(),
+  minimumProgress: z.number().min(0).max(100).optional(),
+  requiredQuizScore: z.number().min(0).max(100).optional(),
+});
+
+// Drip release - immediately, on a date, or days after enrollment/start
+export const releaseSchema = z
+  .object({
+    trigger: z.enum(["immediate", "date", "enrollment", "start"]),
+    date: z.coerce.date().optional(),
+    days: z.number().int().min(0).optional(),
+  })
+  .superRefine((release, ctx) => {
+    if (release.trigger === "date" && !release.date) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["date"],
+        message: "Release date is required",
+      });
+    }
+    if (
+      (release.trigger === "enrollment" || release.trigger === "start") &&
+      release.days === undefined
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["days"],
+        message: "Number of days is required",
+      });
+    }
+  });
+
+// Module completion requirements
+const completionRequirementsSchema = z.object({
+  requireAllContents: z.boolean().optional(),
+  requiredContentPercentage: z.number().min(0).max(100).optional(),
+  requireQuizPass: z.boolean().optional(),
+  minimumQuizScore: z.number().min(0).max(100).optional(),
+});
+
+// Create Module Validation
+// Defaults are left to the Mongoose schema so partial updates never reset fields
+export const createModuleSchema = z.object({
+  title: z.string().min(3, "Module title must be at least 3 characters"),
+  description: z.string().optional(),
+  order: z.number().int().min(0).optional(),
+  learningObjectives: z.array(z.string().min(1)).optional(),
+  estimatedDuration: z.number().min(0).optional(), // minutes
+  isLocked: z.boolean().optional(),
+  unlockConditions: unlockConditionsSchema.optional(),
+  release: releaseSchema.optional(),
+  isRequired: z.boolean().optional(),
+  completionRequirements: completionRequirementsSchema.optional(),
+  isPublished: z.boolean().optional(),
+  slug: z
+    .string()
+    .regex(
+      /^[a-z0-9-]+$/,
+      "Slug must contain only lowercase letters, numbers, and hyphens"
+    )
+    .optional(),
+  category: z.string().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+});
+
+// Update Module Validation (partial, order is changed through reorder)
+export const updateModuleSchema = createModuleSchema
+  .omit({ order: true })
+  .partial();
+
+// Reorder Modules Validation - full list of module IDs in their new order
+export const reorderModulesSchema = z.object({
+  moduleIds: z
+    .array(objectIdSchema)
+    .min(1, "Must provide at least 1 module")
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Module IDs must be unique",
+    }),
+});
+
+export type ICreateModule = z.infer<typeof createModuleSchema>;
+export type IUpdateModule = z.infer<typeof updateModuleSchema>;
+export type IReorderModules = z.infer<typeof reorderModulesSchema>;
@@ -0,0 +1,287 @@
+import { z } from "zod";
+
+const optionIdSchema = z.string().min(1).optional();
+
+// Fields shared by every question type
+const baseQuestionSchema = z.object({
+  question: z.string().min(1, "Question text is required"),
+  explanation: z.string().optional(),
+  points: z.number().min(0).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  difficulty: z.enum(["easy", "medium", "hard"]).optional(),
+  estimatedTime: z.number().min(0).optional(), // seconds
+  mediaUrl: z.url("Media URL must be a valid URL").optional(),
+  mediaType: z.enum(["image", "video", "audio"]).optional(),
+  category: z.string().optional(),
+  isPublic: z.boolean().optional(),
+});
+
+const choiceOptionSchema = z.object({
+  id: optionIdSchema,
+  text: z.string().min(1, "Option text is required"),
+  isCorrect: z.boolean(),
+  explanation: z.string().optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+const multipleChoiceQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("multiple-choice"),
+  options: z.array(choiceOptionSchema).min(2, "At least 2 options required"),
+  allowPartialCredit: z.boolean().optional(),
+});
+
+const singleChoiceQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("single-choice"),
+  options: z.array(choiceOptionSchema).min(2, "At least 2 options required"),
+});
+
+const trueFalseQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("true-false"),
+  correctAnswer: z.boolean(),
+});
+
+const fillBlankQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("fill-blank"),
+  questionText: z.string().min(1, "Question text with blanks is required"),
+  blanks: z
+    .array(
+      z.object({
+        id: optionIdSchema,
+        correctAnswers: z
+          .array(z.string().min(1))
+          .min(1, "Each blank needs at least 1 accepted answer"),
+        caseSensitive: z.boolean().optional(),
+        exactMatch: z.boolean().optional(),
+        position: z.number().int().min(0).optional(),
+      })
+    )
+    .min(1, "At least 1 blank required"),
+});
+
+const essayQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("essay"),
+  minWords: z.number().int().min(0).optional(),
+  maxWords: z.number().int().min(1).optional(),
+  rubric: z
+    .array(
+      z.object({
+        criteria: z.string().min(1, "Rubric criteria is required"),
+        points: z.number().min(0),
+        description: z.string().optional(),
+      })
+    )
+    .optional(),
+  autoGrade: z.boolean().optional(),
+});
+
+const codeReviewQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("code-review"),
+  codeSnippet: z.string().min(1, "Code snippet is required"),
+  language: z.string().min(1, "Language is required"),
+  correctAnswer: z.string().optional(),
+  testCases: z
+    .array(
+      z.object({
+        input: z.string(),
+        expectedOutput: z.string(),
+        description: z.string().optional(),
+      })
+    )
+    .optional(),
+  allowedLanguages: z.array(z.string().min(1)).optional(),
+});
+
+const matchingColumnSchema = z
+  .array(
+    z.object({
+      id: z.string().min(1),
+      text: z.string().min(1),
+      mediaUrl: z.url().optional(),
+    })
+  )
+  .min(2, "At least 2 items required in each column");
+
+const matchingQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("matching"),
+  leftColumn: matchingColumnSchema,
+  rightColumn: matchingColumnSchema,
+  correctMatches: z
+    .array(z.object({ leftId: z.string().min(1), rightId: z.string().min(1) }))
+    .min(1, "At least 1 match required"),
+});
+
+const orderingQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("ordering"),
+  items: z
+    .array(
+      z.object({
+        id: optionIdSchema,
+        text: z.string().min(1),
+        correctOrder: z.number().int().min(0),
+      })
+    )
+    .min(2, "At least 2 items required"),
+});
+
+const numericQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("numeric"),
+  correctAnswer: z.number(),
+  tolerance: z.number().min(0).optional(),
+  unit: z.string().optional(),
+  format: z.enum(["integer", "decimal", "scientific"]).optional(),
+});
+
+/**
+ * Cross-field checks on answers (correct options, matches, ordering)
+ */
+function checkQuestionAnswers(data: any, ctx: z.RefinementCtx) {
+  if (data.options) {
+    const correctCount = data.options.filter((o: any) => o.isCorrect).length;
+    if (data.type === "single-choice" && correctCount !== 1) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Single choice questions need exactly 1 correct option",
+        path: ["options"],
+      });
+    }
+    if (data.type === "multiple-choice" && correctCount < 1) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Multiple choice questions need at least 1 correct option",
+        path: ["options"],
+      });
+    }
+  }
+
+  if (
+    data.minWords !== undefined &&
+    data.maxWords !== undefined &&
+    data.minWords > data.maxWords
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Minimum words cannot exceed maximum words",
+      path: ["minWords"],
+    });
+  }
+
+  if (data.correctMatches && data.leftColumn && data.rightColumn) {
+    const leftIds = new Set(data.leftColumn.map((item: any) => item.id));
+    const rightIds = new Set(data.rightColumn.map((item: any) => item.id));
+    const unknownMatch = data.correctMatches.some(
+      (match: any) => !leftIds.has(match.leftId) || !rightIds.has(match.rightId)
+    );
+    if (unknownMatch) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Matches must reference items in the left and right columns",
+        path: ["correctMatches"],
+      });
+    }
+  }
+
+  if (data.items) {
+    const orders = data.items.map((item: any) => item.correctOrder);
+    if (new Set(orders).size !== orders.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Each item must have a distinct correct order",
+        path: ["items"],
+      });
+    }
+  }
+}
+
+// Create Question Validation - fields are validated against the question type
+export const createQuestionSchema = z
+  .discriminatedUnion("type", [
+    multipleChoiceQuestionSchema,
+    singleChoiceQuestionSchema,
+    trueFalseQuestionSchema,
+    fillBlankQuestionSchema,
+    essayQuestionSchema,
+    codeReviewQuestionSchema,
+    matchingQuestionSchema,
+    orderingQuestionSchema,
+    numericQuestionSchema,
+  ])
+  .superRefine(checkQuestionAnswers);
+
+// Update Question Validation (partial, per question type - type cannot change)
+// The merged question is validated again with createQuestionSchema
+export const updateQuestionSchemas = {
+  "multiple-choice": multipleChoiceQuestionSchema
+    .omit({ type: true })
+    .partial(),
+  "single-choice": singleChoiceQuestionSchema.omit({ type: true }).partial(),
+  "true-false": trueFalseQuestionSchema.omit({ type: true }).partial(),
+  "fill-blank": fillBlankQuestionSchema.omit({ type: true }).partial(),
+  essay: essayQuestionSchema.omit({ type: true }).partial(),
+  "code-review": codeReviewQuestionSchema.omit({ type: true }).partial(),
+  matching: matchingQuestionSchema.omit({ type: true }).partial(),
+  ordering: orderingQuestionSchema.omit({ type: true }).partial(),
+  numeric: numericQuestionSchema.omit({ type: true }).partial(),
+};
+
+// Comma separated tags, e.g. ?tags=algebra,week-1
+const tagListSchema = z.string().transform((tags) =>
+  tags
+    .split(",")
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+// Booleans sent as multipart form fields arrive as strings
+const formBooleanSchema = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((value) => value === "true"),
+]);
+
+// Question Bank Search Validation
+export const questionSearchSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  search: z.string().optional(),
+  tags: tagListSchema.optional(),
+  difficulty: z.enum(["easy", "medium", "hard"]).optional(),
+  type: z
+    .enum([
+      "multiple-choice",
+      "single-choice",
+      "true-false",
+      "fill-blank",
+      "essay",
+      "code-review",
+      "matching",
+      "ordering",
+      "numeric",
+    ])
+    .optional(),
+  category: z.string().optional(),
+  scope: z.enum(["all", "mine", "public"]).default("all"),
+});
+
+export const questionFormatSchema = z.enum(["gift", "aiken", "qti"]);
+
+// Import Questions Validation - the file comes as an upload or as content
+export const importQuestionsSchema = z.object({
+  format: questionFormatSchema,
+  content: z.string().optional(),
+  category: z.string().optional(), // for questions that do not set one
+  tags: tagListSchema.optional(),
+  isPublic: formBooleanSchema.optional(),
+  dryRun: formBooleanSchema.optional(), // report without saving
+});
+
+// Export Questions Validation - question bank filters plus the format
+export const exportQuestionsSchema = questionSearchSchema
+  .omit({ page: true, limit: true })
+  .extend({ format: questionFormatSchema });
+
+export type ICreateQuestion = z.infer<typeof createQuestionSchema>;
+export type IUpdateQuestion = z.infer<
+  (typeof updateQuestionSchemas)[keyof typeof updateQuestionSchemas]
+>;
+export type IQuestionSearch = z.infer<typeof questionSearchSchema>;
+export type IImportQuestions = z.infer<typeof importQuestionsSchema>;
+export type IExportQuestions = z.infer<typeof exportQuestionsSchema>;
@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { createQuestionSchema, questionFormatSchema } from "./question";
+
+const objectIdSchema = z.string().length(24, "Invalid ID");
+
+// Quiz fields
+const quizFieldsSchema = z.object({
+  title: z.string().min(3, "Quiz title must be at least 3 characters"),
+  description: z.string().optional(),
+  instructions: z.string().optional(),
+
+  // Placement - course level when neither is given
+  module: objectIdSchema.optional(),
+  content: objectIdSchema.optional(),
+
+  // Settings
+  timeLimit: z.number().int().min(0).optional(), // minutes
+  passingScore: z.number().min(0).max(100).optional(),
+  maxAttempts: z.number().int().min(1).optional(),
+  showAnswers: z.boolean().optional(),
+  shuffleQuestions: z.boolean().optional(),
+  shuffleOptions: z.boolean().optional(),
+  showProgress: z.boolean().optional(),
+  allowReview: z.boolean().optional(),
+  allowSkip: z.boolean().optional(),
+
+  // Scheduling
+  availableFrom: z.coerce.date().optional(),
+  availableUntil: z.coerce.date().optional(),
+
+  // Grading
+  autoGrade: z.boolean().optional(),
+  immediateResults: z.boolean().optional(),
+  gradingMethod: z.enum(["highest", "latest", "average"]).optional(),
+  isRequired: z.boolean().optional(),
+  weight: z.number().min(0).optional(),
+  gradingCategory: z.string().trim().min(1).max(50).optional(),
+
+  prerequisites: z
+    .object({
+      requiredContents: z.array(objectIdSchema).optional(),
+      requiredQuizzes: z.array(objectIdSchema).optional(),
+      minimumScore: z.number().min(0).max(100).optional(),
+    })
+    .optional(),
+
+  preventCheating: z
+    .object({
+      randomizeQuestions: z.boolean().optional(),
+      randomizeOptions: z.boolean().optional(),
+      disableRightClick: z.boolean().optional(),
+      lockdownBrowser: z.boolean().optional(),
+      webcamRequired: z.boolean().optional(),
+    })
+    .optional(),
+
+  isPublished: z.boolean().optional(),
+});
+
+/**
+ * Availability window must open before it closes
+ */
+function checkAvailability(
+  data: { availableFrom?: Date; availableUntil?: Date },
+  ctx: z.RefinementCtx
+) {
+  if (
+    data.availableFrom &&
+    data.availableUntil &&
+    data.availableFrom >= data.availableUntil
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["availableUntil"],
+      message: "Available until must be after available from",
+    });
+  }
+}
+
+// Create Quiz Validation
+export const createQuizSchema = quizFieldsSchema.superRefine(checkAvailability);
+
+// Update Quiz Validation (partial, placement cannot change)
+export const updateQuizSchema = quizFieldsSchema
+  .omit({ module: true, content: true })
+  .partial()
+  .superRefine(checkAvailability);
+
+// Add Quiz Question Validation - attach an existing question or create one
+export const addQuizQuestionSchema = z
+  .object({
+    questionId: objectIdSchema.optional(),
+    question: createQuestionSchema.optional(),
+    weight: z.number().min(0).optional(),
+    order: z.number().int().min(0).optional(),
+  })
+  .refine((data) => !!data.questionId !== !!data.question, {
+    message: "Provide either an existing question ID or a new question",
+  });
+
+// Update Quiz Question Validation
+export const updateQuizQuestionSchema = z.object({
+  weight: z.number().min(0),
+});
+
+// Reorder Quiz Questions Validation - full list of question IDs in their new order
+export const reorderQuizQuestionsSchema = z.object({
+  questionIds: z
+    .array(objectIdSchema)
+    .min(1, "Must provide at least 1 question")
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Question IDs must be unique",
+    }),
+});
+
+// Seconds spent on each question since the last save, keyed by question ID
+const questionTimesSchema = z.record(
+  objectIdSchema,
+  z
+    .number()
+    .min(0)
+    .max(24 * 60 * 60)
+);
+
+// Save Quiz Answers Validation - answers keyed by question ID
+export const saveQuizAnswersSchema = z.object({
+  answers: z.record(objectIdSchema, z.unknown()),
+  timeSpent: questionTimesSchema.optional(),
+});
+
+// Submit Quiz Attempt Validation - last answers can be sent with the submit
+export const submitQuizAttemptSchema = z.object({
+  answers: z.record(objectIdSchema, z.unknown()).optional(),
+  timeSpent: questionTimesSchema.optional(),
+});
+
+// Export Quiz Validation
+export const exportQuizSchema = z.object({
+  format: questionFormatSchema,
+});
+
+export type ICreateQuiz = z.infer<typeof createQuizSchema>;
+export type IUpdateQuiz = z.infer<typeof updateQuizSchema>;
+export type IAddQuizQuestion = z.infer<typeof addQuizQuestionSchema>;
+export type IReorderQuizQuestions = z.infer<typeof reorderQuizQuestionsSchema>;
+export type ISaveQuizAnswers = z.infer<typeof saveQuizAnswersSchema>;
@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+// SCOs report every value as a string and leave unset values empty
+const cmiDecimalSchema = z.preprocess(
+  (value) => (value === "" ? undefined : value),
+  z.coerce.number().min(0).max(100).optional()
+);
+
+// SCORM Runtime Commit Validation - the SCORM 1.2 cmi data model, nested by
+// its element names since dotted keys are stripped from request bodies
+export const scormCommitSchema = z.object({
+  cmi: z.object({
+    core: z
+      .object({
+        lesson_status: z
+          .enum(["passed", "completed", "failed", "incomplete", "browsed"])
+          .optional(),
+        lesson_location: z.string().max(255).optional(),
+        score: z
+          .object({
+            raw: cmiDecimalSchema,
+            min: cmiDecimalSchema,
+            max: cmiDecimalSchema,
+          })
+          .optional(),
+        session_time: z
+          .string()
+          .regex(
+            /^\d{2,4}:\d{2}:\d{2}(\.\d{1,2})?$/,
+            "Session time must be a CMITimespan (HHHH:MM:SS.SS)"
+          )
+          .optional(),
+        exit: z.enum(["time-out", "suspend", "logout", ""]).optional(),
+      })
+      .default({}),
+    suspend_data: z.string().max(4096).optional(),
+  }),
+});
+
+export type IScormCommit = z.infer<typeof scormCommitSchema>;
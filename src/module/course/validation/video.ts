@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+const segmentSchema = z
+  .object({
+    start: z.number().min(0), // seconds
+    end: z.number().min(0),
+  })
+  .refine((segment) => segment.end >= segment.start, {
+    message: "Segment end must not be before its start",
+    path: ["end"],
+  });
+
+// Video Heartbeat Validation - ranges watched since the last heartbeat and
+// the current playback position
+export const videoHeartbeatSchema = z.object({
+  position: z.number().min(0), // seconds
+  segments: z.array(segmentSchema).max(50).default([]),
+  playbackSpeed: z.number().min(0.5).max(3).optional(),
+});
+
+// Video Analytics Validation - resolution of the drop-off curve
+export const videoAnalyticsSchema = z.object({
+  buckets: z.coerce.number().int().min(5).max(100).default(20),
+});
+
+export type IVideoHeartbeat = z.infer<typeof videoHeartbeatSchema>;
+export type IVideoAnalytics = z.infer<typeof videoAnalyticsSchema>;
@@ -0,0 +1,47 @@
+import { Section, Text, Link } from "@react-email/components";
+import { EmailLayout } from "./layout";
+
+export const ContentReleasedEmail = ({
+  name,
+  courseTitle,
+  titles,
+  courseUrl,
+}: {
+  name: string;
+  courseTitle: string;
+  titles: string[];
+  courseUrl: string;
+}) => {
+  const preview = `New material is available in ${courseTitle}`;
+
+  return (
+    <EmailLayout preview={preview}>
+      <Section>
+        <Text>Hi {name},</Text>
+        <Text style={{ marginTop: 8 }}>
+          New material just unlocked in {courseTitle}:
+        </Text>
+        {titles.map((title) => (
+          <Text key={title} style={{ margin: "4px 0" }}>
+            • {title}
+          </Text>
+        ))}
+
+        <Link
+          href={courseUrl}
+          style={{
+            background: "#2563eb",
+            color: "#fff",
+            padding: "12px 20px",
+            borderRadius: "6px",
+            textDecoration: "none",
+          }}
+        >
+          Continue Learning
+        </Link>
+      </Section>
+    </EmailLayout>
+  );
+};
+
+export default ContentReleasedEmail;
@@ -0,0 +1,59 @@
+import { Heading, Section, Text, Link } from "@react-email/components";
+import { EmailLayout } from "./layout";
+
+export const QuizGradedEmail = ({
+  name,
+  quizTitle,
+  courseTitle,
+  score,
+  passed,
+  resultsUrl,
+}: {
+  name: string;
+  quizTitle: string;
+  courseTitle: string;
+  score: number;
+  passed: boolean;
+  resultsUrl: string;
+}) => {
+  const preview = `Your "${quizTitle}" quiz has been graded`;
+
+  return (
+    <EmailLayout preview={preview}>
+      <Section>
+        <Text>Hi {name},</Text>
+        <Text style={{ marginTop: 8 }}>
+          Your instructor has finished grading your attempt at "{quizTitle}" in{" "}
+          {courseTitle}.
+        </Text>
+        <Heading
+          as="h3"
+          style={{
+            fontSize: 18,
+            color: passed ? "#16a34a" : "#dc2626",
+            fontWeight: 600,
+            marginTop: 8,
+            marginBottom: 8,
+          }}
+        >
+          {score}% - {passed ? "PASSED" : "NOT PASSED"}
+        </Heading>
+
+        <Link
+          href={resultsUrl}
+          style={{
+            background: "#2563eb",
+            color: "#fff",
+            padding: "12px 20px",
+            borderRadius: "6px",
+            textDecoration: "none",
+          }}
+        >
+          View Feedback
+        </Link>
+      </Section>
+    </EmailLayout>
+  );
+};
+
+export default QuizGradedEmail;
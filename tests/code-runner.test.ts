@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  resolveLanguage,
+  runTestCases,
+  RunLimits,
+} from "../src/module/course/sandbox/code-runner";
+
+const limits: RunLimits = {
+  timeoutMs: 300,
+  memoryMb: 64,
+  maxOutputLength: 1000,
+};
+
+const sum = [
+  { input: "2 3", expectedOutput: "5" },
+  { input: "4 5", expectedOutput: "9" },
+];
+
+// Prints "contained" unless the expression reaches the host's process
+const probe = (expression: string) => `
+  let reached;
+  try {
+    reached = ${expression};
+  } catch {}
+  console.log(reached && typeof reached.pid === "number" ? "escaped" : "contained");
+`;
+
+const runProbe = (expression: string) =>
+  runTestCases(
+    { language: "javascript", code: probe(expression) },
+    [{ input: "", expectedOutput: "contained" }],
+    limits
+  );
+
+describe("runTestCases", () => {
+  it("runs JavaScript against every test case", async () => {
+    const results = await runTestCases(
+      {
+        language: "javascript",
+        code: `const [a, b] = input.split(" ").map(Number); console.log(a + b);`,
+      },
+      sum,
+      limits
+    );
+
+    expect(results.map((result) => result.passed)).toEqual([true, true]);
+    expect(results[1].actualOutput).toBe("9");
+  });
+
+  it("transpiles TypeScript", async () => {
+    const results = await runTestCases(
+      {
+        language: "typescript",
+        code: `const [a, b]: number[] = input.split(" ").map(Number); console.log(a + b);`,
+      },
+      sum,
+      limits
+    );
+
+    expect(results.every((result) => result.passed)).toBe(true);
+  });
+
+  it("reports syntax errors on every case", async () => {
+    const results = await runTestCases(
+      { language: "javascript", code: "console.log(" },
+      sum,
+      limits
+    );
+
+    expect(results.every((result) => !result.passed && result.error)).toBe(
+      true
+    );
+  });
+
+  it.each([
+    ["the console's Function", `console.log.constructor("return process")()`],
+    [
+      "the global's Function",
+      `this.constructor.constructor("return process")()`,
+    ],
+    [
+      "the global prototype",
+      `Object.getPrototypeOf(globalThis).constructor.constructor("return process")()`,
+    ],
+    [
+      "the input's Function",
+      `input.constructor.constructor("return process")()`,
+    ],
+    [
+      "an error's Function",
+      `(() => { try { null.x } catch (error) { return error.constructor.constructor("return process")() } })()`,
+    ],
+    ["a free process", `process`],
+    ["require", `require("child_process")`],
+    ["eval", `eval("process")`],
+  ])("keeps %s from reaching the host", async (_, expression) => {
+    const [result] = await runProbe(expression);
+
+    expect(result.actualOutput).toBe("contained");
+  });
+
+  it("has no timers or dynamic imports", async () => {
+    const [result] = await runTestCases(
+      {
+        language: "javascript",
+        code: `console.log([typeof setTimeout, typeof setInterval, typeof queueMicrotask, typeof require].join(","));`,
+      },
+      [
+        {
+          input: "",
+          expectedOutput: "undefined,undefined,undefined,undefined",
+        },
+      ],
+      limits
+    );
+
+    expect(result.passed).toBe(true);
+  });
+
+  it("times out endless loops", async () => {
+    const [result] = await runTestCases(
+      { language: "javascript", code: "while (true) {}" },
+      [{ input: "", expectedOutput: "" }],
+      limits
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.timedOut).toBe(true);
+  });
+
+  it("kills a program stuck outside the vm timeout", async () => {
+    const [result] = await runTestCases(
+      {
+        language: "javascript",
+        code: "throw { get message() { while (true) {} } };",
+      },
+      [{ input: "", expectedOutput: "" }],
+      { ...limits, timeoutMs: 100 }
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toBe("Time limit exceeded");
+  });
+
+  it("stops programs exceeding the memory limit", async () => {
+    const [result] = await runTestCases(
+      {
+        language: "javascript",
+        code: "const chunks = []; while (true) chunks.push(new Array(1e6).fill(1));",
+      },
+      [{ input: "", expectedOutput: "" }],
+      limits
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toBe("Memory limit exceeded");
+  });
+
+  it("cuts output off at the limit", async () => {
+    const [result] = await runTestCases(
+      {
+        language: "javascript",
+        code: `while (true) console.log("x".repeat(100));`,
+      },
+      [{ input: "", expectedOutput: "" }],
+      limits
+    );
+
+    expect(result.error).toBe("Output limit exceeded");
+    expect(result.actualOutput.length).toBeLessThanOrEqual(
+      limits.maxOutputLength
+    );
+  });
+
+  it("only returns strings from a tampered console", async () => {
+    const [result] = await runTestCases(
+      {
+        language: "javascript",
+        code: `Array.prototype.join = () => ({ toString: () => "hi" }); console.log("a");`,
+      },
+      [{ input: "", expectedOutput: "" }],
+      limits
+    );
+
+    expect(typeof result.actualOutput).toBe("string");
+  });
+});
+
+describe("resolveLanguage", () => {
+  it("maps aliases and rejects other languages", () => {
+    expect(resolveLanguage(" JS ")).toBe("javascript");
+    expect(resolveLanguage("ts")).toBe("typescript");
+    expect(resolveLanguage("python")).toBeNull();
+    expect(resolveLanguage()).toBeNull();
+  });
+});
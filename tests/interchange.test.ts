@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import { aikenFormat } from "../src/module/course/interchange/aiken.format";
+import { giftFormat } from "../src/module/course/interchange/gift.format";
+import { qtiFormat } from "../src/module/course/interchange/qti.format";
+import { createZip } from "../src/module/course/utils/zip";
+
+const parse = async (format: typeof giftFormat, input: string | Buffer) =>
+  format.parse(Buffer.isBuffer(input) ? input : Buffer.from(input, "utf8"));
+
+const qtiItem = (prompt: string, doctype = "") =>
+  `<?xml version="1.0"?>${doctype}
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q1" title="Capital">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>B</value></correctResponse>
+  </responseDeclaration>
+  <itemBody>
+    <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+      <prompt>${prompt}</prompt>
+      <simpleChoice identifier="A">Lagos</simpleChoice>
+      <simpleChoice identifier="B">Abuja</simpleChoice>
+    </choiceInteraction>
+  </itemBody>
+</assessmentItem>`;
+
+// Inputs a parser has to survive, reporting errors instead of throwing
+const hostileText = {
+  "an unterminated answer block": "Question {=a ~b",
+  "deeply nested braces": "{".repeat(20_000) + "}".repeat(20_000),
+  "an unterminated title": "::" + "a".repeat(200_000),
+  "a run of escapes": "\\".repeat(100_001) + "{=a}",
+  "control characters": "\u0000{\u0000}\nANSWER: \u0000",
+  "an answer line alone": "ANSWER: Z",
+  "binary data": Buffer.from(Array.from({ length: 4096 }, (_, i) => i % 256)),
+};
+
+describe("GIFT", () => {
+  it("parses questions with titles and categories", async () => {
+    const items = await parse(
+      giftFormat,
+      [
+        "$CATEGORY: $course$/Geography",
+        "",
+        "::Capital:: What is the capital of Nigeria? {=Abuja ~Lagos ~Kano}",
+        "",
+        "The sun is a star. {T}",
+      ].join("\n")
+    );
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({
+      source: "line 3",
+      title: "Capital",
+      data: { type: "single-choice", category: "Geography" },
+    });
+    expect(items[1].data).toMatchObject({ type: "true-false" });
+  });
+
+  it.each(Object.entries(hostileText))(
+    "reports %s without throwing",
+    async (_, input) => {
+      const items = await parse(giftFormat, input);
+
+      expect(Array.isArray(items)).toBe(true);
+      expect(items.every((item) => item.data || item.error)).toBe(true);
+    }
+  );
+});
+
+describe("Aiken", () => {
+  it("parses single choice questions", async () => {
+    const items = await parse(
+      aikenFormat,
+      "What is 2 + 2?\nA. 3\nB) 4\nANSWER: B\n"
+    );
+
+    expect(items).toEqual([
+      {
+        source: "line 1",
+        data: {
+          type: "single-choice",
+          question: "What is 2 + 2?",
+          options: [
+            { id: "a", text: "3", isCorrect: false, order: 0 },
+            { id: "b", text: "4", isCorrect: true, order: 1 },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("reports answers that name no option", async () => {
+    const [item] = await parse(aikenFormat, "Q?\nA. x\nB. y\nANSWER: C");
+
+    expect(item.error).toBe("ANSWER must be one of A, B");
+  });
+
+  it.each(Object.entries(hostileText))(
+    "reports %s without throwing",
+    async (_, input) => {
+      const items = await parse(aikenFormat, input);
+
+      expect(items.every((item) => item.data || item.error)).toBe(true);
+    }
+  );
+});
+
+describe("QTI", () => {
+  it("parses an item document", async () => {
+    const [item] = await parse(qtiFormat, qtiItem("Capital of Nigeria?"));
+
+    expect(item).toMatchObject({
+      title: "Capital",
+      data: { type: "single-choice", question: "Capital of Nigeria?" },
+    });
+    expect(item.data!.options[1]).toMatchObject({
+      text: "Abuja",
+      isCorrect: true,
+    });
+  });
+
+  it("parses the items of a package and skips its manifest", async () => {
+    const items = await parse(
+      qtiFormat,
+      createZip([
+        { name: "imsmanifest.xml", data: Buffer.from("<manifest/>") },
+        { name: "items/q1.xml", data: Buffer.from(qtiItem("One?")) },
+        { name: "items/q2.xml", data: Buffer.from(qtiItem("Two?")) },
+      ])
+    );
+
+    expect(items.map((item) => item.source)).toEqual([
+      "items/q1.xml",
+      "items/q2.xml",
+    ]);
+  });
+
+  it("does not resolve external entities", async () => {
+    const items = await parse(
+      qtiFormat,
+      qtiItem(
+        "&xxe;",
+        '<!DOCTYPE assessmentItem [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>'
+      )
+    );
+
+    expect(items).toEqual([
+      {
+        source: "document",
+        error: "Invalid XML: External entities are not supported",
+      },
+    ]);
+  });
+
+  it("does not expand nested entities", async () => {
+    const entities = ["<!ENTITY a0 'aaaaaaaaaa'>"];
+    for (let i = 1; i < 8; i++) {
+      entities.push(`<!ENTITY a${i} '${`&a${i - 1};`.repeat(10)}'>`);
+    }
+    const [item] = await parse(
+      qtiFormat,
+      qtiItem("&a7;", `<!DOCTYPE assessmentItem [${entities.join("")}]>`)
+    );
+
+    expect(JSON.stringify(item).length).toBeLessThan(10_000);
+  });
+
+  it("reports documents nested too deep", async () => {
+    const items = await parse(
+      qtiFormat,
+      `<a>${"<b>".repeat(50_000)}${"</b>".repeat(50_000)}</a>`
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0].error).toMatch(/^Invalid XML/);
+  });
+
+  it("reports malformed XML with its line", async () => {
+    const [item] = await parse(
+      qtiFormat,
+      "<assessmentItem>\n<oops></assessmentItem>"
+    );
+
+    expect(item.source).toMatch(/^document line \d+$/);
+    expect(item.error).toMatch(/^Invalid XML/);
+  });
+
+  it("reports a damaged package", async () => {
+    const zip = createZip([{ name: "q.xml", data: Buffer.from(qtiItem("Q")) }]);
+
+    const items = await parse(qtiFormat, zip.subarray(0, zip.length - 10));
+
+    expect(items).toEqual([
+      { source: "package", error: "Invalid zip archive" },
+    ]);
+  });
+
+  it("reports a package unpacking too large", async () => {
+    const items = await parse(
+      qtiFormat,
+      createZip([{ name: "bomb.xml", data: Buffer.alloc(30 * 1024 * 1024) }])
+    );
+
+    expect(items).toEqual([
+      { source: "package", error: "bomb.xml is too large" },
+    ]);
+  });
+});
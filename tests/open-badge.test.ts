@@ -0,0 +1,211 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  canonicalize,
+  encodePublicKey,
+  encodeStatusList,
+  IssuerKey,
+  isStatusSet,
+  signCredential,
+  SignedCredential,
+  verifyCredentialProof,
+} from "../src/module/course/utils/open-badge";
+
+// Test vector of the eddsa-jcs-2022 cryptosuite in W3C Data Integrity EdDSA
+// Cryptosuites v1.0. The seed is its secretKeyMultibase
+// z3u2en7t5LR2WtQH5PfFqMqwVHBeXouLzo6haApm8XHqvjxq without the multicodec
+// prefix.
+const SPEC_SEED = Buffer.from(
+  "c96ef9ea10c5e414c471723aff9de72c35fa5b70fae97e8832ecac7d2e2b8ed6",
+  "hex"
+);
+const SPEC_PUBLIC_KEY = "z6MkrJVnaZkeFzdQyMZu1cgjg7k1pZZ6pvBQ7XJPt4swbTQ2";
+const SPEC_PROOF_VALUE =
+  "z2HnFSSPPBzR36zdDgK8PbEHeXbR56YF24jwMpt3R1eHXQzJDMWS93FCzpvJpwTWd3GAVFuUfjoJdcnTMuVor51aX";
+const SPEC_CREDENTIAL = {
+  "@context": [
+    "https://www.w3.org/ns/credentials/v2",
+    "https://www.w3.org/ns/credentials/examples/v2",
+  ],
+  id: "urn:uuid:58172aac-d8ba-11ed-83dd-0b3aef56cc33",
+  type: ["VerifiableCredential", "AlumniCredential"],
+  name: "Alumni Credential",
+  description: "A minimum viable example of an Alumni Credential.",
+  issuer: "https://vc.example/issuers/5678",
+  validFrom: "2023-01-01T00:00:00Z",
+  credentialSubject: {
+    id: "did:example:abcdefgh",
+    alumniOf: "The School of Examples",
+  },
+};
+const SPEC_VERIFICATION_METHOD = `did:key:${SPEC_PUBLIC_KEY}#${SPEC_PUBLIC_KEY}`;
+const SPEC_CREATED = new Date("2023-02-24T23:36:38Z");
+
+// PKCS#8 DER of an Ed25519 private key is a fixed prefix and the seed
+const keyFromSeed = (seed: Buffer): IssuerKey => {
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.concat([
+      Buffer.from("302e020100300506032b657004220420", "hex"),
+      seed,
+    ]),
+    format: "der",
+    type: "pkcs8",
+  });
+  const publicKey = crypto.createPublicKey(privateKey);
+
+  return {
+    privateKey,
+    publicKey,
+    publicKeyMultibase: encodePublicKey(publicKey),
+  };
+};
+
+const specKey = keyFromSeed(SPEC_SEED);
+const signSpecCredential = () =>
+  signCredential(
+    SPEC_CREDENTIAL,
+    specKey,
+    SPEC_VERIFICATION_METHOD,
+    SPEC_CREATED
+  );
+
+describe("canonicalize", () => {
+  it("matches the RFC 8785 example", () => {
+    const value = {
+      numbers: [
+        333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001,
+      ],
+      string: "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"/",
+      literals: [null, true, false],
+    };
+
+    expect(canonicalize(value)).toBe(
+      String.raw`{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\u000f\nA'B\"\\\\\"/"}`
+    );
+  });
+
+  it("sorts keys by UTF-16 code units and drops undefined members", () => {
+    expect(
+      canonicalize({
+        "\ud83d\ude00": 1,
+        "\ufb33": 2,
+        b: undefined,
+        a: [undefined],
+      })
+    ).toBe('{"a":[null],"\ud83d\ude00":1,"\ufb33":2}');
+  });
+});
+
+describe("eddsa-jcs-2022", () => {
+  it("encodes the specification's public key", () => {
+    expect(specKey.publicKeyMultibase).toBe(SPEC_PUBLIC_KEY);
+  });
+
+  it("produces the specification's proof", () => {
+    expect(signSpecCredential().proof).toEqual({
+      type: "DataIntegrityProof",
+      cryptosuite: "eddsa-jcs-2022",
+      created: "2023-02-24T23:36:38Z",
+      verificationMethod: SPEC_VERIFICATION_METHOD,
+      proofPurpose: "assertionMethod",
+      proofValue: SPEC_PROOF_VALUE,
+    });
+  });
+
+  it("verifies the specification's credential", () => {
+    expect(verifyCredentialProof(signSpecCredential(), specKey.publicKey)).toBe(
+      true
+    );
+  });
+
+  it("round-trips a credential with a new key", () => {
+    const { privateKey } = crypto.generateKeyPairSync("ed25519");
+    const key = keyFromSeed(
+      Buffer.from(privateKey.export({ format: "jwk" }).d!, "base64url")
+    );
+
+    const signed = signCredential(
+      { ...SPEC_CREDENTIAL, name: "Course completion" },
+      key,
+      `did:key:${key.publicKeyMultibase}#${key.publicKeyMultibase}`,
+      new Date()
+    );
+
+    expect(signed.proof.created).toMatch(/^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ$/);
+    expect(verifyCredentialProof(signed, key.publicKey)).toBe(true);
+    expect(verifyCredentialProof(signed, specKey.publicKey)).toBe(false);
+  });
+
+  it.each<[string, (credential: SignedCredential) => SignedCredential]>([
+    [
+      "a changed claim",
+      (credential) => ({
+        ...credential,
+        credentialSubject: { id: "did:example:other" },
+      }),
+    ],
+    [
+      "a changed context",
+      (credential) => ({ ...credential, "@context": ["https://evil.example"] }),
+    ],
+    [
+      "a changed proof option",
+      (credential) => ({
+        ...credential,
+        proof: { ...credential.proof, created: "2024-01-01T00:00:00Z" },
+      }),
+    ],
+    [
+      "another cryptosuite",
+      (credential) => ({
+        ...credential,
+        proof: { ...credential.proof, cryptosuite: "eddsa-rdfc-2022" },
+      }),
+    ],
+    [
+      "a proof value that is not base58btc",
+      (credential) => ({
+        ...credential,
+        proof: { ...credential.proof, proofValue: "z0OIl" },
+      }),
+    ],
+    [
+      "a proof value without multibase prefix",
+      (credential) => ({
+        ...credential,
+        proof: {
+          ...credential.proof,
+          proofValue: credential.proof.proofValue!.slice(1),
+        },
+      }),
+    ],
+    [
+      "a missing proof value",
+      (credential) => ({
+        ...credential,
+        proof: { ...credential.proof, proofValue: undefined },
+      }),
+    ],
+  ])("rejects %s", (_, tamper) => {
+    expect(
+      verifyCredentialProof(tamper(signSpecCredential()), specKey.publicKey)
+    ).toBe(false);
+  });
+});
+
+describe("status list", () => {
+  it("sets exactly the given indexes", () => {
+    const list = encodeStatusList([0, 7, 8, 131071]);
+
+    expect(list.startsWith("u")).toBe(true);
+    expect(
+      [0, 1, 6, 7, 8, 9, 131070, 131071].map((index) =>
+        isStatusSet(list, index)
+      )
+    ).toEqual([true, false, false, true, true, false, false, true]);
+  });
+
+  it("reads indexes past the list as not set", () => {
+    expect(isStatusSet(encodeStatusList([]), 200_000)).toBe(false);
+  });
+});
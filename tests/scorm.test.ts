@@ -0,0 +1,200 @@
+import path from "path";
+import { ServerResponse } from "http";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  formatTimespan,
+  parseScormManifest,
+  parseTimespan,
+  resolvePackagePath,
+  SCORM_ROOT,
+  setScormHeaders,
+} from "../src/module/course/utils/scorm";
+
+const manifest = (body: string, metadata = "") => `<?xml version="1.0"?>
+<manifest identifier="course" xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  ${metadata}
+  ${body}
+</manifest>`;
+
+const organizations = `
+  <organizations default="org">
+    <organization identifier="org">
+      <title>Safety Training</title>
+      <item identifier="intro" identifierref="res-intro">
+        <title>Introduction</title>
+        <adlcp:masteryscore>80</adlcp:masteryscore>
+      </item>
+      <item identifier="unit1">
+        <title>Unit 1</title>
+        <item identifier="lesson1" identifierref="res-lesson1" parameters="page=1">
+          <title>Lesson 1</title>
+        </item>
+        <item identifier="hidden" identifierref="res-lesson1" isvisible="false">
+          <title>Hidden</title>
+        </item>
+      </item>
+    </organization>
+  </organizations>`;
+
+const resources = (href = "lesson1/index.html") => `
+  <resources>
+    <resource identifier="res-intro" type="webcontent" adlcp:scormtype="sco" href="intro.html"/>
+    <resource identifier="res-lesson1" type="webcontent" adlcp:scormtype="sco" href="${href}"/>
+  </resources>`;
+
+describe("parseScormManifest", () => {
+  it("turns top-level items into modules of launchable items", () => {
+    const parsed = parseScormManifest(
+      manifest(
+        organizations + resources(),
+        "<metadata><schema>ADL SCORM</schema><schemaversion>1.2</schemaversion></metadata>"
+      )
+    );
+
+    expect(parsed).toEqual({
+      title: "Safety Training",
+      modules: [
+        {
+          title: "Safety Training",
+          items: [
+            {
+              identifier: "intro",
+              title: "Introduction",
+              launchPath: "intro.html",
+              masteryScore: 80,
+            },
+          ],
+        },
+        {
+          title: "Unit 1",
+          items: [
+            {
+              identifier: "lesson1",
+              title: "Lesson 1",
+              launchPath: "lesson1/index.html",
+              parameters: "?page=1",
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("drops items whose resource leaves the package", () => {
+    const parsed = parseScormManifest(
+      manifest(organizations + resources("../../../etc/passwd"))
+    );
+
+    expect(parsed.modules.flatMap((module) => module.items)).toHaveLength(1);
+  });
+
+  it.each([
+    ["invalid XML", "<manifest><oops></manifest>", "is not valid XML"],
+    ["a missing manifest", "<package/>", "has no manifest element"],
+    [
+      "SCORM 2004",
+      manifest(
+        organizations + resources(),
+        "<metadata><schemaversion>2004 4th Edition</schemaversion></metadata>"
+      ),
+      "only SCORM 1.2",
+    ],
+    ["no organization", manifest(resources()), "has no organization"],
+    [
+      "nothing launchable",
+      manifest(
+        `<organizations><organization identifier="o"><item identifier="i" identifierref="missing"/></organization></organizations>`
+      ),
+      "has no launchable items",
+    ],
+  ])("rejects %s", (_, xml, message) => {
+    expect(() => parseScormManifest(xml)).toThrow(message);
+  });
+
+  it("refuses entity declarations", () => {
+    const external = `<!DOCTYPE manifest [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>${manifest(
+      organizations.replace("Safety Training", "&xxe;") + resources()
+    )}`;
+    const entities = ["<!ENTITY a0 'aaaaaaaaaa'>"];
+    for (let i = 1; i < 8; i++) {
+      entities.push(`<!ENTITY a${i} '${`&a${i - 1};`.repeat(10)}'>`);
+    }
+    const nested = `<!DOCTYPE manifest [${entities.join("")}]>${manifest(
+      organizations.replace("Safety Training", "&a7;") + resources()
+    )}`;
+
+    expect(() => parseScormManifest(external)).toThrow("is not valid XML");
+    expect(() => parseScormManifest(nested)).toThrow("is not valid XML");
+  });
+
+  it("fails on documents nested too deep", () => {
+    expect(() =>
+      parseScormManifest(
+        manifest(`${"<item>".repeat(50_000)}${"</item>".repeat(50_000)}`)
+      )
+    ).toThrow();
+  });
+});
+
+describe("resolvePackagePath", () => {
+  it.each([
+    [["a/b/../c.html"], "a/c.html"],
+    [["content\\index.html"], "content/index.html"],
+    [["base/", "", "./page.html"], "base/page.html"],
+  ])("normalizes %j", (parts, expected) => {
+    expect(resolvePackagePath(...parts)).toBe(expected);
+  });
+
+  it.each([
+    ["../escape.html"],
+    ["a/../../escape.html"],
+    ["/etc/passwd"],
+    ["..\\..\\escape.html"],
+    [".."],
+  ])("rejects %s", (name) => {
+    expect(resolvePackagePath(name)).toBeUndefined();
+  });
+});
+
+describe("CMI timespans", () => {
+  it("reads and writes HHHH:MM:SS.SS", () => {
+    expect(parseTimespan("0001:02:03.5")).toBe(3723.5);
+    expect(formatTimespan(3723.5)).toBe("0001:02:03.50");
+  });
+});
+
+describe("setScormHeaders", () => {
+  const headersFor = (filePath: string, host: string) => {
+    const res = new ServerResponse({ headers: { host } } as any);
+    (res as any).req = { headers: { host } };
+    setScormHeaders(res, filePath);
+    return res.getHeader("Content-Security-Policy");
+  };
+  const packageFile = path.join(SCORM_ROOT, "pkg", "index.html");
+
+  afterEach(() => {
+    delete process.env.SCORM_URL;
+  });
+
+  it("sandboxes package files", () => {
+    expect(headersFor(packageFile, "api.example.com")).toBe(
+      "sandbox allow-scripts allow-forms"
+    );
+  });
+
+  it("leaves other public files alone", () => {
+    expect(
+      headersFor(path.join(SCORM_ROOT, "..", "logo.png"), "api.example.com")
+    ).toBeUndefined();
+  });
+
+  it("serves packages unsandboxed on their own origin only", () => {
+    process.env.SCORM_URL = "https://scorm.example.com/scorm";
+
+    expect(headersFor(packageFile, "scorm.example.com")).toBeUndefined();
+    expect(headersFor(packageFile, "api.example.com")).toBe(
+      "sandbox allow-scripts allow-forms"
+    );
+  });
+});
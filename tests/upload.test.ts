@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { isUploadedFileUrl } from "../src/common/utils/upload";
+
+describe("isUploadedFileUrl", () => {
+  beforeEach(() => {
+    process.env.CLOUDINARY_CLOUD_NAME = "hexonest";
+  });
+  afterEach(() => {
+    delete process.env.CLOUDINARY_CLOUD_NAME;
+  });
+
+  it("accepts files of the app's cloud", () => {
+    expect(
+      isUploadedFileUrl(
+        "https://res.cloudinary.com/hexonest/raw/upload/v1/hexonest/course-resources/a.pdf"
+      )
+    ).toBe(true);
+  });
+
+  it.each([
+    ["another cloud", "https://res.cloudinary.com/other/raw/upload/a.pdf"],
+    ["a cloud name prefix", "https://res.cloudinary.com/hexonest-evil/a.pdf"],
+    ["plain http", "http://res.cloudinary.com/hexonest/raw/upload/a.pdf"],
+    [
+      "a lookalike host",
+      "https://res.cloudinary.com.evil.example/hexonest/a.pdf",
+    ],
+    [
+      "credentials in the URL",
+      "https://res.cloudinary.com@169.254.169.254/hexonest/",
+    ],
+    ["a metadata address", "http://169.254.169.254/latest/meta-data/"],
+    ["localhost", "https://localhost/hexonest/a.pdf"],
+    ["a file URL", "file:///etc/passwd"],
+    ["garbage", "not a url"],
+  ])("rejects %s", (_, url) => {
+    expect(isUploadedFileUrl(url)).toBe(false);
+  });
+
+  it("rejects everything without a configured cloud", () => {
+    delete process.env.CLOUDINARY_CLOUD_NAME;
+
+    expect(
+      isUploadedFileUrl("https://res.cloudinary.com/undefined/raw/upload/a.pdf")
+    ).toBe(false);
+  });
+});
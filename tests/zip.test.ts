@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  createZip,
+  isZip,
+  readZip,
+  ZipEntry,
+  zipStream,
+} from "../src/module/course/utils/zip";
+
+const entries: ZipEntry[] = [
+  { name: "course.json", data: Buffer.from('{"title":"Zip"}') },
+  { name: "assets/file.bin", data: Buffer.alloc(100_000, 7) },
+  { name: "empty.txt", data: Buffer.alloc(0) },
+];
+
+// Offset of the first central directory header
+const centralOffset = (zip: Buffer) =>
+  zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+
+describe("zip", () => {
+  it("reads back what it writes", async () => {
+    const zip = createZip(entries);
+
+    expect(isZip(zip)).toBe(true);
+    expect(await readZip(zip)).toEqual(entries);
+  });
+
+  it("streams the same archive it builds in memory", async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of zipStream(
+      (async function* () {
+        yield* entries;
+      })()
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks).equals(createZip(entries))).toBe(true);
+  });
+
+  it("tells zip archives from other files", () => {
+    expect(isZip(Buffer.from("PK"))).toBe(false);
+    expect(isZip(Buffer.from("<xml/>"))).toBe(false);
+  });
+
+  it("rejects archives unpacking past the total size", async () => {
+    const bomb = createZip([
+      { name: "a", data: Buffer.alloc(600_000) },
+      { name: "b", data: Buffer.alloc(600_000) },
+    ]);
+
+    await expect(readZip(bomb, { maxTotalSize: 1_000_000 })).rejects.toThrow(
+      "Zip archive is too large"
+    );
+  });
+
+  it("rejects files past the entry size", async () => {
+    const zip = createZip([{ name: "big", data: Buffer.alloc(2_000_000) }]);
+
+    await expect(readZip(zip, { maxEntrySize: 1_000_000 })).rejects.toThrow(
+      "big is too large"
+    );
+  });
+
+  it("rejects archives with too many files", async () => {
+    const zip = createZip(
+      Array.from({ length: 11 }, (_, index) => ({
+        name: `${index}.txt`,
+        data: Buffer.from("x"),
+      }))
+    );
+
+    await expect(readZip(zip, { maxEntries: 10 })).rejects.toThrow(
+      "more than 10 files"
+    );
+  });
+
+  it("does not trust the sizes an archive claims", async () => {
+    const zip = createZip([{ name: "liar", data: Buffer.alloc(5_000_000) }]);
+    zip.writeUInt32LE(10, centralOffset(zip) + 24);
+
+    await expect(readZip(zip)).rejects.toThrow(
+      "liar is damaged or larger than it claims"
+    );
+  });
+
+  it.each([
+    ["a truncated archive", (zip: Buffer) => zip.subarray(0, zip.length - 30)],
+    [
+      "a central directory past the end",
+      (zip: Buffer) => {
+        zip.writeUInt32LE(0xfffffff0, zip.length - 6);
+        return zip;
+      },
+    ],
+    [
+      "a local header past the end",
+      (zip: Buffer) => {
+        zip.writeUInt32LE(0xfffffff0, centralOffset(zip) + 42);
+        return zip;
+      },
+    ],
+    [
+      "a name past the end",
+      (zip: Buffer) => {
+        zip.writeUInt16LE(0xffff, centralOffset(zip) + 28);
+        return zip;
+      },
+    ],
+    [
+      "file data past the end",
+      (zip: Buffer) => {
+        zip.writeUInt32LE(0xfffffff0, centralOffset(zip) + 20);
+        return zip;
+      },
+    ],
+    ["random bytes", () => Buffer.from("PK\u0003\u0004 not really a zip")],
+  ])("rejects %s as invalid", async (_, corrupt) => {
+    await expect(readZip(corrupt(createZip(entries)))).rejects.toThrow(
+      "Invalid zip archive"
+    );
+  });
+
+  it("rejects damaged deflate data", async () => {
+    const zip = createZip([{ name: "data", data: Buffer.alloc(1000, 1) }]);
+    zip.fill(0xff, 30 + "data".length, 30 + "data".length + 4);
+
+    await expect(readZip(zip)).rejects.toThrow("data is damaged");
+  });
+
+  it("rejects unsupported compression methods", async () => {
+    const zip = createZip([{ name: "x", data: Buffer.from("x") }]);
+    zip.writeUInt16LE(12, centralOffset(zip) + 10); // bzip2
+
+    await expect(readZip(zip)).rejects.toThrow("Unsupported compression in x");
+  });
+});